@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
+import { BrokenLinkDiagnosticsProvider } from '../providers/BrokenLinkDiagnosticsProvider';
+
+/**
+ * Rebuild the backlink index and report every unresolved memo link in the Problems panel
+ */
+export async function checkBrokenLinks(
+  backlinkService: IBacklinkService,
+  diagnosticsProvider: BrokenLinkDiagnosticsProvider
+): Promise<void> {
+  try {
+    const brokenLinks = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: 'Checking memo links...'
+    }, async () => {
+      await backlinkService.buildIndex();
+      return backlinkService.getBrokenLinks();
+    });
+
+    diagnosticsProvider.reportBrokenLinks(brokenLinks);
+
+    if (brokenLinks.length === 0) {
+      vscode.window.showInformationMessage('No broken memo links found.');
+      return;
+    }
+
+    const fileCount = new Set(brokenLinks.map(link => link.sourceFile)).size;
+    const selection = await vscode.window.showWarningMessage(
+      `Found ${brokenLinks.length} broken link${brokenLinks.length !== 1 ? 's' : ''} in ${fileCount} memo${fileCount !== 1 ? 's' : ''}.`,
+      'Show Problems'
+    );
+
+    if (selection === 'Show Problems') {
+      await vscode.commands.executeCommand('workbench.actions.view.problems');
+    }
+  } catch (error) {
+    console.error('Error checking broken links:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to check links: ${message}`);
+  }
+}
@@ -3,12 +3,13 @@ import { VsCodeConfigService } from '../services/implementations/VsCodeConfigSer
 import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
 import { TemplateService } from '../services/implementations/TemplateService';
 import { MetadataService } from '../services/implementations/MetadataService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
 
-export async function createMemo(): Promise<void> {
+export async function createMemo(backlinkService?: IBacklinkService): Promise<void> {
   try {
     const fileService = new VsCodeFileService();
     const configService = new VsCodeConfigService(fileService);
-    const workspaceService = new VsCodeWorkspaceService();
+    const workspaceService = new VsCodeWorkspaceService(backlinkService);
     const templateService = new TemplateService(fileService, workspaceService);
     const metadataService = new MetadataService();
 
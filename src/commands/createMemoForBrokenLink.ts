@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { CreateMemoUseCase, VsCodeWorkspaceService } from '../usecases/CreateMemoUseCase';
+import { VsCodeConfigService } from '../services/implementations/VsCodeConfigService';
+import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
+import { TemplateService } from '../services/implementations/TemplateService';
+import { MetadataService } from '../services/implementations/MetadataService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
+import { getBrokenLinkName } from '../providers/BrokenLinkDiagnosticsProvider';
+import { findMemoLinkAt, formatWikiLink, formatMarkdownLink, renameWikiTarget } from '../utils/linkUtils';
+import { calculateRelativePath, resolveRelativePath, normalizePath } from '../utils/pathUtils';
+
+/**
+ * Create the memo a broken link points at from a chosen memo type,
+ * then re-point the link if the new memo ended up elsewhere
+ * @param backlinkService Index used to resolve the link after creation
+ * @param uri Document containing the broken link
+ * @param range Range of the broken link
+ */
+export async function createMemoForBrokenLink(
+  backlinkService: IBacklinkService,
+  uri: vscode.Uri,
+  range: vscode.Range
+): Promise<void> {
+  try {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const link = findMemoLinkAt(document.lineAt(range.start.line).text, range.start.character);
+    if (!link) {
+      vscode.window.showErrorMessage('No memo link found at this position.');
+      return;
+    }
+
+    const fileService = new VsCodeFileService();
+    const configService = new VsCodeConfigService(fileService);
+    const workspaceService = new VsCodeWorkspaceService(backlinkService);
+    const templateService = new TemplateService(fileService, workspaceService);
+    const metadataService = new MetadataService();
+
+    const config = await configService.loadConfig();
+    if (config.memoTypes.length === 0) {
+      vscode.window.showErrorMessage('No memo types configured.');
+      return;
+    }
+
+    const title = getBrokenLinkName(link);
+    const selected = await vscode.window.showQuickPick(
+      config.memoTypes.map(memoType => ({ label: memoType.name, memoType })),
+      { placeHolder: `Select memo type for "${title}"` }
+    );
+    if (!selected) {
+      return;
+    }
+
+    const useCase = new CreateMemoUseCase(configService, fileService, templateService, workspaceService, metadataService);
+    const createdPath = await useCase.execute(selected.memoType.name, title);
+    if (!createdPath) {
+      return;
+    }
+
+    await backlinkService.updateFileBacklinks(createdPath);
+
+    // Templates decide where the memo lives, so the link may need to follow it
+    const resolvedPath = link.kind === 'wiki'
+      ? backlinkService.resolveWikiLink(link.target, uri.fsPath)
+      : resolveRelativePath(uri.fsPath, link.target);
+    if (resolvedPath && normalizePath(resolvedPath) === normalizePath(createdPath)) {
+      return;
+    }
+
+    const newLink = link.kind === 'wiki'
+      ? formatWikiLink(renameWikiTarget(link.target, createdPath), link.text !== link.target ? link.text : undefined, link.anchor)
+      : formatMarkdownLink(link.text, calculateRelativePath(uri.fsPath, createdPath), link.anchor);
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, new vscode.Range(range.start.line, link.start, range.start.line, link.end), newLink);
+    await vscode.workspace.applyEdit(edit);
+  } catch (error) {
+    console.error('Error creating memo for broken link:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to create memo: ${message}`);
+  }
+}
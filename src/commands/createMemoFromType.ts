@@ -3,9 +3,10 @@ import { VsCodeConfigService } from '../services/implementations/VsCodeConfigSer
 import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
 import { TemplateService } from '../services/implementations/TemplateService';
 import { MetadataService } from '../services/implementations/MetadataService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
 import { MemoTreeItem } from '../views/MemoTreeDataProvider';
 
-export async function createMemoFromType(treeItem: MemoTreeItem): Promise<void> {
+export async function createMemoFromType(treeItem: MemoTreeItem, backlinkService?: IBacklinkService): Promise<void> {
   try {
     // Ensure we have a memo type
     if (!treeItem.memoType) {
@@ -16,7 +17,7 @@ export async function createMemoFromType(treeItem: MemoTreeItem): Promise<void>
 
     const fileService = new VsCodeFileService();
     const configService = new VsCodeConfigService(fileService);
-    const workspaceService = new VsCodeWorkspaceService();
+    const workspaceService = new VsCodeWorkspaceService(backlinkService);
     const templateService = new TemplateService(fileService, workspaceService);
     const metadataService = new MetadataService();
 
@@ -3,16 +3,18 @@ import { VsCodeConfigService } from '../services/implementations/VsCodeConfigSer
 import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
 import { TemplateService } from '../services/implementations/TemplateService';
 import { MetadataService } from '../services/implementations/MetadataService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
 
 /**
  * Creates a memo of a specific type by name
  * @param memoTypeName The name of the memo type to create
+ * @param backlinkService Memos to offer for memoLink variables
  */
-export async function createSpecificMemoType(memoTypeName: string): Promise<void> {
+export async function createSpecificMemoType(memoTypeName: string, backlinkService?: IBacklinkService): Promise<void> {
   try {
     const fileService = new VsCodeFileService();
     const configService = new VsCodeConfigService(fileService);
-    const workspaceService = new VsCodeWorkspaceService();
+    const workspaceService = new VsCodeWorkspaceService(backlinkService);
     const templateService = new TemplateService(fileService, workspaceService);
     const metadataService = new MetadataService();
 
@@ -33,8 +35,8 @@ export async function createSpecificMemoType(memoTypeName: string): Promise<void
  * @param memoTypeName The name of the memo type
  * @returns A command function that creates a memo of the specified type
  */
-export function createMemoTypeCommand(memoTypeName: string): () => Promise<void> {
+export function createMemoTypeCommand(memoTypeName: string, backlinkService?: IBacklinkService): () => Promise<void> {
   return async () => {
-    await createSpecificMemoType(memoTypeName);
+    await createSpecificMemoType(memoTypeName, backlinkService);
   };
 }
\ No newline at end of file
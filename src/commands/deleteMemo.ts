@@ -2,8 +2,21 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { MemoTreeItem } from '../views/MemoTreeDataProvider';
 import { MemoEvents } from '../events/MemoEvents';
+import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
+import { ILinkUpdateService, LineEdit, LinkRemovalMode } from '../services/interfaces/ILinkUpdateService';
+import { ITrashService } from '../services/interfaces/ITrashService';
+import { restoreDeletedMemo } from './restoreDeletedMemo';
 
-export async function deleteMemo(treeItem: MemoTreeItem): Promise<void> {
+// Inbound links listed in the confirmation before the rest are summarized
+const MAX_LISTED_LINKS = 10;
+
+export async function deleteMemo(
+  backlinkService: IBacklinkService,
+  linkUpdateService: ILinkUpdateService,
+  trashService: ITrashService,
+  treeItem: MemoTreeItem
+): Promise<void> {
   try {
     if (!treeItem.filePath) {
       vscode.window.showErrorMessage('Cannot delete: Invalid memo file.');
@@ -12,32 +25,68 @@ export async function deleteMemo(treeItem: MemoTreeItem): Promise<void> {
 
     const filePath = treeItem.filePath;
     const fileName = path.basename(filePath);
+    const fileService = new VsCodeFileService();
+
+    if (!(await fileService.exists(filePath))) {
+      vscode.window.showWarningMessage(`File "${fileName}" not found. It may have already been deleted.`);
+      // Still fire events to refresh the tree
+      MemoEvents.getInstance().fireMemoDeleted(filePath);
+      return;
+    }
+
+    // Links from other memos, listed so the user knows what will break
+    const backlinks = (await backlinkService.getBacklinks(filePath)).filter(backlink => backlink.sourceFile !== filePath);
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+    const linkLines = backlinks.slice(0, MAX_LISTED_LINKS).map(backlink =>
+      `${workspaceRoot ? path.relative(workspaceRoot, backlink.sourceFile) : backlink.sourceFile}:${backlink.sourceLine}`
+    );
+    if (backlinks.length > MAX_LISTED_LINKS) {
+      linkLines.push(`...and ${backlinks.length - MAX_LISTED_LINKS} more`);
+    }
+
+    const trashNote = 'The memo will be moved to .vsmemo/trash. Use "Restore Deleted Memo" to bring it back.';
+    const sourceCount = new Set(backlinks.map(backlink => backlink.sourceFile)).size;
+    const detail = backlinks.length > 0
+      ? `${backlinks.length} link${backlinks.length !== 1 ? 's' : ''} in ${sourceCount} memo${sourceCount !== 1 ? 's' : ''} point to it:\n${linkLines.join('\n')}\n\n${trashNote}`
+      : trashNote;
+
+    const deleteOptions: Array<{ title: string; mode?: LinkRemovalMode }> = [{ title: 'Delete' }];
+    if (backlinks.length > 0) {
+      deleteOptions.push(
+        { title: 'Delete and Unlink References', mode: 'remove' },
+        { title: 'Delete and Replace Links with Text', mode: 'plainText' }
+      );
+    }
 
     // Confirm deletion with user
     const confirmDelete = await vscode.window.showWarningMessage(
       `Are you sure you want to delete "${fileName}"?`,
-      {
-        modal: true,
-        detail: 'This action cannot be undone. The memo file will be permanently deleted.'
-      },
-      'Delete',
-      'Cancel'
+      { modal: true, detail },
+      ...deleteOptions
     );
 
-    if (confirmDelete !== 'Delete') {
+    if (!confirmDelete) {
       return; // User cancelled
     }
 
     try {
-      // Delete the file
-      await vscode.workspace.fs.delete(vscode.Uri.file(filePath));
+      let linksUpdated = 0;
+      let edits: LineEdit[] = [];
+      if (confirmDelete.mode) {
+        const removal = await linkUpdateService.removeLinksTo(filePath, confirmDelete.mode);
+        linksUpdated = removal.linksUpdated;
+        edits = removal.edits;
+        if (removal.errors.length > 0) {
+          vscode.window.showErrorMessage(`Link update errors:\n${removal.errors.join('\n')}`);
+        }
+      }
+
+      const trashedMemo = await trashService.trash(filePath, edits);
 
       // Fire memo events for tree refresh
       const memoEvents = MemoEvents.getInstance();
       memoEvents.fireMemoDeleted(filePath);
 
-      vscode.window.showInformationMessage(`Memo "${fileName}" deleted successfully`);
-
       // Close the file if it's currently open
       const openEditors = vscode.window.tabGroups.all.flatMap(group => group.tabs);
       const targetEditor = openEditors.find(tab =>
@@ -49,21 +98,18 @@ export async function deleteMemo(treeItem: MemoTreeItem): Promise<void> {
         await vscode.window.tabGroups.close(targetEditor);
       }
 
+      let message = `Memo "${fileName}" moved to trash`;
+      if (linksUpdated > 0) {
+        message += ` • Updated ${linksUpdated} link${linksUpdated !== 1 ? 's' : ''}`;
+      }
+      const action = await vscode.window.showInformationMessage(message, 'Undo');
+      if (action === 'Undo') {
+        await restoreDeletedMemo(trashService, trashedMemo.id);
+      }
+
     } catch (error) {
       console.error('Error during delete operation:', error);
-
-      if (error instanceof vscode.FileSystemError) {
-        if (error.code === 'FileNotFound') {
-          vscode.window.showWarningMessage(`File "${fileName}" not found. It may have already been deleted.`);
-          // Still fire events to refresh the tree
-          const memoEvents = MemoEvents.getInstance();
-          memoEvents.fireMemoDeleted(filePath);
-        } else {
-          vscode.window.showErrorMessage(`Failed to delete memo: ${error.message}`);
-        }
-      } else {
-        vscode.window.showErrorMessage(`Failed to delete memo: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+      vscode.window.showErrorMessage(`Failed to delete memo: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
   } catch (error) {
@@ -71,4 +117,4 @@ export async function deleteMemo(treeItem: MemoTreeItem): Promise<void> {
     const message = error instanceof Error ? error.message : 'Unknown error occurred';
     vscode.window.showErrorMessage(`Failed to delete memo: ${message}`);
   }
-}
\ No newline at end of file
+}
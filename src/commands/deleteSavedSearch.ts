@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import { ISavedSearchService } from '../services/interfaces/ISavedSearchService';
+import { SavedSearchesView, SavedSearchTreeItem } from '../views/SavedSearchesView';
+
+export async function deleteSavedSearch(
+  savedSearchService: ISavedSearchService,
+  savedSearchesView: SavedSearchesView,
+  treeItem: SavedSearchTreeItem
+): Promise<void> {
+  try {
+    if (!treeItem?.savedSearch) {
+      vscode.window.showErrorMessage('Cannot delete: Invalid saved search.');
+      return;
+    }
+
+    const name = treeItem.savedSearch.name;
+
+    // Saved searches are shared through .vsmemo/config.json, so confirm first
+    const confirmDelete = await vscode.window.showWarningMessage(
+      `Are you sure you want to delete the saved search "${name}"?`,
+      {
+        modal: true,
+        detail: 'The search is removed from .vsmemo/config.json for everyone sharing this workspace. Memos are not affected.'
+      },
+      'Delete',
+      'Cancel'
+    );
+
+    if (confirmDelete !== 'Delete') {
+      return; // User cancelled
+    }
+
+    await savedSearchService.deleteSavedSearch(name);
+    savedSearchesView.refresh();
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to delete saved search: ${message}`);
+  }
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { CreateMemoUseCase, VsCodeWorkspaceService } from '../usecases/CreateMemoUseCase';
+import { VsCodeConfigService } from '../services/implementations/VsCodeConfigService';
+import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
+import { TemplateService } from '../services/implementations/TemplateService';
+import { MetadataService } from '../services/implementations/MetadataService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
+import { formatMarkdownLink } from '../utils/linkUtils';
+import { calculateRelativePath } from '../utils/pathUtils';
+import { suggestTitleFromText } from '../utils/stringUtils';
+
+/**
+ * Move the selected text into a new memo of a chosen type and link to it in its place
+ * @param backlinkService Index updated with the new memo and the link to it
+ * @param uri Document to extract from (defaults to the active editor)
+ * @param range Text to extract (defaults to the selection)
+ */
+export async function extractToNewMemo(
+  backlinkService: IBacklinkService,
+  uri?: vscode.Uri,
+  range?: vscode.Range
+): Promise<void> {
+  try {
+    const editor = vscode.window.activeTextEditor;
+    const document = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document;
+    const selection = range || (editor && document === editor.document ? editor.selection : undefined);
+    if (!document || !selection || selection.isEmpty) {
+      vscode.window.showErrorMessage('Select the text to extract to a new memo.');
+      return;
+    }
+    const text = document.getText(selection);
+
+    const fileService = new VsCodeFileService();
+    const configService = new VsCodeConfigService(fileService);
+    const workspaceService = new VsCodeWorkspaceService(backlinkService);
+    const templateService = new TemplateService(fileService, workspaceService);
+    const metadataService = new MetadataService();
+
+    const config = await configService.loadConfig();
+    if (config.memoTypes.length === 0) {
+      vscode.window.showErrorMessage('No memo types configured.');
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      config.memoTypes.map(memoType => ({ label: memoType.name, memoType })),
+      { placeHolder: 'Select memo type for the extracted text' }
+    );
+    if (!selected) {
+      return;
+    }
+
+    const title = await vscode.window.showInputBox({
+      prompt: 'Enter memo title',
+      value: suggestTitleFromText(text),
+      validateInput: value => value.trim() ? undefined : 'Enter a title'
+    });
+    if (!title) {
+      return;
+    }
+
+    // Offer the source memo's tags, all picked by default
+    let tags: string[] = [];
+    const sourceTags = metadataService.extractMetadata(document.getText())?.special?.tags || [];
+    if (sourceTags.length > 0) {
+      const picked = await vscode.window.showQuickPick(
+        sourceTags.map(tag => ({ label: tag, picked: true })),
+        { placeHolder: 'Carry over tags to the new memo', canPickMany: true }
+      );
+      if (!picked) {
+        return;
+      }
+      tags = picked.map(item => item.label);
+    }
+
+    const useCase = new CreateMemoUseCase(configService, fileService, templateService, workspaceService, metadataService);
+    const createdPath = await useCase.execute(selected.memoType.name, title.trim(), undefined, { body: text, tags });
+    if (!createdPath) {
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, selection, formatMarkdownLink(title.trim(), calculateRelativePath(document.uri.fsPath, createdPath)));
+    await vscode.workspace.applyEdit(edit);
+
+    // Save so the index (and the file watcher) see the new link
+    await document.save();
+    await backlinkService.updateFileBacklinks(createdPath);
+    await backlinkService.updateFileBacklinks(document.uri.fsPath);
+  } catch (error) {
+    console.error('Error extracting to new memo:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to extract to new memo: ${message}`);
+  }
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { MemoTreeDataProvider } from '../views/MemoTreeDataProvider';
+
+interface GroupByItem extends vscode.QuickPickItem {
+  action: 'set' | 'input' | 'reset';
+  groupBy?: string;
+}
+
+export async function groupMemoExplorerBy(memoTreeProvider: MemoTreeDataProvider): Promise<void> {
+  try {
+    const fields = await memoTreeProvider.getKnownFields();
+
+    const items: GroupByItem[] = [
+      { label: '$(folder) Directory', description: 'Group memos by their folders', action: 'set', groupBy: '' },
+      ...fields.map(field => ({ label: `$(symbol-field) ${field}`, action: 'set' as const, groupBy: field })),
+      { label: '$(edit) Other field...', description: 'Enter a frontmatter field', action: 'input' },
+      { label: '$(settings-gear) Use config.json', description: 'metadata.treeViewDisplay.groupBy', action: 'reset' }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Group memos in each memo type by...'
+    });
+    if (!selected) {
+      return;
+    }
+
+    let groupBy = selected.groupBy;
+    if (selected.action === 'input') {
+      const input = await vscode.window.showInputBox({
+        prompt: 'Frontmatter field to group by',
+        placeHolder: 'e.g. status',
+        validateInput: value => value.trim() ? null : 'Field name cannot be empty'
+      });
+      if (input === undefined) {
+        return;
+      }
+      groupBy = input.trim();
+    }
+
+    const display = { ...memoTreeProvider.getDisplayOverride() };
+    if (selected.action === 'reset') {
+      delete display.groupBy;
+    } else {
+      display.groupBy = groupBy;
+    }
+    await memoTreeProvider.setDisplayOverride(display);
+  } catch (error) {
+    console.error('Error grouping memo explorer:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to group memos: ${message}`);
+  }
+}
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import { TaskGroupBy, TaskTreeView } from '../views/TaskTreeView';
+
+interface GroupByItem extends vscode.QuickPickItem {
+  groupBy: TaskGroupBy;
+}
+
+export async function groupTasksBy(taskTreeView: TaskTreeView): Promise<void> {
+  try {
+    const current = taskTreeView.getGroupBy();
+    const items: GroupByItem[] = [
+      { label: '$(file) Memo', description: 'Tasks under the memo they are in', groupBy: 'memo' },
+      { label: '$(calendar) Due Date', description: 'Overdue, today, upcoming and no due date', groupBy: 'due' },
+      { label: '$(tag) Tag', description: 'Tasks under each of their #tags', groupBy: 'tag' }
+    ];
+    const currentItem = items.find(item => item.groupBy === current);
+    if (currentItem) {
+      currentItem.detail = 'Current grouping';
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Group tasks by...'
+    });
+    if (!selected) {
+      return;
+    }
+
+    await taskTreeView.setGroupBy(selected.groupBy);
+  } catch (error) {
+    console.error('Error grouping tasks:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to group tasks: ${message}`);
+  }
+}
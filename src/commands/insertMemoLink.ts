@@ -4,6 +4,7 @@ import { VsCodeConfigService } from '../services/implementations/VsCodeConfigSer
 import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
 import { isValidMemoFile, extractFileNameWithoutExtension } from '../utils/fileUtils';
 import { calculateRelativePath } from '../utils/pathUtils';
+import { parseFrontmatter } from '../utils/frontmatterUtils';
 
 export async function insertMemoLink(): Promise<void> {
   try {
@@ -119,13 +120,9 @@ async function collectMemoFiles(
 
 function extractTitleFromContent(content: string, fileName: string, fileExtensions: string[]): string {
   // Try to get title from frontmatter first
-  const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/);
-  if (frontmatterMatch) {
-    const frontmatterText = frontmatterMatch[1];
-    const titleMatch = frontmatterText.match(/^title:\s*(.*)$/m);
-    if (titleMatch) {
-      return titleMatch[1].trim();
-    }
+  const frontmatter = parseFrontmatter(content);
+  if (typeof frontmatter?.title === 'string' && frontmatter.title.trim()) {
+    return frontmatter.title.trim();
   }
 
   // Try to extract from first heading
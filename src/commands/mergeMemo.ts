@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MemoTreeItem } from '../views/MemoTreeDataProvider';
+import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
+import { ILinkUpdateService } from '../services/interfaces/ILinkUpdateService';
+import { MemoEvents } from '../events/MemoEvents';
+import { parseFrontmatter, splitFrontmatter, updateFrontmatter } from '../utils/frontmatterUtils';
+import { extractFrontmatterTitle, rebaseMarkdownLinks } from '../utils/linkUtils';
+import { FrontmatterConflict, MergeMode, mergeFrontmatter, mergeMemoBodies } from '../utils/mergeUtils';
+
+/**
+ * Merge a memo into another one: its content is added to the target, frontmatter tags and
+ * fields are combined, links to it are redirected to the target and it is deleted
+ * @param treeItem Memo to merge (defaults to the active editor)
+ */
+export async function mergeMemo(
+  backlinkService: IBacklinkService,
+  linkUpdateService: ILinkUpdateService,
+  treeItem?: MemoTreeItem
+): Promise<void> {
+  try {
+    const editor = vscode.window.activeTextEditor;
+    const sourcePath = treeItem?.filePath
+      || (editor?.document.uri.scheme === 'file' && editor.document.languageId === 'markdown' ? editor.document.uri.fsPath : undefined);
+    if (!sourcePath) {
+      vscode.window.showErrorMessage('Open a memo or select one in the memo explorer to merge.');
+      return;
+    }
+
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+    const targets = backlinkService.getMemoFiles()
+      .filter(memo => memo.filePath !== sourcePath)
+      .map(memo => ({
+        label: memo.title || path.basename(memo.filePath, path.extname(memo.filePath)),
+        description: workspaceRoot ? path.relative(workspaceRoot, memo.filePath) : memo.filePath,
+        filePath: memo.filePath
+      }));
+    if (targets.length === 0) {
+      vscode.window.showInformationMessage('No other memos to merge into.');
+      return;
+    }
+
+    const sourceName = path.basename(sourcePath);
+    const target = await vscode.window.showQuickPick(targets, {
+      placeHolder: `Merge "${sourceName}" into...`,
+      matchOnDescription: true
+    });
+    if (!target) {
+      return;
+    }
+
+    const mode = await vscode.window.showQuickPick(
+      [
+        { label: 'Append', detail: 'Add the memo at the end of the target under its own heading', mode: 'append' as MergeMode },
+        { label: 'Interleave', detail: 'Add sections to the matching headings of the target and append the rest', mode: 'interleave' as MergeMode }
+      ],
+      { placeHolder: 'How should the content be merged?' }
+    );
+    if (!mode) {
+      return;
+    }
+
+    const targetName = path.basename(target.filePath);
+    const confirm = await vscode.window.showWarningMessage(
+      `Merge "${sourceName}" into "${targetName}"?`,
+      {
+        modal: true,
+        detail: `Links to "${sourceName}" will point at "${targetName}", and "${sourceName}" will be deleted.`
+      },
+      'Merge'
+    );
+    if (confirm !== 'Merge') {
+      return;
+    }
+
+    // Merge what is in the editors, not what was last saved
+    for (const document of vscode.workspace.textDocuments) {
+      if (document.isDirty && (document.uri.fsPath === sourcePath || document.uri.fsPath === target.filePath)) {
+        await document.save();
+      }
+    }
+
+    const fileService = new VsCodeFileService();
+    const sourceContent = await fileService.readFile(sourcePath);
+    const targetContent = await fileService.readFile(target.filePath);
+
+    const { updates, conflicts } = mergeFrontmatter(parseFrontmatter(targetContent) || {}, parseFrontmatter(sourceContent) || {});
+    for (const conflict of conflicts) {
+      const value = await resolveConflict(conflict, sourceName, targetName);
+      if (value === undefined) {
+        return;
+      }
+      updates[conflict.key] = value;
+    }
+
+    const sourceTitle = extractFrontmatterTitle(sourceContent);
+    const sourceBlock = splitFrontmatter(sourceContent);
+    const targetBlock = splitFrontmatter(targetContent);
+    const sourceBody = rebaseMarkdownLinks(sourceBlock ? sourceBlock.body : sourceContent, sourcePath, target.filePath).content;
+    const targetBody = targetBlock ? targetBlock.body : targetContent;
+
+    const mergedBody = mergeMemoBodies(
+      targetBody,
+      sourceBody,
+      sourceTitle || path.basename(sourcePath, path.extname(sourcePath)),
+      mode.mode
+    );
+    const merged = updateFrontmatter(targetContent.slice(0, targetContent.length - targetBody.length) + mergedBody, updates);
+
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Merging memos and updating links...',
+      cancellable: false
+    }, async (progress) => {
+      progress.report({ increment: 30, message: 'Writing merged memo...' });
+      await fileService.writeFile(target.filePath, merged);
+      // Index the merged memo so links it took over from the source are redirected too
+      await backlinkService.updateFileBacklinks(target.filePath);
+
+      progress.report({ increment: 40, message: 'Redirecting links...' });
+      const updateResult = await linkUpdateService.redirectLinks(sourcePath, target.filePath, sourceTitle);
+
+      progress.report({ increment: 30, message: 'Deleting merged memo...' });
+      await fileService.deleteFile(sourcePath);
+
+      const openTab = vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .find(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.fsPath === sourcePath);
+      if (openTab) {
+        await vscode.window.tabGroups.close(openTab);
+      }
+
+      const memoEvents = MemoEvents.getInstance();
+      memoEvents.fireMemoDeleted(sourcePath);
+      memoEvents.fireMemoModified(target.filePath);
+
+      await fileService.openFile(target.filePath);
+
+      let message = `Merged "${sourceName}" into "${targetName}"`;
+      if (updateResult.filesUpdated > 0) {
+        message += ` • Updated ${updateResult.linksUpdated} link${updateResult.linksUpdated !== 1 ? 's' : ''} in ${updateResult.filesUpdated} file${updateResult.filesUpdated !== 1 ? 's' : ''}`;
+      }
+      if (updateResult.errors.length > 0) {
+        message += ` • ${updateResult.errors.length} error${updateResult.errors.length !== 1 ? 's' : ''} occurred`;
+      }
+      vscode.window.showInformationMessage(message);
+
+      if (updateResult.errors.length > 0) {
+        vscode.window.showErrorMessage(`Link update errors:\n${updateResult.errors.join('\n')}`);
+      }
+    });
+  } catch (error) {
+    console.error('Error merging memos:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to merge memos: ${message}`);
+  }
+}
+
+/**
+ * Ask which value to keep for a field both memos set
+ * @returns The chosen value, or undefined if cancelled
+ */
+async function resolveConflict(conflict: FrontmatterConflict, sourceName: string, targetName: string): Promise<unknown> {
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: formatValue(conflict.targetValue), description: `from ${targetName}`, value: conflict.targetValue },
+      { label: formatValue(conflict.sourceValue), description: `from ${sourceName}`, value: conflict.sourceValue }
+    ],
+    { placeHolder: `Both memos set "${conflict.key}". Which value should the merged memo keep?` }
+  );
+  return picked?.value;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
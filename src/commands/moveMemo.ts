@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MemoTreeItem } from '../views/MemoTreeDataProvider';
+import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
+import { VsCodeConfigService } from '../services/implementations/VsCodeConfigService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
+import { ILinkUpdateService } from '../services/interfaces/ILinkUpdateService';
+import { MoveDestination, MoveMemoUseCase } from '../usecases/MoveMemoUseCase';
+import { MemoEvents } from '../events/MemoEvents';
+
+/**
+ * Move the selected memos (or the open memo) to a folder of a memo type
+ * @param treeItem Memo the command was run on
+ * @param selectedItems All memos selected in the explorer
+ */
+export async function moveMemo(
+  backlinkService: IBacklinkService,
+  linkUpdateService: ILinkUpdateService,
+  treeItem?: MemoTreeItem,
+  selectedItems?: MemoTreeItem[]
+): Promise<void> {
+  try {
+    const items = selectedItems && selectedItems.length > 0 ? selectedItems : treeItem ? [treeItem] : [];
+    let filePaths = items.filter(item => item.filePath && !item.isDirectory).map(item => item.filePath!);
+    if (filePaths.length === 0) {
+      const document = vscode.window.activeTextEditor?.document;
+      if (document?.uri.scheme === 'file' && document.languageId === 'markdown') {
+        filePaths = [document.uri.fsPath];
+      }
+    }
+    if (filePaths.length === 0) {
+      vscode.window.showErrorMessage('Open a memo or select memos in the memo explorer to move.');
+      return;
+    }
+
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot) {
+      vscode.window.showErrorMessage('No workspace folder is open.');
+      return;
+    }
+
+    const config = await new VsCodeConfigService(new VsCodeFileService()).loadConfig();
+    const subject = filePaths.length === 1 ? `"${path.basename(filePaths[0])}"` : `${filePaths.length} memos`;
+
+    const selectedType = await vscode.window.showQuickPick(
+      config.memoTypes.map(memoType => ({
+        label: memoType.name,
+        description: path.join(config.baseDir, memoType.baseDir || '.'),
+        memoType
+      })),
+      { placeHolder: `Move ${subject} to memo type` }
+    );
+    if (!selectedType) {
+      return;
+    }
+
+    // Folders below the memo type's directory that already hold memos
+    const typeDir = path.join(workspaceRoot, config.baseDir, selectedType.memoType.baseDir || '.');
+    const folders = new Set<string>(['']);
+    for (const memo of backlinkService.getMemoFiles()) {
+      const relativeDir = path.relative(typeDir, path.dirname(memo.filePath));
+      if (!relativeDir.startsWith('..') && !path.isAbsolute(relativeDir)) {
+        folders.add(relativeDir);
+      }
+    }
+
+    const newFolderItem = { label: '$(new-folder) New Folder...', folder: undefined as string | undefined };
+    const selectedFolder = await vscode.window.showQuickPick(
+      [
+        ...Array.from(folders).sort().map(folder => ({
+          label: `$(folder) ${folder || selectedType.memoType.name}`,
+          description: path.join(config.baseDir, selectedType.memoType.baseDir || '.', folder),
+          folder: folder as string | undefined
+        })),
+        newFolderItem
+      ],
+      { placeHolder: `Move ${subject} to folder` }
+    );
+    if (!selectedFolder) {
+      return;
+    }
+
+    let folder = selectedFolder.folder;
+    if (folder === undefined) {
+      folder = await vscode.window.showInputBox({
+        prompt: `New folder below ${path.join(config.baseDir, selectedType.memoType.baseDir || '.')}`,
+        validateInput: value => {
+          if (!value.trim()) {
+            return 'Folder name cannot be empty';
+          }
+          if (path.isAbsolute(value) || path.normalize(value).startsWith('..')) {
+            return 'Folder must be inside the memo type directory';
+          }
+          return null;
+        }
+      });
+      if (!folder) {
+        return;
+      }
+    }
+
+    await moveMemosTo(linkUpdateService, filePaths, {
+      directory: path.join(typeDir, folder.trim()),
+      memoTypeId: selectedType.memoType.id
+    });
+  } catch (error) {
+    console.error('Error moving memo:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to move memo: ${message}`);
+  }
+}
+
+/**
+ * Move memos to a destination, updating links, open editors and the explorer
+ */
+export async function moveMemosTo(
+  linkUpdateService: ILinkUpdateService,
+  filePaths: string[],
+  destination: MoveDestination
+): Promise<void> {
+  try {
+    // Move what is in the editors, not what was last saved
+    for (const document of vscode.workspace.textDocuments) {
+      if (document.isDirty && filePaths.includes(document.uri.fsPath)) {
+        await document.save();
+      }
+    }
+
+    const useCase = new MoveMemoUseCase(new VsCodeFileService(), linkUpdateService);
+    const result = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Moving memos and updating links...',
+      cancellable: false
+    }, () => useCase.execute(filePaths, destination));
+
+    const memoEvents = MemoEvents.getInstance();
+    const openTabs = vscode.window.tabGroups.all.flatMap(group => group.tabs);
+    for (const { from, to } of result.moved) {
+      if (from === to) {
+        memoEvents.fireMemoModified(to);
+        continue;
+      }
+      memoEvents.fireMemoDeleted(from);
+      memoEvents.fireMemoCreated(to);
+
+      // Reopen moved memos that were open at their old path
+      const openTab = openTabs.find(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.fsPath === from);
+      if (openTab) {
+        await vscode.window.tabGroups.close(openTab);
+        await vscode.window.showTextDocument(vscode.Uri.file(to), { preview: false });
+      }
+    }
+
+    if (result.moved.length > 0) {
+      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+      const where = workspaceRoot ? path.relative(workspaceRoot, destination.directory) || '.' : destination.directory;
+      let message = `Moved ${result.moved.length} memo${result.moved.length !== 1 ? 's' : ''} to ${where}`;
+      if (result.filesUpdated > 0) {
+        message += ` • Updated ${result.linksUpdated} link${result.linksUpdated !== 1 ? 's' : ''} in ${result.filesUpdated} file${result.filesUpdated !== 1 ? 's' : ''}`;
+      }
+      vscode.window.showInformationMessage(message);
+    }
+
+    if (result.errors.length > 0) {
+      vscode.window.showErrorMessage(`Some memos could not be moved or linked:\n${result.errors.join('\n')}`);
+    }
+  } catch (error) {
+    console.error('Error moving memos:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to move memos: ${message}`);
+  }
+}
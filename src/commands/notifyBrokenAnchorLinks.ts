@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ILinkUpdateService } from '../services/interfaces/ILinkUpdateService';
+
+// Last reported set of broken anchors per file, so saving again does not repeat the warning
+const reportedAnchors = new Map<string, string>();
+
+/**
+ * Warn when headings or ^block-ids that other memos link to were renamed or deleted
+ * @param linkUpdateService Service used to check anchored backlinks
+ * @param filePath The memo that was just saved
+ */
+export async function notifyBrokenAnchorLinks(linkUpdateService: ILinkUpdateService, filePath: string): Promise<void> {
+  try {
+    const brokenLinks = await linkUpdateService.findBrokenAnchorLinks(filePath);
+    const signature = Array.from(new Set(brokenLinks.map(link => link.anchor))).sort().join('\n');
+
+    if (brokenLinks.length === 0) {
+      reportedAnchors.delete(filePath);
+      return;
+    }
+
+    if (reportedAnchors.get(filePath) === signature) {
+      return;
+    }
+    reportedAnchors.set(filePath, signature);
+
+    const fileName = path.basename(filePath);
+    const selection = await vscode.window.showWarningMessage(
+      `${brokenLinks.length} link${brokenLinks.length !== 1 ? 's' : ''} point${brokenLinks.length === 1 ? 's' : ''} to sections of "${fileName}" that no longer exist.`,
+      'Show Links',
+      'Dismiss'
+    );
+
+    if (selection !== 'Show Links') {
+      return;
+    }
+
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const workspaceRoot = workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri.fsPath : '';
+    const items = brokenLinks.map(link => ({
+      label: `#${link.anchor}`,
+      description: `${path.relative(workspaceRoot, link.sourceFile)}:${link.sourceLine}`,
+      detail: link.linkText,
+      link
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select a link to open',
+      matchOnDescription: true
+    });
+
+    if (selected) {
+      const line = selected.link.sourceLine - 1;
+      await vscode.window.showTextDocument(vscode.Uri.file(selected.link.sourceFile), {
+        selection: new vscode.Range(line, 0, line, 0)
+      });
+    }
+  } catch (error) {
+    console.error('Error checking anchor links:', error);
+  }
+}
@@ -0,0 +1,18 @@
+import * as vscode from 'vscode';
+import { PeriodicNoteUseCase } from '../usecases/PeriodicNoteUseCase';
+
+export async function openAdjacentPeriodicNote(periodicNoteUseCase: PeriodicNoteUseCase, offset: number): Promise<void> {
+  try {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.scheme !== 'file') {
+      vscode.window.showErrorMessage('Open a daily, weekly or monthly note first.');
+      return;
+    }
+
+    await periodicNoteUseCase.openAdjacent(editor.document.uri.fsPath, offset);
+  } catch (error) {
+    console.error('Error opening adjacent periodic note:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to open ${offset < 0 ? 'previous' : 'next'} note: ${message}`);
+  }
+}
@@ -0,0 +1,13 @@
+import * as vscode from 'vscode';
+import { PeriodicNoteUseCase } from '../usecases/PeriodicNoteUseCase';
+import { NotePeriod } from '../models/PeriodicNote';
+
+export async function openPeriodicNote(periodicNoteUseCase: PeriodicNoteUseCase, period: NotePeriod, date?: Date): Promise<void> {
+  try {
+    await periodicNoteUseCase.open(period, date);
+  } catch (error) {
+    console.error(`Error opening ${period} note:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to open ${period} note: ${message}`);
+  }
+}
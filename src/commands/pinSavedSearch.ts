@@ -0,0 +1,24 @@
+import * as vscode from 'vscode';
+import { ISavedSearchService } from '../services/interfaces/ISavedSearchService';
+import { SavedSearchesView, SavedSearchTreeItem } from '../views/SavedSearchesView';
+
+export async function pinSavedSearch(
+  savedSearchService: ISavedSearchService,
+  savedSearchesView: SavedSearchesView,
+  treeItem: SavedSearchTreeItem,
+  pinned: boolean
+): Promise<void> {
+  try {
+    if (!treeItem?.savedSearch) {
+      vscode.window.showErrorMessage(`Cannot ${pinned ? 'pin' : 'unpin'}: Invalid saved search.`);
+      return;
+    }
+
+    await savedSearchService.setPinned(treeItem.savedSearch.name, pinned);
+    savedSearchesView.refresh();
+  } catch (error) {
+    console.error('Error pinning saved search:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to ${pinned ? 'pin' : 'unpin'} saved search: ${message}`);
+  }
+}
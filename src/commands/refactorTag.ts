@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ITagIndexService } from '../services/interfaces/ITagIndexService';
+import { RefactorTagUseCase, TagRefactorPlan } from '../usecases/RefactorTagUseCase';
+import { TagTreeView, TagTreeItem } from '../views/TagTreeView';
+import { MemoEvents } from '../events/MemoEvents';
+import { isTagInHierarchy, normalizeTag } from '../utils/tagUtils';
+
+export async function renameTag(
+  refactorTagUseCase: RefactorTagUseCase,
+  tagIndexService: ITagIndexService,
+  tagTreeView: TagTreeView,
+  treeItem?: TagTreeItem
+): Promise<void> {
+  try {
+    const oldTag = treeItem?.tag ?? await pickTag(tagIndexService, 'Select a tag to rename');
+    if (!oldTag) {
+      return; // User cancelled
+    }
+
+    const newTag = await vscode.window.showInputBox({
+      prompt: `Rename "${oldTag}" and its child tags in every memo`,
+      value: oldTag,
+      validateInput: (value: string) => normalizeTag(value) ? null : 'Tag cannot be empty'
+    });
+
+    if (!newTag || normalizeTag(newTag) === oldTag) {
+      return; // User cancelled or no change needed
+    }
+
+    await applyTagRefactor(
+      tagIndexService,
+      tagTreeView,
+      oldTag,
+      `Rename tag "${oldTag}"`,
+      () => refactorTagUseCase.planRename(oldTag, newTag)
+    );
+  } catch (error) {
+    console.error('Error renaming tag:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to rename tag: ${message}`);
+  }
+}
+
+export async function mergeTag(
+  refactorTagUseCase: RefactorTagUseCase,
+  tagIndexService: ITagIndexService,
+  tagTreeView: TagTreeView,
+  treeItem?: TagTreeItem
+): Promise<void> {
+  try {
+    const sourceTag = treeItem?.tag ?? await pickTag(tagIndexService, 'Select a tag to merge into another');
+    if (!sourceTag) {
+      return; // User cancelled
+    }
+
+    // Merging into its own child would nest the tag inside itself
+    const targets = (await tagIndexService.getAllTags()).filter(info => !isTagInHierarchy(info.tag, sourceTag));
+    if (targets.length === 0) {
+      vscode.window.showInformationMessage('There are no other tags to merge into.');
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      targets.map(info => ({ label: info.tag, description: `${info.count} memo${info.count !== 1 ? 's' : ''}` })),
+      { placeHolder: `Merge "${sourceTag}" into...` }
+    );
+    if (!selected) {
+      return; // User cancelled
+    }
+
+    await applyTagRefactor(
+      tagIndexService,
+      tagTreeView,
+      sourceTag,
+      `Merge tag "${sourceTag}" into "${selected.label}"`,
+      () => refactorTagUseCase.planRename(sourceTag, selected.label)
+    );
+  } catch (error) {
+    console.error('Error merging tag:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to merge tag: ${message}`);
+  }
+}
+
+export async function deleteTag(
+  refactorTagUseCase: RefactorTagUseCase,
+  tagIndexService: ITagIndexService,
+  tagTreeView: TagTreeView,
+  treeItem?: TagTreeItem
+): Promise<void> {
+  try {
+    const tag = treeItem?.tag ?? await pickTag(tagIndexService, 'Select a tag to delete');
+    if (!tag) {
+      return; // User cancelled
+    }
+
+    // Each memo is confirmed in the refactor preview
+    await applyTagRefactor(
+      tagIndexService,
+      tagTreeView,
+      tag,
+      `Delete tag "${tag}"`,
+      () => refactorTagUseCase.planDelete(tag)
+    );
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to delete tag: ${message}`);
+  }
+}
+
+async function pickTag(tagIndexService: ITagIndexService, placeHolder: string): Promise<string | undefined> {
+  const tags = await tagIndexService.getAllTags();
+  if (tags.length === 0) {
+    vscode.window.showInformationMessage('No tags found in your memos.');
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    tags.map(info => ({ label: info.tag, description: `${info.count} memo${info.count !== 1 ? 's' : ''}` })),
+    { placeHolder }
+  );
+  return selected?.label;
+}
+
+/**
+ * Plan a tag refactoring, show it in the refactor preview with one entry per memo, then save
+ * the memos and update the tag index. The edit goes through the editors, so it can be undone.
+ */
+async function applyTagRefactor(
+  tagIndexService: ITagIndexService,
+  tagTreeView: TagTreeView,
+  tag: string,
+  label: string,
+  planRefactor: () => Promise<TagRefactorPlan>
+): Promise<void> {
+  // Plan against what is in the editors, not what was last saved
+  const filePaths = new Set((await tagIndexService.getMemosByTag(tag)).map(memo => memo.filePath));
+  for (const document of vscode.workspace.textDocuments) {
+    if (document.isDirty && filePaths.has(document.uri.fsPath)) {
+      await document.save();
+    }
+  }
+
+  const plan = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Finding memos with the tag...',
+    cancellable: false
+  }, planRefactor);
+
+  if (plan.errors.length > 0) {
+    vscode.window.showErrorMessage(`Some memos could not be read:\n${plan.errors.join('\n')}`);
+  }
+  if (plan.changes.length === 0) {
+    vscode.window.showInformationMessage(`No memos use the tag "${tag}".`);
+    return;
+  }
+
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const edit = new vscode.WorkspaceEdit();
+  for (const change of plan.changes) {
+    const parts: string[] = [];
+    if (change.frontmatterChanged) {
+      parts.push('frontmatter');
+    }
+    if (change.inlineTagsChanged > 0) {
+      parts.push(`${change.inlineTagsChanged} hashtag${change.inlineTagsChanged !== 1 ? 's' : ''}`);
+    }
+    const relativePath = workspaceRoot ? path.relative(workspaceRoot, change.filePath) : change.filePath;
+    const metadata: vscode.WorkspaceEditEntryMetadata = {
+      needsConfirmation: true,
+      label,
+      description: `${relativePath} (${parts.join(', ')})`
+    };
+
+    const uri = vscode.Uri.file(change.filePath);
+    for (const { range, newText } of change.edits) {
+      edit.replace(uri, new vscode.Range(range.startLine, range.startCharacter, range.endLine, range.endCharacter), newText, metadata);
+    }
+  }
+
+  if (!await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+    return; // Discarded in the preview
+  }
+
+  // Memos unchecked in the preview are left unchanged, so count the ones the edit touched
+  const memoEvents = MemoEvents.getInstance();
+  let updated = 0;
+  for (const change of plan.changes) {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === change.filePath);
+    if (document?.isDirty) {
+      await document.save();
+      await tagIndexService.updateFile(change.filePath);
+      memoEvents.fireMemoModified(change.filePath);
+      updated++;
+    }
+  }
+
+  tagTreeView.refresh();
+  vscode.window.showInformationMessage(`Updated tags in ${updated} memo${updated !== 1 ? 's' : ''}`);
+}
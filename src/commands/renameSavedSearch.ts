@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { ISavedSearchService } from '../services/interfaces/ISavedSearchService';
+import { SavedSearchesView, SavedSearchTreeItem } from '../views/SavedSearchesView';
+
+export async function renameSavedSearch(
+  savedSearchService: ISavedSearchService,
+  savedSearchesView: SavedSearchesView,
+  treeItem: SavedSearchTreeItem
+): Promise<void> {
+  try {
+    if (!treeItem?.savedSearch) {
+      vscode.window.showErrorMessage('Cannot rename: Invalid saved search.');
+      return;
+    }
+
+    const currentName = treeItem.savedSearch.name;
+    const existingNames = new Set((await savedSearchService.getSavedSearches()).map(savedSearch => savedSearch.name));
+    const newName = await vscode.window.showInputBox({
+      prompt: 'Enter new saved search name',
+      value: currentName,
+      validateInput: (value: string) => {
+        if (!value.trim()) {
+          return 'Name cannot be empty';
+        }
+        if (value.trim() !== currentName && existingNames.has(value.trim())) {
+          return 'A saved search with this name already exists';
+        }
+        return null;
+      }
+    });
+
+    if (!newName || newName.trim() === currentName) {
+      return; // User cancelled or no change needed
+    }
+
+    await savedSearchService.renameSavedSearch(currentName, newName.trim());
+    savedSearchesView.refresh();
+  } catch (error) {
+    console.error('Error renaming saved search:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to rename saved search: ${message}`);
+  }
+}
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
+import { ILinkUpdateService } from '../services/interfaces/ILinkUpdateService';
+import { BrokenLinkDiagnosticsProvider } from '../providers/BrokenLinkDiagnosticsProvider';
+
+/**
+ * Rebuild the backlink index and point broken relative links at the memo with the same
+ * file name, when there is only one
+ */
+export async function repairLinks(
+  backlinkService: IBacklinkService,
+  linkUpdateService: ILinkUpdateService,
+  diagnosticsProvider: BrokenLinkDiagnosticsProvider
+): Promise<void> {
+  try {
+    const result = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Repairing memo links...'
+    }, async () => {
+      await backlinkService.buildIndex();
+      return linkUpdateService.repairBrokenLinks();
+    });
+
+    diagnosticsProvider.reportBrokenLinks(await backlinkService.getBrokenLinks());
+
+    if (result.linksUpdated === 0 && result.unresolved.length === 0 && result.errors.length === 0) {
+      vscode.window.showInformationMessage('No broken relative links to repair.');
+      return;
+    }
+
+    if (result.errors.length > 0) {
+      vscode.window.showErrorMessage(`Link repair errors:\n${result.errors.join('\n')}`);
+    }
+
+    let message = `Repaired ${result.linksUpdated} link${result.linksUpdated !== 1 ? 's' : ''} in ${result.filesUpdated} memo${result.filesUpdated !== 1 ? 's' : ''}`;
+    if (result.unresolved.length === 0) {
+      vscode.window.showInformationMessage(message);
+      return;
+    }
+
+    const names = Array.from(new Set(result.unresolved.map(link => path.basename(link.target))));
+    message += ` • ${result.unresolved.length} could not be repaired, as no memo or several memos are named ${names.slice(0, 3).join(', ')}${names.length > 3 ? '...' : ''}`;
+    const selection = await vscode.window.showWarningMessage(message, 'Show Problems');
+    if (selection === 'Show Problems') {
+      await vscode.commands.executeCommand('workbench.actions.view.problems');
+    }
+  } catch (error) {
+    console.error('Error repairing links:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to repair links: ${message}`);
+  }
+}
@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ITrashService } from '../services/interfaces/ITrashService';
+import { MemoEvents } from '../events/MemoEvents';
+
+/**
+ * Bring a deleted memo back from the trash and undo the link edits made when it was deleted
+ * @param id Trashed memo to restore (asks when omitted)
+ */
+export async function restoreDeletedMemo(trashService: ITrashService, id?: string): Promise<void> {
+  try {
+    if (!id) {
+      const trashedMemos = await trashService.getTrashedMemos();
+      if (trashedMemos.length === 0) {
+        vscode.window.showInformationMessage('The trash is empty.');
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(
+        trashedMemos.map(trashedMemo => ({
+          label: path.basename(trashedMemo.originalPath),
+          description: trashedMemo.originalPath,
+          detail: `Deleted ${new Date(trashedMemo.deletedAt).toLocaleString()}` +
+            (trashedMemo.edits.length > 0 ? ` • ${trashedMemo.edits.length} edited link line${trashedMemo.edits.length !== 1 ? 's' : ''}` : ''),
+          id: trashedMemo.id
+        })),
+        { placeHolder: 'Select memo to restore', matchOnDescription: true }
+      );
+      if (!selected) {
+        return;
+      }
+      id = selected.id;
+    }
+
+    const result = await trashService.restore(id);
+
+    MemoEvents.getInstance().fireMemoCreated(result.filePath);
+    const document = await vscode.workspace.openTextDocument(result.filePath);
+    await vscode.window.showTextDocument(document);
+
+    let message = `Memo "${path.basename(result.filePath)}" restored`;
+    if (result.editsRestored > 0) {
+      message += ` • Restored links on ${result.editsRestored} line${result.editsRestored !== 1 ? 's' : ''}`;
+    }
+    if (result.editsSkipped > 0) {
+      message += ` • ${result.editsSkipped} line${result.editsSkipped !== 1 ? 's have' : ' has'} changed since and ${result.editsSkipped !== 1 ? 'were' : 'was'} left as is`;
+    }
+    vscode.window.showInformationMessage(message);
+  } catch (error) {
+    console.error('Error restoring memo:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to restore memo: ${message}`);
+  }
+}
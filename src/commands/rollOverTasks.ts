@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PeriodicNoteUseCase } from '../usecases/PeriodicNoteUseCase';
+import { RollOverTasksUseCase } from '../usecases/RollOverTasksUseCase';
+import { ITaskIndexService } from '../services/interfaces/ITaskIndexService';
+import { MemoEvents } from '../events/MemoEvents';
+
+export async function rollOverTasks(
+  periodicNoteUseCase: PeriodicNoteUseCase,
+  rollOverTasksUseCase: RollOverTasksUseCase,
+  taskIndexService: ITaskIndexService
+): Promise<void> {
+  try {
+    // Opens today's note, creating it from its template if needed
+    const todayPath = await periodicNoteUseCase.open('daily');
+    if (!todayPath) {
+      return;
+    }
+
+    // Move what is in the editors, not what was last saved
+    const previous = await rollOverTasksUseCase.findPreviousNote(todayPath);
+    const notePaths = [todayPath, previous?.filePath];
+    for (const document of vscode.workspace.textDocuments) {
+      if (document.isDirty && notePaths.includes(document.uri.fsPath)) {
+        await document.save();
+      }
+    }
+
+    const result = await rollOverTasksUseCase.execute(todayPath);
+    if (!result.sourcePath) {
+      vscode.window.showInformationMessage('There is no earlier daily note to roll tasks over from.');
+      return;
+    }
+
+    const sourceName = path.basename(result.sourcePath);
+    if (result.moved === 0 && result.skipped === 0) {
+      vscode.window.showInformationMessage(`No unfinished tasks in ${sourceName}.`);
+      return;
+    }
+
+    const memoEvents = MemoEvents.getInstance();
+    for (const filePath of [result.sourcePath, todayPath]) {
+      await taskIndexService.updateFile(filePath);
+      memoEvents.fireMemoModified(filePath);
+    }
+
+    let message = `Rolled over ${result.moved} task${result.moved !== 1 ? 's' : ''} from ${sourceName}`;
+    if (result.skipped > 0) {
+      message += ` • ${result.skipped} already in today's note`;
+    }
+    vscode.window.showInformationMessage(message);
+  } catch (error) {
+    console.error('Error rolling over tasks:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to roll over tasks: ${message}`);
+  }
+}
@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { ISavedSearchService } from '../services/interfaces/ISavedSearchService';
+import { SavedSearchesView } from '../views/SavedSearchesView';
+
+export async function saveSearch(savedSearchService: ISavedSearchService, savedSearchesView: SavedSearchesView, query?: string): Promise<void> {
+  try {
+    const searchQuery = await vscode.window.showInputBox({
+      prompt: 'Enter the search query to save',
+      placeHolder: 'tag:infra type:meeting after:2026-01-01 -tag:archived "rollback plan"',
+      value: query?.trim(),
+      validateInput: (value: string) => value.trim() ? null : 'Query cannot be empty'
+    });
+    if (!searchQuery) {
+      return; // User cancelled
+    }
+
+    const existingNames = new Set((await savedSearchService.getSavedSearches()).map(savedSearch => savedSearch.name));
+    const name = await vscode.window.showInputBox({
+      prompt: 'Enter a name for the saved search',
+      value: searchQuery.trim(),
+      validateInput: (value: string) => {
+        if (!value.trim()) {
+          return 'Name cannot be empty';
+        }
+        if (existingNames.has(value.trim())) {
+          return 'A saved search with this name already exists';
+        }
+        return null;
+      }
+    });
+    if (!name) {
+      return; // User cancelled
+    }
+
+    await savedSearchService.addSavedSearch({ name: name.trim(), query: searchQuery.trim() });
+    savedSearchesView.refresh();
+    vscode.window.showInformationMessage(`Saved search "${name.trim()}"`);
+  } catch (error) {
+    console.error('Error saving search:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to save search: ${message}`);
+  }
+}
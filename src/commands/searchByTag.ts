@@ -5,8 +5,9 @@ import { VsCodeFileService } from '../services/implementations/VsCodeFileService
 import { TagIndexService } from '../services/implementations/TagIndexService';
 import { MetadataService } from '../services/implementations/MetadataService';
 import { VsCodeWorkspaceService } from '../usecases/CreateMemoUseCase';
+import { IIndexCacheService } from '../services/interfaces/IIndexCacheService';
 
-export async function searchByTag(tag?: string): Promise<void> {
+export async function searchByTag(tag?: string, indexCache?: IIndexCacheService): Promise<void> {
   try {
     const fileService = new VsCodeFileService();
     const configService = new VsCodeConfigService(fileService);
@@ -18,7 +19,7 @@ export async function searchByTag(tag?: string): Promise<void> {
       ? workspaceFolders[0].uri.fsPath
       : '';
 
-    const tagIndexService = new TagIndexService(fileService, configService, metadataService, workspaceRoot);
+    const tagIndexService = new TagIndexService(fileService, configService, metadataService, workspaceRoot, indexCache);
 
     const useCase = new SearchMemosUseCase(
       configService,
@@ -4,14 +4,21 @@ import { VsCodeConfigService } from '../services/implementations/VsCodeConfigSer
 import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
 import { MetadataService } from '../services/implementations/MetadataService';
 import { MemoSearchService } from '../services/implementations/MemoSearchService';
-import { VsCodeWorkspaceService } from '../usecases/CreateMemoUseCase';
+import { IMemoSearchService, MemoSearchResult } from '../services/interfaces/IMemoSearchService';
 
-export async function searchMemos(): Promise<void> {
+interface SearchResultItem extends vscode.QuickPickItem {
+  filePath: string;
+}
+
+// 入力中の検索を間引く
+const SEARCH_DELAY_MS = 100;
+const MAX_RESULTS = 50;
+
+export async function searchMemos(sharedSearchService?: IMemoSearchService): Promise<void> {
   try {
     const fileService = new VsCodeFileService();
     const configService = new VsCodeConfigService(fileService);
     const metadataService = new MetadataService();
-    const workspaceService = new VsCodeWorkspaceService();
 
     const workspaceFolders = vscode.workspace.workspaceFolders;
     const workspaceRoot = workspaceFolders && workspaceFolders.length > 0
@@ -23,53 +30,102 @@ export async function searchMemos(): Promise<void> {
       return;
     }
 
-    const searchService = new MemoSearchService(fileService, configService, metadataService, workspaceRoot);
+    // The shared service is kept up to date by the file watcher
+    const searchService = sharedSearchService ?? new MemoSearchService(fileService, configService, metadataService, workspaceRoot);
 
-    // 検索キーワードを入力
-    const searchQuery = await vscode.window.showInputBox({
-      prompt: 'Enter search keywords',
-      placeHolder: 'Search in title and content...'
-    });
+    const quickPick = vscode.window.createQuickPick<SearchResultItem>();
+    quickPick.placeholder = 'Search memos... ("phrase", -exclude, prefix*, tag:, type:, after:, status:open, has:backlinks)';
+    quickPick.matchOnDescription = false;
+    quickPick.matchOnDetail = false;
 
-    if (!searchQuery) {
-      return;
-    }
+    const saveSearchButton: vscode.QuickInputButton = {
+      iconPath: new vscode.ThemeIcon('save'),
+      tooltip: 'Save Search'
+    };
+    quickPick.buttons = [saveSearchButton];
 
-    // メモを検索
-    const searchResults = await searchService.searchMemos(searchQuery);
+    let searchTimer: NodeJS.Timeout | undefined;
+    let latestQuery = '';
 
-    // 検索結果がない場合
-    if (searchResults.length === 0) {
-      vscode.window.showInformationMessage(`No memos found matching: "${searchQuery}"`);
-      return;
-    }
+    const runSearch = async (query: string) => {
+      if (!query.trim()) {
+        quickPick.items = [];
+        quickPick.busy = false;
+        return;
+      }
+
+      quickPick.busy = true;
+      try {
+        const results = await searchService.searchMemos(query, { prefixLastTerm: true, limit: MAX_RESULTS });
+        // 古い検索結果で上書きしない
+        if (query !== latestQuery) {
+          return;
+        }
+        quickPick.items = results.map(result => toQuickPickItem(result, workspaceRoot));
+        quickPick.title = results.length > 0
+          ? `${results.length}${results.length === MAX_RESULTS ? '+' : ''} memo${results.length !== 1 ? 's' : ''} found`
+          : `No memos found matching: "${query}"`;
+      } catch (error) {
+        console.error('Error searching memos:', error);
+      } finally {
+        if (query === latestQuery) {
+          quickPick.busy = false;
+        }
+      }
+    };
 
-    // QuickPickアイテムを作成
-    const items = searchResults.map(result => {
-      const relativePath = path.relative(workspaceRoot, result.filePath);
-      const tagsStr = result.tags && result.tags.length > 0 ? ` | Tags: ${result.tags.join(', ')}` : '';
-      const excerptStr = result.excerpt ? `\n${result.excerpt}` : '';
-
-      return {
-        label: result.title,
-        description: `[${result.memoType}] ${relativePath}`,
-        detail: `Modified: ${result.lastModified.toLocaleString()}${tagsStr}${excerptStr}`,
-        filePath: result.filePath
-      };
+    quickPick.onDidChangeValue(value => {
+      latestQuery = value;
+      if (searchTimer) {
+        clearTimeout(searchTimer);
+      }
+      searchTimer = setTimeout(() => runSearch(value), SEARCH_DELAY_MS);
     });
 
-    // QuickPickで選択
-    const selected = await vscode.window.showQuickPick(items, {
-      placeHolder: `Found ${searchResults.length} memo${searchResults.length !== 1 ? 's' : ''} matching "${searchQuery}"`
+    // 現在のクエリを保存済み検索に追加
+    quickPick.onDidTriggerButton(button => {
+      if (button === saveSearchButton) {
+        const query = quickPick.value;
+        quickPick.hide();
+        vscode.commands.executeCommand('vsmemo.saveSearch', query);
+      }
     });
 
     // 選択されたメモを開く
-    if (selected) {
-      await fileService.openFile(selected.filePath);
-    }
+    quickPick.onDidAccept(async () => {
+      const selected = quickPick.selectedItems[0];
+      quickPick.hide();
+      if (selected) {
+        await fileService.openFile(selected.filePath);
+      }
+    });
+
+    quickPick.onDidHide(() => {
+      if (searchTimer) {
+        clearTimeout(searchTimer);
+      }
+      quickPick.dispose();
+    });
+
+    quickPick.show();
   } catch (error) {
     console.error('Error searching memos:', error);
     const message = error instanceof Error ? error.message : 'Unknown error occurred';
     vscode.window.showErrorMessage(`Failed to search memos: ${message}`);
   }
-}
\ No newline at end of file
+}
+
+function toQuickPickItem(result: MemoSearchResult, workspaceRoot: string): SearchResultItem {
+  const relativePath = path.relative(workspaceRoot, result.filePath);
+  const typeStr = result.memoType ? `[${result.memoType}] ` : '';
+  const tagsStr = result.tags && result.tags.length > 0 ? ` | Tags: ${result.tags.join(', ')}` : '';
+
+  return {
+    label: result.title,
+    description: `${typeStr}${relativePath}`,
+    detail: result.excerpt || `Modified: ${result.lastModified.toLocaleString()}${tagsStr}`,
+    // QuickPick の絞り込みは使わず、検索結果をそのまま表示する
+    alwaysShow: true,
+    filePath: result.filePath
+  };
+}
@@ -0,0 +1,5 @@
+import { CalendarView } from '../views/CalendarView';
+
+export async function showCalendar(calendarView: CalendarView): Promise<void> {
+  await calendarView.show();
+}
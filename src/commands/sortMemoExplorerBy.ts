@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { MemoTreeDataProvider } from '../views/MemoTreeDataProvider';
+import { TreeViewDisplay } from '../models/MemoMetadata';
+
+interface SortByItem extends vscode.QuickPickItem {
+  action: 'set' | 'input' | 'reset';
+  sortBy?: string;
+  sortOrder?: TreeViewDisplay['sortOrder'];
+}
+
+export async function sortMemoExplorerBy(memoTreeProvider: MemoTreeDataProvider): Promise<void> {
+  try {
+    const fields = await memoTreeProvider.getKnownFields();
+
+    const items: SortByItem[] = [
+      { label: '$(history) Last modified', description: 'Newest first', action: 'set', sortBy: 'modified', sortOrder: 'desc' },
+      { label: '$(calendar) Created', description: 'Newest first', action: 'set', sortBy: 'created', sortOrder: 'desc' },
+      { label: '$(calendar) Created', description: 'Oldest first', action: 'set', sortBy: 'created', sortOrder: 'asc' },
+      { label: '$(case-sensitive) Title', description: 'A to Z', action: 'set', sortBy: 'title', sortOrder: 'asc' },
+      ...fields.map(field => ({ label: `$(symbol-field) ${field}`, description: 'Ascending', action: 'set' as const, sortBy: field, sortOrder: 'asc' as const })),
+      { label: '$(edit) Other field...', description: 'Enter a frontmatter field', action: 'input' },
+      { label: '$(settings-gear) Use config.json', description: 'metadata.treeViewDisplay.sortBy', action: 'reset' }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Sort memos by...'
+    });
+    if (!selected) {
+      return;
+    }
+
+    let sortBy = selected.sortBy;
+    if (selected.action === 'input') {
+      const input = await vscode.window.showInputBox({
+        prompt: 'Frontmatter field to sort by',
+        placeHolder: 'e.g. priority',
+        validateInput: value => value.trim() ? null : 'Field name cannot be empty'
+      });
+      if (input === undefined) {
+        return;
+      }
+      sortBy = input.trim();
+    }
+
+    const display = { ...memoTreeProvider.getDisplayOverride() };
+    if (selected.action === 'reset') {
+      delete display.sortBy;
+      delete display.sortOrder;
+    } else {
+      display.sortBy = sortBy;
+      display.sortOrder = selected.sortOrder || 'asc';
+    }
+    await memoTreeProvider.setDisplayOverride(display);
+  } catch (error) {
+    console.error('Error sorting memo explorer:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to sort memos: ${message}`);
+  }
+}
@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { ITaskIndexService } from '../services/interfaces/ITaskIndexService';
+import { MemoTask } from '../models/MemoTask';
+import { MemoEvents } from '../events/MemoEvents';
+import { parseTaskLine, setTaskCompleted } from '../utils/taskUtils';
+
+/**
+ * Check or uncheck a task in its memo, through the editor so it can be undone
+ */
+export async function toggleTask(taskIndexService: ITaskIndexService, task: MemoTask, completed = !task.completed): Promise<void> {
+  try {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(task.filePath));
+    const line = task.line < document.lineCount ? document.lineAt(task.line) : undefined;
+
+    // The memo may have changed since it was indexed
+    if (!line || parseTaskLine(line.text)?.text !== task.text) {
+      await taskIndexService.updateFile(task.filePath);
+      MemoEvents.getInstance().fireMemoModified(task.filePath);
+      vscode.window.showWarningMessage(`The task "${task.text}" has moved or changed. The Tasks view has been refreshed.`);
+      return;
+    }
+
+    const updated = setTaskCompleted(line.text, completed);
+    if (updated === undefined || updated === line.text) {
+      return;
+    }
+
+    const wasDirty = document.isDirty;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, line.range, updated);
+    await vscode.workspace.applyEdit(edit);
+
+    // Leave unsaved work in the memo for the user to save
+    if (!wasDirty) {
+      await document.save();
+    }
+    await taskIndexService.updateFile(task.filePath);
+    MemoEvents.getInstance().fireMemoModified(task.filePath);
+  } catch (error) {
+    console.error('Error toggling task:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    vscode.window.showErrorMessage(`Failed to update task: ${message}`);
+  }
+}
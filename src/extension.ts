@@ -12,6 +12,9 @@ import { insertMemoLink } from './commands/insertMemoLink';
 import { openMemoFromPreview } from './commands/openMemoFromPreview';
 import { renameMemo } from './commands/renameMemo';
 import { deleteMemo } from './commands/deleteMemo';
+import { restoreDeletedMemo } from './commands/restoreDeletedMemo';
+import { mergeMemo } from './commands/mergeMemo';
+import { moveMemo, moveMemosTo } from './commands/moveMemo';
 import { showBacklinks } from './commands/showBacklinks';
 import { refreshBacklinks } from './commands/refreshBacklinks';
 import { showOrphanedMemos } from './commands/showOrphanedMemos';
@@ -21,20 +24,62 @@ import { searchByTag } from './commands/searchByTag';
 import { searchMemos } from './commands/searchMemos';
 import { migrateLinks } from './commands/migrateLinks';
 import { createMemoTypeCommand } from './commands/createSpecificMemoType';
-import { MemoTreeDataProvider } from './views/MemoTreeDataProvider';
+import { notifyBrokenAnchorLinks } from './commands/notifyBrokenAnchorLinks';
+import { checkBrokenLinks } from './commands/checkBrokenLinks';
+import { repairLinks } from './commands/repairLinks';
+import { createMemoForBrokenLink } from './commands/createMemoForBrokenLink';
+import { extractToNewMemo } from './commands/extractToNewMemo';
+import { saveSearch } from './commands/saveSearch';
+import { renameSavedSearch } from './commands/renameSavedSearch';
+import { deleteSavedSearch } from './commands/deleteSavedSearch';
+import { pinSavedSearch } from './commands/pinSavedSearch';
+import { groupMemoExplorerBy } from './commands/groupMemoExplorerBy';
+import { sortMemoExplorerBy } from './commands/sortMemoExplorerBy';
+import { openPeriodicNote } from './commands/openPeriodicNote';
+import { openAdjacentPeriodicNote } from './commands/openAdjacentPeriodicNote';
+import { showCalendar } from './commands/showCalendar';
+import { renameTag, mergeTag, deleteTag } from './commands/refactorTag';
+import { toggleTask } from './commands/toggleTask';
+import { groupTasksBy } from './commands/groupTasksBy';
+import { rollOverTasks } from './commands/rollOverTasks';
+import { MemoTreeDataProvider, MemoTreeItem } from './views/MemoTreeDataProvider';
+import { MemoTreeDragAndDropController } from './views/MemoTreeDragAndDropController';
 import { MemoInsightsView } from './views/BacklinkView';
 import { GraphView } from './views/GraphView';
+import { CalendarView } from './views/CalendarView';
+import { SavedSearchesView, SavedSearchTreeItem } from './views/SavedSearchesView';
+import { TagTreeView, TagTreeItem } from './views/TagTreeView';
+import { TaskTreeView, TaskTreeItem } from './views/TaskTreeView';
 import { MemoLinkProvider, MemoLinkHoverProvider } from './providers/MemoLinkProvider';
 import { MemoLinkCompletionProvider } from './providers/MemoLinkCompletionProvider';
 import { MemoMarkdownPreviewProvider } from './providers/MemoMarkdownItPlugin';
+import { BrokenLinkDiagnosticsProvider, BrokenLinkCodeActionProvider } from './providers/BrokenLinkDiagnosticsProvider';
+import { MetadataDiagnosticsProvider, MetadataCodeActionProvider, MetadataCompletionProvider } from './providers/MetadataSchemaProvider';
+import { ExtractMemoCodeActionProvider } from './providers/ExtractMemoCodeActionProvider';
+import { TagCompletionProvider } from './providers/TagCompletionProvider';
 import { VsCodeConfigService } from './services/implementations/VsCodeConfigService';
 import { VsCodeFileService } from './services/implementations/VsCodeFileService';
 import { BacklinkService } from './services/implementations/BacklinkService';
 import { MetadataService } from './services/implementations/MetadataService';
 import { TagIndexService } from './services/implementations/TagIndexService';
+import { TaskIndexService } from './services/implementations/TaskIndexService';
+import { GraphDataService } from './services/implementations/GraphDataService';
+import { LinkUpdateService } from './services/implementations/LinkUpdateService';
+import { TrashService } from './services/implementations/TrashService';
+import { IndexCacheService } from './services/implementations/IndexCacheService';
+import { MemoSearchService } from './services/implementations/MemoSearchService';
+import { SavedSearchService } from './services/implementations/SavedSearchService';
+import { PeriodicNoteService } from './services/implementations/PeriodicNoteService';
+import { TemplateService } from './services/implementations/TemplateService';
+import { CreateMemoUseCase, VsCodeWorkspaceService } from './usecases/CreateMemoUseCase';
+import { PeriodicNoteUseCase } from './usecases/PeriodicNoteUseCase';
+import { RefactorTagUseCase } from './usecases/RefactorTagUseCase';
+import { RollOverTasksUseCase } from './usecases/RollOverTasksUseCase';
 import { LoggerService } from './services/implementations/LoggerService';
 import { LogLevel } from './services/interfaces/ILoggerService';
 import { GitServiceManager } from './services/GitServiceManager';
+import { MemoFileWatcher } from './services/MemoFileWatcher';
+import { MemoEvents } from './events/MemoEvents';
 
 export function activate(context: vscode.ExtensionContext) {
   // Initialize logging service
@@ -53,19 +98,46 @@ export function activate(context: vscode.ExtensionContext) {
     ? workspaceFolders[0].uri.fsPath
     : '';
 
+  // Create the index cache shared by the backlink, tag and search indexes
+  const indexCachePath = context.storageUri
+    ? path.join(context.storageUri.fsPath, 'index-cache.json')
+    : path.join(workspaceRoot, '.vsmemo', 'cache', 'index-cache.json');
+  const indexCache = new IndexCacheService(fileService, configService, indexCachePath);
+
   // Create backlink service
-  const backlinkService = new BacklinkService(fileService, configService, workspaceRoot, logger);
+  const backlinkService = new BacklinkService(fileService, configService, workspaceRoot, logger, indexCache);
+
+  // Create link update service for anchor checks, merges, moves, deletes and link repair
+  const linkUpdateService = new LinkUpdateService(fileService, configService, backlinkService, workspaceRoot);
+
+  // Create trash service for deleted memos
+  const trashService = new TrashService(fileService, workspaceRoot);
 
   // Create tag index service
-  const tagIndexService = new TagIndexService(fileService, configService, metadataService, workspaceRoot);
+  const tagIndexService = new TagIndexService(fileService, configService, metadataService, workspaceRoot, indexCache);
+
+  // Create task index service for checkbox tasks across memos
+  const taskIndexService = new TaskIndexService(fileService, configService, workspaceRoot, indexCache);
+
+  // Create search service, indexed on first search
+  const memoSearchService = new MemoSearchService(
+    fileService, configService, metadataService, workspaceRoot, indexCache, tagIndexService, backlinkService
+  );
 
   // Create memo tree data provider
-  const memoTreeProvider = new MemoTreeDataProvider(configService, fileService, metadataService);
+  const memoTreeProvider = new MemoTreeDataProvider(configService, fileService, metadataService, context.workspaceState);
 
   // Register tree view
   const treeView = vscode.window.createTreeView('vsmemoExplorer', {
     treeDataProvider: memoTreeProvider,
-    showCollapseAll: true
+    showCollapseAll: true,
+    canSelectMany: true,
+    dragAndDropController: new MemoTreeDragAndDropController(
+      configService,
+      fileService,
+      workspaceRoot,
+      (filePaths, destination) => moveMemosTo(linkUpdateService, filePaths, destination)
+    )
   });
 
   // Create memo insights view
@@ -75,11 +147,74 @@ export function activate(context: vscode.ExtensionContext) {
     showCollapseAll: true
   });
 
+  // Create saved searches view, expanded to live search results
+  const savedSearchService = new SavedSearchService(fileService, configService, workspaceRoot);
+  const savedSearchesView = new SavedSearchesView(savedSearchService, memoSearchService, workspaceRoot);
+  const savedSearchesTreeView = vscode.window.createTreeView('savedSearchesView', {
+    treeDataProvider: savedSearchesView,
+    showCollapseAll: true
+  });
+
+  // Create tags view, showing the tag hierarchy
+  const tagTreeView = new TagTreeView(tagIndexService, workspaceRoot);
+  const tagsTreeView = vscode.window.createTreeView('vsmemoTagsView', {
+    treeDataProvider: tagTreeView,
+    showCollapseAll: true
+  });
+  const refactorTagUseCase = new RefactorTagUseCase(fileService, tagIndexService);
+
+  // Create tasks view, with tasks checked off in place
+  const taskTreeView = new TaskTreeView(taskIndexService, workspaceRoot, context.workspaceState);
+  const tasksTreeView = vscode.window.createTreeView('vsmemoTasksView', {
+    treeDataProvider: taskTreeView,
+    showCollapseAll: true
+  });
+  const taskCheckboxListener = tasksTreeView.onDidChangeCheckboxState(async (event) => {
+    for (const [item, state] of event.items) {
+      if (item.task) {
+        await toggleTask(taskIndexService, item.task, state === vscode.TreeItemCheckboxState.Checked);
+      }
+    }
+  });
+
+  // Create broken link diagnostics, refreshed once the backlink index is ready
+  const brokenLinkDiagnostics = new BrokenLinkDiagnosticsProvider(backlinkService, fileService, configService, workspaceRoot);
+
+  // Check frontmatter against the metadata schema in config.json
+  const metadataDiagnostics = new MetadataDiagnosticsProvider(configService, metadataService, workspaceRoot);
+
   // Initialize backlink index
-  backlinkService.buildIndex().catch(console.error);
+  backlinkService.buildIndex()
+    .then(() => brokenLinkDiagnostics.refreshOpenDocuments())
+    .catch(console.error);
+
+  // Re-check open documents once created or deleted memos are indexed
+  const memoEvents = MemoEvents.getInstance();
+  const memoCreatedListener = memoEvents.onMemoCreated(() => brokenLinkDiagnostics.refreshOpenDocuments());
+  const memoDeletedListener = memoEvents.onMemoDeleted(() => brokenLinkDiagnostics.refreshOpenDocuments());
 
   // Initialize tag index
-  tagIndexService.buildIndex().catch(console.error);
+  tagIndexService.buildIndex()
+    .then(() => tagTreeView.refresh())
+    .catch(console.error);
+
+  // Initialize task index
+  taskIndexService.buildIndex()
+    .then(() => taskTreeView.refresh())
+    .catch(console.error);
+
+  // Keep every index in sync with memo files changed on disk
+  const memoFileWatcher = new MemoFileWatcher(configService, fileService, workspaceRoot, [
+    {
+      buildIndex: () => backlinkService.buildIndex(),
+      updateFile: (filePath) => backlinkService.updateFileBacklinks(filePath),
+      removeFile: (filePath) => backlinkService.removeFileFromIndex(filePath)
+    },
+    tagIndexService,
+    taskIndexService,
+    memoSearchService
+  ]);
+  memoFileWatcher.start().catch(console.error);
 
   // Register dynamic commands for memo types
   async function registerMemoTypeCommands() {
@@ -91,7 +226,7 @@ export function activate(context: vscode.ExtensionContext) {
         const commandId = `vsmemo.create${memoType.id.charAt(0).toUpperCase() + memoType.id.slice(1)}`;
         const disposable = vscode.commands.registerCommand(
           commandId,
-          createMemoTypeCommand(memoType.name)
+          createMemoTypeCommand(memoType.name, backlinkService)
         );
         memoTypeDisposables.push(disposable);
         logger.info(`Registered command: ${commandId} for memo type: ${memoType.name}`);
@@ -106,19 +241,35 @@ export function activate(context: vscode.ExtensionContext) {
   // Register memo type commands
   registerMemoTypeCommands();
 
-  // Update tag index when files are saved
+  // Check anchored links when files are saved (indexes are updated by the file watcher)
   vscode.workspace.onDidSaveTextDocument(async (document) => {
     if (document.uri.scheme === 'file' && path.extname(document.uri.fsPath) === '.md') {
-      await tagIndexService.updateFile(document.uri.fsPath);
+      await notifyBrokenAnchorLinks(linkUpdateService, document.uri.fsPath);
     }
   });
 
   // Create graph view
-  const graphView = new GraphView(backlinkService, fileService, configService, context);
+  const graphDataService = new GraphDataService(backlinkService, fileService, configService, tagIndexService);
+  const graphView = new GraphView(graphDataService, fileService, configService, context);
+
+  // Create periodic notes and the calendar
+  const workspaceService = new VsCodeWorkspaceService(backlinkService);
+  const periodicNoteService = new PeriodicNoteService(fileService, configService, workspaceRoot);
+  const periodicNoteUseCase = new PeriodicNoteUseCase(
+    configService,
+    fileService,
+    periodicNoteService,
+    new CreateMemoUseCase(configService, fileService, new TemplateService(fileService, workspaceService), workspaceService, metadataService)
+  );
+  const calendarView = new CalendarView(periodicNoteService, periodicNoteUseCase);
+  const rollOverTasksUseCase = new RollOverTasksUseCase(fileService, periodicNoteService);
+  if (workspaceRoot) {
+    periodicNoteUseCase.openStartupNotes().catch(console.error);
+  }
 
   // Create memo link providers
-  const memoLinkProvider = new MemoLinkProvider(configService, fileService);
-  const memoLinkHoverProvider = new MemoLinkHoverProvider(configService, fileService, metadataService);
+  const memoLinkProvider = new MemoLinkProvider(configService, fileService, backlinkService);
+  const memoLinkHoverProvider = new MemoLinkHoverProvider(configService, fileService, metadataService, backlinkService);
   const memoLinkCompletionProvider = new MemoLinkCompletionProvider(configService, fileService);
   const memoMarkdownPreviewProvider = new MemoMarkdownPreviewProvider();
 
@@ -134,29 +285,144 @@ export function activate(context: vscode.ExtensionContext) {
     markdownSelector,
     memoLinkCompletionProvider,
     '/', // Trigger on forward slash for path completion
-    ':' // Trigger on colon for vsmemo:// completion
+    ':', // Trigger on colon for vsmemo:// completion
+    '[' // Trigger on bracket for [[wiki link]] completion
+  );
+  const tagCompletionProvider = vscode.languages.registerCompletionItemProvider(
+    markdownSelector,
+    new TagCompletionProvider(tagIndexService),
+    '#' // Trigger on hash for inline #tag completion
+  );
+  const codeActionProvider = vscode.languages.registerCodeActionsProvider(
+    markdownSelector,
+    new BrokenLinkCodeActionProvider(backlinkService),
+    { providedCodeActionKinds: BrokenLinkCodeActionProvider.providedCodeActionKinds }
+  );
+  const extractMemoCodeActionProvider = vscode.languages.registerCodeActionsProvider(
+    markdownSelector,
+    new ExtractMemoCodeActionProvider(),
+    { providedCodeActionKinds: ExtractMemoCodeActionProvider.providedCodeActionKinds }
+  );
+  const metadataCompletionProvider = vscode.languages.registerCompletionItemProvider(
+    markdownSelector,
+    new MetadataCompletionProvider(configService, workspaceRoot),
+    ':', // Trigger on colon for values
+    ' ' // Trigger after "key: " and "- "
+  );
+  const metadataCodeActionProvider = vscode.languages.registerCodeActionsProvider(
+    markdownSelector,
+    new MetadataCodeActionProvider(configService, metadataService, workspaceRoot),
+    { providedCodeActionKinds: MetadataCodeActionProvider.providedCodeActionKinds }
   );
 
   // Register commands
-  const createMemoDisposable = vscode.commands.registerCommand('vsmemo.createMemo', createMemo);
+  const createMemoDisposable = vscode.commands.registerCommand('vsmemo.createMemo', () => createMemo(backlinkService));
   const listMemosDisposable = vscode.commands.registerCommand('vsmemo.listMemos', listMemos);
   const commitChangesDisposable = vscode.commands.registerCommand('vsmemo.commitChanges', commitChanges);
-  const createMemoFromTypeDisposable = vscode.commands.registerCommand('vsmemo.createMemoFromType', createMemoFromType);
+  const createMemoFromTypeDisposable = vscode.commands.registerCommand(
+    'vsmemo.createMemoFromType',
+    (treeItem: MemoTreeItem) => createMemoFromType(treeItem, backlinkService)
+  );
   const insertMemoLinkDisposable = vscode.commands.registerCommand('vsmemo.insertMemoLink', insertMemoLink);
   const openMemoFromPreviewDisposable = vscode.commands.registerCommand('vsmemo.openMemoFromPreview', openMemoFromPreview);
   const renameMemoDisposable = vscode.commands.registerCommand('vsmemo.renameMemo', renameMemo);
-  const deleteMemoDisposable = vscode.commands.registerCommand('vsmemo.deleteMemo', deleteMemo);
+  const deleteMemoDisposable = vscode.commands.registerCommand(
+    'vsmemo.deleteMemo',
+    (treeItem: MemoTreeItem) => deleteMemo(backlinkService, linkUpdateService, trashService, treeItem)
+  );
+  const restoreDeletedMemoDisposable = vscode.commands.registerCommand('vsmemo.restoreDeletedMemo', () => restoreDeletedMemo(trashService));
+  const moveMemoDisposable = vscode.commands.registerCommand(
+    'vsmemo.moveMemo',
+    (treeItem?: MemoTreeItem, selectedItems?: MemoTreeItem[]) => moveMemo(backlinkService, linkUpdateService, treeItem, selectedItems)
+  );
+  const mergeMemoDisposable = vscode.commands.registerCommand(
+    'vsmemo.mergeMemo',
+    (treeItem?: MemoTreeItem) => mergeMemo(backlinkService, linkUpdateService, treeItem)
+  );
   const refreshDisposable = vscode.commands.registerCommand('vsmemo.refreshMemoExplorer', () => {
     memoTreeProvider.refresh();
   });
+  const groupMemoExplorerByDisposable = vscode.commands.registerCommand('vsmemo.groupMemoExplorerBy', () => groupMemoExplorerBy(memoTreeProvider));
+  const sortMemoExplorerByDisposable = vscode.commands.registerCommand('vsmemo.sortMemoExplorerBy', () => sortMemoExplorerBy(memoTreeProvider));
   const showBacklinksDisposable = vscode.commands.registerCommand('vsmemo.showBacklinks', showBacklinks);
   const refreshBacklinksDisposable = vscode.commands.registerCommand('vsmemo.refreshBacklinks', () => refreshBacklinks(memoInsightsView));
   const showOrphanedMemosDisposable = vscode.commands.registerCommand('vsmemo.showOrphanedMemos', () => showOrphanedMemos(memoInsightsView));
   const showLinkStatisticsDisposable = vscode.commands.registerCommand('vsmemo.showLinkStatistics', () => showLinkStatistics(memoInsightsView));
   const showGraphDisposable = vscode.commands.registerCommand('vsmemo.showGraph', () => showGraph(graphView));
-  const searchByTagDisposable = vscode.commands.registerCommand('vsmemo.searchByTag', (tag?: string) => searchByTag(tag));
-  const searchMemosDisposable = vscode.commands.registerCommand('vsmemo.searchMemos', searchMemos);
+  const openTodayDisposable = vscode.commands.registerCommand('vsmemo.openToday', () => openPeriodicNote(periodicNoteUseCase, 'daily'));
+  const openThisWeekDisposable = vscode.commands.registerCommand('vsmemo.openThisWeek', () => openPeriodicNote(periodicNoteUseCase, 'weekly'));
+  const openThisMonthDisposable = vscode.commands.registerCommand('vsmemo.openThisMonth', () => openPeriodicNote(periodicNoteUseCase, 'monthly'));
+  const openPreviousPeriodicNoteDisposable = vscode.commands.registerCommand('vsmemo.openPreviousPeriodicNote', () => openAdjacentPeriodicNote(periodicNoteUseCase, -1));
+  const openNextPeriodicNoteDisposable = vscode.commands.registerCommand('vsmemo.openNextPeriodicNote', () => openAdjacentPeriodicNote(periodicNoteUseCase, 1));
+  const showCalendarDisposable = vscode.commands.registerCommand('vsmemo.showCalendar', () => showCalendar(calendarView));
+  const searchByTagDisposable = vscode.commands.registerCommand('vsmemo.searchByTag', (tag?: string) => searchByTag(tag, indexCache));
+  const searchMemosDisposable = vscode.commands.registerCommand('vsmemo.searchMemos', () => searchMemos(memoSearchService));
   const migrateLinksDisposable = vscode.commands.registerCommand('vsmemo.migrateLinks', migrateLinks);
+  const checkBrokenLinksDisposable = vscode.commands.registerCommand('vsmemo.checkBrokenLinks', () => checkBrokenLinks(backlinkService, brokenLinkDiagnostics));
+  const repairLinksDisposable = vscode.commands.registerCommand(
+    'vsmemo.repairLinks',
+    () => repairLinks(backlinkService, linkUpdateService, brokenLinkDiagnostics)
+  );
+  const createMemoForBrokenLinkDisposable = vscode.commands.registerCommand(
+    'vsmemo.createMemoForBrokenLink',
+    (uri: vscode.Uri, range: vscode.Range) => createMemoForBrokenLink(backlinkService, uri, range)
+  );
+  const extractToNewMemoDisposable = vscode.commands.registerCommand(
+    'vsmemo.extractToNewMemo',
+    (uri?: vscode.Uri, range?: vscode.Range) => extractToNewMemo(backlinkService, uri, range)
+  );
+  const saveSearchDisposable = vscode.commands.registerCommand(
+    'vsmemo.saveSearch',
+    (query?: string) => saveSearch(savedSearchService, savedSearchesView, typeof query === 'string' ? query : undefined)
+  );
+  const refreshSavedSearchesDisposable = vscode.commands.registerCommand('vsmemo.refreshSavedSearches', () => savedSearchesView.refresh());
+  const renameSavedSearchDisposable = vscode.commands.registerCommand(
+    'vsmemo.renameSavedSearch',
+    (treeItem: SavedSearchTreeItem) => renameSavedSearch(savedSearchService, savedSearchesView, treeItem)
+  );
+  const deleteSavedSearchDisposable = vscode.commands.registerCommand(
+    'vsmemo.deleteSavedSearch',
+    (treeItem: SavedSearchTreeItem) => deleteSavedSearch(savedSearchService, savedSearchesView, treeItem)
+  );
+  const pinSavedSearchDisposable = vscode.commands.registerCommand(
+    'vsmemo.pinSavedSearch',
+    (treeItem: SavedSearchTreeItem) => pinSavedSearch(savedSearchService, savedSearchesView, treeItem, true)
+  );
+  const unpinSavedSearchDisposable = vscode.commands.registerCommand(
+    'vsmemo.unpinSavedSearch',
+    (treeItem: SavedSearchTreeItem) => pinSavedSearch(savedSearchService, savedSearchesView, treeItem, false)
+  );
+  const refreshTagsDisposable = vscode.commands.registerCommand('vsmemo.refreshTags', () => {
+    tagIndexService.buildIndex()
+      .then(() => tagTreeView.refresh())
+      .catch(console.error);
+  });
+  const renameTagDisposable = vscode.commands.registerCommand(
+    'vsmemo.renameTag',
+    (treeItem?: TagTreeItem) => renameTag(refactorTagUseCase, tagIndexService, tagTreeView, treeItem)
+  );
+  const mergeTagDisposable = vscode.commands.registerCommand(
+    'vsmemo.mergeTag',
+    (treeItem?: TagTreeItem) => mergeTag(refactorTagUseCase, tagIndexService, tagTreeView, treeItem)
+  );
+  const deleteTagDisposable = vscode.commands.registerCommand(
+    'vsmemo.deleteTag',
+    (treeItem?: TagTreeItem) => deleteTag(refactorTagUseCase, tagIndexService, tagTreeView, treeItem)
+  );
+  const refreshTasksDisposable = vscode.commands.registerCommand('vsmemo.refreshTasks', () => {
+    taskIndexService.buildIndex()
+      .then(() => taskTreeView.refresh())
+      .catch(console.error);
+  });
+  const groupTasksByDisposable = vscode.commands.registerCommand('vsmemo.groupTasksBy', () => groupTasksBy(taskTreeView));
+  const toggleTaskDisposable = vscode.commands.registerCommand(
+    'vsmemo.toggleTask',
+    (treeItem: TaskTreeItem) => treeItem?.task && toggleTask(taskIndexService, treeItem.task)
+  );
+  const rollOverTasksDisposable = vscode.commands.registerCommand(
+    'vsmemo.rollOverTasks',
+    () => rollOverTasks(periodicNoteUseCase, rollOverTasksUseCase, taskIndexService)
+  );
   const gitPullDisposable = vscode.commands.registerCommand('vsmemo.git.pull', () => gitPull(gitManager));
   const gitSyncDisposable = vscode.commands.registerCommand('vsmemo.git.sync', () => gitSync(gitManager));
 
@@ -169,22 +435,70 @@ export function activate(context: vscode.ExtensionContext) {
     openMemoFromPreviewDisposable,
     renameMemoDisposable,
     deleteMemoDisposable,
+    restoreDeletedMemoDisposable,
+    moveMemoDisposable,
+    mergeMemoDisposable,
     refreshDisposable,
+    groupMemoExplorerByDisposable,
+    sortMemoExplorerByDisposable,
     showBacklinksDisposable,
     refreshBacklinksDisposable,
     showOrphanedMemosDisposable,
     showLinkStatisticsDisposable,
     showGraphDisposable,
+    openTodayDisposable,
+    openThisWeekDisposable,
+    openThisMonthDisposable,
+    openPreviousPeriodicNoteDisposable,
+    openNextPeriodicNoteDisposable,
+    showCalendarDisposable,
+    calendarView,
     searchByTagDisposable,
     searchMemosDisposable,
     migrateLinksDisposable,
+    checkBrokenLinksDisposable,
+    repairLinksDisposable,
+    createMemoForBrokenLinkDisposable,
+    extractToNewMemoDisposable,
+    saveSearchDisposable,
+    refreshSavedSearchesDisposable,
+    renameSavedSearchDisposable,
+    deleteSavedSearchDisposable,
+    pinSavedSearchDisposable,
+    unpinSavedSearchDisposable,
+    refreshTagsDisposable,
+    renameTagDisposable,
+    mergeTagDisposable,
+    deleteTagDisposable,
+    refreshTasksDisposable,
+    groupTasksByDisposable,
+    toggleTaskDisposable,
+    rollOverTasksDisposable,
     gitPullDisposable,
     gitSyncDisposable,
     treeView,
     memoInsightsTreeView,
+    savedSearchesTreeView,
+    savedSearchesView,
+    tagsTreeView,
+    tagTreeView,
+    tasksTreeView,
+    taskTreeView,
+    taskCheckboxListener,
     definitionProvider,
     hoverProvider,
-    completionProvider
+    completionProvider,
+    tagCompletionProvider,
+    codeActionProvider,
+    brokenLinkDiagnostics,
+    metadataCompletionProvider,
+    metadataCodeActionProvider,
+    extractMemoCodeActionProvider,
+    metadataDiagnostics,
+    memoCreatedListener,
+    memoDeletedListener,
+    memoFileWatcher,
+    { dispose: () => indexCache.save() }
   );
 
   // Return markdown extension API for preview support
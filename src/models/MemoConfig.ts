@@ -1,5 +1,7 @@
 import { MemoType } from './MemoType';
 import { Variable } from './Variable';
+import { SavedSearch } from './SavedSearch';
+import { MetadataConfig } from './MemoMetadata';
 
 export interface MemoConfig {
   memoTypes: MemoType[];
@@ -7,4 +9,6 @@ export interface MemoConfig {
   fileExtensions: string[];
   defaultExtension: string;
   variables?: Variable[];
+  savedSearches?: SavedSearch[];
+  metadata?: MetadataConfig;
 }
\ No newline at end of file
@@ -87,9 +87,20 @@ export interface MetadataSchema {
   description?: string;
   defaultValue?: any;
   required?: boolean;
+  enum?: Array<string | number>;  // Allowed values (for arrays, allowed items)
   icon?: string;  // Icon for display
 }
 
+/**
+ * How memos are arranged in the tree view
+ */
+export interface TreeViewDisplay {
+  groupBy?: string;           // Group by this metadata field instead of by directory
+  showMetadata?: string[];    // Which metadata to show
+  sortBy?: string;            // 'title', 'created', 'modified' or a metadata field
+  sortOrder?: 'asc' | 'desc'; // Defaults to newest first for dates, otherwise ascending
+}
+
 /**
  * Metadata configuration
  */
@@ -98,11 +109,34 @@ export interface MetadataConfig {
   userSchema?: Record<string, MetadataSchema>;
 
   // Display settings for tree view
-  treeViewDisplay?: {
-    showMetadata?: string[];  // Which metadata to show
-    sortBy?: string;          // Sort by this metadata field
-  };
+  treeViewDisplay?: TreeViewDisplay;
 
   // Future: searchable fields configuration
   searchableFields?: string[];
-}
\ No newline at end of file
+}
+
+/**
+ * Combine the workspace-wide schema with a memo type's own; the memo type wins per field
+ */
+export function resolveUserSchema(
+  globalConfig?: MetadataConfig,
+  memoTypeConfig?: MetadataConfig
+): Record<string, MetadataSchema> {
+  return {
+    ...(globalConfig?.userSchema || {}),
+    ...(memoTypeConfig?.userSchema || {})
+  };
+}
+
+/**
+ * Combine the workspace-wide tree view settings with a memo type's own; the memo type wins per setting
+ */
+export function resolveTreeViewDisplay(
+  globalConfig?: MetadataConfig,
+  memoTypeConfig?: MetadataConfig
+): TreeViewDisplay {
+  return {
+    ...(globalConfig?.treeViewDisplay || {}),
+    ...(memoTypeConfig?.treeViewDisplay || {})
+  };
+}
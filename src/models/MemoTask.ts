@@ -0,0 +1,18 @@
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+/**
+ * A checkbox task in a memo, e.g. "- [ ] Ship it 📅 2026-10-20 ⏫ #release"
+ */
+export interface MemoTask {
+  filePath: string;
+  memoTitle: string;
+  /** Zero-based line of the task */
+  line: number;
+  /** The task without its checkbox, due date and priority markers */
+  text: string;
+  completed: boolean;
+  /** Due date as YYYY-MM-DD */
+  due?: string;
+  priority?: TaskPriority;
+  tags: string[];
+}
@@ -1,6 +1,11 @@
+import { MetadataConfig } from './MemoMetadata';
+import { PeriodicNoteConfig } from './PeriodicNote';
+
 export interface MemoType {
   id: string;
   name: string;
   templatePath: string;
   baseDir?: string;
+  metadata?: MetadataConfig;
+  periodic?: PeriodicNoteConfig;
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+export type NotePeriod = 'daily' | 'weekly' | 'monthly';
+
+export const NOTE_PERIODS: readonly NotePeriod[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * Makes a memo type a periodic note: one memo per day, ISO week or month
+ */
+export interface PeriodicNoteConfig {
+  period: NotePeriod;
+  createOnStartup?: boolean;  // Create (and open) the current note when the workspace opens
+}
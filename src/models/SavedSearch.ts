@@ -0,0 +1,5 @@
+export interface SavedSearch {
+  name: string;
+  query: string;
+  pinned?: boolean;
+}
@@ -1,8 +1,10 @@
 export interface Template {
   frontmatter?: Record<string, any>;
+  frontmatterYaml?: string;  // Processed frontmatter as written in the template, comments included
   content: string;
   path: string;
   baseDir?: string;
+  variables?: string[];  // Names of the variables the template uses
 }
 
 export interface TemplateVariables {
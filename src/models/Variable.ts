@@ -1,5 +1,17 @@
+export type VariableType = 'text' | 'choice' | 'multiselect' | 'date' | 'memoLink' | 'boolean';
+
+export const VARIABLE_TYPES: VariableType[] = ['text', 'choice', 'multiselect', 'date', 'memoLink', 'boolean'];
+
 export interface Variable {
   name: string;
   description?: string;
   default?: string;
-}
\ No newline at end of file
+  /** How the value is asked for (defaults to text) */
+  type?: VariableType;
+  /** Values to pick from for choice and multiselect */
+  options?: string[];
+  /** Regular expression a text value must match */
+  pattern?: string;
+  /** Reject an empty value instead of falling back to the default */
+  required?: boolean;
+}
@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IBacklinkService, BrokenLink } from '../services/interfaces/IBacklinkService';
+import { IFileService } from '../services/interfaces/IFileService';
+import { IConfigService } from '../services/interfaces/IConfigService';
+import { ParsedMemoLink, parseMemoLinks, findMemoLinkAt, formatWikiLink, formatMarkdownLink, renameWikiTarget } from '../utils/linkUtils';
+import { resolveRelativePath, calculateRelativePath } from '../utils/pathUtils';
+import { rankBySimilarity } from '../utils/stringUtils';
+import { isMemoFilePath } from '../utils/fileUtils';
+
+export const BROKEN_LINK_DIAGNOSTIC_SOURCE = 'VsMemo';
+export const BROKEN_LINK_DIAGNOSTIC_CODE = 'broken-link';
+
+/**
+ * The memo name a broken link was meant to point at, used for suggestions and new memo titles
+ */
+export function getBrokenLinkName(link: Pick<ParsedMemoLink, 'kind' | 'target'>): string {
+  if (link.kind === 'wiki') {
+    const segments = link.target.replace(/\\/g, '/').split('/');
+    return segments[segments.length - 1].replace(/\.(md|markdown)$/i, '').trim();
+  }
+  return path.basename(link.target, path.extname(link.target));
+}
+
+function createDiagnostic(line: number, link: Pick<BrokenLink, 'kind' | 'target' | 'startColumn' | 'endColumn'>): vscode.Diagnostic {
+  const message = link.kind === 'wiki'
+    ? `No memo matches "[[${link.target}]]"`
+    : `Linked memo "${link.target}" does not exist`;
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(line, link.startColumn, line, link.endColumn),
+    message,
+    vscode.DiagnosticSeverity.Warning
+  );
+  diagnostic.source = BROKEN_LINK_DIAGNOSTIC_SOURCE;
+  diagnostic.code = BROKEN_LINK_DIAGNOSTIC_CODE;
+  return diagnostic;
+}
+
+/**
+ * Reports memo links that do not resolve in the Problems panel.
+ * Open documents are checked from their current text; the workspace check uses the backlink index.
+ */
+export class BrokenLinkDiagnosticsProvider implements vscode.Disposable {
+  private diagnosticCollection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+  private pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private backlinkService: IBacklinkService,
+    private fileService: IFileService,
+    private configService: IConfigService,
+    private workspaceRoot: string
+  ) {
+    this.diagnosticCollection = vscode.languages.createDiagnosticCollection('vsmemo-links');
+
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.updateDocument(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.diagnosticCollection.delete(document.uri))
+    );
+
+    vscode.workspace.textDocuments.forEach(document => this.updateDocument(document));
+  }
+
+  /**
+   * Re-check every open memo, e.g. after memos were created or deleted
+   */
+  refreshOpenDocuments(): void {
+    vscode.workspace.textDocuments.forEach(document => this.updateDocument(document));
+  }
+
+  /**
+   * Check the links of a single document and publish the results
+   */
+  async updateDocument(document: vscode.TextDocument): Promise<void> {
+    if (document.languageId !== 'markdown' || document.uri.scheme !== 'file') {
+      return;
+    }
+
+    try {
+      // READMEs and other docs in the workspace are not memos
+      if (!isMemoFilePath(document.uri.fsPath, this.workspaceRoot, await this.configService.loadConfig())) {
+        this.diagnosticCollection.delete(document.uri);
+        return;
+      }
+
+      const diagnostics: vscode.Diagnostic[] = [];
+      for (let line = 0; line < document.lineCount; line++) {
+        for (const link of parseMemoLinks(document.lineAt(line).text)) {
+          if (!(await this.isResolved(document.uri.fsPath, link))) {
+            diagnostics.push(createDiagnostic(line, { ...link, startColumn: link.start, endColumn: link.end }));
+          }
+        }
+      }
+      this.diagnosticCollection.set(document.uri, diagnostics);
+    } catch (error) {
+      console.warn(`Failed to check links in ${document.uri.fsPath}:`, error);
+    }
+  }
+
+  /**
+   * Publish broken links found across the workspace, replacing earlier results
+   */
+  reportBrokenLinks(brokenLinks: BrokenLink[]): void {
+    const linksByFile = new Map<string, BrokenLink[]>();
+    for (const link of brokenLinks) {
+      const links = linksByFile.get(link.sourceFile) || [];
+      links.push(link);
+      linksByFile.set(link.sourceFile, links);
+    }
+
+    this.diagnosticCollection.clear();
+    for (const [filePath, links] of linksByFile) {
+      this.diagnosticCollection.set(
+        vscode.Uri.file(filePath),
+        links.map(link => createDiagnostic(link.sourceLine - 1, link))
+      );
+    }
+
+    // Open documents may have unsaved edits, so prefer their live text
+    this.refreshOpenDocuments();
+  }
+
+  dispose(): void {
+    this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
+    this.pendingUpdates.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.diagnosticCollection.dispose();
+  }
+
+  private scheduleUpdate(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const pending = this.pendingUpdates.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.pendingUpdates.set(key, setTimeout(() => {
+      this.pendingUpdates.delete(key);
+      this.updateDocument(document);
+    }, 500));
+  }
+
+  private async isResolved(sourceFile: string, link: ParsedMemoLink): Promise<boolean> {
+    if (link.kind === 'wiki') {
+      return this.backlinkService.resolveWikiLink(link.target, sourceFile) !== undefined;
+    }
+    return this.fileService.exists(resolveRelativePath(sourceFile, link.target));
+  }
+}
+
+/**
+ * Quick fixes for broken memo links: create the memo, re-point the link or remove it
+ */
+export class BrokenLinkCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private backlinkService: IBacklinkService) {}
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== BROKEN_LINK_DIAGNOSTIC_SOURCE || diagnostic.code !== BROKEN_LINK_DIAGNOSTIC_CODE) {
+        continue;
+      }
+
+      const link = findMemoLinkAt(document.lineAt(diagnostic.range.start.line).text, diagnostic.range.start.character);
+      if (!link) {
+        continue;
+      }
+
+      const linkRange = new vscode.Range(diagnostic.range.start.line, link.start, diagnostic.range.start.line, link.end);
+      const name = getBrokenLinkName(link);
+
+      const createAction = new vscode.CodeAction(`Create memo "${name}"...`, vscode.CodeActionKind.QuickFix);
+      createAction.command = {
+        command: 'vsmemo.createMemoForBrokenLink',
+        title: 'Create Memo for Broken Link',
+        arguments: [document.uri, linkRange]
+      };
+      createAction.diagnostics = [diagnostic];
+      actions.push(createAction);
+
+      const suggestions = rankBySimilarity(
+        name,
+        this.backlinkService.getMemoFiles().filter(memo => memo.filePath !== document.uri.fsPath),
+        memo => [path.basename(memo.filePath, path.extname(memo.filePath)), memo.title || ''],
+        3
+      );
+      suggestions.forEach((memo, index) => {
+        const action = new vscode.CodeAction(
+          `Change link to "${path.basename(memo.filePath)}"`,
+          vscode.CodeActionKind.QuickFix
+        );
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, linkRange, this.formatRepointedLink(document.uri.fsPath, link, memo.filePath));
+        action.diagnostics = [diagnostic];
+        action.isPreferred = index === 0;
+        actions.push(action);
+      });
+
+      const removeAction = new vscode.CodeAction('Remove link (keep text)', vscode.CodeActionKind.QuickFix);
+      removeAction.edit = new vscode.WorkspaceEdit();
+      removeAction.edit.replace(document.uri, linkRange, link.text);
+      removeAction.diagnostics = [diagnostic];
+      actions.push(removeAction);
+    }
+
+    return actions;
+  }
+
+  private formatRepointedLink(sourceFile: string, link: ParsedMemoLink, targetFile: string): string {
+    if (link.kind === 'wiki') {
+      const alias = link.text !== link.target ? link.text : undefined;
+      return formatWikiLink(renameWikiTarget(link.target, targetFile), alias, link.anchor);
+    }
+    return formatMarkdownLink(link.text, calculateRelativePath(sourceFile, targetFile), link.anchor);
+  }
+}
@@ -0,0 +1,22 @@
+import * as vscode from 'vscode';
+
+/**
+ * Offers "Extract to new memo" on a non-empty selection
+ */
+export class ExtractMemoCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.RefactorExtract];
+
+  provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+    if (range.isEmpty) {
+      return [];
+    }
+
+    const action = new vscode.CodeAction('Extract to new memo...', vscode.CodeActionKind.RefactorExtract);
+    action.command = {
+      command: 'vsmemo.extractToNewMemo',
+      title: 'Extract to New Memo',
+      arguments: [document.uri, range]
+    };
+    return [action];
+  }
+}
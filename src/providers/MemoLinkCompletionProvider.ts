@@ -4,6 +4,7 @@ import { IConfigService } from '../services/interfaces/IConfigService';
 import { IFileService } from '../services/interfaces/IFileService';
 import { isValidMemoFile, extractFileNameWithoutExtension } from '../utils/fileUtils';
 import { calculateRelativePath } from '../utils/pathUtils';
+import { parseFrontmatter } from '../utils/frontmatterUtils';
 
 export class MemoLinkCompletionProvider implements vscode.CompletionItemProvider {
   constructor(
@@ -20,6 +21,13 @@ export class MemoLinkCompletionProvider implements vscode.CompletionItemProvider
     const lineText = document.lineAt(position.line).text;
     const textBeforeCursor = lineText.substring(0, position.character);
 
+    // Check if we're inside a wiki link (triggered after `[[`)
+    const wikiMatch = textBeforeCursor.match(/\[\[([^[\]|]*)$/);
+    if (wikiMatch) {
+      const textAfterCursor = lineText.substring(position.character);
+      return this.provideWikiLinkCompletionItems(position, wikiMatch[1], !textAfterCursor.startsWith(']]'));
+    }
+
     // Check if we're inside a markdown link (triggered after `](`)
     const linkMatch = textBeforeCursor.match(/\[.*?\]\(([^)]*?)$/);
     if (!linkMatch) {
@@ -88,6 +96,64 @@ export class MemoLinkCompletionProvider implements vscode.CompletionItemProvider
     }
   }
 
+  private async provideWikiLinkCompletionItems(
+    position: vscode.Position,
+    partialTarget: string,
+    appendClosingBrackets: boolean
+  ): Promise<vscode.CompletionItem[]> {
+    try {
+      const workspaceFolders = vscode.workspace.workspaceFolders;
+      if (!workspaceFolders || workspaceFolders.length === 0) {
+        return [];
+      }
+
+      const workspaceRoot = workspaceFolders[0].uri.fsPath;
+      const config = await this.configService.loadConfig();
+      const baseDir = path.join(workspaceRoot, config.baseDir);
+
+      const memoFiles: Array<{ title: string; relativePath: string; fullPath: string }> = [];
+      await this.collectMemoFiles(baseDir, workspaceRoot, config.baseDir, config.fileExtensions, memoFiles);
+
+      // Use the bare file name unless it is ambiguous, then fall back to the path from baseDir
+      const nameCounts = new Map<string, number>();
+      for (const memo of memoFiles) {
+        const name = extractFileNameWithoutExtension(path.basename(memo.fullPath), config.fileExtensions).toLowerCase();
+        nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+      }
+
+      const lowerPartial = partialTarget.toLowerCase();
+      const startPos = position.translate(0, -partialTarget.length);
+      const completionItems: vscode.CompletionItem[] = [];
+
+      for (const memo of memoFiles) {
+        const name = extractFileNameWithoutExtension(path.basename(memo.fullPath), config.fileExtensions);
+        const target = (nameCounts.get(name.toLowerCase()) || 0) > 1
+          ? path.join(path.dirname(memo.relativePath), name).replace(/\\/g, '/')
+          : name;
+
+        if (lowerPartial !== '' && !target.toLowerCase().includes(lowerPartial) &&
+            !memo.title.toLowerCase().includes(lowerPartial)) {
+          continue;
+        }
+
+        const completionItem = new vscode.CompletionItem(memo.title, vscode.CompletionItemKind.Reference);
+        completionItem.insertText = appendClosingBrackets ? `${target}]]` : target;
+        completionItem.filterText = `${memo.title} ${target}`;
+        completionItem.detail = `[[${target}]]`;
+        completionItem.documentation = new vscode.MarkdownString(`📄 ${memo.relativePath}`);
+        completionItem.range = new vscode.Range(startPos, position);
+        completionItem.sortText = (memo.title.toLowerCase().startsWith(lowerPartial) ? '0' : '1') + memo.title;
+
+        completionItems.push(completionItem);
+      }
+
+      return completionItems;
+    } catch (error) {
+      console.warn('Error providing wiki link completion:', error);
+      return [];
+    }
+  }
+
   private async collectMemoFiles(
     searchDir: string,
     workspaceRoot: string,
@@ -132,13 +198,9 @@ export class MemoLinkCompletionProvider implements vscode.CompletionItemProvider
 
   private extractTitleFromContent(content: string, fileName: string, fileExtensions: string[]): string {
     // Try to get title from frontmatter first
-    const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/);
-    if (frontmatterMatch) {
-      const frontmatterText = frontmatterMatch[1];
-      const titleMatch = frontmatterText.match(/^title:\s*(.*)$/m);
-      if (titleMatch) {
-        return titleMatch[1].trim();
-      }
+    const frontmatter = parseFrontmatter(content);
+    if (typeof frontmatter?.title === 'string' && frontmatter.title.trim()) {
+      return frontmatter.title.trim();
     }
 
     // Try to extract from first heading
@@ -3,13 +3,39 @@ import * as path from 'path';
 import { IConfigService } from '../services/interfaces/IConfigService';
 import { IFileService } from '../services/interfaces/IFileService';
 import { IMetadataService } from '../services/interfaces/IMetadataService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
 import { MemoMetadata } from '../models/MemoMetadata';
 import { resolveRelativePath } from '../utils/pathUtils';
+import { findMemoLinkAt, findAnchor, extractAnchorSection, ParsedMemoLink } from '../utils/linkUtils';
+
+/**
+ * Find the memo link under the cursor and resolve it to an absolute path
+ * Wiki links are resolved through the backlink index when available
+ */
+function resolveLinkAtPosition(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  backlinkService?: IBacklinkService
+): { link: ParsedMemoLink; range: vscode.Range; targetPath: string | undefined } | undefined {
+  const link = findMemoLinkAt(document.lineAt(position.line).text, position.character);
+  if (!link) {
+    return undefined;
+  }
+
+  const range = new vscode.Range(position.line, link.start, position.line, link.end);
+  const currentFilePath = document.uri.fsPath;
+  const targetPath = link.kind === 'wiki'
+    ? backlinkService?.resolveWikiLink(link.target, currentFilePath)
+    : resolveRelativePath(currentFilePath, link.target);
+
+  return { link, range, targetPath };
+}
 
 export class MemoLinkProvider implements vscode.DefinitionProvider {
   constructor(
     private configService: IConfigService,
-    private fileService: IFileService
+    private fileService: IFileService,
+    private backlinkService?: IBacklinkService
   ) {}
 
   async provideDefinition(
@@ -22,28 +48,26 @@ export class MemoLinkProvider implements vscode.DefinitionProvider {
       return undefined;
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    const currentFilePath = document.uri.fsPath;
-
-    // Get the word/line at the current position - match markdown links to .md/.markdown files (exclude http/https)
-    const wordRange = document.getWordRangeAtPosition(position, /\[.*?\]\((?!https?:\/\/)[^)]+\.(?:md|markdown)\)/);
-    if (!wordRange) {
-      return undefined;
-    }
-
-    const linkText = document.getText(wordRange);
-    const relativePath = this.extractRelativePath(linkText);
-    if (!relativePath) {
+    // Find a markdown link to .md/.markdown files or a [[wiki link]] at the current position
+    const resolved = resolveLinkAtPosition(document, position, this.backlinkService);
+    if (!resolved) {
       return undefined;
     }
 
     try {
-      const targetPath = resolveRelativePath(currentFilePath, relativePath);
+      const targetPath = resolved.targetPath;
+
+      if (targetPath && await this.fileService.exists(targetPath)) {
+        // Jump to the heading or ^block-id when the link has an anchor
+        let line = 0;
+        if (resolved.link.anchor) {
+          const content = await this.fileService.readFile(targetPath);
+          line = findAnchor(content, resolved.link.anchor)?.line ?? 0;
+        }
 
-      if (await this.fileService.exists(targetPath)) {
         return new vscode.Location(
           vscode.Uri.file(targetPath),
-          new vscode.Position(0, 0)
+          new vscode.Position(line, 0)
         );
       }
     } catch (error) {
@@ -52,16 +76,6 @@ export class MemoLinkProvider implements vscode.DefinitionProvider {
 
     return undefined;
   }
-
-  /**
-   * Extract relative path from markdown link
-   * Input: [メモのリンク](./memo/2025/テストメモタイトル.md)
-   * Output: ./memo/2025/テストメモタイトル.md
-   */
-  private extractRelativePath(linkText: string): string | undefined {
-    const match = linkText.match(/\[.*?\]\(([^)]+\.(?:md|markdown))\)/);
-    return match ? match[1] : undefined;
-  }
 }
 
 /**
@@ -71,7 +85,8 @@ export class MemoLinkHoverProvider implements vscode.HoverProvider {
   constructor(
     private configService: IConfigService,
     private fileService: IFileService,
-    private metadataService?: IMetadataService
+    private metadataService?: IMetadataService,
+    private backlinkService?: IBacklinkService
   ) {}
 
   async provideHover(
@@ -85,22 +100,16 @@ export class MemoLinkHoverProvider implements vscode.HoverProvider {
     }
 
     const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    const currentFilePath = document.uri.fsPath;
 
-    // Get the word/line at the current position - match markdown links to .md/.markdown files (exclude http/https)
-    const wordRange = document.getWordRangeAtPosition(position, /\[.*?\]\((?!https?:\/\/)[^)]+\.(?:md|markdown)\)/);
-    if (!wordRange) {
-      return undefined;
-    }
-
-    const linkText = document.getText(wordRange);
-    const relativePath = this.extractRelativePath(linkText);
-    if (!relativePath) {
+    // Find a markdown link to .md/.markdown files or a [[wiki link]] at the current position
+    const resolved = resolveLinkAtPosition(document, position, this.backlinkService);
+    if (!resolved) {
       return undefined;
     }
+    const wordRange = resolved.range;
 
     try {
-      const targetPath = resolveRelativePath(currentFilePath, relativePath);
+      const targetPath = resolved.targetPath;
 
       if (targetPath) {
         const exists = await this.fileService.exists(targetPath);
@@ -113,6 +122,22 @@ export class MemoLinkHoverProvider implements vscode.HoverProvider {
         if (exists) {
           hoverText.appendMarkdown(`✅ File exists - Click to open\n\n`);
 
+          // Preview only the linked section when the link has an anchor
+          if (resolved.link.anchor) {
+            try {
+              const content = await this.fileService.readFile(targetPath);
+              const section = extractAnchorSection(content, resolved.link.anchor);
+              if (section !== undefined) {
+                hoverText.appendMarkdown(`**§ ${resolved.link.anchor}**\n\n`);
+                hoverText.appendCodeblock(this.truncateSection(section), 'markdown');
+              } else {
+                hoverText.appendMarkdown(`⚠️ Section \`${resolved.link.anchor}\` not found\n\n`);
+              }
+            } catch (error) {
+              console.warn('Failed to read section for hover:', error);
+            }
+          }
+
           // Show metadata if available
           if (this.metadataService) {
             try {
@@ -157,6 +182,12 @@ export class MemoLinkHoverProvider implements vscode.HoverProvider {
           hoverText.appendMarkdown(`❌ File not found`);
         }
 
+        return new vscode.Hover(hoverText, wordRange);
+      } else if (resolved.link.kind === 'wiki') {
+        const hoverText = new vscode.MarkdownString();
+        hoverText.appendMarkdown(`**VsMemo Link**\n\n`);
+        hoverText.appendMarkdown(`🔗 \`[[${resolved.link.target}]]\`\n\n`);
+        hoverText.appendMarkdown(`❌ No memo matches this name or title`);
         return new vscode.Hover(hoverText, wordRange);
       }
     } catch (error) {
@@ -166,9 +197,15 @@ export class MemoLinkHoverProvider implements vscode.HoverProvider {
     return undefined;
   }
 
-  private extractRelativePath(linkText: string): string | undefined {
-    const match = linkText.match(/\[.*?\]\(([^)]+\.(?:md|markdown))\)/);
-    return match ? match[1] : undefined;
+  /**
+   * Limit section previews to a readable length
+   */
+  private truncateSection(section: string, maxLines: number = 20): string {
+    const lines = section.split('\n');
+    if (lines.length <= maxLines) {
+      return section;
+    }
+    return lines.slice(0, maxLines).join('\n') + '\n...';
   }
 
   /**
@@ -18,9 +18,10 @@ export class MemoMarkdownPreviewProvider {
 
       if (hrefIndex >= 0) {
         const href = token.attrs[hrefIndex][1];
+        const hrefPath = href.split('#')[0];
 
-        // Check if this is a relative path link to a .md/.markdown file (not http/https)
-        if ((href.endsWith('.md') || href.endsWith('.markdown')) && !href.startsWith('http://') && !href.startsWith('https://')) {
+        // Check if this is a relative path link to a .md/.markdown file, optionally with an anchor (not http/https)
+        if ((hrefPath.endsWith('.md') || hrefPath.endsWith('.markdown')) && !href.startsWith('http://') && !href.startsWith('https://')) {
           try {
             // Add styling and tooltip for memo links
             token.attrSet('class', 'vsmemo-link');
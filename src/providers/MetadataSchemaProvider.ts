@@ -0,0 +1,347 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IConfigService } from '../services/interfaces/IConfigService';
+import { IMetadataService, ValidationError } from '../services/interfaces/IMetadataService';
+import { MemoConfig } from '../models/MemoConfig';
+import {
+  MemoMetadata,
+  MetadataSchema,
+  RawFrontmatter,
+  isSpecialMetadataKey,
+  isSystemMetadataKey,
+  resolveUserSchema
+} from '../models/MemoMetadata';
+import { FrontmatterOutline, FrontmatterRange, outlineFrontmatter, parseFrontmatter } from '../utils/frontmatterUtils';
+import { isMemoFilePath } from '../utils/fileUtils';
+
+export const METADATA_DIAGNOSTIC_SOURCE = 'VsMemo';
+export const MISSING_METADATA_DIAGNOSTIC_CODE = 'missing-metadata';
+
+/**
+ * The schema that applies to a memo: the workspace-wide schema plus that of its memo type.
+ * The memo type comes from the frontmatter type, or else the memo type directory the file is in.
+ */
+async function loadSchemaForMemo(
+  configService: IConfigService,
+  workspaceRoot: string,
+  filePath: string,
+  frontmatter: RawFrontmatter
+): Promise<Record<string, MetadataSchema> | undefined> {
+  const config = await configService.loadConfig();
+  if (!isMemoFilePath(filePath, workspaceRoot, config)) {
+    return undefined;
+  }
+
+  const baseDir = path.join(workspaceRoot, config.baseDir);
+  const schema = resolveUserSchema(config.metadata, findMemoType(config, baseDir, filePath, frontmatter.type)?.metadata);
+  return Object.keys(schema).length > 0 ? schema : undefined;
+}
+
+function findMemoType(config: MemoConfig, baseDir: string, filePath: string, typeId: unknown) {
+  const typeById = typeof typeId === 'string' ? config.memoTypes.find(memoType => memoType.id === typeId) : undefined;
+  return typeById || config.memoTypes
+    .filter(memoType => memoType.baseDir)
+    .find(memoType => filePath.startsWith(path.join(baseDir, memoType.baseDir!) + path.sep));
+}
+
+/**
+ * Classify frontmatter for validation without requiring a type, so the missing type is reported too
+ */
+function toMemoMetadata(frontmatter: RawFrontmatter): MemoMetadata {
+  const user: Record<string, any> = {};
+  for (const [key, value] of Object.entries(frontmatter)) {
+    if (!isSystemMetadataKey(key) && !isSpecialMetadataKey(key)) {
+      user[key] = value;
+    }
+  }
+
+  return {
+    system: { type: typeof frontmatter.type === 'string' ? frontmatter.type : '' },
+    special: { tags: frontmatter.tags, title: frontmatter.title },
+    user
+  };
+}
+
+function toVsCodeRange(range: FrontmatterRange): vscode.Range {
+  return new vscode.Range(range.startLine, range.startCharacter, range.endLine, range.endCharacter);
+}
+
+function createDiagnostic(error: ValidationError, outline: FrontmatterOutline, document: vscode.TextDocument): vscode.Diagnostic {
+  const location = outline.keys.get(error.field);
+  // Missing fields are reported on the opening fence, wrong values on the value itself
+  const range = error.type === 'missing_required' || !location
+    ? document.lineAt(0).range
+    : toVsCodeRange(location.value || location.key);
+
+  const diagnostic = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Warning);
+  diagnostic.source = METADATA_DIAGNOSTIC_SOURCE;
+  if (error.type === 'missing_required') {
+    diagnostic.code = MISSING_METADATA_DIAGNOSTIC_CODE;
+  }
+  return diagnostic;
+}
+
+/**
+ * Reports frontmatter that does not match the configured metadata schema in the Problems panel:
+ * missing required fields, values of the wrong type, invalid dates and values outside an enum.
+ * YAML syntax errors are reported in any markdown document.
+ */
+export class MetadataDiagnosticsProvider implements vscode.Disposable {
+  private diagnosticCollection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+  private pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private configService: IConfigService,
+    private metadataService: IMetadataService,
+    private workspaceRoot: string
+  ) {
+    this.diagnosticCollection = vscode.languages.createDiagnosticCollection('vsmemo-metadata');
+
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.updateDocument(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.diagnosticCollection.delete(document.uri)),
+      // The schema lives in .vsmemo/config.json
+      vscode.workspace.onDidSaveTextDocument(document => {
+        if (document.uri.fsPath === path.join(this.workspaceRoot, '.vsmemo', 'config.json')) {
+          this.refreshOpenDocuments();
+        }
+      })
+    );
+
+    vscode.workspace.textDocuments.forEach(document => this.updateDocument(document));
+  }
+
+  /**
+   * Re-check every open markdown document, e.g. after the schema changed
+   */
+  refreshOpenDocuments(): void {
+    vscode.workspace.textDocuments.forEach(document => this.updateDocument(document));
+  }
+
+  /**
+   * Check the frontmatter of a single document and publish the results
+   */
+  async updateDocument(document: vscode.TextDocument): Promise<void> {
+    if (document.languageId !== 'markdown' || document.uri.scheme !== 'file') {
+      return;
+    }
+
+    try {
+      // Frontmatter in READMEs and other docs is not memo metadata
+      if (!isMemoFilePath(document.uri.fsPath, this.workspaceRoot, await this.configService.loadConfig())) {
+        this.diagnosticCollection.delete(document.uri);
+        return;
+      }
+
+      const content = document.getText();
+      const outline = outlineFrontmatter(content);
+      if (!outline) {
+        this.diagnosticCollection.delete(document.uri);
+        return;
+      }
+
+      const diagnostics = outline.errors.map(error => {
+        const diagnostic = new vscode.Diagnostic(toVsCodeRange(error.range), `Invalid YAML frontmatter: ${error.message}`, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = METADATA_DIAGNOSTIC_SOURCE;
+        return diagnostic;
+      });
+
+      const frontmatter = diagnostics.length === 0 ? parseFrontmatter(content) : null;
+      if (frontmatter) {
+        const schema = await loadSchemaForMemo(this.configService, this.workspaceRoot, document.uri.fsPath, frontmatter);
+        if (schema) {
+          const result = this.metadataService.validateMetadata(toMemoMetadata(frontmatter), schema);
+          diagnostics.push(...(result.errors || []).map(error => createDiagnostic(error, outline, document)));
+        }
+      }
+
+      this.diagnosticCollection.set(document.uri, diagnostics);
+    } catch (error) {
+      console.warn(`Failed to check metadata in ${document.uri.fsPath}:`, error);
+    }
+  }
+
+  dispose(): void {
+    this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
+    this.pendingUpdates.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.diagnosticCollection.dispose();
+  }
+
+  private scheduleUpdate(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const pending = this.pendingUpdates.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.pendingUpdates.set(key, setTimeout(() => {
+      this.pendingUpdates.delete(key);
+      this.updateDocument(document);
+    }, 500));
+  }
+}
+
+/**
+ * Quick fix for missing required fields that have a default value: add them with it
+ */
+export class MetadataCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(
+    private configService: IConfigService,
+    private metadataService: IMetadataService,
+    private workspaceRoot: string
+  ) {}
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    const diagnostics = context.diagnostics.filter(diagnostic =>
+      diagnostic.source === METADATA_DIAGNOSTIC_SOURCE && diagnostic.code === MISSING_METADATA_DIAGNOSTIC_CODE
+    );
+    if (diagnostics.length === 0) {
+      return [];
+    }
+
+    const content = document.getText();
+    const frontmatter = parseFrontmatter(content);
+    const schema = frontmatter
+      ? await loadSchemaForMemo(this.configService, this.workspaceRoot, document.uri.fsPath, frontmatter)
+      : undefined;
+    if (!frontmatter || !schema) {
+      return [];
+    }
+
+    const defaults: Record<string, unknown> = {};
+    for (const [field, fieldSchema] of Object.entries(schema)) {
+      if (fieldSchema.required && fieldSchema.defaultValue !== undefined && !(field in frontmatter)) {
+        defaults[field] = fieldSchema.defaultValue;
+      }
+    }
+
+    const fields = Object.keys(defaults);
+    if (fields.length === 0) {
+      return [];
+    }
+
+    const title = fields.length === 1
+      ? `Add "${fields[0]}: ${JSON.stringify(defaults[fields[0]])}"`
+      : `Add missing fields with their defaults (${fields.join(', ')})`;
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(0), document.positionAt(content.length)),
+      this.metadataService.updateFrontmatter(content, defaults)
+    );
+    action.diagnostics = diagnostics;
+    action.isPreferred = true;
+    return [action];
+  }
+}
+
+/**
+ * Completes frontmatter keys from the metadata schema, and enum, boolean and date values
+ */
+export class MetadataCompletionProvider implements vscode.CompletionItemProvider {
+  constructor(
+    private configService: IConfigService,
+    private workspaceRoot: string
+  ) {}
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[]> {
+    const content = document.getText();
+    const outline = outlineFrontmatter(content);
+    if (!outline || position.line === 0 || position.line >= outline.endLine) {
+      return [];
+    }
+
+    // Fall back to the directory's memo type while the frontmatter is being edited and does not parse
+    const frontmatter = parseFrontmatter(content) || {};
+    const schema = await loadSchemaForMemo(this.configService, this.workspaceRoot, document.uri.fsPath, frontmatter);
+    if (!schema) {
+      return [];
+    }
+
+    const textBeforeCursor = document.lineAt(position.line).text.substring(0, position.character);
+
+    // A top-level key being typed
+    if (/^[\w-]*$/.test(textBeforeCursor)) {
+      return Object.entries(schema)
+        .filter(([key]) => !outline.keys.has(key) || textBeforeCursor === key)
+        .map(([key, fieldSchema]) => this.createKeyItem(key, fieldSchema));
+    }
+
+    // A value: "key: ", "key: [a, " or a "- " list item under a key
+    const valueMatch = textBeforeCursor.match(/^([\w-]+):\s*(?:\[(?:[^,\]]*,\s*)*)?([^,[\]]*)$/);
+    const itemMatch = textBeforeCursor.match(/^\s*-\s+([^,[\]]*)$/);
+    const field = valueMatch ? valueMatch[1] : itemMatch ? this.findParentKey(document, position.line) : undefined;
+    const fieldSchema = field ? schema[field] : undefined;
+    if (!fieldSchema) {
+      return [];
+    }
+
+    const typed = valueMatch ? valueMatch[2] : itemMatch![1];
+    const range = new vscode.Range(position.line, position.character - typed.length, position.line, position.character);
+    return this.getValueSuggestions(fieldSchema).map(value => {
+      const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
+      item.range = range;
+      item.detail = fieldSchema.description;
+      return item;
+    });
+  }
+
+  private createKeyItem(key: string, fieldSchema: MetadataSchema): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+    item.detail = `${fieldSchema.type}${fieldSchema.required ? ' (required)' : ''}`;
+    item.documentation = fieldSchema.description;
+    item.insertText = `${key}: `;
+    // Suggest values straight away
+    item.command = { command: 'editor.action.triggerSuggest', title: 'Suggest Values' };
+    return item;
+  }
+
+  private getValueSuggestions(fieldSchema: MetadataSchema): string[] {
+    if (fieldSchema.enum) {
+      return fieldSchema.enum.map(value => String(value));
+    }
+
+    switch (fieldSchema.type) {
+      case 'boolean':
+        return ['true', 'false'];
+      case 'date': {
+        const today = new Date();
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return [`${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`];
+      }
+      default:
+        return fieldSchema.defaultValue !== undefined && typeof fieldSchema.defaultValue !== 'object'
+          ? [String(fieldSchema.defaultValue)]
+          : [];
+    }
+  }
+
+  /**
+   * The top-level key a "- item" line belongs to
+   */
+  private findParentKey(document: vscode.TextDocument, line: number): string | undefined {
+    for (let current = line - 1; current > 0; current--) {
+      const keyMatch = document.lineAt(current).text.match(/^([\w-]+):\s*$/);
+      if (keyMatch) {
+        return keyMatch[1];
+      }
+      if (!/^\s*(-|#|$)/.test(document.lineAt(current).text)) {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import { ITagIndexService } from '../services/interfaces/ITagIndexService';
+import { isTaggableLine } from '../utils/tagUtils';
+
+// The # being typed and the part of the tag after it
+const PARTIAL_TAG_PATTERN = /(?:^|[\s([{,;])#([\p{L}\p{N}_\-/]*)$/u;
+
+/**
+ * Completes inline #hashtags from the tags already used in memos
+ */
+export class TagCompletionProvider implements vscode.CompletionItemProvider {
+  constructor(private tagIndexService: ITagIndexService) {}
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[]> {
+    const textBeforeCursor = document.lineAt(position.line).text.substring(0, position.character);
+    const match = textBeforeCursor.match(PARTIAL_TAG_PATTERN);
+    if (!match || !isTaggableLine(document.getText(), position.line)) {
+      return [];
+    }
+
+    const partialTag = match[1];
+    const range = new vscode.Range(position.translate(0, -partialTag.length), position);
+    const tags = await this.tagIndexService.getAllTags();
+
+    // getAllTags is sorted by count, so keep that order
+    return tags.map((tagInfo, index) => {
+      const item = new vscode.CompletionItem(tagInfo.tag, vscode.CompletionItemKind.Keyword);
+      item.range = range;
+      item.detail = `${tagInfo.count} memo${tagInfo.count !== 1 ? 's' : ''}`;
+      item.sortText = String(index).padStart(5, '0');
+      return item;
+    });
+  }
+}
@@ -0,0 +1,277 @@
+import { tokenize } from './tokenizer';
+import { TextQueryClause } from './textQuery';
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Upper bound on terms a prefix expands to, keeps one-letter prefixes cheap
+const MAX_PREFIX_EXPANSIONS = 100;
+
+// term -> document id -> field -> token positions
+type Postings = Map<string, Map<string, Map<string, number[]>>>;
+
+/**
+ * A field already tokenized: the positions of each term and the number of tokens
+ */
+export interface FieldTerms {
+  positions: Record<string, number[]>;
+  length: number;
+}
+
+/**
+ * Tokenize a field's text into the form the index stores, so callers can cache it instead of the text
+ */
+export function analyzeField(text: string): FieldTerms {
+  const tokens = tokenize(text);
+  // No prototype, so a token such as "constructor" is just another key
+  const positions: Record<string, number[]> = Object.create(null);
+  tokens.forEach((token, position) => {
+    if (positions[token]) {
+      positions[token].push(position);
+    } else {
+      positions[token] = [position];
+    }
+  });
+  return { positions, length: tokens.length };
+}
+
+/**
+ * In-memory inverted index over documents with named fields, ranked with BM25.
+ * Each field has its own length normalization and a boost applied to its score.
+ */
+export class InvertedIndex {
+  private postings: Postings = new Map();
+  private documentTerms = new Map<string, Set<string>>();
+  private fieldLengths = new Map<string, Map<string, number>>();
+  private totalFieldLengths = new Map<string, number>();
+  private sortedTerms: string[] | undefined;
+
+  constructor(private fieldBoosts: Record<string, number>) {}
+
+  get size(): number {
+    return this.documentTerms.size;
+  }
+
+  has(id: string): boolean {
+    return this.documentTerms.has(id);
+  }
+
+  /**
+   * Add or replace a document. Fields are given as text or as terms from analyzeField.
+   */
+  addDocument(id: string, fields: Record<string, string | FieldTerms>): void {
+    this.removeDocument(id);
+
+    const terms = new Set<string>();
+    const lengths = new Map<string, number>();
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (!(field in this.fieldBoosts)) {
+        continue;
+      }
+
+      const analyzed = typeof value === 'string' ? analyzeField(value) : value;
+      lengths.set(field, analyzed.length);
+      this.totalFieldLengths.set(field, (this.totalFieldLengths.get(field) || 0) + analyzed.length);
+
+      for (const [term, positions] of Object.entries(analyzed.positions)) {
+        let documents = this.postings.get(term);
+        if (!documents) {
+          documents = new Map();
+          this.postings.set(term, documents);
+          this.sortedTerms = undefined;
+        }
+        let fieldPositions = documents.get(id);
+        if (!fieldPositions) {
+          fieldPositions = new Map();
+          documents.set(id, fieldPositions);
+        }
+        fieldPositions.set(field, [...positions]);
+        terms.add(term);
+      }
+    }
+
+    this.documentTerms.set(id, terms);
+    this.fieldLengths.set(id, lengths);
+  }
+
+  removeDocument(id: string): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) {
+      return;
+    }
+
+    for (const term of terms) {
+      const documents = this.postings.get(term);
+      documents?.delete(id);
+      if (documents && documents.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = undefined;
+      }
+    }
+
+    for (const [field, length] of this.fieldLengths.get(id) || []) {
+      this.totalFieldLengths.set(field, (this.totalFieldLengths.get(field) || 0) - length);
+    }
+
+    this.documentTerms.delete(id);
+    this.fieldLengths.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documentTerms.clear();
+    this.fieldLengths.clear();
+    this.totalFieldLengths.clear();
+    this.sortedTerms = undefined;
+  }
+
+  /**
+   * Find documents matching every positive clause and no negated clause, best first.
+   * Without positive clauses every document matches with a score of 0.
+   */
+  search(clauses: TextQueryClause[]): SearchHit[] {
+    const positive = clauses.filter(clause => !clause.negated);
+    const negated = clauses.filter(clause => clause.negated);
+
+    let scores: Map<string, number>;
+    if (positive.length === 0) {
+      scores = new Map(Array.from(this.documentTerms.keys(), id => [id, 0]));
+    } else {
+      scores = this.scoreClause(positive[0]);
+      for (const clause of positive.slice(1)) {
+        const clauseScores = this.scoreClause(clause);
+        for (const [id, score] of scores) {
+          const clauseScore = clauseScores.get(id);
+          if (clauseScore === undefined) {
+            scores.delete(id);
+          } else {
+            scores.set(id, score + clauseScore);
+          }
+        }
+      }
+    }
+
+    for (const clause of negated) {
+      for (const id of this.scoreClause(clause).keys()) {
+        scores.delete(id);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Score every document matching a clause
+   */
+  private scoreClause(clause: TextQueryClause): Map<string, number> {
+    // Each slot lists the terms accepted at that position of the clause
+    const slots = clause.tokens.map((token, index) =>
+      clause.prefix && index === clause.tokens.length - 1 ? this.expandPrefix(token) : [token]);
+    const scores = new Map<string, number>();
+    if (slots.some(slot => slot.length === 0)) {
+      return scores;
+    }
+
+    // Rare slots make a clause more specific
+    const idf = slots.reduce((sum, slot) => sum + this.inverseDocumentFrequency(this.documentsOf(slot).size), 0);
+
+    // Candidates must contain a term of every slot
+    let candidates = this.documentsOf(slots[0]);
+    for (const slot of slots.slice(1)) {
+      const slotDocuments = this.documentsOf(slot);
+      candidates = new Set(Array.from(candidates).filter(id => slotDocuments.has(id)));
+    }
+
+    for (const id of candidates) {
+      let score = 0;
+      for (const [field, boost] of Object.entries(this.fieldBoosts)) {
+        const frequency = clause.phrase && slots.length > 1
+          ? this.phraseFrequency(id, field, slots)
+          : this.positionsOf(id, field, slots[0]).length;
+        if (frequency > 0) {
+          score += boost * idf * this.normalizeFrequency(id, field, frequency);
+        }
+      }
+      if (score > 0) {
+        scores.set(id, score);
+      }
+    }
+
+    return scores;
+  }
+
+  private phraseFrequency(id: string, field: string, slots: string[][]): number {
+    const positionSets = slots.map(slot => new Set(this.positionsOf(id, field, slot)));
+    let frequency = 0;
+    for (const start of positionSets[0]) {
+      if (positionSets.every((positions, offset) => positions.has(start + offset))) {
+        frequency++;
+      }
+    }
+    return frequency;
+  }
+
+  private positionsOf(id: string, field: string, terms: string[]): number[] {
+    const positions: number[] = [];
+    for (const term of terms) {
+      const termPositions = this.postings.get(term)?.get(id)?.get(field);
+      if (termPositions) {
+        positions.push(...termPositions);
+      }
+    }
+    return positions;
+  }
+
+  private documentsOf(terms: string[]): Set<string> {
+    const documents = new Set<string>();
+    for (const term of terms) {
+      this.postings.get(term)?.forEach((_, id) => documents.add(id));
+    }
+    return documents;
+  }
+
+  private inverseDocumentFrequency(documentFrequency: number): number {
+    return Math.log(1 + (this.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private normalizeFrequency(id: string, field: string, frequency: number): number {
+    const length = this.fieldLengths.get(id)?.get(field) || 0;
+    const averageLength = (this.totalFieldLengths.get(field) || 0) / Math.max(1, this.size) || 1;
+    return frequency * (K1 + 1) / (frequency + K1 * (1 - B + B * length / averageLength));
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+
+    // Binary search for the first term not smaller than the prefix
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.sortedTerms[middle] < prefix) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const terms: string[] = [];
+    for (let i = low; i < this.sortedTerms.length && terms.length < MAX_PREFIX_EXPANSIONS; i++) {
+      if (!this.sortedTerms[i].startsWith(prefix)) {
+        break;
+      }
+      terms.push(this.sortedTerms[i]);
+    }
+    return terms;
+  }
+}
@@ -0,0 +1,216 @@
+import { isTagInHierarchy } from '../utils/tagUtils';
+
+/**
+ * A filter from a structured search query, e.g. tag:infra or -type:meeting
+ */
+export type SearchFilter =
+  | { kind: 'tag'; tags: string[]; negated: boolean }           // Any of the tags (tag:a,b)
+  | { kind: 'type'; value: string; negated: boolean }           // Memo type id or name
+  | { kind: 'date'; field: 'created' | 'modified'; from?: Date; to?: Date; negated: boolean } // from inclusive, to exclusive
+  | { kind: 'has'; value: string; negated: boolean }            // has:backlinks, has:links, has:tags
+  | { kind: 'is'; value: string; negated: boolean }             // is:orphan
+  | { kind: 'field'; key: string; value: string; negated: boolean }; // User frontmatter field (status:open)
+
+export interface SearchQuery {
+  /**
+   * Free text left after removing filters, for the full-text index
+   */
+  text: string;
+  filters: SearchFilter[];
+}
+
+// -key:value or key:"quoted value"; keys start with a letter so times like 10:30 stay text
+const FILTER_PATTERN = /^(-?)([A-Za-z][\w-]*):(?:"([^"]*)"?|(\S+))$/;
+
+// key:"quoted value", "quoted text" (kept whole so filters inside phrases are not parsed) or a bare word
+const PART_PATTERN = /-?[A-Za-z][\w-]*:"[^"]*"?|-?"[^"]*"?|\S+/g;
+
+/**
+ * Parse a query such as
+ * `tag:infra type:meeting after:2026-01-01 -tag:archived status:open "rollback plan"`
+ * into filters and the remaining free text
+ */
+export function parseSearchQuery(query: string, today: Date = new Date()): SearchQuery {
+  const textParts: string[] = [];
+  const filters: SearchFilter[] = [];
+
+  for (const part of query.match(PART_PATTERN) || []) {
+    const filter = parseFilter(part, today);
+    if (filter) {
+      filters.push(filter);
+    } else {
+      textParts.push(part);
+    }
+  }
+
+  // Keep trailing whitespace so the last word is only a prefix while it is being typed
+  const trailing = /\s$/.test(query) ? ' ' : '';
+  return { text: textParts.join(' ') + trailing, filters };
+}
+
+function parseFilter(part: string, today: Date): SearchFilter | undefined {
+  const match = part.match(FILTER_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const negated = match[1] === '-';
+  const key = match[2].toLowerCase();
+  const value = (match[3] ?? match[4] ?? '').trim();
+  // URLs such as https://example.com are text, not filters
+  if (!value || value.startsWith('//')) {
+    return undefined;
+  }
+
+  switch (key) {
+    case 'tag':
+    case 'tags':
+      return { kind: 'tag', tags: value.split(',').map(tag => tag.trim()).filter(tag => tag), negated };
+    case 'type':
+      return { kind: 'type', value, negated };
+    case 'has':
+      return { kind: 'has', value: value.toLowerCase(), negated };
+    case 'is':
+      return { kind: 'is', value: value.toLowerCase(), negated };
+    case 'after': {
+      const date = parseDate(value, today);
+      return date ? { kind: 'date', field: 'created', from: date, negated } : undefined;
+    }
+    case 'before': {
+      const date = parseDate(value, today);
+      return date ? { kind: 'date', field: 'created', to: date, negated } : undefined;
+    }
+    case 'created':
+    case 'modified': {
+      const range = parseDateRange(value, today);
+      return range ? { kind: 'date', field: key, ...range, negated } : undefined;
+    }
+    default:
+      return { kind: 'field', key: match[2], value, negated };
+  }
+}
+
+/**
+ * Parse a date range: 2026-01-01 (that day), >=2026-01-01, <2026-02-01 or 2026-01-01..2026-01-31
+ */
+export function parseDateRange(value: string, today: Date = new Date()): { from?: Date; to?: Date } | undefined {
+  const rangeMatch = value.match(/^(.*)\.\.(.*)$/);
+  if (rangeMatch) {
+    const from = rangeMatch[1] ? parseDate(rangeMatch[1], today) : undefined;
+    const to = rangeMatch[2] ? parseDate(rangeMatch[2], today) : undefined;
+    if ((rangeMatch[1] && !from) || (rangeMatch[2] && !to) || (!from && !to)) {
+      return undefined;
+    }
+    // The end date is inclusive
+    return { from, to: to ? addDays(to, 1) : undefined };
+  }
+
+  const comparisonMatch = value.match(/^(>=|<=|>|<)(.+)$/);
+  if (comparisonMatch) {
+    const date = parseDate(comparisonMatch[2], today);
+    if (!date) {
+      return undefined;
+    }
+    switch (comparisonMatch[1]) {
+      case '>=':
+        return { from: date };
+      case '>':
+        return { from: addDays(date, 1) };
+      case '<=':
+        return { to: addDays(date, 1) };
+      default:
+        return { to: date };
+    }
+  }
+
+  const date = parseDate(value, today);
+  return date ? { from: date, to: addDays(date, 1) } : undefined;
+}
+
+/**
+ * Parse YYYY-MM-DD, YYYY-MM, today, yesterday, or a relative 7d / 2w / 3m before today.
+ * Returns local midnight of that day.
+ */
+export function parseDate(value: string, today: Date = new Date()): Date | undefined {
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const lower = value.toLowerCase();
+
+  if (lower === 'today') {
+    return startOfToday;
+  }
+  if (lower === 'yesterday') {
+    return addDays(startOfToday, -1);
+  }
+
+  const relativeMatch = lower.match(/^(\d+)([dwmy])$/);
+  if (relativeMatch) {
+    const amount = parseInt(relativeMatch[1], 10);
+    switch (relativeMatch[2]) {
+      case 'd':
+        return addDays(startOfToday, -amount);
+      case 'w':
+        return addDays(startOfToday, -amount * 7);
+      case 'm':
+        return new Date(startOfToday.getFullYear(), startOfToday.getMonth() - amount, startOfToday.getDate());
+      default:
+        return new Date(startOfToday.getFullYear() - amount, startOfToday.getMonth(), startOfToday.getDate());
+    }
+  }
+
+  const dateMatch = value.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (dateMatch) {
+    const date = new Date(parseInt(dateMatch[1], 10), parseInt(dateMatch[2], 10) - 1, dateMatch[3] ? parseInt(dateMatch[3], 10) : 1);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  return undefined;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Metadata a memo is filtered on
+ */
+export interface FilterableMemo {
+  tags: string[];
+  typeId?: string;
+  memoType: string;
+  created: Date;
+  lastModified: Date;
+  fields: Record<string, string | string[]>;
+}
+
+/**
+ * Check a tag, type, date or frontmatter field filter against a memo, ignoring negation.
+ * has: and is: filters need the link index and are not handled here.
+ */
+export function matchesMetadataFilter(filter: SearchFilter, memo: FilterableMemo): boolean {
+  switch (filter.kind) {
+    case 'tag': {
+      // tag:project also matches project/alpha
+      const memoTags = memo.tags.map(tag => tag.toLowerCase());
+      return filter.tags.some(tag => memoTags.some(memoTag => isTagInHierarchy(memoTag, tag.toLowerCase())));
+    }
+    case 'type': {
+      const value = filter.value.toLowerCase();
+      return memo.typeId?.toLowerCase() === value || memo.memoType.toLowerCase() === value;
+    }
+    case 'date': {
+      const time = (filter.field === 'created' ? memo.created : memo.lastModified).getTime();
+      return (!filter.from || time >= filter.from.getTime()) && (!filter.to || time < filter.to.getTime());
+    }
+    case 'field': {
+      const key = Object.keys(memo.fields).find(candidate => candidate.toLowerCase() === filter.key.toLowerCase());
+      if (key === undefined) {
+        return false;
+      }
+      const fieldValue = memo.fields[key];
+      const values = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+      return values.some(value => value.toLowerCase() === filter.value.toLowerCase());
+    }
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,66 @@
+import { tokenize, isCjkToken } from './tokenizer';
+
+/**
+ * One part of a free text query
+ */
+export interface TextQueryClause {
+  text: string;       // The clause as typed, used for excerpts
+  tokens: string[];
+  phrase: boolean;    // Tokens must be adjacent: quoted text, or a word split into several tokens
+  prefix: boolean;    // The last token also matches longer terms starting with it
+  negated: boolean;   // Memos matching the clause are excluded
+}
+
+export interface TextQueryOptions {
+  /**
+   * Treat the last word as a prefix while the user is still typing it
+   */
+  prefixLastTerm?: boolean;
+}
+
+// -"quoted phrase" (closing quote optional while typing), or a bare word
+const CLAUSE_PATTERN = /(-?)"([^"]*)"?|(\S+)/g;
+
+/**
+ * Parse free text into clauses: words, "quoted phrases", -excluded words and prefix* words
+ */
+export function parseTextQuery(query: string, options: TextQueryOptions = {}): TextQueryClause[] {
+  const clauses: TextQueryClause[] = [];
+  let lastWordClause: TextQueryClause | undefined;
+
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(CLAUSE_PATTERN.source, 'g');
+  while ((match = pattern.exec(query)) !== null) {
+    let clause: TextQueryClause;
+    if (match[3] === undefined) {
+      clause = { text: match[2], tokens: tokenize(match[2]), phrase: true, prefix: false, negated: match[1] === '-' };
+      lastWordClause = undefined;
+    } else {
+      let word = match[3];
+      const negated = word.length > 1 && word.startsWith('-');
+      if (negated) {
+        word = word.substring(1);
+      }
+      const explicitPrefix = word.length > 1 && word.endsWith('*');
+      if (explicitPrefix) {
+        word = word.substring(0, word.length - 1);
+      }
+
+      const tokens = tokenize(word);
+      // A lone CJK character is never indexed on its own inside longer text
+      const cjkCharacter = tokens.length === 1 && isCjkToken(tokens[0]) && Array.from(tokens[0]).length === 1;
+      clause = { text: word, tokens, phrase: tokens.length > 1, prefix: explicitPrefix || cjkCharacter, negated };
+      lastWordClause = negated ? undefined : clause;
+    }
+
+    if (clause.tokens.length > 0) {
+      clauses.push(clause);
+    }
+  }
+
+  if (options.prefixLastTerm && lastWordClause && !/\s$/.test(query)) {
+    lastWordClause.prefix = true;
+  }
+
+  return clauses;
+}
@@ -0,0 +1,52 @@
+// Scripts written without spaces between words; indexed as overlapping character bigrams
+const CJK_CHARS = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}ー々〆';
+
+// A run of CJK characters, or a run of other letters and digits
+const TOKEN_PATTERN = new RegExp(`([${CJK_CHARS}]+)|((?:(?![${CJK_CHARS}])[\\p{L}\\p{N}\\p{M}_])+)`, 'gu');
+
+const CJK_PATTERN = new RegExp(`^[${CJK_CHARS}]+$`, 'u');
+
+/**
+ * Normalize text for indexing: full-width to half-width ASCII, half-width to full-width kana, lower case
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * Check whether a token comes from CJK text
+ */
+export function isCjkToken(token: string): boolean {
+  return CJK_PATTERN.test(token);
+}
+
+/**
+ * Split text into search tokens. The index of a token in the result is its position,
+ * so adjacent tokens can be matched as phrases.
+ * Latin words become one token each; CJK runs become character bigrams
+ * ("議事録" -> "議事", "事録"), or a single character when the run is one character long.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const normalized = normalizeText(text);
+
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(normalized)) !== null) {
+    if (match[2]) {
+      tokens.push(match[2]);
+      continue;
+    }
+
+    const chars = Array.from(match[1]);
+    if (chars.length === 1) {
+      tokens.push(chars[0]);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+
+  return tokens;
+}
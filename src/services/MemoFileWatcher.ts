@@ -0,0 +1,165 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IConfigService } from './interfaces/IConfigService';
+import { IFileService } from './interfaces/IFileService';
+import { IIncrementalIndex } from './interfaces/IIncrementalIndex';
+import { MemoEvents } from '../events/MemoEvents';
+import { isValidMemoFile } from '../utils/fileUtils';
+
+type MemoFileChange = 'created' | 'changed' | 'deleted';
+
+// Above this many files in one batch (e.g. a git checkout), rebuilding is cheaper than updating
+const MAX_INCREMENTAL_CHANGES = 200;
+
+/**
+ * Watches memo files under baseDir and keeps every index in sync with changes made
+ * outside the editor (git pull, external editors, explorer renames).
+ * Events are debounced and coalesced per file before indexes are updated and MemoEvents fire.
+ */
+export class MemoFileWatcher implements vscode.Disposable {
+  private watcherDisposables: vscode.Disposable[] = [];
+  private pendingChanges = new Map<string, MemoFileChange>();
+  private rebuildRequested = false;
+  private flushTimer: NodeJS.Timeout | undefined;
+  private processing: Promise<void> = Promise.resolve();
+  private baseDirPath = '';
+  private fileExtensions: string[] = [];
+  private indexedConfigKey = '';
+
+  constructor(
+    private configService: IConfigService,
+    private fileService: IFileService,
+    private workspaceRoot: string,
+    private indexes: IIncrementalIndex[],
+    private debounceMs: number = 300
+  ) {}
+
+  /**
+   * Start (or restart) watching with the current configuration
+   */
+  async start(): Promise<void> {
+    this.disposeWatchers();
+
+    const config = await this.configService.loadConfig();
+    this.baseDirPath = path.join(this.workspaceRoot, config.baseDir);
+    this.fileExtensions = config.fileExtensions;
+    // Settings that change what indexes contain; saved searches and variables do not
+    this.indexedConfigKey = JSON.stringify([config.baseDir, config.fileExtensions, config.memoTypes]);
+
+    // Watch everything so folder moves and deletions are seen as well
+    const memoWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.baseDirPath, '**/*'));
+    const configWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(path.join(this.workspaceRoot, '.vsmemo'), 'config.json')
+    );
+
+    this.watcherDisposables.push(
+      memoWatcher,
+      memoWatcher.onDidCreate(uri => this.enqueue(uri.fsPath, 'created')),
+      memoWatcher.onDidChange(uri => this.enqueue(uri.fsPath, 'changed')),
+      memoWatcher.onDidDelete(uri => this.enqueue(uri.fsPath, 'deleted')),
+      configWatcher,
+      configWatcher.onDidCreate(() => this.handleConfigChange()),
+      configWatcher.onDidChange(() => this.handleConfigChange()),
+      configWatcher.onDidDelete(() => this.handleConfigChange())
+    );
+  }
+
+  dispose(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.disposeWatchers();
+  }
+
+  private enqueue(filePath: string, change: MemoFileChange): void {
+    if (isValidMemoFile(path.basename(filePath), this.fileExtensions)) {
+      // A file created and then written within the debounce window is still new
+      const previous = this.pendingChanges.get(filePath);
+      this.pendingChanges.set(filePath, previous === 'created' && change === 'changed' ? 'created' : change);
+    } else if (change !== 'changed' && !path.extname(filePath)) {
+      // Files inside a created or deleted folder do not always get their own events
+      this.rebuildRequested = true;
+    } else {
+      return;
+    }
+
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush();
+    }, this.debounceMs);
+  }
+
+  private flush(): void {
+    const changes = this.pendingChanges;
+    const rebuild = this.rebuildRequested || changes.size > MAX_INCREMENTAL_CHANGES;
+    this.pendingChanges = new Map();
+    this.rebuildRequested = false;
+
+    // Batches run one after another so a slow rebuild cannot interleave with later updates
+    this.processing = this.processing
+      .then(() => rebuild ? this.rebuildIndexes() : this.applyChanges(changes))
+      .catch(error => console.error('[MemoFileWatcher] Failed to update indexes:', error));
+  }
+
+  private async applyChanges(changes: Map<string, MemoFileChange>): Promise<void> {
+    const memoEvents = MemoEvents.getInstance();
+
+    for (const [filePath, change] of changes) {
+      // Events may arrive out of order, so the file system decides what happened
+      if (await this.fileService.exists(filePath)) {
+        await this.forEachIndex(index => index.updateFile(filePath));
+        if (change === 'created') {
+          memoEvents.fireMemoCreated(filePath);
+        } else {
+          memoEvents.fireMemoModified(filePath);
+        }
+      } else {
+        await this.forEachIndex(index => index.removeFile(filePath));
+        memoEvents.fireMemoDeleted(filePath);
+      }
+    }
+  }
+
+  private async rebuildIndexes(): Promise<void> {
+    console.log('[MemoFileWatcher] Rebuilding indexes');
+    await this.forEachIndex(index => index.buildIndex());
+    MemoEvents.getInstance().fireMemoModified(this.baseDirPath);
+  }
+
+  private async forEachIndex(action: (index: IIncrementalIndex) => Promise<void> | void): Promise<void> {
+    for (const index of this.indexes) {
+      try {
+        await action(index);
+      } catch (error) {
+        console.warn('[MemoFileWatcher] Index update failed:', error);
+      }
+    }
+  }
+
+  private async handleConfigChange(): Promise<void> {
+    try {
+      // baseDir or fileExtensions may have changed
+      const previousConfigKey = this.indexedConfigKey;
+      await this.start();
+      if (this.indexedConfigKey !== previousConfigKey) {
+        this.rebuildRequested = true;
+        this.scheduleFlush();
+      }
+    } catch (error) {
+      console.error('[MemoFileWatcher] Failed to reload configuration:', error);
+    }
+  }
+
+  private disposeWatchers(): void {
+    this.watcherDisposables.forEach(disposable => disposable.dispose());
+    this.watcherDisposables = [];
+  }
+}
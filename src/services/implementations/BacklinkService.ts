@@ -1,13 +1,29 @@
 import * as path from 'path';
-import { IBacklinkService, Backlink, BacklinkIndex, OutboundLink } from '../interfaces/IBacklinkService';
-import { IFileService } from '../interfaces/IFileService';
+import { IBacklinkService, Backlink, BacklinkIndex, OutboundLink, BrokenLink } from '../interfaces/IBacklinkService';
+import { IFileService, FileStats } from '../interfaces/IFileService';
 import { IConfigService } from '../interfaces/IConfigService';
 import { ILoggerService } from '../interfaces/ILoggerService';
+import { IIndexCacheService } from '../interfaces/IIndexCacheService';
 import { isValidMemoFile } from '../../utils/fileUtils';
 import { resolveRelativePath, normalizePath as normalizePathUtil } from '../../utils/pathUtils';
+import { parseMemoLinks, extractFrontmatterTitle, ParsedMemoLink, WikiLinkResolver } from '../../utils/linkUtils';
+
+// Bump when the shape of MemoLinkData or how memos are parsed changes
+const BACKLINK_CACHE_NAMESPACE = 'backlinks:2';
+
+/**
+ * Links parsed from a single memo, as stored in the index cache
+ */
+interface MemoLinkData {
+  title?: string;
+  links: Array<ParsedMemoLink & { line: number; context: string }>;
+}
 
 export class BacklinkService implements IBacklinkService {
   private backlinkIndex: BacklinkIndex = {};
+  private wikiLinkResolver = new WikiLinkResolver();
+  // Links that may not resolve, keyed by source file. Markdown targets are re-checked on read
+  private unresolvedLinks: Map<string, BrokenLink[]> = new Map();
   private workspaceRoot: string;
   private baseDir: string = '';
   private fileExtensions: string[] = ['.md', '.markdown'];
@@ -16,22 +32,33 @@ export class BacklinkService implements IBacklinkService {
     private fileService: IFileService,
     private configService: IConfigService,
     workspaceRoot: string,
-    private logger?: ILoggerService
+    private logger?: ILoggerService,
+    private indexCache?: IIndexCacheService
   ) {
     this.workspaceRoot = workspaceRoot;
   }
 
   async buildIndex(): Promise<void> {
     this.backlinkIndex = {};
+    this.wikiLinkResolver.clear();
+    this.unresolvedLinks.clear();
 
     try {
       this.logger?.info('Building backlink index...');
       const config = await this.configService.loadConfig();
       this.baseDir = config.baseDir;
       this.fileExtensions = config.fileExtensions;
+      await this.indexCache?.prepare();
 
       const searchPath = path.join(this.workspaceRoot, this.baseDir);
-      await this.scanDirectory(searchPath);
+      const memoLinks = new Map<string, MemoLinkData>();
+      await this.scanDirectory(searchPath, memoLinks);
+      this.indexCache?.completeBuild();
+
+      // Links are resolved only after every title is known, so wiki links can point anywhere
+      for (const [filePath, data] of memoLinks) {
+        this.indexLinks(filePath, data);
+      }
       this.logger?.info(`Backlink index built successfully. Total entries: ${Object.keys(this.backlinkIndex).length}`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -47,23 +74,75 @@ export class BacklinkService implements IBacklinkService {
   }
 
   async updateFileBacklinks(filePath: string): Promise<void> {
+    const previousEntry = this.wikiLinkResolver.getEntry(filePath);
+
     // First, remove all existing backlinks from this file
     await this.removeBacklinksFromFile(filePath);
 
     // Then, scan the file for new backlinks
     if (await this.fileService.exists(filePath)) {
-      await this.scanFile(filePath);
+      try {
+        const data = await this.loadMemoLinks(filePath);
+        this.wikiLinkResolver.setEntry(filePath, data.title);
+        this.indexLinks(filePath, data);
+
+        // A new memo or title can change what wiki links in other memos resolve to
+        if (!previousEntry || previousEntry.title !== data.title) {
+          const sources = new Set(this.findSourcesWithResolvableLinks());
+          (await this.getBacklinks(filePath)).forEach(backlink => sources.add(backlink.sourceFile));
+          sources.delete(filePath);
+          await this.reindexSources(sources);
+        }
+      } catch (error) {
+        console.warn(`Failed to scan file ${filePath}:`, error);
+      }
     }
   }
 
   async removeFileFromIndex(filePath: string): Promise<void> {
     const normalizedPath = this.normalizePath(filePath);
+    const sources = new Set((this.backlinkIndex[normalizedPath] || []).map(backlink => backlink.sourceFile));
 
     // Remove as a target
     delete this.backlinkIndex[normalizedPath];
 
     // Remove as a source
     await this.removeBacklinksFromFile(filePath);
+
+    this.wikiLinkResolver.removeEntry(filePath);
+    this.indexCache?.removeFile(filePath);
+
+    // Links to the removed memo are now broken, or resolve to another memo with the same name
+    sources.delete(filePath);
+    await this.reindexSources(sources);
+  }
+
+  resolveWikiLink(target: string, sourceFile?: string): string | undefined {
+    return this.wikiLinkResolver.resolve(target, sourceFile);
+  }
+
+  async getBrokenLinks(sourceFile?: string): Promise<BrokenLink[]> {
+    const candidates = sourceFile
+      ? this.unresolvedLinks.get(sourceFile) || []
+      : Array.from(this.unresolvedLinks.values()).flat();
+
+    const brokenLinks: BrokenLink[] = [];
+    for (const link of candidates) {
+      // Memos may have been created since the link was indexed
+      if (link.kind === 'wiki') {
+        if (!this.wikiLinkResolver.resolve(link.target, link.sourceFile)) {
+          brokenLinks.push(link);
+        }
+      } else if (link.resolvedPath && !(await this.fileService.exists(link.resolvedPath))) {
+        brokenLinks.push(link);
+      }
+    }
+
+    return brokenLinks.sort((a, b) => a.sourceFile.localeCompare(b.sourceFile) || a.sourceLine - b.sourceLine);
+  }
+
+  getMemoFiles(): Array<{ filePath: string; title?: string }> {
+    return this.wikiLinkResolver.getEntries();
   }
 
   async getOrphanedFiles(): Promise<string[]> {
@@ -135,31 +214,19 @@ export class BacklinkService implements IBacklinkService {
         return outboundLinks;
       }
 
-      const content = await this.fileService.readFile(sourceFilePath);
-      const lines = content.split('\n');
-
-      // Match markdown links to .md/.markdown files (exclude http/https URLs)
-      const linkRegex = /\[([^\]]*)\]\((?!https?:\/\/)([^)]+\.(?:md|markdown))\)/g;
-
-      lines.forEach((line, lineIndex) => {
-        let match;
-        while ((match = linkRegex.exec(line)) !== null) {
-          const linkText = match[1];
-          const relativeLinkPath = match[2];
-
-          const targetPath = resolveRelativePath(sourceFilePath, relativeLinkPath);
-          if (targetPath) {
-            const context = this.getContext(lines, lineIndex);
-
-            outboundLinks.push({
-              targetFile: targetPath,
-              linkText,
-              sourceLine: lineIndex + 1,
-              context
-            });
-          }
+      const data = await this.loadMemoLinks(sourceFilePath);
+      for (const link of data.links) {
+        const targetPath = this.resolveLinkTarget(sourceFilePath, link);
+        if (targetPath) {
+          outboundLinks.push({
+            targetFile: targetPath,
+            linkText: link.text,
+            sourceLine: link.line + 1,
+            context: link.context,
+            anchor: link.anchor
+          });
         }
-      });
+      }
     } catch (error) {
       console.warn(`Failed to get outbound links from ${sourceFilePath}:`, error);
     }
@@ -167,7 +234,7 @@ export class BacklinkService implements IBacklinkService {
     return outboundLinks;
   }
 
-  private async scanDirectory(dir: string): Promise<void> {
+  private async scanDirectory(dir: string, memoLinks: Map<string, MemoLinkData>): Promise<void> {
     try {
       if (!(await this.fileService.exists(dir))) {
         return;
@@ -180,9 +247,9 @@ export class BacklinkService implements IBacklinkService {
         const stats = await this.fileService.getStats(fullPath);
 
         if (stats.isDirectory) {
-          await this.scanDirectory(fullPath);
+          await this.scanDirectory(fullPath, memoLinks);
         } else if (isValidMemoFile(entry, this.fileExtensions)) {
-          await this.scanFile(fullPath);
+          await this.readMemoFile(fullPath, stats, memoLinks);
         }
       }
     } catch (error) {
@@ -190,47 +257,112 @@ export class BacklinkService implements IBacklinkService {
     }
   }
 
-  private async scanFile(filePath: string): Promise<void> {
+  private async readMemoFile(filePath: string, stats: FileStats, memoLinks: Map<string, MemoLinkData>): Promise<void> {
     try {
-      const content = await this.fileService.readFile(filePath);
-      const lines = content.split('\n');
-
-      // Match markdown links to .md/.markdown files (exclude http/https URLs)
-      const linkRegex = /\[([^\]]*)\]\((?!https?:\/\/)([^)]+\.(?:md|markdown))\)/g;
-
-      lines.forEach((line, lineIndex) => {
-        let match;
-        while ((match = linkRegex.exec(line)) !== null) {
-          const linkText = match[1];
-          const relativeLinkPath = match[2];
-
-          // Resolve relative path to absolute path
-          const targetPath = resolveRelativePath(filePath, relativeLinkPath);
-          if (targetPath) {
-            const normalizedTarget = this.normalizePath(targetPath);
-
-            if (!this.backlinkIndex[normalizedTarget]) {
-              this.backlinkIndex[normalizedTarget] = [];
-            }
-
-            // Get context (current line + surrounding lines)
-            const context = this.getContext(lines, lineIndex);
-
-            this.backlinkIndex[normalizedTarget].push({
-              sourceFile: filePath,
-              sourceLine: lineIndex + 1, // 1-based line numbers
-              linkText,
-              context
-            });
-          }
-        }
-      });
+      const data = await this.loadMemoLinks(filePath, stats);
+      memoLinks.set(filePath, data);
+      this.wikiLinkResolver.setEntry(filePath, data.title);
     } catch (error) {
       console.warn(`Failed to scan file ${filePath}:`, error);
     }
   }
 
+  private async loadMemoLinks(filePath: string, stats?: FileStats): Promise<MemoLinkData> {
+    if (this.indexCache) {
+      return this.indexCache.getOrCompute(BACKLINK_CACHE_NAMESPACE, filePath, content => this.parseMemoContent(content), stats);
+    }
+    return this.parseMemoContent(await this.fileService.readFile(filePath));
+  }
+
+  private parseMemoContent(content: string): MemoLinkData {
+    const lines = content.split('\n');
+    const links: MemoLinkData['links'] = [];
+
+    lines.forEach((line, lineIndex) => {
+      for (const link of parseMemoLinks(line)) {
+        // Get context (current line + surrounding lines)
+        links.push({ ...link, line: lineIndex, context: this.getContext(lines, lineIndex) });
+      }
+    });
+
+    return { title: extractFrontmatterTitle(content), links };
+  }
+
+  private indexLinks(filePath: string, data: MemoLinkData): void {
+    const unresolved: BrokenLink[] = [];
+
+    for (const link of data.links) {
+      // Resolve relative path or wiki target to absolute path
+      const targetPath = this.resolveLinkTarget(filePath, link);
+
+      // Remember links whose target is not a known memo for broken link reports
+      if (!targetPath || !this.wikiLinkResolver.hasEntry(targetPath)) {
+        unresolved.push({
+          sourceFile: filePath,
+          sourceLine: link.line + 1,
+          startColumn: link.start,
+          endColumn: link.end,
+          kind: link.kind,
+          linkText: link.text,
+          target: link.target,
+          anchor: link.anchor,
+          resolvedPath: targetPath
+        });
+      }
+
+      if (targetPath) {
+        const normalizedTarget = this.normalizePath(targetPath);
+
+        if (!this.backlinkIndex[normalizedTarget]) {
+          this.backlinkIndex[normalizedTarget] = [];
+        }
+
+        this.backlinkIndex[normalizedTarget].push({
+          sourceFile: filePath,
+          sourceLine: link.line + 1, // 1-based line numbers
+          linkText: link.text,
+          context: link.context,
+          anchor: link.anchor
+        });
+      }
+    }
+
+    if (unresolved.length > 0) {
+      this.unresolvedLinks.set(filePath, unresolved);
+    }
+  }
+
+  private findSourcesWithResolvableLinks(): string[] {
+    const sources: string[] = [];
+    for (const [sourceFile, links] of this.unresolvedLinks) {
+      if (links.some(link => link.kind === 'wiki' && this.wikiLinkResolver.resolve(link.target, sourceFile))) {
+        sources.push(sourceFile);
+      }
+    }
+    return sources;
+  }
+
+  private async reindexSources(sources: Iterable<string>): Promise<void> {
+    for (const sourceFile of sources) {
+      try {
+        await this.removeBacklinksFromFile(sourceFile);
+        this.indexLinks(sourceFile, await this.loadMemoLinks(sourceFile));
+      } catch (error) {
+        console.warn(`Failed to re-index links in ${sourceFile}:`, error);
+      }
+    }
+  }
+
+  private resolveLinkTarget(sourceFile: string, link: ParsedMemoLink): string | undefined {
+    if (link.kind === 'wiki') {
+      return this.wikiLinkResolver.resolve(link.target, sourceFile);
+    }
+    return resolveRelativePath(sourceFile, link.target);
+  }
+
   private async removeBacklinksFromFile(filePath: string): Promise<void> {
+    this.unresolvedLinks.delete(filePath);
+
     // Remove all backlinks that originate from this file
     for (const targetPath in this.backlinkIndex) {
       this.backlinkIndex[targetPath] = this.backlinkIndex[targetPath].filter(
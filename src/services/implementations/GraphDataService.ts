@@ -2,7 +2,11 @@ import * as path from 'path';
 import { IBacklinkService } from '../interfaces/IBacklinkService';
 import { IFileService } from '../interfaces/IFileService';
 import { IConfigService } from '../interfaces/IConfigService';
+import { ITagIndexService } from '../interfaces/ITagIndexService';
+import { MemoConfig } from '../../models/MemoConfig';
 import { isValidMemoFile } from '../../utils/fileUtils';
+import { parseFrontmatter } from '../../utils/frontmatterUtils';
+import { formatDate } from '../../utils/dateUtils';
 
 export interface GraphNode {
   id: string;
@@ -23,6 +27,38 @@ export interface GraphEdge {
 export interface GraphData {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  /** Memos in the display mode left out by the filter */
+  hiddenNodes?: number;
+}
+
+/**
+ * Narrows the graph to a subgraph. Empty lists and missing values don't filter.
+ * The active file is always kept.
+ */
+export interface GraphFilter {
+  /** Memos with any of these tags or their child tags */
+  includeTags?: string[];
+  excludeTags?: string[];
+  /** Memo type ids or names */
+  includeTypes?: string[];
+  excludeTypes?: string[];
+  /** Folders relative to the memo base directory, including their subfolders */
+  includeFolders?: string[];
+  excludeFolders?: string[];
+  /** YYYY-MM-DD, inclusive */
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  /** Memos with fewer links to other memos in the filtered graph are left out */
+  minDegree?: number;
+}
+
+/**
+ * Values offered by the graph filter panel
+ */
+export interface GraphFilterOptions {
+  tags: string[];
+  types: string[];
+  folders: string[];
 }
 
 export enum GraphDisplayMode {
@@ -35,18 +71,21 @@ export class GraphDataService {
   constructor(
     private backlinkService: IBacklinkService,
     private fileService: IFileService,
-    private configService: IConfigService
+    private configService: IConfigService,
+    private tagIndexService?: ITagIndexService
   ) {}
 
   async generateGraphData(
     workspaceRoot: string,
     mode: GraphDisplayMode,
-    activeFile?: string
+    activeFile?: string,
+    filter: GraphFilter = {}
   ): Promise<GraphData> {
     let allFiles: string[] = [];
+    let config: MemoConfig;
 
     try {
-      const config = await this.configService.loadConfig();
+      config = await this.configService.loadConfig();
       const searchPath = path.join(workspaceRoot, config.baseDir);
       allFiles = await this.fileService.listFiles(searchPath, config.fileExtensions);
     } catch (error) {
@@ -69,7 +108,155 @@ export class GraphDataService {
         break;
     }
 
-    return this.buildGraphFromFiles(Array.from(targetFiles), activeFile);
+    const filteredFiles = await this.filterFiles(Array.from(targetFiles), workspaceRoot, config, filter, activeFile);
+    const graphData = this.filterByDegree(await this.buildGraphFromFiles(filteredFiles, activeFile), filter.minDegree || 0);
+    const hiddenNodes = targetFiles.size - graphData.nodes.length;
+
+    return hiddenNodes > 0 ? { ...graphData, hiddenNodes } : graphData;
+  }
+
+  /**
+   * Tags, memo types and folders that can be filtered on
+   */
+  async getFilterOptions(workspaceRoot: string): Promise<GraphFilterOptions> {
+    const config = await this.configService.loadConfig();
+    const baseDir = path.join(workspaceRoot, config.baseDir);
+
+    const folders = new Set<string>();
+    try {
+      for (const filePath of await this.fileService.listFiles(baseDir, config.fileExtensions)) {
+        // Parent folders can be filtered on too
+        let folder = this.getFolder(filePath, baseDir);
+        while (folder) {
+          folders.add(folder);
+          folder = folder.includes('/') ? folder.substring(0, folder.lastIndexOf('/')) : '';
+        }
+      }
+    } catch (error) {
+      console.error('Error loading folders for graph filter:', error);
+    }
+
+    const tags = this.tagIndexService ? (await this.tagIndexService.getAllTags()).map(info => info.tag) : [];
+
+    return {
+      tags: tags.sort((a, b) => a.localeCompare(b)),
+      types: config.memoTypes.map(memoType => memoType.name),
+      folders: [...folders].sort((a, b) => a.localeCompare(b))
+    };
+  }
+
+  private async filterFiles(
+    files: string[],
+    workspaceRoot: string,
+    config: MemoConfig,
+    filter: GraphFilter,
+    activeFile?: string
+  ): Promise<string[]> {
+    const baseDir = path.join(workspaceRoot, config.baseDir);
+    const includeTagged = await this.getTaggedFiles(filter.includeTags);
+    const excludeTagged = await this.getTaggedFiles(filter.excludeTags);
+    const filtersTypes = !!(filter.includeTypes?.length || filter.excludeTypes?.length);
+    const filtersDates = !!(filter.modifiedAfter || filter.modifiedBefore);
+
+    const result: string[] = [];
+    for (const filePath of files) {
+      if (filePath === activeFile) {
+        result.push(filePath);
+        continue;
+      }
+
+      if ((includeTagged && !includeTagged.has(filePath)) || excludeTagged?.has(filePath)) {
+        continue;
+      }
+
+      const folder = this.getFolder(filePath, baseDir);
+      if (!matchesAny(filter.includeFolders, included => isInFolder(folder, included), true)
+        || matchesAny(filter.excludeFolders, excluded => isInFolder(folder, excluded), false)) {
+        continue;
+      }
+
+      try {
+        if (filtersTypes) {
+          const memoTypes = await this.getMemoTypes(filePath, baseDir, config);
+          const isType = (value: string) => memoTypes.includes(value.trim().toLowerCase());
+          if (!matchesAny(filter.includeTypes, isType, true) || matchesAny(filter.excludeTypes, isType, false)) {
+            continue;
+          }
+        }
+
+        if (filtersDates) {
+          const modified = formatDate((await this.fileService.getStats(filePath)).lastModified);
+          if ((filter.modifiedAfter && modified < filter.modifiedAfter)
+            || (filter.modifiedBefore && modified > filter.modifiedBefore)) {
+            continue;
+          }
+        }
+      } catch (error) {
+        console.warn(`Failed to filter graph file ${filePath}:`, error);
+        continue;
+      }
+
+      result.push(filePath);
+    }
+
+    return result;
+  }
+
+  /**
+   * Files with any of the tags or their child tags
+   * @returns undefined if there are no tags to filter on
+   */
+  private async getTaggedFiles(tags: string[] | undefined): Promise<Set<string> | undefined> {
+    if (!tags?.length || !this.tagIndexService) {
+      return undefined;
+    }
+    const memos = await this.tagIndexService.getMemosByTags(tags, 'OR');
+    return new Set(memos.map(memo => memo.filePath));
+  }
+
+  /**
+   * The lowercased id and name of a memo's type, from its frontmatter type or the memo type folder it is in
+   */
+  private async getMemoTypes(filePath: string, baseDir: string, config: MemoConfig): Promise<string[]> {
+    const typeId = parseFrontmatter(await this.fileService.readFile(filePath))?.type;
+    const memoType = (typeof typeId === 'string' && config.memoTypes.find(type => type.id === typeId))
+      || config.memoTypes
+        .filter(type => type.baseDir)
+        .find(type => filePath.startsWith(path.join(baseDir, type.baseDir!) + path.sep));
+
+    if (memoType) {
+      return [memoType.id.toLowerCase(), memoType.name.toLowerCase()];
+    }
+    return typeof typeId === 'string' ? [typeId.toLowerCase()] : [];
+  }
+
+  /**
+   * Folder of a memo relative to the base directory, with forward slashes; '' at the top level
+   */
+  private getFolder(filePath: string, baseDir: string): string {
+    const folder = path.relative(baseDir, path.dirname(filePath)).replace(/\\/g, '/');
+    return folder === '.' ? '' : folder;
+  }
+
+  /**
+   * Drop memos with fewer links than minDegree, counting only links within the graph
+   */
+  private filterByDegree(graphData: GraphData, minDegree: number): GraphData {
+    if (minDegree <= 0) {
+      return graphData;
+    }
+
+    const degrees = new Map<string, number>();
+    for (const edge of graphData.edges) {
+      degrees.set(edge.source, (degrees.get(edge.source) || 0) + 1);
+      degrees.set(edge.target, (degrees.get(edge.target) || 0) + 1);
+    }
+
+    const nodes = graphData.nodes.filter(node => node.isActive || (degrees.get(node.id) || 0) >= minDegree);
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const edges = graphData.edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+
+    return { nodes, edges };
   }
 
   private async getFocusFiles(activeFile: string | undefined, allFiles: string[]): Promise<Set<string>> {
@@ -92,14 +279,13 @@ export class GraphDataService {
   }
 
   private async getContextFiles(activeFile: string | undefined, allFiles: string[]): Promise<Set<string>> {
-    const files = new Set<string>();
-
     if (!activeFile) {
       return new Set(allFiles);
     }
 
     // Start with focus files
     const focusFiles = await this.getFocusFiles(activeFile, allFiles);
+    const files = new Set(focusFiles);
 
     // Add second degree connections
     for (const file of focusFiles) {
@@ -117,6 +303,7 @@ export class GraphDataService {
     const nodes: GraphNode[] = [];
     const edges: GraphEdge[] = [];
     const addedEdges = new Set<string>();
+    const fileSet = new Set(files);
 
     // Create nodes
     for (const filePath of files) {
@@ -145,7 +332,7 @@ export class GraphDataService {
       const outboundLinks = await this.backlinkService.getOutboundLinks(filePath);
 
       for (const link of outboundLinks) {
-        if (files.includes(link.targetFile)) {
+        if (fileSet.has(link.targetFile)) {
           const edgeId = `${filePath}->${link.targetFile}`;
 
           if (!addedEdges.has(edgeId)) {
@@ -186,4 +373,20 @@ export class GraphDataService {
 
     return Math.max(baseSize, Math.min(maxSize, baseSize + connectionCount * 3 + activeBonus));
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether any value matches, or the default when there are no values to match
+ */
+function matchesAny(values: string[] | undefined, matches: (value: string) => boolean, defaultValue: boolean): boolean {
+  const nonEmpty = (values || []).filter(value => value.trim());
+  return nonEmpty.length > 0 ? nonEmpty.some(matches) : defaultValue;
+}
+
+/**
+ * Whether a folder is the given folder or inside it; '.' or '/' is the top level only
+ */
+function isInFolder(folder: string, parent: string): boolean {
+  const normalized = parent.trim().replace(/\\/g, '/').replace(/^(\.(?=\/|$))?\/*|\/+$/g, '');
+  return folder === normalized || (!!normalized && folder.startsWith(`${normalized}/`));
+}
@@ -0,0 +1,214 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { IIndexCacheService } from '../interfaces/IIndexCacheService';
+import { IFileService, FileStats } from '../interfaces/IFileService';
+import { IConfigService } from '../interfaces/IConfigService';
+import { MemoConfig } from '../../models/MemoConfig';
+
+// Bump when the layout of the persisted file changes
+export const INDEX_CACHE_FORMAT_VERSION = 1;
+
+const SAVE_DELAY_MS = 2000;
+
+interface CachedFileEntry {
+  mtime: number;
+  size: number;
+  data: Record<string, unknown>;
+}
+
+interface PersistedIndexCache {
+  version: number;
+  configHash: string;
+  files: Record<string, CachedFileEntry>;
+}
+
+export class IndexCacheService implements IIndexCacheService {
+  private entries = new Map<string, CachedFileEntry>();
+  // File contents read during the current build, released on save
+  private contents = new Map<string, { mtime: number; size: number; content: Promise<string> }>();
+  private touchedFiles = new Set<string>();
+  private buildCompleted = false;
+  private configHash: string | undefined;
+  private loading: Promise<void> | undefined;
+  private dirty = false;
+  private saveTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private fileService: IFileService,
+    private configService: IConfigService,
+    private cacheFilePath: string
+  ) {}
+
+  async prepare(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadFromDisk();
+    }
+    await this.loading;
+
+    const configHash = this.hashConfig(await this.configService.loadConfig());
+    if (configHash !== this.configHash) {
+      // Paths, extensions or parsing options may differ, so nothing cached can be trusted
+      this.entries.clear();
+      this.contents.clear();
+      this.configHash = configHash;
+      this.dirty = true;
+    }
+  }
+
+  async getOrCompute<T>(namespace: string, filePath: string, compute: (content: string) => T, stats?: FileStats): Promise<T> {
+    const fileStats = stats ?? await this.fileService.getStats(filePath);
+    const mtime = fileStats.lastModified.getTime();
+    const size = fileStats.size ?? -1;
+    this.touchedFiles.add(filePath);
+
+    let entry = this.entries.get(filePath);
+    if (entry && entry.mtime === mtime && entry.size === size && namespace in entry.data) {
+      return entry.data[namespace] as T;
+    }
+
+    const value = compute(await this.readFile(filePath, fileStats));
+
+    if (!entry || entry.mtime !== mtime || entry.size !== size) {
+      entry = { mtime, size, data: {} };
+      this.entries.set(filePath, entry);
+    }
+    entry.data[namespace] = value;
+    this.dirty = true;
+    this.scheduleSave();
+
+    return value;
+  }
+
+  async readFile(filePath: string, stats?: FileStats): Promise<string> {
+    const fileStats = stats ?? await this.fileService.getStats(filePath);
+    const mtime = fileStats.lastModified.getTime();
+    const size = fileStats.size ?? -1;
+
+    const cached = this.contents.get(filePath);
+    if (cached && cached.mtime === mtime && cached.size === size) {
+      return cached.content;
+    }
+
+    const content = this.fileService.readFile(filePath);
+    this.contents.set(filePath, { mtime, size, content });
+    content.catch(() => this.contents.delete(filePath));
+    this.scheduleSave();
+
+    return content;
+  }
+
+  removeFile(filePath: string): void {
+    this.contents.delete(filePath);
+    this.touchedFiles.delete(filePath);
+    if (this.entries.delete(filePath)) {
+      this.dirty = true;
+      this.scheduleSave();
+    }
+  }
+
+  completeBuild(): void {
+    this.buildCompleted = true;
+    this.scheduleSave();
+  }
+
+  async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    this.contents.clear();
+
+    // After a full build, files no index has asked for were deleted or moved out of the memo directory.
+    // Before one, untouched entries are just files not read yet.
+    if (this.buildCompleted) {
+      for (const filePath of this.entries.keys()) {
+        if (!this.touchedFiles.has(filePath)) {
+          this.entries.delete(filePath);
+          this.dirty = true;
+        }
+      }
+    }
+
+    if (!this.dirty || this.configHash === undefined) {
+      return;
+    }
+
+    const persisted: PersistedIndexCache = {
+      version: INDEX_CACHE_FORMAT_VERSION,
+      configHash: this.configHash,
+      files: Object.fromEntries(this.entries)
+    };
+
+    try {
+      await this.fileService.createDirectory(path.dirname(this.cacheFilePath));
+      await this.fileService.writeFile(this.cacheFilePath, JSON.stringify(persisted));
+      this.dirty = false;
+    } catch (error) {
+      console.warn(`Failed to save index cache to ${this.cacheFilePath}:`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    this.entries.clear();
+    this.contents.clear();
+    this.touchedFiles.clear();
+    this.buildCompleted = false;
+    this.dirty = false;
+
+    try {
+      if (await this.fileService.exists(this.cacheFilePath)) {
+        await this.fileService.deleteFile(this.cacheFilePath);
+      }
+    } catch (error) {
+      console.warn(`Failed to delete index cache ${this.cacheFilePath}:`, error);
+    }
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    try {
+      if (!(await this.fileService.exists(this.cacheFilePath))) {
+        return;
+      }
+
+      const persisted = JSON.parse(await this.fileService.readFile(this.cacheFilePath)) as Partial<PersistedIndexCache>;
+      if (persisted.version !== INDEX_CACHE_FORMAT_VERSION || typeof persisted.configHash !== 'string' || !persisted.files) {
+        console.log('[IndexCacheService] Ignoring index cache written by another version');
+        return;
+      }
+
+      this.entries = new Map(Object.entries(persisted.files));
+      this.configHash = persisted.configHash;
+    } catch (error) {
+      // A corrupt cache is only a slower start
+      console.warn(`Failed to load index cache from ${this.cacheFilePath}:`, error);
+      this.entries.clear();
+    }
+  }
+
+  /**
+   * Hash only the settings that change what indexes contain; saved searches, variables and
+   * metadata are rewritten in config.json without touching any memo
+   */
+  private hashConfig(config: MemoConfig): string {
+    const indexed = [
+      config.baseDir,
+      config.fileExtensions,
+      config.memoTypes.map(memoType => [memoType.id, memoType.baseDir ?? null])
+    ];
+    return crypto.createHash('sha1').update(JSON.stringify(indexed)).digest('hex');
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save().catch(console.error);
+    }, SAVE_DELAY_MS);
+  }
+}
@@ -1,10 +1,11 @@
 import * as path from 'path';
-import { ILinkUpdateService, LinkUpdateResult } from '../interfaces/ILinkUpdateService';
+import { ILinkUpdateService, LinkUpdateResult, LinkRemovalMode, LinkRemovalResult, LinkRepairResult, LineEdit } from '../interfaces/ILinkUpdateService';
 import { IFileService } from '../interfaces/IFileService';
 import { IConfigService } from '../interfaces/IConfigService';
-import { IBacklinkService } from '../interfaces/IBacklinkService';
+import { IBacklinkService, Backlink, BrokenLink } from '../interfaces/IBacklinkService';
 import { isValidMemoFile } from '../../utils/fileUtils';
 import { calculateRelativePath, resolveRelativePath } from '../../utils/pathUtils';
+import { ParsedMemoLink, parseMemoLinks, replaceMemoLinks, wikiTargetMatchesPath, renameWikiTarget, formatWikiLink, formatMarkdownLink, findAnchor, unlinkMemoLinks, rebaseMarkdownLinks } from '../../utils/linkUtils';
 
 export class LinkUpdateService implements ILinkUpdateService {
   constructor(
@@ -15,6 +16,32 @@ export class LinkUpdateService implements ILinkUpdateService {
   ) {}
 
   async updateLinksAfterRename(oldPath: string, newPath: string): Promise<LinkUpdateResult> {
+    // Fix the renamed file's own links first, so the index is updated with them below
+    let outbound = 0;
+    let outboundError: string | undefined;
+    try {
+      outbound = await this.updateOutboundLinks(oldPath, newPath);
+    } catch (error) {
+      outboundError = `Failed to update links in ${newPath}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(outboundError);
+    }
+
+    const result = await this.updateLinks(oldPath, newPath);
+    if (outbound > 0) {
+      result.filesUpdated++;
+      result.linksUpdated += outbound;
+    }
+    if (outboundError) {
+      result.errors.unshift(outboundError);
+    }
+    return result;
+  }
+
+  async redirectLinks(oldPath: string, newPath: string, oldTitle?: string): Promise<LinkUpdateResult> {
+    return this.updateLinks(oldPath, newPath, oldTitle);
+  }
+
+  private async updateLinks(oldPath: string, newPath: string, oldTitle?: string): Promise<LinkUpdateResult> {
     const result: LinkUpdateResult = {
       filesUpdated: 0,
       linksUpdated: 0,
@@ -31,8 +58,12 @@ export class LinkUpdateService implements ILinkUpdateService {
 
       // Update each file with new relative paths
       for (const filePath of filesWithLinks) {
+        // The renamed file's own links are up to the caller, and it is no longer at the old path
+        if (filePath === oldPath) {
+          continue;
+        }
         try {
-          const updated = await this.updateLinksInFile(filePath, oldPath, newPath);
+          const updated = await this.updateLinksInFile(filePath, oldPath, newPath, oldTitle);
           if (updated.linksUpdated > 0) {
             result.filesUpdated++;
             result.linksUpdated += updated.linksUpdated;
@@ -57,6 +88,114 @@ export class LinkUpdateService implements ILinkUpdateService {
     return result;
   }
 
+  async removeLinksTo(targetPath: string, mode: LinkRemovalMode): Promise<LinkRemovalResult> {
+    const result: LinkRemovalResult = {
+      filesUpdated: 0,
+      linksUpdated: 0,
+      errors: [],
+      edits: []
+    };
+    for (const filePath of await this.findFilesWithLinksTo(targetPath)) {
+      if (filePath === targetPath) {
+        continue;
+      }
+
+      try {
+        const lines = (await this.fileService.readFile(filePath)).split('\n');
+        let linksUpdated = 0;
+
+        const fileEdits: LineEdit[] = [];
+        lines.forEach((line, index) => {
+          const updated = unlinkMemoLinks(line, link => {
+            const matches = this.linksTo(link, filePath, targetPath);
+            if (matches) {
+              linksUpdated++;
+            }
+            return matches;
+          }, mode === 'plainText');
+
+          if (updated !== line) {
+            fileEdits.push({ filePath, line: index, before: line, after: updated });
+            lines[index] = updated;
+          }
+        });
+
+        // Neighbouring lines may be edited too, so they are recorded once the whole file is done
+        for (const edit of fileEdits) {
+          result.edits.push({ ...edit, previousLine: lines[edit.line - 1] ?? null, nextLine: lines[edit.line + 1] ?? null });
+        }
+
+        if (linksUpdated > 0) {
+          await this.fileService.writeFile(filePath, lines.join('\n'));
+          result.filesUpdated++;
+          result.linksUpdated += linksUpdated;
+        }
+      } catch (error) {
+        const errorMsg = `Failed to remove links in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        result.errors.push(errorMsg);
+        console.error(errorMsg);
+      }
+    }
+
+    return result;
+  }
+
+  async repairBrokenLinks(): Promise<LinkRepairResult> {
+    const result: LinkRepairResult = {
+      filesUpdated: 0,
+      linksUpdated: 0,
+      errors: [],
+      unresolved: []
+    };
+
+    // Memos by file name, to find where a broken link's target has gone
+    const memosByName = new Map<string, string[]>();
+    for (const memo of this.backlinkService.getMemoFiles()) {
+      const name = path.basename(memo.filePath).toLowerCase();
+      memosByName.set(name, [...(memosByName.get(name) || []), memo.filePath]);
+    }
+
+    const brokenLinksByFile = new Map<string, BrokenLink[]>();
+    for (const brokenLink of await this.backlinkService.getBrokenLinks()) {
+      if (brokenLink.kind === 'markdown') {
+        brokenLinksByFile.set(brokenLink.sourceFile, [...(brokenLinksByFile.get(brokenLink.sourceFile) || []), brokenLink]);
+      }
+    }
+
+    for (const [filePath, brokenLinks] of brokenLinksByFile) {
+      try {
+        const content = await this.fileService.readFile(filePath);
+        const replaced = replaceMemoLinks(content, (link, lineIndex) => {
+          const brokenLink = brokenLinks.find(candidate =>
+            candidate.sourceLine === lineIndex + 1 && candidate.startColumn === link.start && candidate.target === link.target);
+          if (link.kind !== 'markdown' || !brokenLink) {
+            return undefined;
+          }
+
+          const matches = memosByName.get(path.basename(link.target).toLowerCase()) || [];
+          if (matches.length !== 1) {
+            result.unresolved.push(brokenLink);
+            return undefined;
+          }
+          return formatMarkdownLink(link.text, calculateRelativePath(filePath, matches[0]), link.anchor);
+        });
+
+        if (replaced.replaced > 0) {
+          await this.fileService.writeFile(filePath, replaced.content);
+          await this.backlinkService.updateFileBacklinks(filePath);
+          result.filesUpdated++;
+          result.linksUpdated += replaced.replaced;
+        }
+      } catch (error) {
+        const errorMsg = `Failed to repair links in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        result.errors.push(errorMsg);
+        console.error(errorMsg);
+      }
+    }
+
+    return result;
+  }
+
   async findFilesWithLinksTo(targetPath: string): Promise<string[]> {
     try {
       // Method 1: Use backlink service to find files that reference the target
@@ -76,6 +215,38 @@ export class LinkUpdateService implements ILinkUpdateService {
     }
   }
 
+  async findBrokenAnchorLinks(targetPath: string): Promise<Backlink[]> {
+    try {
+      const backlinks = await this.backlinkService.getBacklinks(targetPath);
+      const anchoredLinks = backlinks.filter(backlink => backlink.anchor);
+      if (anchoredLinks.length === 0 || !(await this.fileService.exists(targetPath))) {
+        return [];
+      }
+
+      const content = await this.fileService.readFile(targetPath);
+      return anchoredLinks.filter(backlink => !findAnchor(content, backlink.anchor!));
+    } catch (error) {
+      console.error('Error checking anchor links:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rewrite the relative links of a file that has moved from oldPath to newPath
+   * @returns Number of links rewritten
+   */
+  private async updateOutboundLinks(oldPath: string, newPath: string): Promise<number> {
+    if (!(await this.fileService.exists(newPath))) {
+      return 0;
+    }
+
+    const rebased = rebaseMarkdownLinks(await this.fileService.readFile(newPath), oldPath, newPath);
+    if (rebased.replaced > 0) {
+      await this.fileService.writeFile(newPath, rebased.content);
+    }
+    return rebased.replaced;
+  }
+
   private async findFilesWithLinksDirectly(targetPath: string): Promise<string[]> {
     try {
       // Get all memo files
@@ -88,21 +259,11 @@ export class LinkUpdateService implements ILinkUpdateService {
         try {
           const content = await this.fileService.readFile(filePath);
 
-          // Check for relative path links to .md/.markdown files
-          const linkPattern = /\[([^\]]*)\]\((?!https?:\/\/)([^)]+\.(?:md|markdown))\)/g;
-          let match;
-
-          while ((match = linkPattern.exec(content)) !== null) {
-            const relativeLinkPath = match[2];
-            // Resolve the relative path from the source file to get absolute path
-            const resolvedPath = resolveRelativePath(filePath, relativeLinkPath);
-            const normalizedResolved = path.normalize(resolvedPath).toLowerCase();
-            const normalizedTarget = path.normalize(targetPath).toLowerCase();
+          // Check for relative path links to .md/.markdown files and [[wiki links]] to the target
+          const hasLink = content.split('\n').some(line => parseMemoLinks(line).some(link => this.linksTo(link, filePath, targetPath)));
 
-            if (normalizedResolved === normalizedTarget) {
-              filesWithLinks.push(filePath);
-              break; // Found a link in this file, no need to continue searching this file
-            }
+          if (hasLink) {
+            filesWithLinks.push(filePath);
           }
         } catch (error) {
           console.error(`Error reading file ${filePath}:`, error);
@@ -153,32 +314,40 @@ export class LinkUpdateService implements ILinkUpdateService {
   private async updateLinksInFile(
     filePath: string,
     oldTargetPath: string,
-    newTargetPath: string
+    newTargetPath: string,
+    oldTitle?: string
   ): Promise<{ linksUpdated: number }> {
     const content = await this.fileService.readFile(filePath);
-    let updatedContent = content;
-    let linksUpdated = 0;
 
     // Calculate the new relative path from this file to the new target
     const newRelativePath = calculateRelativePath(filePath, newTargetPath);
 
-    // Pattern to match relative path links to .md/.markdown files
-    const linkPattern = /\[([^\]]*)\]\((?!https?:\/\/)([^)]+\.(?:md|markdown))\)/g;
-
-    updatedContent = updatedContent.replace(linkPattern, (match, linkText, relativeLinkPath) => {
-      // Resolve the relative path to get absolute path
-      const resolvedPath = resolveRelativePath(filePath, relativeLinkPath);
-      const normalizedResolved = path.normalize(resolvedPath).toLowerCase();
-      const normalizedOldTarget = path.normalize(oldTargetPath).toLowerCase();
+    const replaced = replaceMemoLinks(content, link => {
+      if (link.kind === 'wiki') {
+        const matchesName = wikiTargetMatchesPath(link.target, oldTargetPath);
+        // The index may already know the new file; a link resolving to it is still a link to this memo
+        const pointsAtMemo = this.linksTo(link, filePath, oldTargetPath)
+          || (matchesName && this.linksTo(link, filePath, newTargetPath));
+        // Title-based wiki links keep working after a rename, only name/path targets change,
+        // unless the old memo is going away
+        if (!pointsAtMemo || (!matchesName && !oldTitle)) {
+          return undefined;
+        }
+        const newTarget = renameWikiTarget(link.target, newTargetPath);
+        const alias = link.text !== link.target ? link.text : undefined;
+        return formatWikiLink(newTarget, alias, link.anchor);
+      }
 
-      if (normalizedResolved === normalizedOldTarget) {
-        linksUpdated++;
-        return `[${linkText}](${newRelativePath})`;
+      if (this.linksTo(link, filePath, oldTargetPath)) {
+        return formatMarkdownLink(link.text, newRelativePath, link.anchor);
       }
 
-      return match;
+      return undefined;
     });
 
+    let updatedContent = replaced.content;
+    const linksUpdated = replaced.replaced;
+
     // Also handle cases where the link text might need updating if it was derived from filename
     if (linksUpdated > 0) {
       const oldFileName = path.basename(oldTargetPath, path.extname(oldTargetPath));
@@ -199,6 +368,17 @@ export class LinkUpdateService implements ILinkUpdateService {
     return { linksUpdated };
   }
 
+  /**
+   * Whether a link in sourceFile points at targetPath. Wiki links are matched as the
+   * index resolves them, so same-named memos elsewhere are left alone.
+   */
+  private linksTo(link: ParsedMemoLink, sourceFile: string, targetPath: string): boolean {
+    const linkedPath = link.kind === 'wiki'
+      ? this.backlinkService.resolveWikiLink(link.target, sourceFile)
+      : resolveRelativePath(sourceFile, link.target);
+    return !!linkedPath && path.normalize(linkedPath).toLowerCase() === path.normalize(targetPath).toLowerCase();
+  }
+
   private escapeRegExp(string: string): string {
     return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
   }
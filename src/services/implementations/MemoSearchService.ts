@@ -1,149 +1,342 @@
 import * as path from 'path';
-import { IMemoSearchService, MemoSearchResult } from '../interfaces/IMemoSearchService';
+import { IMemoSearchService, MemoSearchResult, MemoSearchOptions } from '../interfaces/IMemoSearchService';
 import { IFileService } from '../interfaces/IFileService';
 import { IConfigService } from '../interfaces/IConfigService';
 import { IMetadataService } from '../interfaces/IMetadataService';
+import { IIndexCacheService } from '../interfaces/IIndexCacheService';
+import { ITagIndexService } from '../interfaces/ITagIndexService';
+import { IBacklinkService } from '../interfaces/IBacklinkService';
+import { MemoConfig } from '../../models/MemoConfig';
+import { InvertedIndex, FieldTerms, analyzeField } from '../../search/InvertedIndex';
+import { parseTextQuery, TextQueryClause } from '../../search/textQuery';
+import { parseSearchQuery, parseDate, matchesMetadataFilter, FilterableMemo, SearchFilter } from '../../search/searchQuery';
+import { isValidMemoFile } from '../../utils/fileUtils';
+import { splitFrontmatter } from '../../utils/frontmatterUtils';
+
+// Bump when the shape of MemoSearchData or how memos are parsed changes
+const SEARCH_CACHE_NAMESPACE = 'search:5';
+
+// タイトルとタグの一致を本文より優先する
+const FIELD_BOOSTS = { title: 3, tags: 2, path: 1.5, body: 1 };
+
+/**
+ * Searchable content of a single memo, as stored in the index cache.
+ * The body is kept only as index terms; excerpts read the file again.
+ */
+interface MemoSearchData {
+  title: string;
+  tags: string[];
+  typeId?: string;
+  created?: string;
+  fields: Record<string, string | string[]>;
+  bodyTerms: FieldTerms;
+}
+
+// frontmatter から作成日を取得するキー
+const CREATED_FIELDS = ['created', 'date'];
 
 export class MemoSearchService implements IMemoSearchService {
   private searchIndex: Map<string, MemoSearchResult> = new Map();
+  private filterData: Map<string, FilterableMemo> = new Map();
+  private invertedIndex = new InvertedIndex(FIELD_BOOSTS);
+  private isIndexBuilt = false;
+  private building: Promise<void> | undefined;
 
   constructor(
     private fileService: IFileService,
     private configService: IConfigService,
     private metadataService: IMetadataService,
-    private workspaceRoot: string
+    private workspaceRoot: string,
+    private indexCache?: IIndexCacheService,
+    private tagIndexService?: ITagIndexService,
+    private backlinkService?: IBacklinkService
   ) {}
 
-  async searchMemos(query: string): Promise<MemoSearchResult[]> {
-    // インデックスが空の場合は構築
-    if (this.searchIndex.size === 0) {
+  async searchMemos(query: string, options: MemoSearchOptions = {}): Promise<MemoSearchResult[]> {
+    // インデックスが未構築の場合は構築
+    if (!this.isIndexBuilt) {
       await this.buildIndex();
     }
 
-    const results: MemoSearchResult[] = [];
-    const lowerQuery = query.toLowerCase();
+    const searchQuery = parseSearchQuery(query);
+    const clauses = parseTextQuery(searchQuery.text, { prefixLastTerm: options.prefixLastTerm });
+    if (!clauses.some(clause => !clause.negated) && searchQuery.filters.length === 0) {
+      return [];
+    }
 
-    // インデックスから検索
-    for (const memo of this.searchIndex.values()) {
-      const lowerTitle = memo.title.toLowerCase();
-      const lowerFilePath = memo.filePath.toLowerCase();
+    // フィルタのみの場合は全メモがスコア 0 で候補になる
+    let results: MemoSearchResult[] = [];
+    for (const hit of this.invertedIndex.search(clauses)) {
+      const memo = this.searchIndex.get(hit.id);
+      if (memo) {
+        results.push({ ...memo, score: hit.score });
+      }
+    }
 
-      // タイトルまたはファイルパスに検索キーワードが含まれているか確認
-      if (lowerTitle.includes(lowerQuery) || lowerFilePath.includes(lowerQuery)) {
-        results.push(memo);
-        continue;
+    results = await this.applyFilters(results, searchQuery.filters);
+
+    // スコア順、同点なら最終更新日の新しい順
+    results.sort((a, b) => (b.score || 0) - (a.score || 0) || b.lastModified.getTime() - a.lastModified.getTime());
+
+    const limited = options.limit !== undefined ? results.slice(0, options.limit) : results;
+    return Promise.all(limited.map(async result => ({ ...result, excerpt: await this.createExcerpt(result.filePath, clauses) })));
+  }
+
+  /**
+   * タグ → メタデータ → リンクの順に、安価なフィルタから候補を絞り込む
+   */
+  private async applyFilters(results: MemoSearchResult[], filters: SearchFilter[]): Promise<MemoSearchResult[]> {
+    for (const filter of filters) {
+      if (filter.kind === 'tag') {
+        const tagged = await this.findTaggedFiles(filter.tags);
+        results = results.filter(result => tagged.has(result.filePath) !== filter.negated);
       }
+    }
 
-      // コンテンツ全体を検索（パフォーマンスを考慮して必要な場合のみ）
-      try {
-        const content = await this.fileService.readFile(memo.filePath);
-        if (content.toLowerCase().includes(lowerQuery)) {
-          // マッチした部分の抜粋を作成
-          const excerpt = this.createExcerpt(content, query);
-          results.push({ ...memo, excerpt });
-        }
-      } catch (error) {
-        console.error(`Error reading file ${memo.filePath}:`, error);
+    for (const filter of filters) {
+      if (filter.kind !== 'tag' && filter.kind !== 'has' && filter.kind !== 'is') {
+        results = results.filter(result => {
+          const memo = this.filterData.get(result.filePath);
+          return !!memo && matchesMetadataFilter(filter, memo) !== filter.negated;
+        });
       }
     }
 
-    // 最終更新日でソート（新しい順）
-    results.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+    for (const filter of filters) {
+      if (filter.kind === 'has' || filter.kind === 'is') {
+        const matched: MemoSearchResult[] = [];
+        for (const result of results) {
+          if (await this.matchesLinkFilter(filter, result) !== filter.negated) {
+            matched.push(result);
+          }
+        }
+        results = matched;
+      }
+    }
 
     return results;
   }
 
+  /**
+   * いずれかのタグを持つメモ（tag:a,b は OR、複数の tag: は AND）
+   */
+  private async findTaggedFiles(tags: string[]): Promise<Set<string>> {
+    if (this.tagIndexService) {
+      const memos = await this.tagIndexService.getMemosByTags(tags, 'OR');
+      return new Set(memos.map(memo => memo.filePath));
+    }
+
+    // タグインデックスがない場合は検索インデックスのタグで判定
+    const tagged = new Set<string>();
+    for (const [filePath, memo] of this.filterData) {
+      if (matchesMetadataFilter({ kind: 'tag', tags, negated: false }, memo)) {
+        tagged.add(filePath);
+      }
+    }
+    return tagged;
+  }
+
+  private async matchesLinkFilter(filter: { kind: 'has' | 'is'; value: string }, result: MemoSearchResult): Promise<boolean> {
+    const value = `${filter.kind}:${filter.value}`;
+
+    if (value === 'has:tags') {
+      return result.tags.length > 0;
+    }
+    if (!this.backlinkService) {
+      return false;
+    }
+
+    switch (value) {
+      case 'has:backlinks':
+        return (await this.backlinkService.getBacklinks(result.filePath)).length > 0;
+      case 'has:links':
+        return (await this.backlinkService.getOutboundLinks(result.filePath)).length > 0;
+      case 'is:orphan':
+        // 被リンクも発リンクもないメモ
+        return (await this.backlinkService.getBacklinks(result.filePath)).length === 0
+          && (await this.backlinkService.getOutboundLinks(result.filePath)).length === 0;
+      default:
+        return false;
+    }
+  }
+
   async buildIndex(): Promise<void> {
+    // 同時に呼ばれた場合は進行中の構築を待つ
+    if (!this.building) {
+      this.building = this.rebuild().finally(() => {
+        this.building = undefined;
+      });
+    }
+    await this.building;
+  }
+
+  private async rebuild(): Promise<void> {
     this.searchIndex.clear();
+    this.filterData.clear();
+    this.invertedIndex.clear();
 
     const config = await this.configService.loadConfig();
+    await this.indexCache?.prepare();
 
-    for (const memoType of config.memoTypes) {
-      const memoDir = memoType.baseDir
-        ? path.join(this.workspaceRoot, memoType.baseDir)
-        : this.workspaceRoot;
-
-      if (!(await this.fileService.exists(memoDir))) {
-        continue;
-      }
-
+    const baseDir = path.join(this.workspaceRoot, config.baseDir);
+    if (await this.fileService.exists(baseDir)) {
       try {
-        const files = await this.fileService.listFiles(memoDir, ['.md']);
+        const files = await this.fileService.listFiles(baseDir, config.fileExtensions);
 
         for (const file of files) {
-          const filePath = path.join(memoDir, file);
-          await this.indexFile(filePath, memoType.name);
+          const filePath = path.isAbsolute(file) ? file : path.join(baseDir, file);
+          await this.indexFile(filePath, config);
         }
+        this.indexCache?.completeBuild();
       } catch (error) {
-        console.error(`Error indexing directory ${memoDir}:`, error);
+        console.error(`Error indexing directory ${baseDir}:`, error);
       }
     }
+
+    this.isIndexBuilt = true;
   }
 
-  private async indexFile(filePath: string, memoTypeName: string): Promise<void> {
+  private async indexFile(filePath: string, config: MemoConfig): Promise<void> {
     try {
-      const content = await this.fileService.readFile(filePath);
-      const metadata = this.metadataService.extractMetadata(content);
-
-      const title = metadata?.special?.title || path.basename(filePath, '.md');
-      const tags = metadata?.special?.tags || [];
-
       const stats = await this.fileService.getStats(filePath);
+      const data = this.indexCache
+        ? await this.indexCache.getOrCompute(SEARCH_CACHE_NAMESPACE, filePath, content => this.parseMemoContent(filePath, content), stats)
+        : this.parseMemoContent(filePath, await this.fileService.readFile(filePath));
 
-      this.searchIndex.set(filePath, {
+      const memo: MemoSearchResult = {
         filePath,
-        title,
-        memoType: memoTypeName,
-        tags,
+        title: data.title,
+        memoType: this.resolveMemoTypeName(filePath, data.typeId, config),
+        tags: data.tags,
         lastModified: stats.lastModified
+      };
+
+      this.searchIndex.set(filePath, memo);
+      this.filterData.set(filePath, {
+        tags: data.tags,
+        typeId: data.typeId,
+        memoType: memo.memoType,
+        created: (data.created ? parseDate(data.created) : undefined) || stats.lastModified,
+        lastModified: stats.lastModified,
+        fields: data.fields
+      });
+      this.invertedIndex.addDocument(filePath, {
+        title: data.title,
+        tags: data.tags.join(' '),
+        path: path.relative(this.workspaceRoot, filePath),
+        body: data.bodyTerms
       });
     } catch (error) {
       console.error(`Error indexing file ${filePath}:`, error);
     }
   }
 
-  private createExcerpt(content: string, query: string): string {
-    const lowerContent = content.toLowerCase();
-    const lowerQuery = query.toLowerCase();
-    const index = lowerContent.indexOf(lowerQuery);
+  private parseMemoContent(filePath: string, content: string): MemoSearchData {
+    const metadata = this.metadataService.extractMetadata(content);
+    const fields: Record<string, string | string[]> = {};
+    for (const [key, value] of Object.entries(metadata?.user || {})) {
+      fields[key] = Array.isArray(value) ? value.map(item => unquote(String(item))) : unquote(String(value));
+    }
 
-    if (index === -1) {
-      return '';
+    return {
+      title: metadata?.special?.title || path.basename(filePath, path.extname(filePath)),
+      tags: metadata?.special?.tags || [],
+      typeId: metadata?.system?.type || undefined,
+      created: this.findCreatedDate(filePath, fields),
+      fields,
+      bodyTerms: analyzeField(memoBody(content))
+    };
+  }
+
+  /**
+   * frontmatter の created / date、なければファイル名先頭の日付（2026-01-05-xxx.md）
+   */
+  private findCreatedDate(filePath: string, fields: Record<string, string | string[]>): string | undefined {
+    for (const key of CREATED_FIELDS) {
+      const value = fields[key];
+      const dateMatch = typeof value === 'string' ? value.match(/^\d{4}-\d{1,2}-\d{1,2}/) : null;
+      if (dateMatch) {
+        return dateMatch[0];
+      }
+    }
+
+    const fileNameMatch = path.basename(filePath).match(/^\d{4}-\d{2}-\d{2}/);
+    return fileNameMatch ? fileNameMatch[0] : undefined;
+  }
+
+  /**
+   * frontmatter の type を優先し、なければメモタイプのディレクトリから判定
+   */
+  private resolveMemoTypeName(filePath: string, typeId: string | undefined, config: MemoConfig): string {
+    const typeById = typeId ? config.memoTypes.find(memoType => memoType.id === typeId) : undefined;
+    if (typeById) {
+      return typeById.name;
     }
 
-    const excerptLength = 100;
-    const start = Math.max(0, index - excerptLength / 2);
-    const end = Math.min(content.length, index + query.length + excerptLength / 2);
+    const typeByDir = config.memoTypes
+      .filter(memoType => memoType.baseDir)
+      .find(memoType => filePath.startsWith(path.join(this.workspaceRoot, config.baseDir, memoType.baseDir!) + path.sep));
+    return typeByDir?.name || '';
+  }
 
-    let excerpt = content.substring(start, end);
+  private async createExcerpt(filePath: string, clauses: TextQueryClause[]): Promise<string> {
+    const positive = clauses.filter(candidate => !candidate.negated);
+    if (positive.length === 0) {
+      return '';
+    }
 
-    // 前後に省略記号を追加
-    if (start > 0) {
-      excerpt = '...' + excerpt;
+    let body: string;
+    try {
+      body = memoBody(await this.fileService.readFile(filePath));
+    } catch {
+      // 削除直後などで読めない場合は抜粋なし
+      return '';
     }
-    if (end < content.length) {
-      excerpt = excerpt + '...';
+
+    const lowerBody = body.toLowerCase();
+
+    for (const clause of positive) {
+      const lowerText = clause.text.toLowerCase();
+      const index = lowerBody.indexOf(lowerText);
+
+      if (index === -1 || !lowerText) {
+        continue;
+      }
+
+      const excerptLength = 100;
+      const start = Math.max(0, index - excerptLength / 2);
+      const end = Math.min(body.length, index + lowerText.length + excerptLength / 2);
+
+      let excerpt = body.substring(start, end);
+
+      // 前後に省略記号を追加
+      if (start > 0) {
+        excerpt = '...' + excerpt;
+      }
+      if (end < body.length) {
+        excerpt = excerpt + '...';
+      }
+
+      return excerpt.replace(/\s+/g, ' ').trim();
     }
 
-    return excerpt.trim();
+    return '';
   }
 
   /**
    * ファイルが更新された場合にインデックスを更新
    */
   async updateFile(filePath: string): Promise<void> {
-    // ファイルがどのメモタイプに属するか判定
-    const config = await this.configService.loadConfig();
+    // 未構築のインデックスは初回検索時にまとめて構築する
+    if (!this.isIndexBuilt) {
+      return;
+    }
 
-    for (const memoType of config.memoTypes) {
-      const memoDir = memoType.baseDir
-        ? path.join(this.workspaceRoot, memoType.baseDir)
-        : this.workspaceRoot;
+    const config = await this.configService.loadConfig();
+    const baseDir = path.join(this.workspaceRoot, config.baseDir);
 
-      if (filePath.startsWith(memoDir)) {
-        await this.indexFile(filePath, memoType.name);
-        break;
-      }
+    if (filePath.startsWith(baseDir) && isValidMemoFile(path.basename(filePath), config.fileExtensions)) {
+      await this.indexFile(filePath, config);
     }
   }
 
@@ -152,5 +345,17 @@ export class MemoSearchService implements IMemoSearchService {
    */
   removeFile(filePath: string): void {
     this.searchIndex.delete(filePath);
+    this.filterData.delete(filePath);
+    this.invertedIndex.removeDocument(filePath);
+    this.indexCache?.removeFile(filePath);
   }
-}
\ No newline at end of file
+}
+
+/** The memo text after its frontmatter */
+function memoBody(content: string): string {
+  return splitFrontmatter(content)?.body ?? content;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, '$2');
+}
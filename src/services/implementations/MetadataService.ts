@@ -12,6 +12,7 @@ import {
   isSystemMetadataKey,
   isSpecialMetadataKey
 } from '../../models/MemoMetadata';
+import { parseFrontmatter, stringifyFrontmatter, updateFrontmatter } from '../../utils/frontmatterUtils';
 
 export class MetadataService implements IMetadataService {
   /**
@@ -30,49 +31,7 @@ export class MetadataService implements IMetadataService {
    * Extract raw frontmatter from content
    */
   extractRawFrontmatter(content: string): RawFrontmatter | null {
-    const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/);
-    if (!frontmatterMatch) {
-      return null;
-    }
-
-    const frontmatterText = frontmatterMatch[1];
-    const frontmatter: RawFrontmatter = {};
-
-    // Parse YAML-like frontmatter
-    for (const line of frontmatterText.split('\n')) {
-      const match = line.match(/^([^:]+):\s*(.*)$/);
-      if (match) {
-        const key = match[1].trim();
-        let value: any = match[2].trim();
-
-        // Parse arrays (simple format: [item1, item2])
-        if (value.startsWith('[') && value.endsWith(']')) {
-          value = value
-            .slice(1, -1)
-            .split(',')
-            .map((item: string) => item.trim())
-            .filter((item: string) => item.length > 0);
-        }
-        // Parse booleans
-        else if (value === 'true') {
-          value = true;
-        }
-        else if (value === 'false') {
-          value = false;
-        }
-        // Parse numbers
-        else if (/^\d+$/.test(value)) {
-          value = parseInt(value, 10);
-        }
-        else if (/^\d+\.\d+$/.test(value)) {
-          value = parseFloat(value);
-        }
-
-        frontmatter[key] = value;
-      }
-    }
-
-    return frontmatter;
+    return parseFrontmatter(content);
   }
 
   /**
@@ -116,48 +75,38 @@ export class MetadataService implements IMetadataService {
    * Serialize metadata to frontmatter string
    */
   serializeMetadata(metadata: MemoMetadata): string {
-    const lines: string[] = [];
+    const frontmatter: RawFrontmatter = {};
 
     // System metadata first
     for (const [key, value] of Object.entries(metadata.system)) {
       if (value !== undefined) {
-        lines.push(`${key}: ${this.formatValue(value)}`);
+        frontmatter[key] = value;
       }
     }
 
     // Special metadata
     if (metadata.special.title) {
-      lines.push(`title: ${this.formatValue(metadata.special.title)}`);
+      frontmatter.title = metadata.special.title;
     }
     if (metadata.special.tags && metadata.special.tags.length > 0) {
-      lines.push(`tags: [${metadata.special.tags.join(', ')}]`);
+      frontmatter.tags = metadata.special.tags;
     }
 
     // User metadata
     for (const [key, value] of Object.entries(metadata.user)) {
       if (value !== undefined) {
-        lines.push(`${key}: ${this.formatValue(value)}`);
+        frontmatter[key] = value;
       }
     }
 
-    return lines.join('\n');
+    return stringifyFrontmatter(frontmatter);
   }
 
   /**
-   * Format a value for YAML
+   * Update frontmatter values in content, keeping everything else as written
    */
-  private formatValue(value: any): string {
-    if (typeof value === 'string') {
-      // Quote if contains special characters
-      if (value.includes(':') || value.includes('#') || value.includes('\n')) {
-        return `"${value.replace(/"/g, '\\"')}"`;
-      }
-      return value;
-    } else if (Array.isArray(value)) {
-      return `[${value.join(', ')}]`;
-    } else {
-      return String(value);
-    }
+  updateFrontmatter(content: string, updates: Record<string, unknown>): string {
+    return updateFrontmatter(content, updates);
   }
 
   /**
@@ -242,6 +191,11 @@ export class MetadataService implements IMetadataService {
               message: `Field "${field}" must be of type ${fieldSchema.type}`,
               type: 'invalid_type'
             });
+          } else {
+            const valueError = this.validateFieldValue(field, value, fieldSchema);
+            if (valueError) {
+              errors.push(valueError);
+            }
           }
         }
       }
@@ -253,6 +207,33 @@ export class MetadataService implements IMetadataService {
     };
   }
 
+  /**
+   * Validate the value of a field that already has the right type
+   */
+  private validateFieldValue(field: string, value: any, fieldSchema: MetadataSchema): ValidationError | undefined {
+    if (fieldSchema.type === 'date' && typeof value === 'string' && !isValidDateString(value)) {
+      return {
+        field,
+        message: `Field "${field}" must be a valid date (YYYY-MM-DD)`,
+        type: 'invalid_value'
+      };
+    }
+
+    if (fieldSchema.enum) {
+      const values = Array.isArray(value) ? value : [value];
+      const invalid = values.find(item => !fieldSchema.enum!.includes(item));
+      if (invalid !== undefined) {
+        return {
+          field,
+          message: `Field "${field}" must be one of: ${fieldSchema.enum.join(', ')}`,
+          type: 'invalid_value'
+        };
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Validate field type
    */
@@ -275,4 +256,17 @@ export class MetadataService implements IMetadataService {
         return false;
     }
   }
-}
\ No newline at end of file
+}
+/**
+ * YYYY-MM-DD, optionally followed by a time, that is a real calendar date
+ */
+function isValidDateString(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!match) {
+    return false;
+  }
+
+  const [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
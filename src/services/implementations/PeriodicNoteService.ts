@@ -0,0 +1,105 @@
+import * as path from 'path';
+import { IPeriodicNoteService, PeriodicNote } from '../interfaces/IPeriodicNoteService';
+import { IFileService } from '../interfaces/IFileService';
+import { IConfigService } from '../interfaces/IConfigService';
+import { MemoConfig } from '../../models/MemoConfig';
+import { MemoType } from '../../models/MemoType';
+import { NOTE_PERIODS, NotePeriod } from '../../models/PeriodicNote';
+import { formatDate } from '../../utils/dateUtils';
+import { getPeriodStart, parsePeriodFromPath } from '../../utils/periodicNoteUtils';
+import { parseFrontmatter } from '../../utils/frontmatterUtils';
+import { isValidMemoFile } from '../../utils/fileUtils';
+
+export class PeriodicNoteService implements IPeriodicNoteService {
+  constructor(
+    private fileService: IFileService,
+    private configService: IConfigService,
+    private workspaceRoot: string
+  ) {}
+
+  async getPeriodicMemoType(period: NotePeriod): Promise<MemoType | undefined> {
+    const config = await this.configService.loadConfig();
+    return config.memoTypes.find(memoType => memoType.periodic?.period === period);
+  }
+
+  async getNotes(period: NotePeriod): Promise<Map<string, PeriodicNote>> {
+    const notes = new Map<string, PeriodicNote>();
+    const config = await this.configService.loadConfig();
+    const memoType = config.memoTypes.find(candidate => candidate.periodic?.period === period);
+    if (!memoType) {
+      return notes;
+    }
+
+    const memoTypeDir = this.getMemoTypeDir(config, memoType);
+    if (!(await this.fileService.exists(memoTypeDir))) {
+      return notes;
+    }
+
+    for (const file of await this.fileService.listFiles(memoTypeDir, config.fileExtensions)) {
+      const filePath = path.isAbsolute(file) ? file : path.join(memoTypeDir, file);
+      const date = parsePeriodFromPath(period, path.relative(memoTypeDir, filePath));
+      if (!date || !(await this.isOfMemoType(filePath, memoType))) {
+        continue;
+      }
+
+      // Keep the first note found when two files claim the same period
+      const key = formatDate(date);
+      if (!notes.has(key)) {
+        notes.set(key, { period, date, filePath });
+      }
+    }
+
+    return notes;
+  }
+
+  async findNote(period: NotePeriod, date: Date): Promise<PeriodicNote | undefined> {
+    const notes = await this.getNotes(period);
+    return notes.get(formatDate(getPeriodStart(period, date)));
+  }
+
+  async getNoteForFile(filePath: string): Promise<PeriodicNote | undefined> {
+    const config = await this.configService.loadConfig();
+    if (!isValidMemoFile(path.basename(filePath), config.fileExtensions)) {
+      return undefined;
+    }
+
+    for (const period of NOTE_PERIODS) {
+      const memoType = config.memoTypes.find(candidate => candidate.periodic?.period === period);
+      if (!memoType) {
+        continue;
+      }
+
+      const memoTypeDir = this.getMemoTypeDir(config, memoType);
+      if (!filePath.startsWith(memoTypeDir + path.sep)) {
+        continue;
+      }
+
+      const date = parsePeriodFromPath(period, path.relative(memoTypeDir, filePath));
+      if (date && await this.isOfMemoType(filePath, memoType)) {
+        return { period, date, filePath };
+      }
+    }
+
+    return undefined;
+  }
+
+  private getMemoTypeDir(config: MemoConfig, memoType: MemoType): string {
+    return path.join(this.workspaceRoot, config.baseDir, memoType.baseDir || '.');
+  }
+
+  /**
+   * Memo types with their own directory own every file in it; otherwise the frontmatter type decides
+   */
+  private async isOfMemoType(filePath: string, memoType: MemoType): Promise<boolean> {
+    if (memoType.baseDir) {
+      return true;
+    }
+
+    try {
+      return parseFrontmatter(await this.fileService.readFile(filePath))?.type === memoType.id;
+    } catch (error) {
+      console.warn(`Failed to read memo file ${filePath}:`, error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import * as path from 'path';
+import { ISavedSearchService } from '../interfaces/ISavedSearchService';
+import { IFileService } from '../interfaces/IFileService';
+import { IConfigService } from '../interfaces/IConfigService';
+import { SavedSearch } from '../../models/SavedSearch';
+
+/**
+ * Stores saved searches in .vsmemo/config.json so they are shared with everyone using the workspace
+ */
+export class SavedSearchService implements ISavedSearchService {
+  constructor(
+    private fileService: IFileService,
+    private configService: IConfigService,
+    private workspaceRoot: string
+  ) {}
+
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    const config = await this.configService.loadConfig();
+    const savedSearches = config.savedSearches || [];
+
+    // Pinned searches first, otherwise in the order they were saved
+    return [
+      ...savedSearches.filter(savedSearch => savedSearch.pinned),
+      ...savedSearches.filter(savedSearch => !savedSearch.pinned)
+    ];
+  }
+
+  async addSavedSearch(savedSearch: SavedSearch): Promise<void> {
+    await this.updateSavedSearches(savedSearches => {
+      if (savedSearches.some(existing => existing.name === savedSearch.name)) {
+        throw new Error(`A saved search named "${savedSearch.name}" already exists`);
+      }
+      return [...savedSearches, savedSearch];
+    });
+  }
+
+  async renameSavedSearch(name: string, newName: string): Promise<void> {
+    await this.updateSavedSearches(savedSearches => {
+      this.findSavedSearch(savedSearches, name);
+      if (newName !== name && savedSearches.some(existing => existing.name === newName)) {
+        throw new Error(`A saved search named "${newName}" already exists`);
+      }
+      return savedSearches.map(savedSearch => savedSearch.name === name ? { ...savedSearch, name: newName } : savedSearch);
+    });
+  }
+
+  async deleteSavedSearch(name: string): Promise<void> {
+    await this.updateSavedSearches(savedSearches => savedSearches.filter(savedSearch => savedSearch.name !== name));
+  }
+
+  async setPinned(name: string, pinned: boolean): Promise<void> {
+    await this.updateSavedSearches(savedSearches => {
+      this.findSavedSearch(savedSearches, name);
+      return savedSearches.map(savedSearch => {
+        if (savedSearch.name !== name) {
+          return savedSearch;
+        }
+        // Leave unpinned searches without the property to keep the config tidy
+        const updated: SavedSearch = { ...savedSearch, pinned: true };
+        if (!pinned) {
+          delete updated.pinned;
+        }
+        return updated;
+      });
+    });
+  }
+
+  private findSavedSearch(savedSearches: SavedSearch[], name: string): SavedSearch {
+    const savedSearch = savedSearches.find(existing => existing.name === name);
+    if (!savedSearch) {
+      throw new Error(`Saved search "${name}" not found`);
+    }
+    return savedSearch;
+  }
+
+  /**
+   * Rewrite only the savedSearches property, keeping the rest of config.json as written
+   */
+  private async updateSavedSearches(update: (savedSearches: SavedSearch[]) => SavedSearch[]): Promise<void> {
+    const configDir = path.join(this.workspaceRoot, '.vsmemo');
+    const configPath = path.join(configDir, 'config.json');
+
+    let rawConfig: Record<string, unknown> = {};
+    if (await this.fileService.exists(configPath)) {
+      const parsed: unknown = JSON.parse(await this.fileService.readFile(configPath));
+      if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('.vsmemo/config.json is not a JSON object');
+      }
+      rawConfig = parsed as Record<string, unknown>;
+    } else {
+      await this.fileService.createDirectory(configDir);
+    }
+
+    const config = await this.configService.loadConfig();
+    const loaded = config.savedSearches || [];
+    const rawSavedSearches = Array.isArray(rawConfig.savedSearches) ? rawConfig.savedSearches : [];
+    rawConfig.savedSearches = keepInvalidEntries(rawSavedSearches, loaded, update(loaded));
+
+    await this.fileService.writeFile(configPath, JSON.stringify(rawConfig, null, 2) + '\n');
+  }
+}
+
+/**
+ * Entries the config service skipped as invalid stay where they were in config.json, so
+ * hand-edited searches are not lost. Valid entries are replaced by what the update made of them:
+ * the same search, a changed copy at the same index, or nothing when removed. New searches go last.
+ * @param raw The savedSearches array as written in config.json
+ * @param loaded The valid searches, in the same order as in raw
+ */
+function keepInvalidEntries(raw: unknown[], loaded: SavedSearch[], updated: SavedSearch[]): unknown[] {
+  const result: unknown[] = [];
+  const placed = new Set<SavedSearch>();
+  let next = 0;
+
+  for (const entry of raw) {
+    const original = loaded[next];
+    const isLoaded = !!original && typeof entry === 'object' && entry !== null
+      && (entry as SavedSearch).name === original.name
+      && (entry as SavedSearch).query === original.query
+      && (entry as SavedSearch).pinned === original.pinned;
+
+    if (!isLoaded) {
+      result.push(entry);
+      continue;
+    }
+
+    const replacement = updated.includes(original) ? original : updated[next];
+    if (replacement && !placed.has(replacement) && (replacement === original || !loaded.includes(replacement))) {
+      result.push(replacement);
+      placed.add(replacement);
+    }
+    next++;
+  }
+
+  return [...result, ...updated.filter(savedSearch => !placed.has(savedSearch))];
+}
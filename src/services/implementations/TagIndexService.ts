@@ -1,20 +1,35 @@
 import * as path from 'path';
-import { ITagIndexService, TagInfo, MemoWithTags } from '../interfaces/ITagIndexService';
-import { IFileService } from '../interfaces/IFileService';
+import { ITagIndexService, TagInfo, MemoWithTags, TagLocation } from '../interfaces/ITagIndexService';
+import { IFileService, FileStats } from '../interfaces/IFileService';
 import { IConfigService } from '../interfaces/IConfigService';
 import { IMetadataService } from '../interfaces/IMetadataService';
+import { IIndexCacheService } from '../interfaces/IIndexCacheService';
 import { isValidMemoFile, extractFileNameWithoutExtension } from '../../utils/fileUtils';
+import { isTagInHierarchy, parseInlineTags } from '../../utils/tagUtils';
+
+// Bump when the shape of MemoTagData or how memos are parsed changes
+const TAG_CACHE_NAMESPACE = 'tags:3';
+
+/**
+ * Tags and title of a single memo, as stored in the index cache
+ */
+interface MemoTagData {
+  tags: string[];
+  inlineTags: TagLocation[];
+  title?: string;
+}
 
 export class TagIndexService implements ITagIndexService {
   private tagIndex: Map<string, Set<string>> = new Map(); // tag -> file paths
-  private fileTagsCache: Map<string, { tags: string[]; title: string; lastModified: Date }> = new Map(); // file path -> tags and metadata
+  private fileTagsCache: Map<string, { tags: string[]; inlineTags: TagLocation[]; title: string; lastModified: Date }> = new Map(); // file path -> tags and metadata
   private isIndexing = false;
 
   constructor(
     private fileService: IFileService,
     private configService: IConfigService,
     private metadataService: IMetadataService,
-    private workspaceRoot: string
+    private workspaceRoot: string,
+    private indexCache?: IIndexCacheService
   ) {}
 
   async buildIndex(): Promise<void> {
@@ -33,10 +48,12 @@ export class TagIndexService implements ITagIndexService {
 
       const config = await this.configService.loadConfig();
       const searchDir = path.join(this.workspaceRoot, config.baseDir);
+      await this.indexCache?.prepare();
 
       if (await this.fileService.exists(searchDir)) {
         await this.scanDirectory(searchDir, config.fileExtensions);
       }
+      this.indexCache?.completeBuild();
 
       console.log(`[TagIndexService] Index built with ${this.tagIndex.size} unique tags`);
     } finally {
@@ -64,8 +81,8 @@ export class TagIndexService implements ITagIndexService {
   }
 
   async getMemosByTag(tag: string): Promise<MemoWithTags[]> {
-    const filePaths = this.tagIndex.get(tag);
-    if (!filePaths || filePaths.size === 0) {
+    const filePaths = this.getFilesInHierarchy(tag);
+    if (filePaths.size === 0) {
       return [];
     }
 
@@ -78,6 +95,7 @@ export class TagIndexService implements ITagIndexService {
           filePath,
           title: cachedData.title,
           tags: cachedData.tags,
+          inlineTags: cachedData.inlineTags,
           lastModified: cachedData.lastModified
         });
       }
@@ -97,7 +115,7 @@ export class TagIndexService implements ITagIndexService {
     }
 
     // Get file sets for each tag
-    const fileSets = tags.map(tag => this.tagIndex.get(tag) || new Set<string>());
+    const fileSets = tags.map(tag => this.getFilesInHierarchy(tag));
 
     let resultFiles: Set<string>;
 
@@ -126,6 +144,7 @@ export class TagIndexService implements ITagIndexService {
           filePath,
           title: cachedData.title,
           tags: cachedData.tags,
+          inlineTags: cachedData.inlineTags,
           lastModified: cachedData.lastModified
         });
       }
@@ -142,28 +161,8 @@ export class TagIndexService implements ITagIndexService {
 
     // Add new entries
     try {
-      const content = await this.fileService.readFile(filePath);
-      const metadata = this.metadataService.extractMetadata(content);
-
-      if (metadata && metadata.special.tags && metadata.special.tags.length > 0) {
-        const stats = await this.fileService.getStats(filePath);
-        const title = metadata.special.title || await this.extractTitleFromContent(content, filePath);
-
-        // Update cache
-        this.fileTagsCache.set(filePath, {
-          tags: metadata.special.tags,
-          title,
-          lastModified: stats.lastModified
-        });
-
-        // Update index
-        for (const tag of metadata.special.tags) {
-          if (!this.tagIndex.has(tag)) {
-            this.tagIndex.set(tag, new Set());
-          }
-          this.tagIndex.get(tag)!.add(filePath);
-        }
-      }
+      const stats = await this.fileService.getStats(filePath);
+      await this.indexFile(filePath, stats);
     } catch (error) {
       console.warn(`[TagIndexService] Failed to update file ${filePath}:`, error);
     }
@@ -171,6 +170,20 @@ export class TagIndexService implements ITagIndexService {
 
   async removeFile(filePath: string): Promise<void> {
     this.removeFileFromIndex(filePath);
+    this.indexCache?.removeFile(filePath);
+  }
+
+  /**
+   * Files tagged with the tag or any of its descendants
+   */
+  private getFilesInHierarchy(tag: string): Set<string> {
+    const files = new Set<string>();
+    for (const [indexedTag, filePaths] of this.tagIndex) {
+      if (isTagInHierarchy(indexedTag, tag)) {
+        filePaths.forEach(filePath => files.add(filePath));
+      }
+    }
+    return files;
   }
 
   private removeFileFromIndex(filePath: string): void {
@@ -202,7 +215,7 @@ export class TagIndexService implements ITagIndexService {
         if (stats.isDirectory) {
           await this.scanDirectory(fullPath, fileExtensions);
         } else if (isValidMemoFile(entry, fileExtensions)) {
-          await this.scanFile(fullPath, stats.lastModified);
+          await this.scanFile(fullPath, stats);
         }
       }
     } catch (error) {
@@ -210,35 +223,51 @@ export class TagIndexService implements ITagIndexService {
     }
   }
 
-  private async scanFile(filePath: string, lastModified: Date): Promise<void> {
+  private async scanFile(filePath: string, stats: FileStats): Promise<void> {
     try {
-      const content = await this.fileService.readFile(filePath);
-      const metadata = this.metadataService.extractMetadata(content);
+      await this.indexFile(filePath, stats);
+    } catch (error) {
+      console.warn(`[TagIndexService] Failed to scan file ${filePath}:`, error);
+    }
+  }
 
-      if (metadata && metadata.special.tags && metadata.special.tags.length > 0) {
-        const title = metadata.special.title || await this.extractTitleFromContent(content, filePath);
+  private async indexFile(filePath: string, stats: FileStats): Promise<void> {
+    const data = this.indexCache
+      ? await this.indexCache.getOrCompute(TAG_CACHE_NAMESPACE, filePath, content => this.parseMemoContent(content), stats)
+      : this.parseMemoContent(await this.fileService.readFile(filePath));
 
-        // Update cache
-        this.fileTagsCache.set(filePath, {
-          tags: metadata.special.tags,
-          title,
-          lastModified
-        });
+    if (data.tags.length > 0) {
+      const title = data.title || await this.getFallbackTitle(filePath);
 
-        // Update index
-        for (const tag of metadata.special.tags) {
-          if (!this.tagIndex.has(tag)) {
-            this.tagIndex.set(tag, new Set());
-          }
-          this.tagIndex.get(tag)!.add(filePath);
+      // Update cache
+      this.fileTagsCache.set(filePath, {
+        tags: data.tags,
+        inlineTags: data.inlineTags,
+        title,
+        lastModified: stats.lastModified
+      });
+
+      // Update index
+      for (const tag of data.tags) {
+        if (!this.tagIndex.has(tag)) {
+          this.tagIndex.set(tag, new Set());
         }
+        this.tagIndex.get(tag)!.add(filePath);
       }
-    } catch (error) {
-      console.warn(`[TagIndexService] Failed to scan file ${filePath}:`, error);
     }
   }
 
-  private async extractTitleFromContent(content: string, filePath: string): Promise<string> {
+  private parseMemoContent(content: string): MemoTagData {
+    const metadata = this.metadataService.extractMetadata(content);
+    const inlineTags = parseInlineTags(content).map(({ tag, line }) => ({ tag, line }));
+    const tags = [...new Set([...(metadata?.special.tags || []), ...inlineTags.map(inlineTag => inlineTag.tag)])];
+    if (tags.length === 0) {
+      return { tags, inlineTags };
+    }
+    return { tags, inlineTags, title: metadata?.special.title || this.extractTitleFromContent(content) };
+  }
+
+  private extractTitleFromContent(content: string): string | undefined {
     // Try to extract from first heading
     const lines = content.split('\n');
     let inFrontmatter = false;
@@ -249,12 +278,16 @@ export class TagIndexService implements ITagIndexService {
         continue;
       }
 
-      if (!inFrontmatter && line.trim().startsWith('#')) {
+      // A heading, not an inline #tag
+      if (!inFrontmatter && /^#{1,6}\s/.test(line.trim())) {
         return line.replace(/^#+\s*/, '').trim();
       }
     }
 
-    // Fall back to filename
+    return undefined;
+  }
+
+  private async getFallbackTitle(filePath: string): Promise<string> {
     const config = await this.configService.loadConfig();
     return extractFileNameWithoutExtension(path.basename(filePath), config.fileExtensions || ['.md']);
   }
@@ -0,0 +1,142 @@
+import * as path from 'path';
+import { ITaskIndexService } from '../interfaces/ITaskIndexService';
+import { IFileService, FileStats } from '../interfaces/IFileService';
+import { IConfigService } from '../interfaces/IConfigService';
+import { IIndexCacheService } from '../interfaces/IIndexCacheService';
+import { MemoTask } from '../../models/MemoTask';
+import { isValidMemoFile, extractFileNameWithoutExtension } from '../../utils/fileUtils';
+import { extractFrontmatterTitle } from '../../utils/linkUtils';
+import { ParsedTask, parseTasks } from '../../utils/taskUtils';
+
+// Bump when the shape of MemoTaskData or how tasks are parsed changes
+const TASK_CACHE_NAMESPACE = 'tasks:1';
+
+/**
+ * Tasks and title of a single memo, as stored in the index cache
+ */
+interface MemoTaskData {
+  tasks: ParsedTask[];
+  title?: string;
+}
+
+export class TaskIndexService implements ITaskIndexService {
+  private fileTasks: Map<string, MemoTask[]> = new Map(); // file path -> tasks in line order
+  private isIndexing = false;
+
+  constructor(
+    private fileService: IFileService,
+    private configService: IConfigService,
+    private workspaceRoot: string,
+    private indexCache?: IIndexCacheService
+  ) {}
+
+  async buildIndex(): Promise<void> {
+    if (this.isIndexing) {
+      console.log('[TaskIndexService] Index building already in progress');
+      return;
+    }
+
+    this.isIndexing = true;
+    console.log('[TaskIndexService] Building task index...');
+
+    try {
+      this.fileTasks.clear();
+
+      const config = await this.configService.loadConfig();
+      const searchDir = path.join(this.workspaceRoot, config.baseDir);
+      await this.indexCache?.prepare();
+
+      if (await this.fileService.exists(searchDir)) {
+        await this.scanDirectory(searchDir, config.fileExtensions);
+      }
+      this.indexCache?.completeBuild();
+
+      console.log(`[TaskIndexService] Index built with tasks in ${this.fileTasks.size} memos`);
+    } finally {
+      this.isIndexing = false;
+    }
+  }
+
+  async getTasks(includeCompleted = false): Promise<MemoTask[]> {
+    const tasks: MemoTask[] = [];
+    const filePaths = [...this.fileTasks.keys()].sort((a, b) => a.localeCompare(b));
+    for (const filePath of filePaths) {
+      for (const task of this.fileTasks.get(filePath)!) {
+        if (includeCompleted || !task.completed) {
+          tasks.push(task);
+        }
+      }
+    }
+    return tasks;
+  }
+
+  async updateFile(filePath: string): Promise<void> {
+    this.fileTasks.delete(filePath);
+
+    try {
+      const stats = await this.fileService.getStats(filePath);
+      await this.indexFile(filePath, stats);
+    } catch (error) {
+      console.warn(`[TaskIndexService] Failed to update file ${filePath}:`, error);
+    }
+  }
+
+  async removeFile(filePath: string): Promise<void> {
+    this.fileTasks.delete(filePath);
+    this.indexCache?.removeFile(filePath);
+  }
+
+  private async scanDirectory(dir: string, fileExtensions: string[]): Promise<void> {
+    try {
+      const entries = await this.fileService.readDirectory(dir);
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry);
+        const stats = await this.fileService.getStats(fullPath);
+
+        if (stats.isDirectory) {
+          await this.scanDirectory(fullPath, fileExtensions);
+        } else if (isValidMemoFile(entry, fileExtensions)) {
+          try {
+            await this.indexFile(fullPath, stats);
+          } catch (error) {
+            console.warn(`[TaskIndexService] Failed to scan file ${fullPath}:`, error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`[TaskIndexService] Failed to scan directory ${dir}:`, error);
+    }
+  }
+
+  private async indexFile(filePath: string, stats: FileStats): Promise<void> {
+    const data = this.indexCache
+      ? await this.indexCache.getOrCompute(TASK_CACHE_NAMESPACE, filePath, content => this.parseMemoContent(content), stats)
+      : this.parseMemoContent(await this.fileService.readFile(filePath));
+
+    if (data.tasks.length === 0) {
+      return;
+    }
+
+    const config = await this.configService.loadConfig();
+    const memoTitle = data.title || extractFileNameWithoutExtension(path.basename(filePath), config.fileExtensions || ['.md']);
+    this.fileTasks.set(filePath, data.tasks.map(task => ({
+      filePath,
+      memoTitle,
+      line: task.line,
+      text: task.text,
+      completed: task.completed,
+      due: task.due,
+      priority: task.priority,
+      tags: task.tags
+    })));
+  }
+
+  private parseMemoContent(content: string): MemoTaskData {
+    const tasks = parseTasks(content);
+    if (tasks.length === 0) {
+      return { tasks };
+    }
+    return { tasks, title: extractFrontmatterTitle(content) };
+  }
+}
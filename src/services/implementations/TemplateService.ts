@@ -1,138 +1,132 @@
 import { ITemplateService } from '../interfaces/ITemplateService';
 import { IFileService } from '../interfaces/IFileService';
+import { IVariableEnvironment } from '../interfaces/IVariableEnvironment';
 import { Template } from '../../models/Template';
 import { VariableRegistry } from '../../variables/VariableRegistry';
 import { VariableContext } from '../../variables/IVariable';
 import { extractVariableNames } from '../../utils/variableUtils';
 import { IWorkspaceService } from '../../usecases/CreateMemoUseCase';
 import * as path from 'path';
+import { Document, Scalar, parse, visit } from 'yaml';
+import { splitFrontmatter, parseFrontmatterDocument } from '../../utils/frontmatterUtils';
+import { EXPRESSION_PATTERN, expandIncludes, renderBlocks, renderExpression, renderExpressions } from '../../templates/templateRenderer';
+
+const PLACEHOLDER_PREFIX = '__VSMEMO_VARIABLE_';
+const PLACEHOLDER_SUFFIX = '__';
+const PLACEHOLDER_PATTERN = new RegExp(`${PLACEHOLDER_PREFIX}(\\d+)${PLACEHOLDER_SUFFIX}`, 'g');
+
+/**
+ * Read a resolved variable as a YAML number or boolean when it looks like one
+ */
+function parseScalar(value: string): unknown {
+  try {
+    const parsed: unknown = parse(value);
+    return typeof parsed === 'number' || typeof parsed === 'boolean' ? parsed : value;
+  } catch {
+    return value;
+  }
+}
 
 export class TemplateService implements ITemplateService {
   constructor(private fileService: IFileService, private workspaceService: IWorkspaceService) {}
 
-  async processTemplateFromFile(templateFilePath: string, configBasePath: string, registry: VariableRegistry, presetInputs?: Record<string, string>): Promise<Template> {
+  async processTemplateFromFile(templateFilePath: string, configBasePath: string, registry: VariableRegistry, presetInputs?: Record<string, string>, date?: Date, environment?: IVariableEnvironment): Promise<Template> {
     const fullTemplatePath = path.resolve(configBasePath, templateFilePath);
-    const templateContent = await this.fileService.readFile(fullTemplatePath);
+    // Fragments included with {> path} can use variables too
+    const templateContent = await expandIncludes(
+      await this.fileService.readFile(fullTemplatePath),
+      fullTemplatePath,
+      includePath => this.fileService.readFile(includePath)
+    );
 
     // Extract variables used in the template
     const usedVariableNames = extractVariableNames(templateContent);
 
-    // Create context for variable resolution
+    // Create context for variable resolution; date variables use the given date (e.g. of a periodic note)
     const context: VariableContext = {
-      date: new Date(),
+      date: date || new Date(),
       userInputs: presetInputs || {},
-      workspaceService: this.workspaceService
+      workspaceService: this.workspaceService,
+      environment
     };
 
     // Resolve only used variables
     const resolvedVariables = await registry.resolveUsedVariables(usedVariableNames, context);
 
-    return this.processTemplate(templateContent, resolvedVariables);
+    return { ...this.processTemplate(templateContent, resolvedVariables), variables: Array.from(usedVariableNames) };
   }
 
-  private processTemplate(templateContent: string, variables: Record<string, string>): Template {
-    const lines = templateContent.split('\n');
+  private processTemplate(template: string, variables: Record<string, string>): Template {
+    // Blocks go first so {#if} can also add or leave out frontmatter keys
+    const templateContent = renderBlocks(template, variables);
+
     let frontmatter: Record<string, any> | undefined;
+    let frontmatterYaml: string | undefined;
     let content = templateContent;
     let path = '';
     let baseDir: string | undefined;
 
-    if (lines[0] === '---') {
-      const frontmatterEndIndex = lines.slice(1).findIndex(line => line === '---');
-      if (frontmatterEndIndex !== -1) {
-        const frontmatterLines = lines.slice(1, frontmatterEndIndex + 1);
-        const contentLines = lines.slice(frontmatterEndIndex + 2);
-
-        frontmatter = this.parseFrontmatter(frontmatterLines);
-        content = contentLines.join('\n').replace(/^\n+/, '');
+    const block = splitFrontmatter(templateContent);
+    if (block) {
+      const document = this.parseTemplateFrontmatter(block.yaml, variables);
+      content = block.body.replace(/^(\r?\n)+/, '');
 
-        if (frontmatter.path) {
-          path = this.replaceVariables(frontmatter.path, variables);
-          delete frontmatter.path;
-        }
-
-        if (frontmatter.baseDir) {
-          baseDir = this.replaceVariables(frontmatter.baseDir, variables);
-          delete frontmatter.baseDir;
-        }
+      const templatePath = document.get('path');
+      if (templatePath !== undefined && templatePath !== null) {
+        path = String(templatePath);
+        document.delete('path');
       }
-    }
 
-    content = this.replaceVariables(content, variables);
+      const templateBaseDir = document.get('baseDir');
+      if (templateBaseDir !== undefined && templateBaseDir !== null) {
+        baseDir = String(templateBaseDir);
+        document.delete('baseDir');
+      }
 
-    if (frontmatter) {
-      frontmatter = this.replaceVariablesInObject(frontmatter, variables);
+      frontmatter = document.toJS() as Record<string, any>;
+      frontmatterYaml = document.toString({ lineWidth: 0, flowCollectionPadding: false });
     }
 
+    content = renderExpressions(content, variables);
+
     return {
       frontmatter,
+      frontmatterYaml,
       content,
       path,
       baseDir
     };
   }
 
-  private parseFrontmatter(lines: string[]): Record<string, any> {
-    const frontmatter: Record<string, any> = {};
-
-    for (const line of lines) {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex !== -1) {
-        const key = line.substring(0, colonIndex).trim();
-        let value: any = line.substring(colonIndex + 1).trim();
-
-        // Parse arrays (simple format: [item1, item2])
-        if (value.startsWith('[') && value.endsWith(']')) {
-          value = value
-            .slice(1, -1)
-            .split(',')
-            .map((item: string) => item.trim())
-            .filter((item: string) => item.length > 0);
-        }
-        // Parse booleans
-        else if (value === 'true') {
-          value = true;
-        }
-        else if (value === 'false') {
-          value = false;
-        }
-        // Parse numbers
-        else if (/^\d+$/.test(value)) {
-          value = parseInt(value, 10);
+  /**
+   * Parse template frontmatter as YAML and replace expressions inside its values.
+   * Placeholders are swapped out before parsing because {TITLE} on its own is a YAML mapping,
+   * and substituted afterwards so values containing colons or quotes stay valid YAML.
+   */
+  private parseTemplateFrontmatter(yaml: string, variables: Record<string, string>): Document {
+    const expressions: string[] = [];
+    const protectedYaml = yaml.replace(EXPRESSION_PATTERN, (expression: string) =>
+      `${PLACEHOLDER_PREFIX}${expressions.push(expression) - 1}${PLACEHOLDER_SUFFIX}`
+    );
+    const document = parseFrontmatterDocument(protectedYaml);
+
+    visit(document, {
+      Scalar(_, node) {
+        if (typeof node.value !== 'string' || !node.value.includes(PLACEHOLDER_PREFIX)) {
+          return;
         }
-        else if (/^\d+\.\d+$/.test(value)) {
-          value = parseFloat(value);
-        }
-
-        frontmatter[key] = value;
-      }
-    }
-
-    return frontmatter;
-  }
 
-  private replaceVariables(text: string, variables: Record<string, string>): string {
-    let result = text;
+        const wholeValue = node.value.replace(PLACEHOLDER_PATTERN, '') === '';
+        const replaced = node.value.replace(PLACEHOLDER_PATTERN, (_match: string, index: string) => {
+          const expression = expressions[parseInt(index, 10)];
+          return renderExpression(expression, variables) ?? expression;
+        });
 
-    for (const [key, value] of Object.entries(variables)) {
-      const placeholder = `{${key}}`;
-      result = result.replace(new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), value);
-    }
-
-    return result;
-  }
-
-  private replaceVariablesInObject(obj: Record<string, any>, variables: Record<string, string>): Record<string, any> {
-    const result: Record<string, any> = {};
-
-    for (const [key, value] of Object.entries(obj)) {
-      if (typeof value === 'string') {
-        result[key] = this.replaceVariables(value, variables);
-      } else {
-        result[key] = value;
+        // An unquoted "count: {COUNT}" keeps the number or boolean type the resolved value reads as
+        node.value = wholeValue && node.type === Scalar.PLAIN ? parseScalar(replaced) : replaced;
       }
-    }
+    });
 
-    return result;
+    return document;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,141 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ITrashService, RestoreResult, TrashedMemo } from '../interfaces/ITrashService';
+import { IFileService } from '../interfaces/IFileService';
+import { LineEdit } from '../interfaces/ILinkUpdateService';
+
+/**
+ * Keeps deleted memos in .vsmemo/trash, one JSON file each. The memo content is stored
+ * in the JSON so trashed memos are not picked up as memos.
+ */
+export class TrashService implements ITrashService {
+  constructor(
+    private fileService: IFileService,
+    private workspaceRoot: string
+  ) {}
+
+  async trash(filePath: string, edits: LineEdit[]): Promise<TrashedMemo> {
+    const trashedMemo: TrashedMemo = {
+      id: crypto.randomUUID(),
+      originalPath: this.toRelativePath(filePath),
+      deletedAt: new Date().toISOString(),
+      content: await this.fileService.readFile(filePath),
+      edits: edits.map(edit => ({ ...edit, filePath: this.toRelativePath(edit.filePath) }))
+    };
+
+    await this.fileService.createDirectory(this.getTrashDir());
+    await this.fileService.writeFile(this.getEntryPath(trashedMemo.id), JSON.stringify(trashedMemo, null, 2));
+    await this.fileService.deleteFile(filePath);
+
+    return trashedMemo;
+  }
+
+  async getTrashedMemos(): Promise<TrashedMemo[]> {
+    const trashDir = this.getTrashDir();
+    if (!(await this.fileService.exists(trashDir))) {
+      return [];
+    }
+
+    const trashedMemos: TrashedMemo[] = [];
+    for (const entry of await this.fileService.readDirectory(trashDir)) {
+      if (path.extname(entry) !== '.json') {
+        continue;
+      }
+      try {
+        trashedMemos.push(JSON.parse(await this.fileService.readFile(path.join(trashDir, entry))));
+      } catch (error) {
+        console.warn(`Failed to read trashed memo ${entry}:`, error);
+      }
+    }
+
+    return trashedMemos.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  async restore(id: string): Promise<RestoreResult> {
+    const entryPath = this.getEntryPath(id);
+    if (!(await this.fileService.exists(entryPath))) {
+      throw new Error('The memo is no longer in the trash');
+    }
+
+    const trashedMemo: TrashedMemo = JSON.parse(await this.fileService.readFile(entryPath));
+    const filePath = path.join(this.workspaceRoot, trashedMemo.originalPath);
+    if (await this.fileService.exists(filePath)) {
+      throw new Error(`A file already exists at ${trashedMemo.originalPath}`);
+    }
+
+    await this.fileService.createDirectory(path.dirname(filePath));
+    await this.fileService.writeFile(filePath, trashedMemo.content);
+
+    const result: RestoreResult = { filePath, editsRestored: 0, editsSkipped: 0 };
+    const editsByFile = new Map<string, LineEdit[]>();
+    for (const edit of trashedMemo.edits) {
+      editsByFile.set(edit.filePath, [...(editsByFile.get(edit.filePath) || []), edit]);
+    }
+
+    for (const [relativePath, edits] of editsByFile) {
+      const editedFile = path.join(this.workspaceRoot, relativePath);
+      if (!(await this.fileService.exists(editedFile))) {
+        result.editsSkipped += edits.length;
+        continue;
+      }
+
+      const lines = (await this.fileService.readFile(editedFile)).split('\n');
+      // Neighbours are compared with the file as it was found, not with lines restored before them
+      const current = [...lines];
+      let restored = 0;
+      for (const edit of edits) {
+        const index = findEditedLine(current, edit);
+        if (index === -1) {
+          result.editsSkipped++;
+        } else {
+          lines[index] = edit.before;
+          restored++;
+        }
+      }
+
+      if (restored > 0) {
+        await this.fileService.writeFile(editedFile, lines.join('\n'));
+        result.editsRestored += restored;
+      }
+    }
+
+    await this.fileService.deleteFile(entryPath);
+    return result;
+  }
+
+  private getTrashDir(): string {
+    return path.join(this.workspaceRoot, '.vsmemo', 'trash');
+  }
+
+  private getEntryPath(id: string): string {
+    return path.join(this.getTrashDir(), `${id}.json`);
+  }
+
+  private toRelativePath(filePath: string): string {
+    return path.relative(this.workspaceRoot, filePath).replace(/\\/g, '/');
+  }
+}
+
+/**
+ * Where an edited line is now. A line that has moved is only trusted when it is the one
+ * line with the same text and the same lines around it; a blank line only where it was.
+ * @returns -1 if the line cannot be found for certain
+ */
+function findEditedLine(lines: string[], edit: LineEdit): number {
+  const hasNeighbours = (index: number) =>
+    (lines[index - 1] ?? null) === edit.previousLine && (lines[index + 1] ?? null) === edit.nextLine;
+  // Edits saved before neighbours were recorded are only undone in place
+  const recordsNeighbours = edit.previousLine !== undefined && edit.nextLine !== undefined;
+
+  if (lines[edit.line] === edit.after && (!recordsNeighbours || hasNeighbours(edit.line))) {
+    return edit.line;
+  }
+  if (!recordsNeighbours || edit.after.trim() === '') {
+    return -1;
+  }
+
+  const candidates = lines
+    .map((line, index) => index)
+    .filter(index => lines[index] === edit.after && hasNeighbours(index));
+  return candidates.length === 1 ? candidates[0] : -1;
+}
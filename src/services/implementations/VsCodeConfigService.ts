@@ -3,6 +3,12 @@ import * as path from 'path';
 import { IConfigService } from '../interfaces/IConfigService';
 import { IFileService } from '../interfaces/IFileService';
 import { MemoConfig } from '../../models/MemoConfig';
+import { MemoType } from '../../models/MemoType';
+import { MetadataConfig, MetadataSchema, TreeViewDisplay } from '../../models/MemoMetadata';
+import { NOTE_PERIODS, NotePeriod, PeriodicNoteConfig } from '../../models/PeriodicNote';
+import { Variable, VariableType, VARIABLE_TYPES } from '../../models/Variable';
+
+const METADATA_SCHEMA_TYPES = ['string', 'number', 'boolean', 'date', 'array', 'object'];
 
 export class VsCodeConfigService implements IConfigService {
   constructor(private fileService: IFileService) {}
@@ -64,7 +70,15 @@ export class VsCodeConfigService implements IConfigService {
       // Validate each memo type
       for (const memoType of config.memoTypes) {
         if (this.isValidMemoType(memoType)) {
-          memoTypes.push(memoType);
+          const validated: MemoType = { ...memoType };
+          if ('metadata' in memoType) {
+            validated.metadata = this.validateMetadataConfig(memoType.metadata);
+          }
+          if ('periodic' in memoType && !this.isValidPeriodicNoteConfig(memoType.periodic)) {
+            console.warn(`Invalid periodic config for memo type "${memoType.id}", skipping:`, memoType.periodic);
+            delete validated.periodic;
+          }
+          memoTypes.push(validated);
         } else {
           console.warn('Invalid memo type object, skipping:', memoType);
         }
@@ -76,6 +90,8 @@ export class VsCodeConfigService implements IConfigService {
       fileExtensions?: unknown;
       defaultExtension?: unknown;
       variables?: unknown;
+      savedSearches?: unknown;
+      metadata?: unknown;
     };
 
     // Set validated memoTypes
@@ -106,12 +122,140 @@ export class VsCodeConfigService implements IConfigService {
 
     // Validate and include variables if present
     if ('variables' in validatedConfig && Array.isArray(validatedConfig.variables)) {
-      result.variables = validatedConfig.variables;
+      result.variables = validatedConfig.variables.filter(variable => {
+        if (this.isValidVariable(variable)) {
+          return true;
+        }
+        console.warn('Invalid variable definition, skipping:', variable);
+        return false;
+      });
+    }
+
+    // Validate and include saved searches if present
+    if ('savedSearches' in validatedConfig && Array.isArray(validatedConfig.savedSearches)) {
+      result.savedSearches = validatedConfig.savedSearches.filter(savedSearch => {
+        if (this.isValidSavedSearch(savedSearch)) {
+          return true;
+        }
+        console.warn('Invalid saved search object, skipping:', savedSearch);
+        return false;
+      });
+    }
+
+    // Validate and include the workspace-wide metadata schema if present
+    if ('metadata' in validatedConfig) {
+      const metadata = this.validateMetadataConfig(validatedConfig.metadata);
+      if (metadata) {
+        result.metadata = metadata;
+      }
     }
 
     return result as MemoConfig;
   }
 
+  /**
+   * Keep valid userSchema fields; the field key doubles as its name when none is given
+   */
+  private validateMetadataConfig(metadata: unknown): MetadataConfig | undefined {
+    if (!this.isObject(metadata)) {
+      console.warn('Invalid metadata config, skipping:', metadata);
+      return undefined;
+    }
+
+    const result: MetadataConfig = { ...metadata };
+    if ('userSchema' in metadata) {
+      const userSchema: Record<string, MetadataSchema> = {};
+      if (this.isObject(metadata.userSchema)) {
+        for (const [field, fieldSchema] of Object.entries(metadata.userSchema)) {
+          if (this.isValidMetadataSchema(fieldSchema)) {
+            userSchema[field] = { ...fieldSchema, name: typeof fieldSchema.name === 'string' ? fieldSchema.name : field };
+          } else {
+            console.warn(`Invalid schema for metadata field "${field}", skipping:`, fieldSchema);
+          }
+        }
+      }
+      result.userSchema = userSchema;
+    }
+
+    if ('treeViewDisplay' in metadata) {
+      if (this.isValidTreeViewDisplay(metadata.treeViewDisplay)) {
+        result.treeViewDisplay = metadata.treeViewDisplay;
+      } else {
+        console.warn('Invalid treeViewDisplay, skipping:', metadata.treeViewDisplay);
+        delete result.treeViewDisplay;
+      }
+    }
+
+    return result;
+  }
+
+  private isValidVariable(variable: unknown): variable is Variable {
+    if (!this.isObject(variable) || typeof variable.name !== 'string') {
+      return false;
+    }
+
+    if (variable.type !== undefined && !VARIABLE_TYPES.includes(variable.type as VariableType)) {
+      return false;
+    }
+
+    // Choice and multiselect need something to choose from
+    const options = variable.options;
+    const hasOptions = Array.isArray(options) && options.length > 0 && options.every(option => typeof option === 'string');
+    if ((variable.type === 'choice' || variable.type === 'multiselect') ? !hasOptions : options !== undefined && !hasOptions) {
+      return false;
+    }
+
+    if (variable.pattern !== undefined) {
+      try {
+        new RegExp(String(variable.pattern));
+      } catch {
+        return false;
+      }
+    }
+
+    return ['description', 'default', 'pattern'].every(key => variable[key] === undefined || typeof variable[key] === 'string') &&
+      (variable.required === undefined || typeof variable.required === 'boolean');
+  }
+
+  private isValidPeriodicNoteConfig(periodic: unknown): periodic is PeriodicNoteConfig {
+    if (!this.isObject(periodic)) {
+      return false;
+    }
+
+    return typeof periodic.period === 'string' && NOTE_PERIODS.includes(periodic.period as NotePeriod) &&
+      (periodic.createOnStartup === undefined || typeof periodic.createOnStartup === 'boolean');
+  }
+
+  private isValidTreeViewDisplay(display: unknown): display is TreeViewDisplay {
+    if (!this.isObject(display)) {
+      return false;
+    }
+
+    return (display.groupBy === undefined || typeof display.groupBy === 'string') &&
+      (display.sortBy === undefined || typeof display.sortBy === 'string') &&
+      (display.sortOrder === undefined || display.sortOrder === 'asc' || display.sortOrder === 'desc') &&
+      (display.showMetadata === undefined ||
+        (Array.isArray(display.showMetadata) && display.showMetadata.every(field => typeof field === 'string')));
+  }
+
+  private isValidMetadataSchema(fieldSchema: unknown): fieldSchema is Omit<MetadataSchema, 'name'> & { name?: unknown } {
+    if (!this.isObject(fieldSchema)) {
+      return false;
+    }
+
+    if (typeof fieldSchema.type !== 'string' || !METADATA_SCHEMA_TYPES.includes(fieldSchema.type)) {
+      return false;
+    }
+
+    // enum is optional, but if present, must list strings or numbers
+    if ('enum' in fieldSchema &&
+        (!Array.isArray(fieldSchema.enum) || !fieldSchema.enum.every(value => typeof value === 'string' || typeof value === 'number'))) {
+      return false;
+    }
+
+    return true;
+  }
+
   private isObject(value: unknown): value is Record<string, unknown> {
     return value !== null && typeof value === 'object';
   }
@@ -141,6 +285,23 @@ export class VsCodeConfigService implements IConfigService {
     return true;
   }
 
+  private isValidSavedSearch(savedSearch: unknown): savedSearch is { name: string; query: string; pinned?: boolean } {
+    if (!this.isObject(savedSearch)) {
+      return false;
+    }
+
+    if (typeof savedSearch.name !== 'string' || typeof savedSearch.query !== 'string') {
+      return false;
+    }
+
+    // pinned is optional, but if present, must be a boolean
+    if ('pinned' in savedSearch && typeof savedSearch.pinned !== 'boolean') {
+      return false;
+    }
+
+    return true;
+  }
+
   private getMinimalConfig(): MemoConfig {
     return {
       memoTypes: [],
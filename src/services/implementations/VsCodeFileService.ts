@@ -66,9 +66,10 @@ export class VsCodeFileService implements IFileService {
     }
   }
 
-  async openFile(filePath: string): Promise<void> {
+  async openFile(filePath: string, line?: number): Promise<void> {
     const document = await vscode.workspace.openTextDocument(filePath);
-    await vscode.window.showTextDocument(document);
+    const selection = line !== undefined ? new vscode.Range(line, 0, line, 0) : undefined;
+    await vscode.window.showTextDocument(document, { selection });
   }
 
   async readDirectory(dirPath: string): Promise<string[]> {
@@ -80,7 +81,8 @@ export class VsCodeFileService implements IFileService {
     const stats = await fs.stat(filePath);
     return {
       lastModified: stats.mtime,
-      isDirectory: stats.isDirectory()
+      isDirectory: stats.isDirectory(),
+      size: stats.size
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import simpleGit from 'simple-git';
+import { ActiveMemo, IVariableEnvironment } from '../interfaces/IVariableEnvironment';
+import { extractFrontmatterTitle } from '../../utils/linkUtils';
+
+const MEMO_LANGUAGES = ['markdown'];
+
+export class VsCodeVariableEnvironment implements IVariableEnvironment {
+  private constructor(
+    private workspaceRoot: string | undefined,
+    public readonly workspaceFolderName: string | undefined,
+    public readonly selection: string | undefined,
+    public readonly activeMemo: ActiveMemo | undefined
+  ) {}
+
+  /**
+   * Capture the workspace folder, active memo and selection as they are now
+   */
+  static capture(): VsCodeVariableEnvironment {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const editor = vscode.window.activeTextEditor;
+
+    let selection: string | undefined;
+    let activeMemo: ActiveMemo | undefined;
+    if (editor) {
+      const selectedText = editor.document.getText(editor.selection);
+      selection = selectedText || undefined;
+
+      const document = editor.document;
+      if (document.uri.scheme === 'file' && MEMO_LANGUAGES.includes(document.languageId)) {
+        const filePath = document.uri.fsPath;
+        activeMemo = {
+          filePath,
+          title: extractFrontmatterTitle(document.getText()) || path.basename(filePath, path.extname(filePath))
+        };
+      }
+    }
+
+    return new VsCodeVariableEnvironment(workspaceFolder?.uri.fsPath, workspaceFolder?.name, selection, activeMemo);
+  }
+
+  async readClipboard(): Promise<string> {
+    return await vscode.env.clipboard.readText();
+  }
+
+  async readGitConfig(key: string): Promise<string | undefined> {
+    if (!this.workspaceRoot) {
+      return undefined;
+    }
+
+    try {
+      const config = await simpleGit(this.workspaceRoot).getConfig(key);
+      return config.value ?? undefined;
+    } catch (error) {
+      console.warn(`Failed to read git config ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  async readGitBranch(): Promise<string | undefined> {
+    if (!this.workspaceRoot) {
+      return undefined;
+    }
+
+    try {
+      const branch = (await simpleGit(this.workspaceRoot).revparse(['--abbrev-ref', 'HEAD'])).trim();
+      return branch && branch !== 'HEAD' ? branch : undefined;
+    } catch (error) {
+      console.warn('Failed to read git branch:', error);
+      return undefined;
+    }
+  }
+}
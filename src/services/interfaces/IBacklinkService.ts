@@ -3,6 +3,7 @@ export interface Backlink {
   sourceLine: number;
   linkText: string;
   context: string;
+  anchor?: string;   // Heading or ^block-id the link points at
 }
 
 export interface BacklinkIndex {
@@ -14,6 +15,19 @@ export interface OutboundLink {
   linkText: string;
   sourceLine: number;
   context: string;
+  anchor?: string;   // Heading or ^block-id the link points at
+}
+
+export interface BrokenLink {
+  sourceFile: string;
+  sourceLine: number;     // 1-based line number
+  startColumn: number;    // Character range of the link within the line
+  endColumn: number;
+  kind: 'markdown' | 'wiki';
+  linkText: string;
+  target: string;         // Relative path or wiki target as written
+  anchor?: string;
+  resolvedPath?: string;  // Absolute path a markdown link points at
 }
 
 export interface IBacklinkService {
@@ -56,4 +70,19 @@ export interface IBacklinkService {
    * Get outbound links from a specific file
    */
   getOutboundLinks(sourceFilePath: string): Promise<OutboundLink[]>;
+
+  /**
+   * Resolve a [[wiki link]] target to a memo file by file name, path or frontmatter title
+   */
+  resolveWikiLink(target: string, sourceFile?: string): string | undefined;
+
+  /**
+   * Get links that do not resolve to an existing memo, optionally only those from one file
+   */
+  getBrokenLinks(sourceFile?: string): Promise<BrokenLink[]>;
+
+  /**
+   * Get all indexed memo files with their frontmatter titles
+   */
+  getMemoFiles(): Array<{ filePath: string; title?: string }>;
 }
\ No newline at end of file
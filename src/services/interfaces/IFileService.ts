@@ -1,6 +1,7 @@
 export interface FileStats {
   lastModified: Date;
   isDirectory: boolean;
+  size?: number;
 }
 
 export interface IFileService {
@@ -12,7 +13,8 @@ export interface IFileService {
   openTextDocument(path: string): Promise<void>;
   showTextDocument(path: string): Promise<void>;
   listFiles(dirPath: string, extensions: string[]): Promise<string[]>;
-  openFile(path: string): Promise<void>;
+  /** Open a file in the editor, with the cursor on a zero-based line if given */
+  openFile(path: string, line?: number): Promise<void>;
   readDirectory(path: string): Promise<string[]>;
   getStats(path: string): Promise<FileStats>;
 }
\ No newline at end of file
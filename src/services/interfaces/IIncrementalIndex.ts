@@ -0,0 +1,19 @@
+/**
+ * An index that can be rebuilt from scratch or updated one file at a time
+ */
+export interface IIncrementalIndex {
+  /**
+   * Rebuild the index by scanning all memo files
+   */
+  buildIndex(): Promise<void>;
+
+  /**
+   * Re-read a created or modified file
+   */
+  updateFile(filePath: string): Promise<void>;
+
+  /**
+   * Drop a deleted file
+   */
+  removeFile(filePath: string): Promise<void> | void;
+}
@@ -0,0 +1,46 @@
+import { FileStats } from './IFileService';
+
+/**
+ * Per-file index data shared by the backlink, tag and search indexes.
+ * Entries are keyed by file path and validated against the file's mtime and size.
+ */
+export interface IIndexCacheService {
+  /**
+   * Load the persisted cache and drop it if the config or cache format changed.
+   * Safe to call before every index build.
+   */
+  prepare(): Promise<void>;
+
+  /**
+   * Return cached data for a file, or compute it from the file content and cache it.
+   * Namespaces should include a version so a format change only invalidates that index.
+   * @param stats Stats already read by the caller, to avoid another stat call
+   */
+  getOrCompute<T>(namespace: string, filePath: string, compute: (content: string) => T, stats?: FileStats): Promise<T>;
+
+  /**
+   * Read a file once for all indexes that need it during the current build
+   */
+  readFile(filePath: string, stats?: FileStats): Promise<string>;
+
+  /**
+   * Forget everything cached for a file
+   */
+  removeFile(filePath: string): void;
+
+  /**
+   * Record that an index has read every memo, so entries for files it did not see
+   * were deleted or moved away and can be dropped on the next save
+   */
+  completeBuild(): void;
+
+  /**
+   * Persist the cache to disk
+   */
+  save(): Promise<void>;
+
+  /**
+   * Drop all cached data, in memory and on disk
+   */
+  clear(): Promise<void>;
+}
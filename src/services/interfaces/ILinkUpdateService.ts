@@ -1,17 +1,67 @@
+import { Backlink, BrokenLink } from './IBacklinkService';
+
 export interface LinkUpdateResult {
   filesUpdated: number;
   linksUpdated: number;
   errors: string[];
 }
 
+/**
+ * A line changed by a link update, kept so the change can be undone
+ */
+export interface LineEdit {
+  filePath: string;
+  line: number;   // 0-based
+  before: string;
+  after: string;
+  /** The lines around it once the file was edited, to tell it apart if it moves; null at the start or end */
+  previousLine?: string | null;
+  nextLine?: string | null;
+}
+
+export interface LinkRepairResult extends LinkUpdateResult {
+  unresolved: BrokenLink[];   // No memo, or more than one, has the file name
+}
+
+export interface LinkRemovalResult extends LinkUpdateResult {
+  edits: LineEdit[];
+}
+
+/**
+ * remove drops links entirely, plainText keeps their text
+ */
+export type LinkRemovalMode = 'remove' | 'plainText';
+
 export interface ILinkUpdateService {
   /**
-   * Update all links that reference the old file path to point to the new file path
+   * Update all links that reference the old file path to point to the new file path,
+   * and the relative links of the renamed file itself
    */
   updateLinksAfterRename(oldPath: string, newPath: string): Promise<LinkUpdateResult>;
 
+  /**
+   * Point all links to a memo that is going away at another memo, including wiki links
+   * that use the old memo's title
+   */
+  redirectLinks(oldPath: string, newPath: string, oldTitle?: string): Promise<LinkUpdateResult>;
+
+  /**
+   * Remove all links to a memo from other memos, or replace them with their text
+   */
+  removeLinksTo(targetPath: string, mode: LinkRemovalMode): Promise<LinkRemovalResult>;
+
+  /**
+   * Point broken relative links at the memo with the same file name, when exactly one exists
+   */
+  repairBrokenLinks(): Promise<LinkRepairResult>;
+
   /**
    * Find all files that contain links to the specified file
    */
   findFilesWithLinksTo(targetPath: string): Promise<string[]>;
+
+  /**
+   * Find backlinks whose heading or ^block-id anchor no longer exists in the target file
+   */
+  findBrokenAnchorLinks(targetPath: string): Promise<Backlink[]>;
 }
\ No newline at end of file
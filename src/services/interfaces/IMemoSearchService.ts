@@ -5,18 +5,43 @@ export interface MemoSearchResult {
   tags: string[];
   lastModified: Date;
   excerpt?: string;
+  score?: number;
+}
+
+export interface MemoSearchOptions {
+  /**
+   * Match the last word as a prefix, for search-as-you-type
+   */
+  prefixLastTerm?: boolean;
+
+  /**
+   * Maximum number of results
+   */
+  limit?: number;
 }
 
 export interface IMemoSearchService {
   /**
-   * Search memos across all categories by keyword
-   * @param query Search keyword
+   * Search memos across all categories, best matches first
+   * @param query Words, "quoted phrases", -excluded words and prefix* words,
+   *              combined with filters such as tag:, type:, after:, status:open and has:backlinks
+   * @param options Search-as-you-type and result limit options
    * @returns Array of matching memos
    */
-  searchMemos(query: string): Promise<MemoSearchResult[]>;
+  searchMemos(query: string, options?: MemoSearchOptions): Promise<MemoSearchResult[]>;
 
   /**
    * Build search index for all memos
    */
   buildIndex(): Promise<void>;
+
+  /**
+   * Update the index for a created or modified file
+   */
+  updateFile(filePath: string): Promise<void>;
+
+  /**
+   * Remove a deleted file from the index
+   */
+  removeFile(filePath: string): void;
 }
\ No newline at end of file
@@ -32,6 +32,15 @@ export interface IMetadataService {
    */
   serializeMetadata(metadata: MemoMetadata): string;
 
+  /**
+   * Set or remove frontmatter values in memo content
+   * Key order, comments and the formatting of untouched values are preserved
+   * @param content The full content of the memo file
+   * @param updates Values to set; undefined removes the key
+   * @returns Updated content, or the same content if nothing changed
+   */
+  updateFrontmatter(content: string, updates: Record<string, unknown>): string;
+
   /**
    * Merge metadata from template and user input
    * Template metadata takes precedence for system properties
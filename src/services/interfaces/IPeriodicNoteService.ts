@@ -0,0 +1,34 @@
+import { MemoType } from '../../models/MemoType';
+import { NotePeriod } from '../../models/PeriodicNote';
+
+/**
+ * A periodic note found on disk
+ */
+export interface PeriodicNote {
+  period: NotePeriod;
+  /** Start of the day, ISO week or month the note is for */
+  date: Date;
+  filePath: string;
+}
+
+export interface IPeriodicNoteService {
+  /**
+   * The memo type configured with "periodic" for the period, if any
+   */
+  getPeriodicMemoType(period: NotePeriod): Promise<MemoType | undefined>;
+
+  /**
+   * Every note of a period, keyed by the YYYY-MM-DD start of its period
+   */
+  getNotes(period: NotePeriod): Promise<Map<string, PeriodicNote>>;
+
+  /**
+   * The existing note for the period containing the date
+   */
+  findNote(period: NotePeriod, date: Date): Promise<PeriodicNote | undefined>;
+
+  /**
+   * Which periodic note a file is, read from its memo type directory and the date in its path
+   */
+  getNoteForFile(filePath: string): Promise<PeriodicNote | undefined>;
+}
@@ -0,0 +1,30 @@
+import { SavedSearch } from '../../models/SavedSearch';
+
+export interface ISavedSearchService {
+  /**
+   * Get saved searches from .vsmemo/config.json, pinned ones first
+   */
+  getSavedSearches(): Promise<SavedSearch[]>;
+
+  /**
+   * Save a new search
+   * @throws Error if a search with the same name already exists
+   */
+  addSavedSearch(savedSearch: SavedSearch): Promise<void>;
+
+  /**
+   * Rename a saved search
+   * @throws Error if the search does not exist or the new name is taken
+   */
+  renameSavedSearch(name: string, newName: string): Promise<void>;
+
+  /**
+   * Delete a saved search
+   */
+  deleteSavedSearch(name: string): Promise<void>;
+
+  /**
+   * Pin or unpin a saved search
+   */
+  setPinned(name: string, pinned: boolean): Promise<void>;
+}
@@ -3,31 +3,43 @@ export interface TagInfo {
   count: number;
 }
 
+/**
+ * Where an inline #hashtag appears in a memo
+ */
+export interface TagLocation {
+  tag: string;
+  /** Zero-based line in the memo content */
+  line: number;
+}
+
 export interface MemoWithTags {
   filePath: string;
   title: string;
+  /** Frontmatter tags followed by inline #hashtags, without duplicates */
   tags: string[];
+  /** Inline #hashtags in the body, in order */
+  inlineTags: TagLocation[];
   lastModified: Date;
 }
 
 export interface ITagIndexService {
   /**
-   * Build the complete tag index by scanning all memo files
+   * Build the complete tag index by scanning all memo files for frontmatter tags and inline #hashtags
    */
   buildIndex(): Promise<void>;
 
   /**
-   * Get all tags with their usage count
+   * Get all tags with their usage count. Counts are per tag as written, without descendants.
    */
   getAllTags(): Promise<TagInfo[]>;
 
   /**
-   * Get all memos that have a specific tag
+   * Get all memos that have a specific tag or one of its descendants (project includes project/alpha)
    */
   getMemosByTag(tag: string): Promise<MemoWithTags[]>;
 
   /**
-   * Get all memos that have any of the specified tags
+   * Get all memos that have all (AND) or any (OR) of the specified tags, including descendants
    */
   getMemosByTags(tags: string[], mode: 'AND' | 'OR'): Promise<MemoWithTags[]>;
 
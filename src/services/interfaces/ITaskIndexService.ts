@@ -0,0 +1,15 @@
+import { MemoTask } from '../../models/MemoTask';
+import { IIncrementalIndex } from './IIncrementalIndex';
+
+export interface ITaskIndexService extends IIncrementalIndex {
+  /**
+   * Build the task index by scanning all memo files for "- [ ]" and "- [x]" items
+   */
+  buildIndex(): Promise<void>;
+
+  /**
+   * All indexed tasks, by memo and then line
+   * @param includeCompleted Include checked tasks (default: only open tasks)
+   */
+  getTasks(includeCompleted?: boolean): Promise<MemoTask[]>;
+}
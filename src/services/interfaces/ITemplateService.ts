@@ -1,6 +1,7 @@
 import { Template } from '../../models/Template';
 import { VariableRegistry } from '../../variables/VariableRegistry';
+import { IVariableEnvironment } from './IVariableEnvironment';
 
 export interface ITemplateService {
-  processTemplateFromFile(templateFilePath: string, configBasePath: string, registry: VariableRegistry, presetInputs?: Record<string, string>): Promise<Template>;
+  processTemplateFromFile(templateFilePath: string, configBasePath: string, registry: VariableRegistry, presetInputs?: Record<string, string>, date?: Date, environment?: IVariableEnvironment): Promise<Template>;
 }
\ No newline at end of file
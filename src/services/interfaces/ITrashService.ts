@@ -0,0 +1,37 @@
+import { LineEdit } from './ILinkUpdateService';
+
+/**
+ * A deleted memo kept in .vsmemo/trash
+ * Paths are relative to the workspace root
+ */
+export interface TrashedMemo {
+  id: string;
+  originalPath: string;
+  deletedAt: string;   // ISO 8601
+  content: string;
+  edits: LineEdit[];   // Link edits made in other memos when it was deleted
+}
+
+export interface RestoreResult {
+  filePath: string;
+  editsRestored: number;
+  editsSkipped: number;   // Lines changed again since, left as they are
+}
+
+export interface ITrashService {
+  /**
+   * Move a memo to the trash, together with the link edits made when it was deleted
+   */
+  trash(filePath: string, edits: LineEdit[]): Promise<TrashedMemo>;
+
+  /**
+   * Get deleted memos, most recent first
+   */
+  getTrashedMemos(): Promise<TrashedMemo[]>;
+
+  /**
+   * Write a deleted memo back to where it was and undo its link edits
+   * @throws Error if the memo is not in the trash or a file exists at its path
+   */
+  restore(id: string): Promise<RestoreResult>;
+}
@@ -0,0 +1,31 @@
+/**
+ * The memo open when memo creation started
+ */
+export interface ActiveMemo {
+  filePath: string;
+  title: string;
+}
+
+/**
+ * Workspace state read by environment variables such as {SELECTION} and {GIT_BRANCH}.
+ * Editor state is captured when memo creation starts, before any prompt takes focus.
+ */
+export interface IVariableEnvironment {
+  readonly workspaceFolderName?: string;
+  /** Text selected in the active editor */
+  readonly selection?: string;
+  readonly activeMemo?: ActiveMemo;
+
+  readClipboard(): Promise<string>;
+
+  /**
+   * @param key Git config key, e.g. user.name
+   * @returns undefined if git or the key is not available
+   */
+  readGitConfig(key: string): Promise<string | undefined>;
+
+  /**
+   * @returns undefined if the workspace is not a git repository or HEAD is detached
+   */
+  readGitBranch(): Promise<string | undefined>;
+}
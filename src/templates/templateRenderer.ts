@@ -0,0 +1,334 @@
+import * as path from 'path';
+import { addDays, formatDate, formatDateWithPattern } from '../utils/dateUtils';
+
+/**
+ * A variable reference with optional date math, date format and filters:
+ * {TITLE}, {DATE+1d}, {DATE:YYYY/MM/DD}, {TITLE|slug}, {WEEK_START+4d:ddd D MMM|lower}
+ */
+export const EXPRESSION_PATTERN = /\{([A-Z_][A-Z0-9_]*)([+-]\d+[dwmy])?(?::([^{}|]+))?((?:\|[^{}|]+)*)\}/g;
+
+// {#if NAME}, {#if !NAME}, {#if NAME == "value"}, {#each SOURCE as NAME}, {else}, {/if}, {/each}
+export const BLOCK_TAG_PATTERN = /\{(?:#(if|each)\s+([^{}]*?)\s*|(else)|\/(if|each))\}/g;
+
+// {> fragments/agenda.md}
+const INCLUDE_PATTERN = /\{>\s*([^{}]+?)\s*\}/g;
+
+export const NAME = '[A-Z_][A-Z0-9_]*';
+const CONDITION_PATTERN = new RegExp(`^(!)?(${NAME})(?:\\s*(==|!=)\\s*"([^"]*)")?$`);
+const EACH_PATTERN = new RegExp(`^(.+?)\\s+as\\s+(${NAME})$`);
+const RANGE_PATTERN = new RegExp(`^(${NAME}|\\d+)\\.\\.(${NAME}|\\d+)$`);
+
+const MAX_INCLUDE_DEPTH = 10;
+const MAX_LOOP_ITEMS = 1000;
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'if'; condition: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: 'each'; source: string; item: string; body: TemplateNode[] };
+
+/**
+ * Replace {> path} with the content of other template files, relative to the including file
+ * @throws Error if includes nest too deeply, e.g. a fragment that includes itself
+ */
+export async function expandIncludes(
+  template: string,
+  templatePath: string,
+  readFile: (filePath: string) => Promise<string>,
+  depth = 0
+): Promise<string> {
+  const matches = Array.from(template.matchAll(INCLUDE_PATTERN));
+  if (matches.length === 0) {
+    return template;
+  }
+  if (depth >= MAX_INCLUDE_DEPTH) {
+    throw new Error(`Template includes are nested more than ${MAX_INCLUDE_DEPTH} levels deep in ${templatePath}`);
+  }
+
+  let result = '';
+  let lastIndex = 0;
+  for (const match of matches) {
+    const includePath = path.resolve(path.dirname(templatePath), match[1]);
+    const fragment = await readFile(includePath);
+    // A fragment ending in a newline replaces the whole line it is included on
+    const included = await expandIncludes(fragment, includePath, readFile, depth + 1);
+    result += template.slice(lastIndex, match.index) + included;
+    lastIndex = match.index! + match[0].length;
+    if (included.endsWith('\n') && template.startsWith('\n', lastIndex)) {
+      lastIndex++;
+    }
+  }
+
+  return result + template.slice(lastIndex);
+}
+
+/**
+ * Evaluate {#if} and {#each} blocks. Expressions using a loop's item are filled in;
+ * all other expressions are left for renderExpressions.
+ * @throws Error for unbalanced blocks or invalid conditions
+ */
+export function renderBlocks(template: string, variables: Record<string, string>): string {
+  return renderNodes(parseBlocks(template), variables, {});
+}
+
+/**
+ * Evaluate every expression. Unknown variables are left as written unless they have a default filter.
+ * @throws Error for date math or formats on values that are not dates, and unknown filters
+ */
+export function renderExpressions(text: string, variables: Record<string, string>): string {
+  return text.replace(EXPRESSION_PATTERN, (expression: string, name: string, offset?: string, format?: string, filters?: string) =>
+    evaluateExpression(expression, variables, { name, offset, format, filters }) ?? expression
+  );
+}
+
+/**
+ * Evaluate a single {...} expression
+ * @returns undefined if the variable is unknown and has no default
+ */
+export function renderExpression(expression: string, variables: Record<string, string>): string | undefined {
+  const match = new RegExp(`^${EXPRESSION_PATTERN.source}$`).exec(expression);
+  if (!match) {
+    return undefined;
+  }
+  return evaluateExpression(expression, variables, { name: match[1], offset: match[2], format: match[3], filters: match[4] });
+}
+
+function evaluateExpression(
+  expression: string,
+  variables: Record<string, string>,
+  parts: { name: string; offset?: string; format?: string; filters?: string }
+): string | undefined {
+  let value: string | undefined = variables[parts.name];
+
+  if (value !== undefined && (parts.offset || parts.format)) {
+    const date = parseDateValue(value);
+    if (!date) {
+      throw new Error(`Cannot apply date math or a format in ${expression}: ${parts.name} is not a date`);
+    }
+    const shifted = parts.offset ? shiftDate(date.value, parts.offset) : date.value;
+    value = parts.format
+      ? formatDateWithPattern(shifted, parts.format)
+      : formatDateWithPattern(shifted, date.hasTime ? 'YYYY-MM-DD HH:mm:ss' : 'YYYY-MM-DD');
+  }
+
+  const filters = (parts.filters || '').split('|').slice(1);
+  for (const filter of filters) {
+    value = applyFilter(filter, value, expression);
+  }
+
+  return value;
+}
+
+function applyFilter(filter: string, value: string | undefined, expression: string): string | undefined {
+  const separator = filter.indexOf(':');
+  const name = (separator === -1 ? filter : filter.slice(0, separator)).trim();
+  const argument = separator === -1 ? '' : filter.slice(separator + 1);
+
+  if (name === 'default') {
+    return value ? value : argument;
+  }
+  if (value === undefined) {
+    return undefined;
+  }
+
+  switch (name) {
+    case 'lower':
+      return value.toLowerCase();
+    case 'upper':
+      return value.toUpperCase();
+    case 'trim':
+      return value.trim();
+    case 'capitalize':
+      return value.charAt(0).toUpperCase() + value.slice(1);
+    case 'slug':
+      return slugify(value);
+    default:
+      throw new Error(`Unknown filter "${name}" in ${expression}`);
+  }
+}
+
+/**
+ * "Deploy: Phase 2!" → "deploy-phase-2"; letters of any script are kept
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function parseDateValue(value: string): { value: Date; hasTime: boolean } | undefined {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(part => part === undefined ? 0 : parseInt(part, 10));
+  return { value: new Date(year, month - 1, day, hours, minutes, seconds), hasTime: match[4] !== undefined };
+}
+
+function shiftDate(date: Date, offset: string): Date {
+  const amount = parseInt(offset.slice(0, -1), 10);
+  const withTime = (shifted: Date) => new Date(shifted.getFullYear(), shifted.getMonth(), shifted.getDate(), date.getHours(), date.getMinutes(), date.getSeconds());
+  switch (offset.slice(-1)) {
+    case 'd':
+      return withTime(addDays(date, amount));
+    case 'w':
+      return withTime(addDays(date, amount * 7));
+    case 'm':
+      return withTime(new Date(date.getFullYear(), date.getMonth() + amount, date.getDate()));
+    default:
+      return withTime(new Date(date.getFullYear() + amount, date.getMonth(), date.getDate()));
+  }
+}
+
+function parseBlocks(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks; an {#if} collects into `otherwise` after {else}
+  const stack: Array<{ node: Extract<TemplateNode, { kind: 'if' | 'each' }>; inElse: boolean }> = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      return root;
+    }
+    return top.node.kind === 'if' ? (top.inElse ? top.node.otherwise : top.node.then) : top.node.body;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(BLOCK_TAG_PATTERN)) {
+    let start = match.index!;
+    let end = start + match[0].length;
+
+    // A tag alone on its line takes the line with it
+    const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = template.slice(end).match(/^[ \t]*(?:\r?\n|$)/);
+    if (/^[ \t]*$/.test(template.slice(lineStart, start)) && lineEnd && lineStart >= lastIndex) {
+      start = lineStart;
+      end += lineEnd[0].length;
+    }
+
+    if (start > lastIndex) {
+      current().push({ kind: 'text', text: template.slice(lastIndex, start) });
+    }
+    lastIndex = end;
+
+    const [tag, open, argument, elseTag, close] = match;
+    if (open === 'if') {
+      const node: TemplateNode = { kind: 'if', condition: argument, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (open === 'each') {
+      const eachMatch = argument.match(EACH_PATTERN);
+      if (!eachMatch) {
+        throw new Error(`Invalid loop ${tag}: expected {#each SOURCE as NAME}`);
+      }
+      const node: TemplateNode = { kind: 'each', source: eachMatch[1].trim(), item: eachMatch[2], body: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (elseTag) {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.kind !== 'if' || top.inElse) {
+        throw new Error('Unexpected {else} outside an {#if} block');
+      }
+      top.inElse = true;
+    } else {
+      const top = stack.pop();
+      if (!top || top.node.kind !== close) {
+        throw new Error(`Unexpected {/${close}}${top ? ` while a {#${top.node.kind}} block is open` : ''}`);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed {#${stack[stack.length - 1].node.kind}} block`);
+  }
+
+  if (lastIndex < template.length) {
+    root.push({ kind: 'text', text: template.slice(lastIndex) });
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], variables: Record<string, string>, scope: Record<string, string>): string {
+  let result = '';
+
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        result += Object.keys(scope).length > 0 ? renderScopedExpressions(node.text, scope) : node.text;
+        break;
+      case 'if':
+        result += renderNodes(evaluateCondition(node.condition, { ...variables, ...scope }) ? node.then : node.otherwise, variables, scope);
+        break;
+      case 'each':
+        for (const item of getLoopItems(node.source, { ...variables, ...scope })) {
+          result += renderNodes(node.body, variables, { ...scope, [node.item]: item });
+        }
+        break;
+    }
+  }
+
+  return result;
+}
+
+// Fill in loop items only; everything else is rendered once the blocks are gone
+function renderScopedExpressions(text: string, scope: Record<string, string>): string {
+  return text.replace(EXPRESSION_PATTERN, (expression: string, name: string) =>
+    name in scope ? renderExpression(expression, scope) ?? expression : expression
+  );
+}
+
+function evaluateCondition(condition: string, variables: Record<string, string>): boolean {
+  const match = condition.match(CONDITION_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid condition {#if ${condition}}: expected NAME, !NAME or NAME == "value"`);
+  }
+
+  const [, negated, name, operator, expected] = match;
+  const value = variables[name] ?? '';
+  let result: boolean;
+  if (operator) {
+    result = operator === '==' ? value === expected : value !== expected;
+  } else {
+    result = value.trim() !== '' && value !== 'false';
+  }
+  return negated ? !result : result;
+}
+
+/**
+ * Items of {#each SOURCE as NAME}: a comma-separated variable, a number range (1..5)
+ * or a range of days between two date variables (WEEK_START..WEEK_END)
+ */
+function getLoopItems(source: string, variables: Record<string, string>): string[] {
+  const rangeMatch = source.match(RANGE_PATTERN);
+  if (!rangeMatch) {
+    if (!new RegExp(`^${NAME}$`).test(source)) {
+      throw new Error(`Invalid loop source "${source}": expected NAME, FROM..TO or 1..5`);
+    }
+    return (variables[source] || '').split(',').map(item => item.trim()).filter(item => item !== '');
+  }
+
+  const resolve = (part: string) => /^\d+$/.test(part) ? part : variables[part];
+  const from = resolve(rangeMatch[1]);
+  const to = resolve(rangeMatch[2]);
+  if (from === undefined || to === undefined) {
+    return [];
+  }
+
+  const items: string[] = [];
+  if (/^\d+$/.test(from) && /^\d+$/.test(to)) {
+    for (let value = parseInt(from, 10); value <= parseInt(to, 10) && items.length < MAX_LOOP_ITEMS; value++) {
+      items.push(value.toString());
+    }
+    return items;
+  }
+
+  const fromDate = parseDateValue(from);
+  const toDate = parseDateValue(to);
+  if (!fromDate || !toDate) {
+    throw new Error(`Invalid loop range "${source}": both ends must be numbers or dates`);
+  }
+  for (let day = fromDate.value; day <= toDate.value && items.length < MAX_LOOP_ITEMS; day = addDays(day, 1)) {
+    items.push(formatDate(day));
+  }
+  return items;
+}
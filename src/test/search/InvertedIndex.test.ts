@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { InvertedIndex, analyzeField } from '../../search/InvertedIndex';
+import { parseTextQuery } from '../../search/textQuery';
+
+suite('InvertedIndex', () => {
+  let index: InvertedIndex;
+
+  setup(() => {
+    index = new InvertedIndex({ title: 3, body: 1 });
+    index.addDocument('deploy', { title: 'Deploy checklist', body: 'Steps for the rollback plan and release' });
+    index.addDocument('meeting', { title: 'Weekly meeting', body: 'We talked about the plan to rollback the deploy' });
+    index.addDocument('notes', { title: '議事録', body: '来週のリリース計画について' });
+  });
+
+  function search(query: string, prefixLastTerm: boolean = false): string[] {
+    return index.search(parseTextQuery(query, { prefixLastTerm })).map(hit => hit.id);
+  }
+
+  test('should require every word and rank title matches first', () => {
+    assert.deepStrictEqual(search('deploy rollback'), ['deploy', 'meeting']);
+    assert.deepStrictEqual(search('deploy weekly'), ['meeting']);
+  });
+
+  test('should match phrases only when words are adjacent', () => {
+    assert.deepStrictEqual(search('"rollback plan"'), ['deploy']);
+  });
+
+  test('should exclude negated words', () => {
+    assert.deepStrictEqual(search('rollback -weekly'), ['deploy']);
+  });
+
+  test('should match prefixes', () => {
+    assert.deepStrictEqual(search('check*'), ['deploy']);
+    assert.deepStrictEqual(search('rollb', true).sort(), ['deploy', 'meeting']);
+  });
+
+  test('should find Japanese words inside longer text', () => {
+    assert.deepStrictEqual(search('計画'), ['notes']);
+    assert.deepStrictEqual(search('リリース計画'), ['notes']);
+    assert.deepStrictEqual(search('議事録'), ['notes']);
+    assert.deepStrictEqual(search('計画書'), []);
+  });
+
+  test('should forget removed and replaced documents', () => {
+    index.removeDocument('deploy');
+    assert.deepStrictEqual(search('checklist'), []);
+
+    index.addDocument('meeting', { title: 'Retro', body: 'Nothing about releases' });
+    assert.deepStrictEqual(search('weekly'), []);
+    assert.strictEqual(index.size, 2);
+  });
+
+  test('should index cached terms like the text they came from', () => {
+    const cached = JSON.parse(JSON.stringify(analyzeField('A constructor for the rollback plan')));
+    index.addDocument('cached', { title: 'Cached', body: cached });
+
+    assert.deepStrictEqual(search('"rollback plan"').sort(), ['cached', 'deploy']);
+    assert.deepStrictEqual(search('constructor'), ['cached']);
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { parseSearchQuery, parseDateRange, parseDate, matchesMetadataFilter, FilterableMemo } from '../../search/searchQuery';
+
+const TODAY = new Date(2026, 2, 15);
+
+function createMemo(overrides: Partial<FilterableMemo> = {}): FilterableMemo {
+  return {
+    tags: ['infra', 'Ops'],
+    typeId: 'meeting',
+    memoType: 'Meeting Notes',
+    created: new Date(2026, 0, 10),
+    lastModified: new Date(2026, 2, 1),
+    fields: { status: 'open', owners: ['alice', 'bob'] },
+    ...overrides
+  };
+}
+
+suite('parseSearchQuery', () => {
+  test('should split filters from free text', () => {
+    const query = parseSearchQuery('tag:infra type:meeting after:2026-01-01 -tag:archived "rollback plan"', TODAY);
+
+    assert.strictEqual(query.text, '"rollback plan"');
+    assert.deepStrictEqual(query.filters, [
+      { kind: 'tag', tags: ['infra'], negated: false },
+      { kind: 'type', value: 'meeting', negated: false },
+      { kind: 'date', field: 'created', from: new Date(2026, 0, 1), negated: false },
+      { kind: 'tag', tags: ['archived'], negated: true }
+    ]);
+  });
+
+  test('should parse OR tags, frontmatter fields, has and is filters', () => {
+    const query = parseSearchQuery('tag:infra,ops status:"in progress" has:Backlinks -is:orphan deploy', TODAY);
+
+    assert.strictEqual(query.text, 'deploy');
+    assert.deepStrictEqual(query.filters, [
+      { kind: 'tag', tags: ['infra', 'ops'], negated: false },
+      { kind: 'field', key: 'status', value: 'in progress', negated: false },
+      { kind: 'has', value: 'backlinks', negated: false },
+      { kind: 'is', value: 'orphan', negated: true }
+    ]);
+  });
+
+  test('should keep URLs, times, phrases and invalid dates as text', () => {
+    const query = parseSearchQuery('https://example.com 10:30 "tag:infra" after:someday ', TODAY);
+
+    assert.strictEqual(query.text, 'https://example.com 10:30 "tag:infra" after:someday ');
+    assert.deepStrictEqual(query.filters, []);
+  });
+});
+
+suite('parseDateRange', () => {
+  test('should parse single days, comparisons and ranges', () => {
+    assert.deepStrictEqual(parseDateRange('2026-01-05', TODAY), { from: new Date(2026, 0, 5), to: new Date(2026, 0, 6) });
+    assert.deepStrictEqual(parseDateRange('>2026-01-05', TODAY), { from: new Date(2026, 0, 6) });
+    assert.deepStrictEqual(parseDateRange('<=2026-01-05', TODAY), { to: new Date(2026, 0, 6) });
+    assert.deepStrictEqual(parseDateRange('2026-01-01..2026-01-31', TODAY), { from: new Date(2026, 0, 1), to: new Date(2026, 1, 1) });
+    assert.strictEqual(parseDateRange('2026-01-01..soon', TODAY), undefined);
+  });
+
+  test('parseDate should resolve relative dates from today', () => {
+    assert.deepStrictEqual(parseDate('today', TODAY), new Date(2026, 2, 15));
+    assert.deepStrictEqual(parseDate('7d', TODAY), new Date(2026, 2, 8));
+    assert.deepStrictEqual(parseDate('2w', TODAY), new Date(2026, 2, 1));
+    assert.deepStrictEqual(parseDate('1m', TODAY), new Date(2026, 1, 15));
+    assert.deepStrictEqual(parseDate('2026-02', TODAY), new Date(2026, 1, 1));
+  });
+});
+
+suite('matchesMetadataFilter', () => {
+  test('should match tags case-insensitively with OR semantics', () => {
+    assert.strictEqual(matchesMetadataFilter({ kind: 'tag', tags: ['ops', 'missing'], negated: false }, createMemo()), true);
+    assert.strictEqual(matchesMetadataFilter({ kind: 'tag', tags: ['missing'], negated: false }, createMemo()), false);
+  });
+
+  test('should match child tags of a parent tag', () => {
+    const memo = createMemo({ tags: ['project/alpha/infra'] });
+    assert.strictEqual(matchesMetadataFilter({ kind: 'tag', tags: ['Project/Alpha'], negated: false }, memo), true);
+    assert.strictEqual(matchesMetadataFilter({ kind: 'tag', tags: ['project/al'], negated: false }, memo), false);
+    assert.strictEqual(matchesMetadataFilter({ kind: 'tag', tags: ['project/alpha/infra/db'], negated: false }, memo), false);
+  });
+
+  test('should match memo type by id or name', () => {
+    assert.strictEqual(matchesMetadataFilter({ kind: 'type', value: 'Meeting', negated: false }, createMemo()), true);
+    assert.strictEqual(matchesMetadataFilter({ kind: 'type', value: 'meeting notes', negated: false }, createMemo()), true);
+    assert.strictEqual(matchesMetadataFilter({ kind: 'type', value: 'daily', negated: false }, createMemo()), false);
+  });
+
+  test('should compare created and modified dates', () => {
+    const createdInJanuary = { kind: 'date' as const, field: 'created' as const, from: new Date(2026, 0, 1), to: new Date(2026, 1, 1), negated: false };
+    const modifiedInJanuary = { ...createdInJanuary, field: 'modified' as const };
+
+    assert.strictEqual(matchesMetadataFilter(createdInJanuary, createMemo()), true);
+    assert.strictEqual(matchesMetadataFilter(modifiedInJanuary, createMemo()), false);
+  });
+
+  test('should match frontmatter fields and list values', () => {
+    assert.strictEqual(matchesMetadataFilter({ kind: 'field', key: 'Status', value: 'OPEN', negated: false }, createMemo()), true);
+    assert.strictEqual(matchesMetadataFilter({ kind: 'field', key: 'owners', value: 'bob', negated: false }, createMemo()), true);
+    assert.strictEqual(matchesMetadataFilter({ kind: 'field', key: 'status', value: 'done', negated: false }, createMemo()), false);
+    assert.strictEqual(matchesMetadataFilter({ kind: 'field', key: 'priority', value: 'high', negated: false }, createMemo()), false);
+  });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { tokenize, normalizeText } from '../../search/tokenizer';
+import { parseTextQuery } from '../../search/textQuery';
+
+suite('tokenizer', () => {
+  test('tokenize should split latin text into lower case words', () => {
+    assert.deepStrictEqual(tokenize('Rollback plan, v2_final!'), ['rollback', 'plan', 'v2_final']);
+  });
+
+  test('tokenize should split CJK runs into bigrams', () => {
+    assert.deepStrictEqual(tokenize('議事録'), ['議事', '事録']);
+    assert.deepStrictEqual(tokenize('API設計'), ['api', '設計']);
+    assert.deepStrictEqual(tokenize('猫 と'), ['猫', 'と']);
+  });
+
+  test('normalizeText should fold full-width characters', () => {
+    assert.strictEqual(normalizeText('ＡＰＩ　ｶﾀｶﾅ'), 'api カタカナ');
+  });
+});
+
+suite('parseTextQuery', () => {
+  test('should parse words, phrases, exclusions and prefixes', () => {
+    const clauses = parseTextQuery('deploy "rollback plan" -draft infra*');
+
+    assert.deepStrictEqual(clauses.map(clause => clause.tokens), [['deploy'], ['rollback', 'plan'], ['draft'], ['infra']]);
+    assert.deepStrictEqual(clauses.map(clause => clause.phrase), [false, true, false, false]);
+    assert.deepStrictEqual(clauses.map(clause => clause.negated), [false, false, true, false]);
+    assert.deepStrictEqual(clauses.map(clause => clause.prefix), [false, false, false, true]);
+  });
+
+  test('should treat the last word as a prefix while typing', () => {
+    assert.strictEqual(parseTextQuery('roll', { prefixLastTerm: true })[0].prefix, true);
+    assert.strictEqual(parseTextQuery('roll ', { prefixLastTerm: true })[0].prefix, false);
+    assert.strictEqual(parseTextQuery('"roll', { prefixLastTerm: true })[0].prefix, false);
+  });
+
+  test('should match CJK words as phrases', () => {
+    const [clause] = parseTextQuery('議事録');
+    assert.strictEqual(clause.phrase, true);
+    assert.strictEqual(parseTextQuery('会')[0].prefix, true);
+  });
+});
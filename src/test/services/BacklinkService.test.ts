@@ -209,6 +209,113 @@ And an external link [external](https://example.com)
     });
   });
 
+  suite('wiki links', () => {
+    test('should index wiki links by file name and title', async () => {
+      mockFileService.setFile('/test/workspace/memos/source.md', `
+# Source
+See [[target]] and [[Pretty Title|the other one]]
+`);
+      mockFileService.setFile('/test/workspace/memos/target.md', '# Target');
+      mockFileService.setFile('/test/workspace/memos/sub/other.md', '---\ntype: idea\ntitle: Pretty Title\n---\n');
+
+      await backlinkService.buildIndex();
+
+      const targetBacklinks = await backlinkService.getBacklinks('/test/workspace/memos/target.md');
+      assert.strictEqual(targetBacklinks.length, 1);
+      assert.strictEqual(targetBacklinks[0].linkText, 'target');
+
+      const otherBacklinks = await backlinkService.getBacklinks('/test/workspace/memos/sub/other.md');
+      assert.strictEqual(otherBacklinks.length, 1);
+      assert.strictEqual(otherBacklinks[0].linkText, 'the other one');
+    });
+
+    test('should resolve wiki links and report outbound links', async () => {
+      mockFileService.setFile('/test/workspace/memos/source.md', 'Link to [[sub/other]]');
+      mockFileService.setFile('/test/workspace/memos/sub/other.md', '# Other');
+
+      await backlinkService.buildIndex();
+
+      assert.strictEqual(backlinkService.resolveWikiLink('other'), '/test/workspace/memos/sub/other.md');
+      assert.strictEqual(backlinkService.resolveWikiLink('missing'), undefined);
+
+      const outboundLinks = await backlinkService.getOutboundLinks('/test/workspace/memos/source.md');
+      assert.strictEqual(outboundLinks.length, 1);
+      assert.strictEqual(outboundLinks[0].targetFile, '/test/workspace/memos/sub/other.md');
+    });
+  });
+
+  suite('anchors', () => {
+    test('should index links with heading and block anchors', async () => {
+      mockFileService.setFile('/test/workspace/memos/source.md', 'See [api](./design.md#api) and [[design#^block-1]]');
+      mockFileService.setFile('/test/workspace/memos/design.md', '# Design\n## API\nText ^block-1');
+
+      await backlinkService.buildIndex();
+
+      const backlinks = await backlinkService.getBacklinks('/test/workspace/memos/design.md');
+      assert.strictEqual(backlinks.length, 2);
+      assert.deepStrictEqual(backlinks.map(backlink => backlink.anchor).sort(), ['^block-1', 'api']);
+    });
+  });
+
+  suite('getBrokenLinks', () => {
+    test('should report markdown and wiki links to missing memos', async () => {
+      mockFileService.setFile('/test/workspace/memos/source.md', `# Source
+Fine [ok](./target.md) and [[target]]
+Broken [gone](../old/gone.md) and [[missing|Missing]]
+`);
+      mockFileService.setFile('/test/workspace/memos/target.md', '# Target');
+
+      await backlinkService.buildIndex();
+
+      const brokenLinks = await backlinkService.getBrokenLinks();
+      assert.strictEqual(brokenLinks.length, 2);
+      assert.deepStrictEqual(brokenLinks.map(link => link.target), ['../old/gone.md', 'missing']);
+      assert.ok(brokenLinks.every(link => link.sourceLine === 3));
+      assert.strictEqual(brokenLinks[0].resolvedPath, '/test/workspace/old/gone.md');
+      assert.strictEqual(brokenLinks[1].startColumn, 34);
+    });
+
+    test('should stop reporting links once the target memo exists', async () => {
+      mockFileService.setFile('/test/workspace/memos/source.md', '[gone](./gone.md) [[new idea]]');
+
+      await backlinkService.buildIndex();
+      assert.strictEqual((await backlinkService.getBrokenLinks('/test/workspace/memos/source.md')).length, 2);
+
+      mockFileService.setFile('/test/workspace/memos/gone.md', '# Gone');
+      mockFileService.setFile('/test/workspace/memos/new idea.md', '# New Idea');
+      await backlinkService.updateFileBacklinks('/test/workspace/memos/new idea.md');
+
+      assert.strictEqual((await backlinkService.getBrokenLinks('/test/workspace/memos/source.md')).length, 0);
+    });
+  });
+
+  suite('incremental updates', () => {
+    test('should index waiting wiki links when the target memo is created', async () => {
+      mockFileService.setFile('/test/workspace/memos/source.md', 'See [[new idea]]');
+      await backlinkService.buildIndex();
+
+      mockFileService.setFile('/test/workspace/memos/ideas/new idea.md', '# New Idea');
+      await backlinkService.updateFileBacklinks('/test/workspace/memos/ideas/new idea.md');
+
+      const backlinks = await backlinkService.getBacklinks('/test/workspace/memos/ideas/new idea.md');
+      assert.strictEqual(backlinks.length, 1);
+      assert.strictEqual(backlinks[0].sourceFile, '/test/workspace/memos/source.md');
+    });
+
+    test('should report wiki links as broken when the target memo is removed', async () => {
+      mockFileService.setFile('/test/workspace/memos/source.md', 'See [[target]]');
+      mockFileService.setFile('/test/workspace/memos/target.md', '# Target');
+      await backlinkService.buildIndex();
+
+      await mockFileService.deleteFile('/test/workspace/memos/target.md');
+      await backlinkService.removeFileFromIndex('/test/workspace/memos/target.md');
+
+      const brokenLinks = await backlinkService.getBrokenLinks();
+      assert.strictEqual(brokenLinks.length, 1);
+      assert.strictEqual(brokenLinks[0].target, 'target');
+    });
+  });
+
   suite('getOutboundLinks', () => {
     test('should return outbound links from a file', async () => {
       mockFileService.setFile('/test/workspace/memos/source.md', `
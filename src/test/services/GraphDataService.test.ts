@@ -1,9 +1,11 @@
 import * as assert from 'assert';
 import { GraphDataService, GraphDisplayMode, GraphNode, GraphEdge } from '../../services/implementations/GraphDataService';
-import { IBacklinkService, Backlink, OutboundLink } from '../../services/interfaces/IBacklinkService';
+import { IBacklinkService, Backlink, OutboundLink, BrokenLink } from '../../services/interfaces/IBacklinkService';
 import { IFileService, FileStats } from '../../services/interfaces/IFileService';
 import { IConfigService } from '../../services/interfaces/IConfigService';
+import { ITagIndexService, MemoWithTags, TagInfo } from '../../services/interfaces/ITagIndexService';
 import { MemoConfig } from '../../models/MemoConfig';
+import { isTagInHierarchy } from '../../utils/tagUtils';
 
 class MockBacklinkService implements IBacklinkService {
   private backlinks = new Map<string, Backlink[]>();
@@ -47,6 +49,18 @@ class MockBacklinkService implements IBacklinkService {
     };
   }
 
+  resolveWikiLink(target: string, sourceFile?: string): string | undefined {
+    return undefined;
+  }
+
+  async getBrokenLinks(sourceFile?: string): Promise<BrokenLink[]> {
+    return [];
+  }
+
+  getMemoFiles(): Array<{ filePath: string; title?: string }> {
+    return [];
+  }
+
   // Helper methods for testing
   setBacklinks(targetPath: string, backlinks: Backlink[]): void {
     this.backlinks.set(targetPath, backlinks);
@@ -59,6 +73,7 @@ class MockBacklinkService implements IBacklinkService {
 
 class MockFileService implements IFileService {
   private files = new Map<string, string>();
+  private modified = new Map<string, Date>();
 
   async exists(path: string): Promise<boolean> {
     return this.files.has(path);
@@ -115,14 +130,17 @@ class MockFileService implements IFileService {
 
   async getStats(path: string): Promise<FileStats> {
     return {
-      lastModified: new Date(),
+      lastModified: this.modified.get(path) || new Date(),
       isDirectory: false
     };
   }
 
   // Helper methods for testing
-  setFile(path: string, content: string): void {
+  setFile(path: string, content: string, lastModified?: Date): void {
     this.files.set(path, content);
+    if (lastModified) {
+      this.modified.set(path, lastModified);
+    }
   }
 
   getFileCount(): number {
@@ -152,17 +170,61 @@ class MockConfigService implements IConfigService {
   }
 }
 
+class MockTagIndexService implements ITagIndexService {
+  private fileTags = new Map<string, string[]>();
+
+  async buildIndex(): Promise<void> {
+    // Mock implementation
+  }
+
+  async getAllTags(): Promise<TagInfo[]> {
+    const counts = new Map<string, number>();
+    for (const tags of this.fileTags.values()) {
+      tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+    }
+    return [...counts.entries()].map(([tag, count]) => ({ tag, count }));
+  }
+
+  async getMemosByTag(tag: string): Promise<MemoWithTags[]> {
+    return this.getMemosByTags([tag], 'OR');
+  }
+
+  async getMemosByTags(tags: string[], mode: 'AND' | 'OR'): Promise<MemoWithTags[]> {
+    const hasTag = (fileTags: string[], tag: string) => fileTags.some(fileTag => isTagInHierarchy(fileTag, tag));
+    return [...this.fileTags.entries()]
+      .filter(([, fileTags]) => mode === 'AND'
+        ? tags.every(tag => hasTag(fileTags, tag))
+        : tags.some(tag => hasTag(fileTags, tag)))
+      .map(([filePath, fileTags]) => ({ filePath, title: filePath, tags: fileTags, inlineTags: [], lastModified: new Date() }));
+  }
+
+  async updateFile(filePath: string): Promise<void> {
+    // Mock implementation
+  }
+
+  async removeFile(filePath: string): Promise<void> {
+    // Mock implementation
+  }
+
+  // Helper methods for testing
+  setTags(filePath: string, tags: string[]): void {
+    this.fileTags.set(filePath, tags);
+  }
+}
+
 suite('GraphDataService', () => {
   let mockBacklinkService: MockBacklinkService;
   let mockFileService: MockFileService;
   let mockConfigService: MockConfigService;
+  let mockTagIndexService: MockTagIndexService;
   let graphDataService: GraphDataService;
 
   setup(() => {
     mockBacklinkService = new MockBacklinkService();
     mockFileService = new MockFileService();
     mockConfigService = new MockConfigService();
-    graphDataService = new GraphDataService(mockBacklinkService, mockFileService, mockConfigService);
+    mockTagIndexService = new MockTagIndexService();
+    graphDataService = new GraphDataService(mockBacklinkService, mockFileService, mockConfigService, mockTagIndexService);
   });
 
   suite('generateGraphData', () => {
@@ -243,6 +305,140 @@ suite('GraphDataService', () => {
     });
   });
 
+  suite('filters', () => {
+    const nodeIds = (graphData: { nodes: GraphNode[] }) => graphData.nodes.map(node => node.id).sort();
+
+    test('should include memos with a tag or its child tags and exclude tags', async () => {
+      mockFileService.setFile('/workspace/memos/alpha.md', '# Alpha');
+      mockFileService.setFile('/workspace/memos/beta.md', '# Beta');
+      mockFileService.setFile('/workspace/memos/old.md', '# Old');
+      mockFileService.setFile('/workspace/memos/other.md', '# Other');
+      mockTagIndexService.setTags('/workspace/memos/alpha.md', ['project/alpha']);
+      mockTagIndexService.setTags('/workspace/memos/beta.md', ['project']);
+      mockTagIndexService.setTags('/workspace/memos/old.md', ['project', 'archived']);
+
+      const graphData = await graphDataService.generateGraphData('/workspace', GraphDisplayMode.FULL, undefined, {
+        includeTags: ['project'],
+        excludeTags: ['archived']
+      });
+
+      assert.deepStrictEqual(nodeIds(graphData), ['/workspace/memos/alpha.md', '/workspace/memos/beta.md']);
+      assert.strictEqual(graphData.hiddenNodes, 2);
+    });
+
+    test('should filter by memo type from frontmatter or memo type folder', async () => {
+      mockConfigService.setConfig({
+        memoTypes: [
+          { id: 'meeting', name: 'Meeting', templatePath: 'meeting.md', baseDir: 'meetings' },
+          { id: 'idea', name: 'Idea', templatePath: 'idea.md' }
+        ]
+      });
+      mockFileService.setFile('/workspace/memos/meetings/standup.md', '# Standup');
+      mockFileService.setFile('/workspace/memos/notes/sync.md', '---\ntype: meeting\n---\n# Sync');
+      mockFileService.setFile('/workspace/memos/notes/spark.md', '---\ntype: idea\n---\n# Spark');
+
+      const included = await graphDataService.generateGraphData('/workspace', GraphDisplayMode.FULL, undefined, {
+        includeTypes: ['meeting']
+      });
+      const excluded = await graphDataService.generateGraphData('/workspace', GraphDisplayMode.FULL, undefined, {
+        excludeTypes: ['Meeting']
+      });
+
+      assert.deepStrictEqual(nodeIds(included), ['/workspace/memos/meetings/standup.md', '/workspace/memos/notes/sync.md']);
+      assert.deepStrictEqual(nodeIds(excluded), ['/workspace/memos/notes/spark.md']);
+    });
+
+    test('should filter by folder including subfolders', async () => {
+      mockFileService.setFile('/workspace/memos/top.md', '# Top');
+      mockFileService.setFile('/workspace/memos/work/plan.md', '# Plan');
+      mockFileService.setFile('/workspace/memos/work/archive/old.md', '# Old');
+      mockFileService.setFile('/workspace/memos/home/list.md', '# List');
+
+      const included = await graphDataService.generateGraphData('/workspace', GraphDisplayMode.FULL, undefined, {
+        includeFolders: ['work/'],
+        excludeFolders: ['work/archive']
+      });
+      const topLevel = await graphDataService.generateGraphData('/workspace', GraphDisplayMode.FULL, undefined, {
+        includeFolders: ['.']
+      });
+
+      assert.deepStrictEqual(nodeIds(included), ['/workspace/memos/work/plan.md']);
+      assert.deepStrictEqual(nodeIds(topLevel), ['/workspace/memos/top.md']);
+    });
+
+    test('should filter by modified date range inclusively', async () => {
+      mockFileService.setFile('/workspace/memos/early.md', '# Early', new Date(2026, 0, 5, 12));
+      mockFileService.setFile('/workspace/memos/start.md', '# Start', new Date(2026, 0, 10, 23, 59));
+      mockFileService.setFile('/workspace/memos/end.md', '# End', new Date(2026, 0, 20, 0, 1));
+      mockFileService.setFile('/workspace/memos/late.md', '# Late', new Date(2026, 1, 1));
+
+      const graphData = await graphDataService.generateGraphData('/workspace', GraphDisplayMode.FULL, undefined, {
+        modifiedAfter: '2026-01-10',
+        modifiedBefore: '2026-01-20'
+      });
+
+      assert.deepStrictEqual(nodeIds(graphData), ['/workspace/memos/end.md', '/workspace/memos/start.md']);
+    });
+
+    test('should drop memos with fewer links than the minimum degree within the filtered graph', async () => {
+      mockFileService.setFile('/workspace/memos/hub.md', '# Hub');
+      mockFileService.setFile('/workspace/memos/a.md', '# A');
+      mockFileService.setFile('/workspace/memos/b.md', '# B');
+      mockFileService.setFile('/workspace/memos/lonely.md', '# Lonely');
+      mockTagIndexService.setTags('/workspace/memos/b.md', ['archived']);
+      mockBacklinkService.setOutboundLinks('/workspace/memos/hub.md', [
+        { targetFile: '/workspace/memos/a.md', context: 'link', sourceLine: 1, linkText: 'a' },
+        { targetFile: '/workspace/memos/b.md', context: 'link', sourceLine: 2, linkText: 'b' }
+      ]);
+      mockBacklinkService.setOutboundLinks('/workspace/memos/a.md', [
+        { targetFile: '/workspace/memos/hub.md', context: 'link', sourceLine: 1, linkText: 'hub' }
+      ]);
+
+      // b.md is filtered out, so the hub is left with its two links to a.md
+      const graphData = await graphDataService.generateGraphData('/workspace', GraphDisplayMode.FULL, undefined, {
+        excludeTags: ['archived'],
+        minDegree: 2
+      });
+
+      assert.deepStrictEqual(nodeIds(graphData), ['/workspace/memos/a.md', '/workspace/memos/hub.md']);
+      assert.strictEqual(graphData.edges.length, 2);
+      assert.ok(graphData.edges.every(edge => edge.source !== '/workspace/memos/b.md' && edge.target !== '/workspace/memos/b.md'));
+    });
+
+    test('should always keep the active file', async () => {
+      mockFileService.setFile('/workspace/memos/active.md', '# Active');
+      mockFileService.setFile('/workspace/memos/other.md', '# Other');
+      mockTagIndexService.setTags('/workspace/memos/other.md', ['project']);
+
+      const graphData = await graphDataService.generateGraphData(
+        '/workspace',
+        GraphDisplayMode.CONTEXT,
+        '/workspace/memos/active.md',
+        { includeTags: ['project'], minDegree: 1 }
+      );
+
+      assert.deepStrictEqual(nodeIds(graphData), ['/workspace/memos/active.md']);
+      assert.ok(graphData.nodes[0].isActive);
+    });
+  });
+
+  suite('getFilterOptions', () => {
+    test('should list tags, memo types and folders with their parents', async () => {
+      mockConfigService.setConfig({
+        memoTypes: [{ id: 'meeting', name: 'Meeting', templatePath: 'meeting.md', baseDir: 'meetings' }]
+      });
+      mockFileService.setFile('/workspace/memos/top.md', '# Top');
+      mockFileService.setFile('/workspace/memos/work/archive/old.md', '# Old');
+      mockTagIndexService.setTags('/workspace/memos/top.md', ['project/alpha', 'idea']);
+
+      const options = await graphDataService.getFilterOptions('/workspace');
+
+      assert.deepStrictEqual(options.tags, ['idea', 'project/alpha']);
+      assert.deepStrictEqual(options.types, ['Meeting']);
+      assert.deepStrictEqual(options.folders, ['work', 'work/archive']);
+    });
+  });
+
   suite('node styling', () => {
     test('getNodeColor should return correct colors', () => {
       const service = graphDataService as any; // Access private methods for testing
@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import { IndexCacheService } from '../../services/implementations/IndexCacheService';
+import { IFileService, FileStats } from '../../services/interfaces/IFileService';
+import { IConfigService } from '../../services/interfaces/IConfigService';
+import { MemoConfig } from '../../models/MemoConfig';
+
+class MockFileService implements IFileService {
+  files = new Map<string, { content: string; mtime: number }>();
+  reads: string[] = [];
+
+  setFile(path: string, content: string, mtime: number = 1000): void {
+    this.files.set(path, { content, mtime });
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async readFile(path: string): Promise<string> {
+    const file = this.files.get(path);
+    if (!file) {
+      throw new Error(`File not found: ${path}`);
+    }
+    this.reads.push(path);
+    return file.content;
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.setFile(path, content);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  async createDirectory(path: string): Promise<void> {}
+  async openTextDocument(path: string): Promise<void> {}
+  async showTextDocument(path: string): Promise<void> {}
+  async openFile(path: string): Promise<void> {}
+
+  async listFiles(dirPath: string, extensions: string[]): Promise<string[]> {
+    return [];
+  }
+
+  async readDirectory(path: string): Promise<string[]> {
+    return [];
+  }
+
+  async getStats(path: string): Promise<FileStats> {
+    const file = this.files.get(path);
+    if (!file) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return { lastModified: new Date(file.mtime), isDirectory: false, size: file.content.length };
+  }
+}
+
+class MockConfigService implements IConfigService {
+  config: MemoConfig = {
+    memoTypes: [],
+    baseDir: 'memos',
+    fileExtensions: ['.md'],
+    defaultExtension: '.md'
+  };
+
+  async loadConfig(): Promise<MemoConfig> {
+    return this.config;
+  }
+}
+
+suite('IndexCacheService', () => {
+  const cachePath = '/storage/index-cache.json';
+  const memoPath = '/workspace/memos/note.md';
+  let fileService: MockFileService;
+  let configService: MockConfigService;
+
+  setup(() => {
+    fileService = new MockFileService();
+    configService = new MockConfigService();
+    fileService.setFile(memoPath, '# Note\nsome text');
+  });
+
+  async function createCache(): Promise<IndexCacheService> {
+    const cache = new IndexCacheService(fileService, configService, cachePath);
+    await cache.prepare();
+    return cache;
+  }
+
+  test('should share one file read between namespaces', async () => {
+    const cache = await createCache();
+
+    const lines = await cache.getOrCompute('a:1', memoPath, content => content.split('\n').length);
+    const length = await cache.getOrCompute('b:1', memoPath, content => content.length);
+    await cache.save();
+
+    assert.strictEqual(lines, 2);
+    assert.strictEqual(length, 16);
+    assert.deepStrictEqual(fileService.reads, [memoPath]);
+  });
+
+  test('should reuse persisted data on a warm start', async () => {
+    const cold = await createCache();
+    await cold.getOrCompute('a:1', memoPath, content => content.length);
+    await cold.save();
+    fileService.reads = [];
+
+    const warm = await createCache();
+    const value = await warm.getOrCompute('a:1', memoPath, () => -1);
+    await warm.save();
+
+    assert.strictEqual(value, 16);
+    assert.deepStrictEqual(fileService.reads, [cachePath]);
+  });
+
+  test('should recompute when the file changes', async () => {
+    const cold = await createCache();
+    await cold.getOrCompute('a:1', memoPath, content => content.length);
+    await cold.save();
+
+    fileService.setFile(memoPath, '# Note', 2000);
+    const warm = await createCache();
+    const value = await warm.getOrCompute('a:1', memoPath, content => content.length);
+    await warm.save();
+
+    assert.strictEqual(value, 6);
+  });
+
+  test('should drop the cache when the config changes', async () => {
+    const cold = await createCache();
+    await cold.getOrCompute('a:1', memoPath, content => content.length);
+    await cold.save();
+
+    configService.config = { ...configService.config, baseDir: 'notes' };
+    const warm = await createCache();
+    const value = await warm.getOrCompute('a:1', memoPath, () => -1);
+    await warm.save();
+
+    assert.strictEqual(value, -1);
+  });
+
+  test('should keep the cache when only saved searches or variables change', async () => {
+    const cold = await createCache();
+    await cold.getOrCompute('a:1', memoPath, content => content.length);
+    await cold.save();
+
+    configService.config = {
+      ...configService.config,
+      savedSearches: [{ name: 'Open tasks', query: 'todo' }],
+      variables: [{ name: 'AUTHOR', default: 'me' }]
+    };
+    const warm = await createCache();
+    const value = await warm.getOrCompute('a:1', memoPath, () => -1);
+    await warm.save();
+
+    assert.strictEqual(value, 16);
+  });
+
+  test('should ignore a corrupt or outdated cache file', async () => {
+    fileService.setFile(cachePath, '{ not json');
+    const corrupt = await createCache();
+    assert.strictEqual(await corrupt.getOrCompute('a:1', memoPath, content => content.length), 16);
+    await corrupt.save();
+
+    fileService.setFile(cachePath, JSON.stringify({ version: 0, configHash: 'x', files: {} }));
+    const outdated = await createCache();
+    assert.strictEqual(await outdated.getOrCompute('a:1', memoPath, content => content.length), 16);
+    await outdated.save();
+  });
+
+  test('should keep entries not read yet until a build completes', async () => {
+    const otherPath = '/workspace/memos/other.md';
+    fileService.setFile(otherPath, 'other');
+    const cold = await createCache();
+    await cold.getOrCompute('a:1', memoPath, content => content.length);
+    await cold.getOrCompute('a:1', otherPath, content => content.length);
+    await cold.save();
+
+    fileService.setFile(memoPath, '# Changed', 2000);
+    const warm = await createCache();
+    await warm.getOrCompute('a:1', memoPath, content => content.length);
+    await warm.save();
+    assert.deepStrictEqual(Object.keys(JSON.parse(fileService.files.get(cachePath)!.content).files), [memoPath, otherPath]);
+
+    warm.completeBuild();
+    await warm.save();
+    assert.deepStrictEqual(Object.keys(JSON.parse(fileService.files.get(cachePath)!.content).files), [memoPath]);
+  });
+
+  test('should forget removed files', async () => {
+    const cold = await createCache();
+    await cold.getOrCompute('a:1', memoPath, content => content.length);
+    cold.removeFile(memoPath);
+    await cold.save();
+
+    const persisted = JSON.parse(fileService.files.get(cachePath)!.content);
+    assert.deepStrictEqual(persisted.files, {});
+  });
+});
@@ -0,0 +1,196 @@
+import * as assert from 'assert';
+import { LinkUpdateService } from '../../services/implementations/LinkUpdateService';
+import { IBacklinkService, Backlink, OutboundLink, BrokenLink } from '../../services/interfaces/IBacklinkService';
+import { IFileService, FileStats } from '../../services/interfaces/IFileService';
+import { IConfigService } from '../../services/interfaces/IConfigService';
+import { MemoConfig } from '../../models/MemoConfig';
+import { WikiLinkResolver } from '../../utils/linkUtils';
+
+class MockBacklinkService implements IBacklinkService {
+  backlinks = new Map<string, Backlink[]>();
+  brokenLinks: BrokenLink[] = [];
+  memoFiles: string[] = [];
+  updatedFiles: string[] = [];
+
+  async buildIndex(): Promise<void> {
+    // Mock implementation
+  }
+
+  async getBacklinks(targetFilePath: string): Promise<Backlink[]> {
+    return this.backlinks.get(targetFilePath) || [];
+  }
+
+  async getOutboundLinks(filePath: string): Promise<OutboundLink[]> {
+    return [];
+  }
+
+  async updateFileBacklinks(filePath: string): Promise<void> {
+    this.updatedFiles.push(filePath);
+  }
+
+  async removeFileFromIndex(filePath: string): Promise<void> {
+    // Mock implementation
+  }
+
+  async getOrphanedFiles(): Promise<string[]> {
+    return [];
+  }
+
+  async getLinkStatistics(): Promise<{
+    totalLinks: number;
+    totalFiles: number;
+    averageLinksPerFile: number;
+    mostLinkedFiles: Array<{ file: string; count: number }>;
+  }> {
+    return { totalFiles: 0, totalLinks: 0, averageLinksPerFile: 0, mostLinkedFiles: [] };
+  }
+
+  resolveWikiLink(target: string, sourceFile?: string): string | undefined {
+    const resolver = new WikiLinkResolver();
+    this.memoFiles.forEach(filePath => resolver.setEntry(filePath));
+    return resolver.resolve(target, sourceFile);
+  }
+
+  async getBrokenLinks(sourceFile?: string): Promise<BrokenLink[]> {
+    return this.brokenLinks;
+  }
+
+  getMemoFiles(): Array<{ filePath: string; title?: string }> {
+    return this.memoFiles.map(filePath => ({ filePath }));
+  }
+}
+
+class MockFileService implements IFileService {
+  files = new Map<string, string>();
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async readFile(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  async createDirectory(path: string): Promise<void> {}
+  async openTextDocument(path: string): Promise<void> {}
+  async showTextDocument(path: string): Promise<void> {}
+  async openFile(path: string): Promise<void> {}
+
+  async listFiles(dirPath: string, extensions: string[]): Promise<string[]> {
+    return [];
+  }
+
+  async readDirectory(path: string): Promise<string[]> {
+    return [];
+  }
+
+  async getStats(path: string): Promise<FileStats> {
+    return { lastModified: new Date(), isDirectory: false };
+  }
+}
+
+class MockConfigService implements IConfigService {
+  async loadConfig(): Promise<MemoConfig> {
+    return { memoTypes: [], baseDir: 'memos', fileExtensions: ['.md'], defaultExtension: '.md' };
+  }
+}
+
+suite('LinkUpdateService', () => {
+  let fileService: MockFileService;
+  let backlinkService: MockBacklinkService;
+  let service: LinkUpdateService;
+
+  setup(() => {
+    fileService = new MockFileService();
+    backlinkService = new MockBacklinkService();
+    service = new LinkUpdateService(fileService, new MockConfigService(), backlinkService, '/ws');
+  });
+
+  test('should update links to a moved memo and the moved memo\'s own links', async () => {
+    const oldPath = '/ws/memos/notes/idea.md';
+    const newPath = '/ws/memos/archive/2024/idea.md';
+    fileService.files.set('/ws/memos/index.md', 'See [Idea](./notes/idea.md)');
+    fileService.files.set(newPath, 'Part of [Plan](../plan.md)');
+    backlinkService.backlinks.set(oldPath, [
+      { sourceFile: '/ws/memos/index.md', sourceLine: 1, linkText: 'Idea', context: 'See [Idea](./notes/idea.md)' }
+    ]);
+
+    const result = await service.updateLinksAfterRename(oldPath, newPath);
+
+    assert.strictEqual(fileService.files.get('/ws/memos/index.md'), 'See [Idea](./archive/2024/idea.md)');
+    assert.strictEqual(fileService.files.get(newPath), 'Part of [Plan](../../plan.md)');
+    assert.deepStrictEqual(result, { filesUpdated: 2, linksUpdated: 2, errors: [] });
+  });
+
+  test('should repair broken links by unique file name', async () => {
+    const content = '[Plan](./old/plan.md) and [Dup](./gone/dup.md)';
+    fileService.files.set('/ws/memos/index.md', content);
+    backlinkService.memoFiles = ['/ws/memos/projects/plan.md', '/ws/memos/a/dup.md', '/ws/memos/b/dup.md'];
+    backlinkService.brokenLinks = [
+      { sourceFile: '/ws/memos/index.md', sourceLine: 1, startColumn: 0, endColumn: 21, kind: 'markdown', linkText: 'Plan', target: './old/plan.md' },
+      {
+        sourceFile: '/ws/memos/index.md', sourceLine: 1, startColumn: content.indexOf('[Dup]'), endColumn: content.length,
+        kind: 'markdown', linkText: 'Dup', target: './gone/dup.md'
+      }
+    ];
+
+    const result = await service.repairBrokenLinks();
+
+    assert.strictEqual(fileService.files.get('/ws/memos/index.md'), '[Plan](./projects/plan.md) and [Dup](./gone/dup.md)');
+    assert.strictEqual(result.linksUpdated, 1);
+    assert.deepStrictEqual(result.unresolved.map(link => link.target), ['./gone/dup.md']);
+    assert.deepStrictEqual(backlinkService.updatedFiles, ['/ws/memos/index.md']);
+  });
+
+  test('should only rename wiki links that resolve to the renamed memo when memos share a name', async () => {
+    const oldPath = '/ws/memos/a/notes.md';
+    const newPath = '/ws/memos/a/meeting-notes.md';
+    fileService.files.set('/ws/memos/a/index.md', 'See [[notes]]');
+    fileService.files.set('/ws/memos/b/index.md', 'See [[notes]] and [[a/notes]]');
+    fileService.files.set(newPath, '# Notes');
+    backlinkService.memoFiles = [oldPath, '/ws/memos/b/notes.md', '/ws/memos/a/index.md', '/ws/memos/b/index.md'];
+    backlinkService.backlinks.set(oldPath, [
+      { sourceFile: '/ws/memos/a/index.md', sourceLine: 1, linkText: 'notes', context: 'See [[notes]]' },
+      { sourceFile: '/ws/memos/b/index.md', sourceLine: 1, linkText: 'a/notes', context: 'See [[notes]] and [[a/notes]]' }
+    ]);
+
+    const result = await service.updateLinksAfterRename(oldPath, newPath);
+
+    assert.strictEqual(fileService.files.get('/ws/memos/a/index.md'), 'See [[meeting-notes]]');
+    // [[notes]] in b/ points at b/notes.md, the memo next to it
+    assert.strictEqual(fileService.files.get('/ws/memos/b/index.md'), 'See [[notes]] and [[a/meeting-notes]]');
+    assert.strictEqual(result.linksUpdated, 2);
+  });
+
+  test('should only remove wiki links that resolve to the deleted memo when memos share a name', async () => {
+    const targetPath = '/ws/memos/a/notes.md';
+    fileService.files.set('/ws/memos/a/index.md', 'See [[notes]]');
+    fileService.files.set('/ws/memos/b/index.md', 'See [[notes]] and [[a/notes]]');
+    backlinkService.memoFiles = [targetPath, '/ws/memos/b/notes.md', '/ws/memos/a/index.md', '/ws/memos/b/index.md'];
+    backlinkService.backlinks.set(targetPath, [
+      { sourceFile: '/ws/memos/a/index.md', sourceLine: 1, linkText: 'notes', context: 'See [[notes]]' },
+      { sourceFile: '/ws/memos/b/index.md', sourceLine: 1, linkText: 'a/notes', context: 'See [[notes]] and [[a/notes]]' }
+    ]);
+
+    const result = await service.removeLinksTo(targetPath, 'plainText');
+
+    assert.strictEqual(fileService.files.get('/ws/memos/a/index.md'), 'See notes');
+    assert.strictEqual(fileService.files.get('/ws/memos/b/index.md'), 'See [[notes]] and a/notes');
+    assert.strictEqual(result.linksUpdated, 2);
+    assert.deepStrictEqual(result.edits[0], {
+      filePath: '/ws/memos/a/index.md', line: 0, before: 'See [[notes]]', after: 'See notes', previousLine: null, nextLine: null
+    });
+  });
+});
@@ -261,6 +261,28 @@ Content`;
       assert.strictEqual(result.errors.length, 1);
       assert.strictEqual(result.errors[0].type, 'invalid_type');
     });
+
+    test('should reject invalid dates and values outside an enum', () => {
+      const metadata: MemoMetadata = {
+        system: { type: 'meeting' },
+        special: {},
+        user: { due: '2026-02-30', status: 'blocked', labels: ['a', 'c'], reviewed: '2026-01-05T10:30' }
+      };
+
+      const schema: Record<string, MetadataSchema> = {
+        due: { name: 'due', type: 'date' },
+        reviewed: { name: 'reviewed', type: 'date' },
+        status: { name: 'status', type: 'string', enum: ['open', 'done'] },
+        labels: { name: 'labels', type: 'array', enum: ['a', 'b'] }
+      };
+
+      const result = metadataService.validateMetadata(metadata, schema);
+
+      assert.deepStrictEqual(
+        result.errors?.map(error => [error.field, error.type]),
+        [['due', 'invalid_value'], ['status', 'invalid_value'], ['labels', 'invalid_value']]
+      );
+    });
   });
 
   suite('extractMetadata', () => {
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { PeriodicNoteService } from '../../services/implementations/PeriodicNoteService';
+import { IFileService, FileStats } from '../../services/interfaces/IFileService';
+import { IConfigService } from '../../services/interfaces/IConfigService';
+import { MemoConfig } from '../../models/MemoConfig';
+import { formatDate } from '../../utils/dateUtils';
+
+class MockFileService implements IFileService {
+  files = new Map<string, string>();
+
+  async exists(filePath: string): Promise<boolean> {
+    return this.files.has(filePath) || Array.from(this.files.keys()).some(file => file.startsWith(filePath + path.sep));
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const content = this.files.get(filePath);
+    if (content === undefined) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    return content;
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    this.files.set(filePath, content);
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    this.files.delete(filePath);
+  }
+
+  async createDirectory(dirPath: string): Promise<void> {}
+  async openTextDocument(filePath: string): Promise<void> {}
+  async showTextDocument(filePath: string): Promise<void> {}
+  async openFile(filePath: string): Promise<void> {}
+
+  async listFiles(dirPath: string, extensions: string[]): Promise<string[]> {
+    return Array.from(this.files.keys())
+      .filter(file => file.startsWith(dirPath + path.sep) && extensions.includes(path.extname(file)));
+  }
+
+  async readDirectory(dirPath: string): Promise<string[]> {
+    return [];
+  }
+
+  async getStats(filePath: string): Promise<FileStats> {
+    return { lastModified: new Date(), isDirectory: false };
+  }
+}
+
+class MockConfigService implements IConfigService {
+  constructor(private config: MemoConfig) {}
+
+  async loadConfig(): Promise<MemoConfig> {
+    return this.config;
+  }
+}
+
+suite('PeriodicNoteService', () => {
+  const workspaceRoot = path.join(path.sep, 'workspace');
+  const memosDir = path.join(workspaceRoot, 'memos');
+  let fileService: MockFileService;
+  let service: PeriodicNoteService;
+
+  setup(() => {
+    fileService = new MockFileService();
+    fileService.files.set(path.join(memosDir, 'daily', 'archives', '2026', '01', '05.md'), '---\ntype: daily\n---\n');
+    fileService.files.set(path.join(memosDir, 'daily', '2026-01-07.md'), '---\ntype: daily\n---\n');
+    fileService.files.set(path.join(memosDir, 'daily', 'ideas.md'), '---\ntype: daily\n---\n');
+    fileService.files.set(path.join(memosDir, '2026-W02.md'), '---\ntype: weekly\n---\n');
+    fileService.files.set(path.join(memosDir, '2026-W03.md'), '---\ntype: meeting\n---\n');
+
+    service = new PeriodicNoteService(fileService, new MockConfigService({
+      baseDir: 'memos',
+      fileExtensions: ['.md'],
+      defaultExtension: '.md',
+      memoTypes: [
+        { id: 'daily', name: 'Daily Note', templatePath: 'templates/daily.md', baseDir: 'daily', periodic: { period: 'daily' } },
+        // No directory of its own, so the frontmatter type decides
+        { id: 'weekly', name: 'Weekly Note', templatePath: 'templates/weekly.md', periodic: { period: 'weekly' } },
+        { id: 'meeting', name: 'Meeting', templatePath: 'templates/meeting.md' }
+      ]
+    }), workspaceRoot);
+  });
+
+  test('getPeriodicMemoType should find the memo type for a period', async () => {
+    assert.strictEqual((await service.getPeriodicMemoType('daily'))?.id, 'daily');
+    assert.strictEqual(await service.getPeriodicMemoType('monthly'), undefined);
+  });
+
+  test('getNotes should key notes by the start of their period', async () => {
+    const daily = await service.getNotes('daily');
+    assert.deepStrictEqual(Array.from(daily.keys()).sort(), ['2026-01-05', '2026-01-07']);
+
+    const weekly = await service.getNotes('weekly');
+    assert.deepStrictEqual(Array.from(weekly.keys()), ['2026-01-05']);
+  });
+
+  test('findNote should find the note for any date in the period', async () => {
+    assert.strictEqual(
+      (await service.findNote('weekly', new Date(2026, 0, 11)))?.filePath,
+      path.join(memosDir, '2026-W02.md')
+    );
+    assert.strictEqual(await service.findNote('daily', new Date(2026, 0, 6)), undefined);
+  });
+
+  test('getNoteForFile should identify periodic notes', async () => {
+    const note = await service.getNoteForFile(path.join(memosDir, 'daily', 'archives', '2026', '01', '05.md'));
+    assert.strictEqual(note?.period, 'daily');
+    assert.strictEqual(formatDate(note!.date), '2026-01-05');
+
+    assert.strictEqual(await service.getNoteForFile(path.join(memosDir, 'daily', 'ideas.md')), undefined);
+    assert.strictEqual(await service.getNoteForFile(path.join(memosDir, '2026-W03.md')), undefined);
+  });
+});
@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+import { SavedSearchService } from '../../services/implementations/SavedSearchService';
+import { IndexCacheService } from '../../services/implementations/IndexCacheService';
+import { IFileService, FileStats } from '../../services/interfaces/IFileService';
+import { IConfigService } from '../../services/interfaces/IConfigService';
+import { MemoConfig } from '../../models/MemoConfig';
+
+class MockFileService implements IFileService {
+  files = new Map<string, string>();
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async readFile(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  async createDirectory(path: string): Promise<void> {}
+  async openTextDocument(path: string): Promise<void> {}
+  async showTextDocument(path: string): Promise<void> {}
+  async openFile(path: string): Promise<void> {}
+
+  async listFiles(dirPath: string, extensions: string[]): Promise<string[]> {
+    return [];
+  }
+
+  async readDirectory(path: string): Promise<string[]> {
+    return [];
+  }
+
+  async getStats(path: string): Promise<FileStats> {
+    return { lastModified: new Date(1000), isDirectory: false, size: this.files.get(path)?.length };
+  }
+}
+
+// Reads config.json from the mock file system and skips invalid saved searches, like VsCodeConfigService
+class MockConfigService implements IConfigService {
+  constructor(private fileService: MockFileService, private configPath: string) {}
+
+  async loadConfig(): Promise<MemoConfig> {
+    const content = this.fileService.files.get(this.configPath);
+    const config = content ? JSON.parse(content) : {};
+    return {
+      memoTypes: config.memoTypes || [],
+      baseDir: config.baseDir || '.',
+      fileExtensions: config.fileExtensions || ['.md'],
+      defaultExtension: '.md',
+      savedSearches: config.savedSearches?.filter((savedSearch: any) =>
+        typeof savedSearch?.name === 'string'
+        && typeof savedSearch.query === 'string'
+        && (!('pinned' in savedSearch) || typeof savedSearch.pinned === 'boolean'))
+    };
+  }
+}
+
+suite('SavedSearchService', () => {
+  const configPath = '/workspace/.vsmemo/config.json';
+  let fileService: MockFileService;
+  let configService: MockConfigService;
+  let service: SavedSearchService;
+
+  setup(() => {
+    fileService = new MockFileService();
+    configService = new MockConfigService(fileService, configPath);
+    service = new SavedSearchService(fileService, configService, '/workspace');
+  });
+
+  function readConfig(): any {
+    return JSON.parse(fileService.files.get(configPath)!);
+  }
+
+  test('should add saved searches while keeping other config properties', async () => {
+    fileService.files.set(configPath, JSON.stringify({ baseDir: 'memos', memoTypes: [], variables: { AUTHOR: 'me' } }));
+
+    await service.addSavedSearch({ name: 'Infra', query: 'tag:infra' });
+
+    const config = readConfig();
+    assert.strictEqual(config.baseDir, 'memos');
+    assert.deepStrictEqual(config.variables, { AUTHOR: 'me' });
+    assert.deepStrictEqual(config.savedSearches, [{ name: 'Infra', query: 'tag:infra' }]);
+  });
+
+  test('should create config.json when it does not exist', async () => {
+    await service.addSavedSearch({ name: 'Orphans', query: 'is:orphan' });
+
+    assert.deepStrictEqual(readConfig(), { savedSearches: [{ name: 'Orphans', query: 'is:orphan' }] });
+  });
+
+  test('should reject duplicate names', async () => {
+    await service.addSavedSearch({ name: 'Infra', query: 'tag:infra' });
+
+    await assert.rejects(() => service.addSavedSearch({ name: 'Infra', query: 'tag:ops' }), /already exists/);
+    await service.addSavedSearch({ name: 'Ops', query: 'tag:ops' });
+    await assert.rejects(() => service.renameSavedSearch('Ops', 'Infra'), /already exists/);
+  });
+
+  test('should list pinned searches first', async () => {
+    await service.addSavedSearch({ name: 'First', query: 'a' });
+    await service.addSavedSearch({ name: 'Second', query: 'b' });
+    await service.setPinned('Second', true);
+
+    const savedSearches = await service.getSavedSearches();
+    assert.deepStrictEqual(savedSearches.map(savedSearch => savedSearch.name), ['Second', 'First']);
+
+    await service.setPinned('Second', false);
+    assert.deepStrictEqual(readConfig().savedSearches[1], { name: 'Second', query: 'b' });
+  });
+
+  test('should rename and delete saved searches', async () => {
+    await service.addSavedSearch({ name: 'Old', query: 'tag:infra', pinned: true });
+
+    await service.renameSavedSearch('Old', 'New');
+    assert.deepStrictEqual(readConfig().savedSearches, [{ name: 'New', query: 'tag:infra', pinned: true }]);
+
+    await service.deleteSavedSearch('New');
+    assert.deepStrictEqual(readConfig().savedSearches, []);
+    await assert.rejects(() => service.renameSavedSearch('New', 'Other'), /not found/);
+  });
+
+  test('should keep saved searches that are not valid where they are in config.json', async () => {
+    const invalid = { name: 'Broken', query: 'tag:x', pinned: 'yes' };
+    fileService.files.set(configPath, JSON.stringify({
+      savedSearches: [{ name: 'First', query: 'a' }, invalid, { name: 'Second', query: 'b' }, 'not a search']
+    }));
+
+    await service.deleteSavedSearch('First');
+    assert.deepStrictEqual(readConfig().savedSearches, [invalid, { name: 'Second', query: 'b' }, 'not a search']);
+
+    await service.addSavedSearch({ name: 'Third', query: 'c' });
+    await service.setPinned('Second', true);
+    assert.deepStrictEqual(readConfig().savedSearches, [
+      invalid,
+      { name: 'Second', query: 'b', pinned: true },
+      'not a search',
+      { name: 'Third', query: 'c' }
+    ]);
+  });
+
+  test('should keep the index cache when saved searches change', async () => {
+    const memoPath = '/workspace/memos/note.md';
+    const cachePath = '/storage/index-cache.json';
+    fileService.files.set(configPath, JSON.stringify({ baseDir: 'memos', memoTypes: [] }));
+    fileService.files.set(memoPath, '# Note');
+
+    const cold = new IndexCacheService(fileService, configService, cachePath);
+    await cold.prepare();
+    await cold.getOrCompute('a:1', memoPath, content => content.length);
+    await cold.save();
+
+    await service.addSavedSearch({ name: 'Infra', query: 'tag:infra' });
+    await service.setPinned('Infra', true);
+    await service.renameSavedSearch('Infra', 'Ops');
+    await service.deleteSavedSearch('Ops');
+
+    const warm = new IndexCacheService(fileService, configService, cachePath);
+    await warm.prepare();
+    assert.strictEqual(await warm.getOrCompute('a:1', memoPath, () => -1), 6);
+    await warm.save();
+  });
+});
@@ -81,6 +81,14 @@ class MockWorkspaceService implements IWorkspaceService {
     return undefined;
   }
 
+  async showVariableForm(variables: any[]): Promise<Record<string, string> | undefined> {
+    return undefined;
+  }
+
+  getVariableEnvironment(): undefined {
+    return undefined;
+  }
+
   showErrorMessage(message: string): void {
     // Mock implementation
   }
@@ -188,6 +196,65 @@ Project content here`;
       assert.ok(result.baseDir && result.baseDir.startsWith('projects/2025'));
     });
 
+    test('should keep YAML frontmatter structure and quote values containing colons', async () => {
+      const templateContent = `---
+# Shown in the memo list
+title: {TITLE}
+tags:
+  - meeting
+  - {TITLE}
+owner:
+  name: {TITLE}
+path: {TITLE}.md
+---
+
+Notes`;
+      const fullTemplatePath = '/workspace/.vsmemo/templates/yaml.md';
+      mockFileService.setFileContent(fullTemplatePath, templateContent);
+
+      const registry = new VariableRegistry();
+      const presetInputs = { TITLE: 'Deploy: phase 2' };
+
+      const result = await templateService.processTemplateFromFile('templates/yaml.md', '/workspace/.vsmemo', registry, presetInputs);
+
+      assert.deepStrictEqual(result.frontmatter, { title: 'Deploy: phase 2', tags: ['meeting', 'Deploy: phase 2'], owner: { name: 'Deploy: phase 2' } });
+      assert.strictEqual(result.path, 'Deploy: phase 2.md');
+      assert.strictEqual(
+        result.frontmatterYaml,
+        '# Shown in the memo list\ntitle: "Deploy: phase 2"\ntags:\n  - meeting\n  - "Deploy: phase 2"\nowner:\n  name: "Deploy: phase 2"\n'
+      );
+    });
+
+    test('should render expressions, blocks and includes', async () => {
+      const templateContent = `---
+title: {TITLE}
+due: {DATE+7d}
+{#if PROJECT}
+project: {PROJECT}
+{/if}
+path: meetings/{DATE:YYYY/MM}/{TITLE|slug}.md
+---
+
+# {TITLE}
+
+{> fragments/agenda.md}
+{#each 1..2 as N}
+{N}. {DATE+1d:ddd D MMM}
+{/each}`;
+      mockFileService.setFileContent('/workspace/.vsmemo/templates/meeting.md', templateContent);
+      mockFileService.setFileContent('/workspace/.vsmemo/templates/fragments/agenda.md', '## Agenda for {DATE:dddd}\n');
+
+      const registry = new VariableRegistry();
+      const date = new Date(2026, 0, 30);
+      const presetInputs = { TITLE: 'Sprint Review', PROJECT: '' };
+
+      const result = await templateService.processTemplateFromFile('templates/meeting.md', '/workspace/.vsmemo', registry, presetInputs, date);
+
+      assert.deepStrictEqual(result.frontmatter, { title: 'Sprint Review', due: '2026-02-06' });
+      assert.strictEqual(result.path, 'meetings/2026/01/sprint-review.md');
+      assert.strictEqual(result.content, '# Sprint Review\n\n## Agenda for Friday\n1. Sat 31 Jan\n2. Sat 31 Jan\n');
+    });
+
     test('should handle file not found error', async () => {
       const templateFilePath = 'templates/nonexistent.md';
       const configBasePath = '/workspace/.vsmemo';
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { TrashService } from '../../services/implementations/TrashService';
+import { IFileService, FileStats } from '../../services/interfaces/IFileService';
+
+class MockFileService implements IFileService {
+  files = new Map<string, string>();
+
+  async exists(filePath: string): Promise<boolean> {
+    return this.files.has(filePath) || Array.from(this.files.keys()).some(key => key.startsWith(filePath + '/'));
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const content = this.files.get(filePath);
+    if (content === undefined) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    return content;
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    this.files.set(filePath, content);
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    this.files.delete(filePath);
+  }
+
+  async createDirectory(dirPath: string): Promise<void> {}
+  async openTextDocument(filePath: string): Promise<void> {}
+  async showTextDocument(filePath: string): Promise<void> {}
+  async openFile(filePath: string): Promise<void> {}
+
+  async listFiles(dirPath: string, extensions: string[]): Promise<string[]> {
+    return [];
+  }
+
+  async readDirectory(dirPath: string): Promise<string[]> {
+    return Array.from(this.files.keys())
+      .filter(key => path.dirname(key) === dirPath)
+      .map(key => path.basename(key));
+  }
+
+  async getStats(filePath: string): Promise<FileStats> {
+    return { lastModified: new Date(), isDirectory: false };
+  }
+}
+
+suite('TrashService', () => {
+  const memoPath = '/workspace/memos/old.md';
+  const linkingPath = '/workspace/memos/index.md';
+  let fileService: MockFileService;
+  let service: TrashService;
+
+  setup(() => {
+    fileService = new MockFileService();
+    service = new TrashService(fileService, '/workspace');
+  });
+
+  test('should move a memo to the trash with workspace relative paths', async () => {
+    fileService.files.set(memoPath, '# Old\n');
+
+    const trashed = await service.trash(memoPath, [{ filePath: linkingPath, line: 2, before: '- [[old]]', after: '- old' }]);
+
+    assert.strictEqual(fileService.files.has(memoPath), false);
+    assert.strictEqual(trashed.originalPath, 'memos/old.md');
+    assert.strictEqual(trashed.edits[0].filePath, 'memos/index.md');
+
+    const trashedMemos = await service.getTrashedMemos();
+    assert.deepStrictEqual(trashedMemos.map(memo => memo.content), ['# Old\n']);
+  });
+
+  test('should restore the memo and undo link edits, even on moved lines', async () => {
+    fileService.files.set(memoPath, '# Old\n');
+    const trashed = await service.trash(memoPath, [
+      { filePath: linkingPath, line: 1, before: 'See [[old]]', after: 'See old', previousLine: '# Index', nextLine: '' },
+      { filePath: linkingPath, line: 2, before: '[Old](./old.md)', after: '', previousLine: 'See old', nextLine: '' }
+    ]);
+    // A line was added at the top since the delete
+    fileService.files.set(linkingPath, 'New line\n# Index\nSee old\n');
+
+    const result = await service.restore(trashed.id);
+
+    assert.strictEqual(result.filePath, memoPath);
+    assert.strictEqual(fileService.files.get(memoPath), '# Old\n');
+    assert.strictEqual(fileService.files.get(linkingPath), 'New line\n# Index\nSee [[old]]\n');
+    assert.strictEqual(result.editsRestored, 1);
+    assert.strictEqual(result.editsSkipped, 1);
+    assert.deepStrictEqual(await service.getTrashedMemos(), []);
+  });
+
+  test('should leave a moved line when it cannot be told apart from other lines', async () => {
+    fileService.files.set(memoPath, '# Old\n');
+    const trashed = await service.trash(memoPath, [
+      { filePath: linkingPath, line: 1, before: '- [[old]]', after: '- old', previousLine: '# Index', nextLine: '- other' }
+    ]);
+    // The edited line moved down, and a new "- old" line now sits where it was
+    fileService.files.set(linkingPath, '# Index\n- old\n- new\n- old\n- other');
+
+    const result = await service.restore(trashed.id);
+
+    assert.strictEqual(fileService.files.get(linkingPath), '# Index\n- old\n- new\n- old\n- other');
+    assert.strictEqual(result.editsRestored, 0);
+    assert.strictEqual(result.editsSkipped, 1);
+  });
+
+  test('should restore a moved line found by the lines around it', async () => {
+    fileService.files.set(memoPath, '# Old\n');
+    const trashed = await service.trash(memoPath, [
+      { filePath: linkingPath, line: 1, before: '- [[old]]', after: '- old', previousLine: '# Index', nextLine: '- other' }
+    ]);
+    // Lines were added above, one of them the same as the edited line
+    fileService.files.set(linkingPath, '- old\n# Intro\n# Index\n- old\n- other');
+
+    const result = await service.restore(trashed.id);
+
+    assert.strictEqual(fileService.files.get(linkingPath), '- old\n# Intro\n# Index\n- [[old]]\n- other');
+    assert.strictEqual(result.editsRestored, 1);
+  });
+
+  test('should only undo edits without recorded neighbours in place', async () => {
+    fileService.files.set(memoPath, '# Old\n');
+    const trashed = await service.trash(memoPath, [{ filePath: linkingPath, line: 1, before: 'See [[old]]', after: 'See old' }]);
+    fileService.files.set(linkingPath, '# Index\nNew line\nSee old');
+
+    const result = await service.restore(trashed.id);
+
+    assert.strictEqual(fileService.files.get(linkingPath), '# Index\nNew line\nSee old');
+    assert.strictEqual(result.editsSkipped, 1);
+  });
+
+  test('should not restore over an existing file', async () => {
+    fileService.files.set(memoPath, '# Old\n');
+    const trashed = await service.trash(memoPath, []);
+    fileService.files.set(memoPath, '# Someone else\n');
+
+    await assert.rejects(() => service.restore(trashed.id), /already exists/);
+    assert.strictEqual(fileService.files.get(memoPath), '# Someone else\n');
+  });
+});
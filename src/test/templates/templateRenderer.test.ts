@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { expandIncludes, renderBlocks, renderExpressions, slugify } from '../../templates/templateRenderer';
+
+suite('templateRenderer', () => {
+  const variables = {
+    TITLE: 'Deploy: Phase 2',
+    DATE: '2026-01-30',
+    DATETIME: '2026-01-30 09:15:00',
+    ATTENDEES: 'Alice, Bob',
+    EMPTY: ''
+  };
+
+  suite('renderExpressions', () => {
+    test('should replace plain variables and leave unknown ones', () => {
+      assert.strictEqual(renderExpressions('# {TITLE} {UNKNOWN}', variables), '# Deploy: Phase 2 {UNKNOWN}');
+    });
+
+    test('should apply date math', () => {
+      assert.strictEqual(renderExpressions('{DATE+1d} {DATE-1w} {DATE+1m} {DATE+1y}', variables), '2026-01-31 2026-01-23 2026-03-02 2027-01-30');
+      assert.strictEqual(renderExpressions('{DATETIME+2d}', variables), '2026-02-01 09:15:00');
+    });
+
+    test('should format dates', () => {
+      assert.strictEqual(renderExpressions('{DATE:YYYY/MM/DD}', variables), '2026/01/30');
+      assert.strictEqual(renderExpressions('{DATE+3d:dddd, MMM D}', variables), 'Monday, Feb 2');
+      assert.strictEqual(renderExpressions('{DATE:GGGG-[W]WW}', variables), '2026-W05');
+      assert.strictEqual(renderExpressions('{DATETIME:HH:mm}', variables), '09:15');
+    });
+
+    test('should apply filters in order', () => {
+      assert.strictEqual(renderExpressions('{TITLE|slug}', variables), 'deploy-phase-2');
+      assert.strictEqual(renderExpressions('{TITLE|upper}', variables), 'DEPLOY: PHASE 2');
+      assert.strictEqual(renderExpressions('{DATE:MMMM|lower}', variables), 'january');
+    });
+
+    test('should use the default filter for empty and unknown variables', () => {
+      assert.strictEqual(renderExpressions('{EMPTY|default:none} {UNKNOWN|default:n/a}', variables), 'none n/a');
+    });
+
+    test('should reject date math on values that are not dates', () => {
+      assert.throws(() => renderExpressions('{TITLE+1d}', variables), /TITLE is not a date/);
+    });
+
+    test('should reject unknown filters', () => {
+      assert.throws(() => renderExpressions('{TITLE|reverse}', variables), /Unknown filter "reverse"/);
+    });
+  });
+
+  suite('slugify', () => {
+    test('should keep letters of any script', () => {
+      assert.strictEqual(slugify('週次 レビュー #3'), '週次-レビュー-3');
+    });
+  });
+
+  suite('renderBlocks', () => {
+    test('should render the branch matching the condition', () => {
+      const template = '{#if ATTENDEES}with {ATTENDEES}{else}alone{/if}, {#if !EMPTY}no notes{/if}';
+      assert.strictEqual(renderBlocks(template, variables), 'with {ATTENDEES}, no notes');
+      assert.strictEqual(renderBlocks('{#if ATTENDEES}yes{else}no{/if}', {}), 'no');
+    });
+
+    test('should compare values', () => {
+      assert.strictEqual(renderBlocks('{#if DATE == "2026-01-30"}today{/if}{#if DATE != "2026-01-30"}other{/if}', variables), 'today');
+    });
+
+    test('should drop lines holding only a block tag', () => {
+      const template = 'Start\n{#if EMPTY}\nHidden\n{/if}\n{#if TITLE}\nShown\n{/if}\nEnd';
+      assert.strictEqual(renderBlocks(template, variables), 'Start\nShown\nEnd');
+    });
+
+    test('should loop over lists and fill in the item', () => {
+      const template = '{#each ATTENDEES as NAME}\n- [ ] {NAME|lower} ({TITLE})\n{/each}';
+      assert.strictEqual(renderBlocks(template, variables), '- [ ] alice ({TITLE})\n- [ ] bob ({TITLE})\n');
+    });
+
+    test('should loop over date and number ranges', () => {
+      const dates = { ...variables, END: '2026-02-01' };
+      assert.strictEqual(renderBlocks('{#each DATE..END as DAY}{DAY:ddd} {/each}', dates), 'Fri Sat Sun ');
+      assert.strictEqual(renderBlocks('{#each 1..3 as N}{N}{/each}', {}), '123');
+    });
+
+    test('should nest blocks', () => {
+      const template = '{#each 1..3 as N}{#if N == "2"}two{else}{N}{/if}{/each}';
+      assert.strictEqual(renderBlocks(template, {}), '1two3');
+    });
+
+    test('should reject unbalanced blocks', () => {
+      assert.throws(() => renderBlocks('{#if TITLE}open', variables), /Unclosed \{#if\}/);
+      assert.throws(() => renderBlocks('{#if TITLE}x{/each}', variables), /Unexpected \{\/each\}/);
+      assert.throws(() => renderBlocks('{else}', variables), /Unexpected \{else\}/);
+    });
+  });
+
+  suite('expandIncludes', () => {
+    const files: Record<string, string> = {
+      '/templates/meeting.md': '# {TITLE}\n{> fragments/agenda.md}\nNotes',
+      '/templates/fragments/agenda.md': '## Agenda\n{> footer.md}\n',
+      '/templates/fragments/footer.md': '- [ ] Review\n',
+      '/templates/loop.md': '{> loop.md}'
+    };
+    const readFile = async (filePath: string) => {
+      if (!(filePath in files)) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      return files[filePath];
+    };
+
+    test('should include fragments relative to the including file', async () => {
+      const result = await expandIncludes(files['/templates/meeting.md'], '/templates/meeting.md', readFile);
+      assert.strictEqual(result, '# {TITLE}\n## Agenda\n- [ ] Review\nNotes');
+    });
+
+    test('should stop templates that include themselves', async () => {
+      await assert.rejects(() => expandIncludes(files['/templates/loop.md'], '/templates/loop.md', readFile), /nested more than 10 levels/);
+    });
+  });
+});
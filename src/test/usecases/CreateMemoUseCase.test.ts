@@ -118,6 +118,14 @@ class MockWorkspaceService implements IWorkspaceService {
     return this.inputBoxResult;
   }
 
+  async showVariableForm(variables: any[]): Promise<Record<string, string> | undefined> {
+    return {};
+  }
+
+  getVariableEnvironment(): undefined {
+    return undefined;
+  }
+
   showErrorMessage(message: string): void {
     this.errorMessages.push(message);
   }
@@ -348,4 +356,20 @@ suite('CreateMemoUseCase', () => {
     assert.ok(mockFileService.openedFiles.includes(expectedPath));
   });
 
-});
\ No newline at end of file
+  test('should append extracted text and carry over tags', async () => {
+    await useCase.execute('Daily Note', 'Extracted', undefined, { body: '## Rollout\n\nShip it', tags: ['infra', 'q3'] });
+
+    const writtenContent = mockFileService.getWrittenContent('/test/workspace/memos/Extracted.md');
+    assert.ok(writtenContent);
+    assert.ok(writtenContent.endsWith('Processed: Daily templatePath: {TITLE}\n\n## Rollout\n\nShip it\n'));
+    assert.ok(writtenContent.includes('tags: [infra, q3]'));
+  });
+
+  test('should not extract text into an existing memo', async () => {
+    const existingPath = '/test/workspace/memos/Existing Title.md';
+    await mockFileService.writeFile(existingPath, 'Existing content');
+
+    await assert.rejects(() => useCase.execute('Daily Note', 'Existing Title', undefined, { body: 'Moved text' }), /already exists/);
+    assert.strictEqual(mockFileService.getWrittenContent(existingPath), 'Existing content');
+  });
+});
@@ -127,6 +127,14 @@ class MockWorkspaceService implements IWorkspaceService {
     return this.inputBoxResult;
   }
 
+  async showVariableForm(variables: any[]): Promise<Record<string, string> | undefined> {
+    return {};
+  }
+
+  getVariableEnvironment(): undefined {
+    return undefined;
+  }
+
   showErrorMessage(message: string): void {
     this.errorMessages.push(message);
   }
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import { MoveMemoUseCase } from '../../usecases/MoveMemoUseCase';
+import { IFileService, FileStats } from '../../services/interfaces/IFileService';
+import { Backlink } from '../../services/interfaces/IBacklinkService';
+import { ILinkUpdateService, LinkRemovalResult, LinkRepairResult, LinkUpdateResult } from '../../services/interfaces/ILinkUpdateService';
+
+class MockFileService implements IFileService {
+  files = new Map<string, string>();
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async readFile(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  async createDirectory(path: string): Promise<void> {}
+  async openTextDocument(path: string): Promise<void> {}
+  async showTextDocument(path: string): Promise<void> {}
+  async openFile(path: string): Promise<void> {}
+
+  async listFiles(dirPath: string, extensions: string[]): Promise<string[]> {
+    return [];
+  }
+
+  async readDirectory(path: string): Promise<string[]> {
+    return [];
+  }
+
+  async getStats(path: string): Promise<FileStats> {
+    return { lastModified: new Date(), isDirectory: false };
+  }
+}
+
+class MockLinkUpdateService implements ILinkUpdateService {
+  renames: Array<[string, string]> = [];
+
+  async updateLinksAfterRename(oldPath: string, newPath: string): Promise<LinkUpdateResult> {
+    this.renames.push([oldPath, newPath]);
+    return { filesUpdated: 1, linksUpdated: 2, errors: [] };
+  }
+
+  async redirectLinks(oldPath: string, newPath: string): Promise<LinkUpdateResult> {
+    return { filesUpdated: 0, linksUpdated: 0, errors: [] };
+  }
+
+  async removeLinksTo(targetPath: string): Promise<LinkRemovalResult> {
+    return { filesUpdated: 0, linksUpdated: 0, errors: [], edits: [] };
+  }
+
+  async repairBrokenLinks(): Promise<LinkRepairResult> {
+    return { filesUpdated: 0, linksUpdated: 0, errors: [], unresolved: [] };
+  }
+
+  async findFilesWithLinksTo(targetPath: string): Promise<string[]> {
+    return [];
+  }
+
+  async findBrokenAnchorLinks(targetPath: string): Promise<Backlink[]> {
+    return [];
+  }
+}
+
+suite('MoveMemoUseCase', () => {
+  let fileService: MockFileService;
+  let linkUpdateService: MockLinkUpdateService;
+  let useCase: MoveMemoUseCase;
+
+  setup(() => {
+    fileService = new MockFileService();
+    linkUpdateService = new MockLinkUpdateService();
+    useCase = new MoveMemoUseCase(fileService, linkUpdateService);
+  });
+
+  test('should move a memo, update links and change its type', async () => {
+    fileService.files.set('/ws/notes/idea.md', '---\ntype: note\n---\n\nSee [Plan](./plan.md)\n');
+
+    const result = await useCase.execute(['/ws/notes/idea.md'], { directory: '/ws/projects/alpha', memoTypeId: 'project' });
+
+    assert.strictEqual(fileService.files.has('/ws/notes/idea.md'), false);
+    assert.strictEqual(
+      fileService.files.get('/ws/projects/alpha/idea.md'),
+      '---\ntype: project\n---\n\nSee [Plan](./plan.md)\n'
+    );
+    assert.deepStrictEqual(linkUpdateService.renames, [['/ws/notes/idea.md', '/ws/projects/alpha/idea.md']]);
+    assert.deepStrictEqual(result.moved, [{ from: '/ws/notes/idea.md', to: '/ws/projects/alpha/idea.md' }]);
+    assert.strictEqual(result.linksUpdated, 2);
+  });
+
+  test('should only change the type when the memo stays in its directory', async () => {
+    fileService.files.set('/ws/notes/idea.md', '---\ntype: note\n---\n');
+
+    const result = await useCase.execute(['/ws/notes/idea.md'], { directory: '/ws/notes', memoTypeId: 'project' });
+
+    assert.strictEqual(fileService.files.get('/ws/notes/idea.md'), '---\ntype: project\n---\n');
+    assert.deepStrictEqual(linkUpdateService.renames, []);
+    assert.strictEqual(result.moved.length, 1);
+  });
+
+  test('should skip memos whose name is taken at the destination', async () => {
+    fileService.files.set('/ws/notes/idea.md', 'Mine');
+    fileService.files.set('/ws/archive/idea.md', 'Theirs');
+
+    const result = await useCase.execute(['/ws/notes/idea.md'], { directory: '/ws/archive' });
+
+    assert.strictEqual(fileService.files.get('/ws/notes/idea.md'), 'Mine');
+    assert.strictEqual(fileService.files.get('/ws/archive/idea.md'), 'Theirs');
+    assert.deepStrictEqual(result.moved, []);
+    assert.strictEqual(result.errors.length, 1);
+  });
+});
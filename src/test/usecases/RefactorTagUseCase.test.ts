@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import { RefactorTagUseCase, TagRefactorPlan, TagTextEdit } from '../../usecases/RefactorTagUseCase';
+import { IFileService, FileStats } from '../../services/interfaces/IFileService';
+import { ITagIndexService, TagInfo, MemoWithTags } from '../../services/interfaces/ITagIndexService';
+import { parseFrontmatter } from '../../utils/frontmatterUtils';
+import { isTagInHierarchy, parseInlineTags } from '../../utils/tagUtils';
+
+class MockFileService implements IFileService {
+  files = new Map<string, string>();
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async readFile(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  async createDirectory(path: string): Promise<void> {}
+  async openTextDocument(path: string): Promise<void> {}
+  async showTextDocument(path: string): Promise<void> {}
+  async openFile(path: string): Promise<void> {}
+
+  async listFiles(dirPath: string, extensions: string[]): Promise<string[]> {
+    return [];
+  }
+
+  async readDirectory(path: string): Promise<string[]> {
+    return [];
+  }
+
+  async getStats(path: string): Promise<FileStats> {
+    return { lastModified: new Date(), isDirectory: false };
+  }
+}
+
+class MockTagIndexService implements ITagIndexService {
+  constructor(private fileService: MockFileService) {}
+
+  async buildIndex(): Promise<void> {
+    // Mock implementation
+  }
+
+  async getAllTags(): Promise<TagInfo[]> {
+    return [];
+  }
+
+  async getMemosByTag(tag: string): Promise<MemoWithTags[]> {
+    const memos: MemoWithTags[] = [];
+    for (const [filePath, content] of this.fileService.files) {
+      const tags: string[] = [...parseFrontmatter(content)?.tags || [], ...parseInlineTags(content).map(inlineTag => inlineTag.tag)];
+      if (tags.some(memoTag => isTagInHierarchy(memoTag, tag))) {
+        memos.push({ filePath, title: filePath, tags, inlineTags: [], lastModified: new Date() });
+      }
+    }
+    return memos;
+  }
+
+  async getMemosByTags(tags: string[], mode: 'AND' | 'OR'): Promise<MemoWithTags[]> {
+    return [];
+  }
+
+  async updateFile(filePath: string): Promise<void> {
+    // Mock implementation
+  }
+
+  async removeFile(filePath: string): Promise<void> {
+    // Mock implementation
+  }
+}
+
+/**
+ * Apply planned edits the way a WorkspaceEdit would
+ */
+function applyEdits(content: string, edits: TagTextEdit[]): string {
+  const lines = content.split('\n');
+  const offsetAt = (line: number, character: number) =>
+    lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0) + character;
+  // Last edit first, so earlier offsets stay valid
+  const sorted = [...edits].sort((a, b) =>
+    offsetAt(b.range.startLine, b.range.startCharacter) - offsetAt(a.range.startLine, a.range.startCharacter)
+  );
+  for (const edit of sorted) {
+    const start = offsetAt(edit.range.startLine, edit.range.startCharacter);
+    const end = offsetAt(edit.range.endLine, edit.range.endCharacter);
+    content = content.slice(0, start) + edit.newText + content.slice(end);
+  }
+  return content;
+}
+
+suite('RefactorTagUseCase', () => {
+  let fileService: MockFileService;
+  let useCase: RefactorTagUseCase;
+
+  setup(() => {
+    fileService = new MockFileService();
+    useCase = new RefactorTagUseCase(fileService, new MockTagIndexService(fileService));
+  });
+
+  async function applyPlan(plan: TagRefactorPlan): Promise<void> {
+    for (const change of plan.changes) {
+      fileService.files.set(change.filePath, applyEdits(await fileService.readFile(change.filePath), change.edits));
+    }
+  }
+
+  test('should rename a tag and its children in frontmatter and inline hashtags', async () => {
+    fileService.files.set('/ws/a.md', '---\ntitle: A\ntags: [project/alpha/infra, ops]\n---\n\nSee #project/alpha and #projects\n');
+    fileService.files.set('/ws/b.md', '---\ntags:\n  - project\n---\n');
+    fileService.files.set('/ws/c.md', '---\ntags: [projects]\n---\n');
+    fileService.files.set('/ws/d.md', '# D\n\n- [ ] Plan #project\n');
+
+    const plan = await useCase.planRename('project', 'work');
+    await applyPlan(plan);
+
+    assert.strictEqual(fileService.files.get('/ws/a.md'), '---\ntitle: A\ntags: [work/alpha/infra, ops]\n---\n\nSee #work/alpha and #projects\n');
+    assert.strictEqual(fileService.files.get('/ws/b.md'), '---\ntags:\n  - work\n---\n');
+    assert.strictEqual(fileService.files.get('/ws/c.md'), '---\ntags: [projects]\n---\n');
+    assert.strictEqual(fileService.files.get('/ws/d.md'), '# D\n\n- [ ] Plan #work\n');
+    assert.deepStrictEqual(
+      plan.changes.map(change => [change.filePath, change.frontmatterChanged, change.inlineTagsChanged]),
+      [['/ws/a.md', true, 1], ['/ws/b.md', true, 0], ['/ws/d.md', false, 1]]
+    );
+  });
+
+  test('should merge into an existing tag without duplicates', async () => {
+    fileService.files.set('/ws/a.md', '---\ntags: [k8s, kubernetes]\n---\n');
+
+    await applyPlan(await useCase.planRename('k8s', ' kubernetes '));
+
+    assert.strictEqual(fileService.files.get('/ws/a.md'), '---\ntags: [kubernetes]\n---\n');
+  });
+
+  test('should delete a tag, its hashtags and empty tag lists', async () => {
+    fileService.files.set('/ws/a.md', '---\ntitle: A\ntags: [draft, draft/old]\n---\n#draft Notes #draft/old\n');
+    fileService.files.set('/ws/b.md', '---\ntags: [draft, ops]\n---\n');
+
+    const plan = await useCase.planDelete('draft');
+    await applyPlan(plan);
+
+    assert.strictEqual(fileService.files.get('/ws/a.md'), '---\ntitle: A\n---\nNotes\n');
+    assert.strictEqual(fileService.files.get('/ws/b.md'), '---\ntags: [ops]\n---\n');
+    assert.strictEqual(plan.changes.length, 2);
+  });
+
+  test('should reject an empty tag', async () => {
+    await assert.rejects(() => useCase.planRename('draft', ' / '), /Tag cannot be empty/);
+  });
+});
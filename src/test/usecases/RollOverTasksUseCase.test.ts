@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { RollOverTasksUseCase } from '../../usecases/RollOverTasksUseCase';
+import { IFileService, FileStats } from '../../services/interfaces/IFileService';
+import { IPeriodicNoteService, PeriodicNote } from '../../services/interfaces/IPeriodicNoteService';
+import { MemoType } from '../../models/MemoType';
+import { NotePeriod } from '../../models/PeriodicNote';
+
+class MockFileService implements IFileService {
+  files = new Map<string, string>();
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async readFile(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  async createDirectory(path: string): Promise<void> {}
+  async openTextDocument(path: string): Promise<void> {}
+  async showTextDocument(path: string): Promise<void> {}
+  async openFile(path: string): Promise<void> {}
+
+  async listFiles(dirPath: string, extensions: string[]): Promise<string[]> {
+    return [];
+  }
+
+  async readDirectory(path: string): Promise<string[]> {
+    return [];
+  }
+
+  async getStats(path: string): Promise<FileStats> {
+    return { lastModified: new Date(), isDirectory: false };
+  }
+}
+
+class MockPeriodicNoteService implements IPeriodicNoteService {
+  notes = new Map<string, PeriodicNote>();
+
+  addDailyNote(key: string): string {
+    const filePath = `/ws/daily/${key}.md`;
+    this.notes.set(key, { period: 'daily', date: new Date(`${key}T00:00:00`), filePath });
+    return filePath;
+  }
+
+  async getPeriodicMemoType(period: NotePeriod): Promise<MemoType | undefined> {
+    return undefined;
+  }
+
+  async getNotes(period: NotePeriod): Promise<Map<string, PeriodicNote>> {
+    return period === 'daily' ? this.notes : new Map();
+  }
+
+  async findNote(period: NotePeriod, date: Date): Promise<PeriodicNote | undefined> {
+    return undefined;
+  }
+
+  async getNoteForFile(filePath: string): Promise<PeriodicNote | undefined> {
+    return [...this.notes.values()].find(note => note.filePath === filePath);
+  }
+}
+
+suite('RollOverTasksUseCase', () => {
+  let fileService: MockFileService;
+  let periodicNoteService: MockPeriodicNoteService;
+  let useCase: RollOverTasksUseCase;
+
+  setup(() => {
+    fileService = new MockFileService();
+    periodicNoteService = new MockPeriodicNoteService();
+    useCase = new RollOverTasksUseCase(fileService, periodicNoteService);
+  });
+
+  test('should move unfinished tasks from the latest earlier note into the tasks section', async () => {
+    const older = periodicNoteService.addDailyNote('2026-10-15');
+    const yesterday = periodicNoteService.addDailyNote('2026-10-18');
+    const today = periodicNoteService.addDailyNote('2026-10-19');
+    fileService.files.set(older, '- [ ] Old task\n');
+    fileService.files.set(yesterday, '# 2026-10-18\n\n## Tasks\n- [x] Done\n- [ ] Review PR #review\n  - [ ] Reply to comments\n\n## Notes\nText\n');
+    fileService.files.set(today, '# 2026-10-19\n\n## Tasks\n- [ ]\n\n## Notes\n');
+
+    const result = await useCase.execute(today);
+
+    assert.deepStrictEqual(result, { sourcePath: yesterday, moved: 1, skipped: 0 });
+    assert.strictEqual(
+      fileService.files.get(today),
+      '# 2026-10-19\n\n## Tasks\n- [ ] Review PR #review\n  - [ ] Reply to comments\n\n## Notes\n'
+    );
+    assert.strictEqual(fileService.files.get(yesterday), '# 2026-10-18\n\n## Tasks\n- [x] Done\n\n## Notes\nText\n');
+    assert.strictEqual(fileService.files.get(older), '- [ ] Old task\n');
+  });
+
+  test('should append to a note without a tasks section and skip tasks it already has', async () => {
+    const yesterday = periodicNoteService.addDailyNote('2026-10-18');
+    const today = periodicNoteService.addDailyNote('2026-10-19');
+    fileService.files.set(yesterday, '- [ ] Call Bob\n- [ ] Write report\n');
+    fileService.files.set(today, '# Today\n- [ ] Call Bob\n');
+
+    const result = await useCase.execute(today);
+
+    assert.deepStrictEqual(result, { sourcePath: yesterday, moved: 1, skipped: 1 });
+    assert.strictEqual(fileService.files.get(today), '# Today\n- [ ] Call Bob\n\n- [ ] Write report\n');
+    assert.strictEqual(fileService.files.get(yesterday), '');
+  });
+
+  test('should reject files that are not daily notes', async () => {
+    await assert.rejects(() => useCase.execute('/ws/notes/idea.md'), /only be rolled over into a daily note/);
+  });
+});
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { getYear, getMonth, getDay, formatDate } from '../../utils/dateUtils';
+import { getYear, getMonth, getDay, formatDate, getISOWeek, getISOWeekStart, getDateOfISOWeek, formatISOWeek, formatDateWithPattern } from '../../utils/dateUtils';
 
 suite('dateUtils', () => {
   const testDate = new Date('2025-06-27T10:30:00');
@@ -29,4 +29,28 @@ suite('dateUtils', () => {
     const singleDigitDay = new Date('2025-06-05T10:30:00');
     assert.strictEqual(getDay(singleDigitDay), '05');
   });
-});
\ No newline at end of file
+
+  test('getISOWeek should count weeks from the week with the first Thursday', () => {
+    assert.deepStrictEqual(getISOWeek(new Date(2026, 0, 1)), { year: 2026, week: 1 });
+    // Friday 1 January 2027 belongs to the last week of 2026
+    assert.deepStrictEqual(getISOWeek(new Date(2027, 0, 1)), { year: 2026, week: 53 });
+    // Monday 29 December 2025 already belongs to week 1 of 2026
+    assert.deepStrictEqual(getISOWeek(new Date(2025, 11, 29)), { year: 2026, week: 1 });
+    assert.strictEqual(formatISOWeek(new Date(2025, 5, 27)), '2025-W26');
+  });
+
+  test('getISOWeekStart and getDateOfISOWeek should return Mondays', () => {
+    assert.strictEqual(formatDate(getISOWeekStart(new Date(2026, 9, 25))), '2026-10-19');
+    assert.strictEqual(formatDate(getISOWeekStart(new Date(2026, 9, 19))), '2026-10-19');
+    assert.strictEqual(formatDate(getDateOfISOWeek(2026, 1)), '2025-12-29');
+    assert.strictEqual(formatDate(getDateOfISOWeek(2026, 43)), '2026-10-19');
+  });
+
+  test('formatDateWithPattern should replace tokens and keep bracketed text', () => {
+    const date = new Date(2026, 0, 5, 7, 3, 9);
+    assert.strictEqual(formatDateWithPattern(date, 'YYYY/MM/DD'), '2026/01/05');
+    assert.strictEqual(formatDateWithPattern(date, 'dddd, MMMM D YY'), 'Monday, January 5 26');
+    assert.strictEqual(formatDateWithPattern(date, 'ddd MMM M H:mm:ss'), 'Mon Jan 1 7:03:09');
+    assert.strictEqual(formatDateWithPattern(date, '[Week] W, GGGG-[W]WW'), 'Week 2, 2026-W02');
+  });
+});
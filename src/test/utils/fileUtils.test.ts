@@ -1,5 +1,6 @@
 import * as assert from 'assert';
-import { isValidMemoFile, extractFileNameWithoutExtension } from '../../utils/fileUtils';
+import * as path from 'path';
+import { isValidMemoFile, isMemoFilePath, extractFileNameWithoutExtension } from '../../utils/fileUtils';
 
 suite('fileUtils', () => {
   suite('isValidMemoFile', () => {
@@ -26,6 +27,25 @@ suite('fileUtils', () => {
     });
   });
 
+  suite('isMemoFilePath', () => {
+    const workspaceRoot = path.join(path.sep, 'workspace');
+    const config = { baseDir: 'memos', fileExtensions: ['.md'] };
+
+    test('should accept memo files anywhere under the base directory', () => {
+      assert.strictEqual(isMemoFilePath(path.join(workspaceRoot, 'memos', 'note.md'), workspaceRoot, config), true);
+      assert.strictEqual(isMemoFilePath(path.join(workspaceRoot, 'memos', 'daily', 'note.md'), workspaceRoot, config), true);
+    });
+
+    test('should reject files outside the base directory', () => {
+      assert.strictEqual(isMemoFilePath(path.join(workspaceRoot, 'README.md'), workspaceRoot, config), false);
+      assert.strictEqual(isMemoFilePath(path.join(workspaceRoot, 'memos-old', 'note.md'), workspaceRoot, config), false);
+    });
+
+    test('should reject files without a memo extension', () => {
+      assert.strictEqual(isMemoFilePath(path.join(workspaceRoot, 'memos', 'note.txt'), workspaceRoot, config), false);
+    });
+  });
+
   suite('extractFileNameWithoutExtension', () => {
     test('should extract filename without .md extension', () => {
       assert.strictEqual(extractFileNameWithoutExtension('test.md', ['.md', '.markdown']), 'test');
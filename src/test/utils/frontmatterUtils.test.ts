@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { outlineFrontmatter, parseFrontmatter, splitFrontmatter, stringifyFrontmatter, updateFrontmatter } from '../../utils/frontmatterUtils';
+
+const MEMO = `---
+# Memo metadata
+title: "Deploy: phase 2"
+type: meeting
+date: 2026-01-05
+tags:
+  - infra
+  - ops
+owner:
+  name: alice
+aliases: [deploy, rollout]
+---
+
+# Body
+`;
+
+suite('frontmatterUtils', () => {
+  test('parseFrontmatter should read lists, nested objects, quoted colons and dates', () => {
+    assert.deepStrictEqual(parseFrontmatter(MEMO), {
+      title: 'Deploy: phase 2',
+      type: 'meeting',
+      date: '2026-01-05',
+      tags: ['infra', 'ops'],
+      owner: { name: 'alice' },
+      aliases: ['deploy', 'rollout']
+    });
+  });
+
+  test('parseFrontmatter should return null without frontmatter or for invalid YAML', () => {
+    assert.strictEqual(parseFrontmatter('# Just a heading'), null);
+    assert.strictEqual(parseFrontmatter('---\ntitle: [unclosed\n---\n'), null);
+    assert.deepStrictEqual(parseFrontmatter('---\n---\nbody'), {});
+  });
+
+  test('splitFrontmatter should return the body after the closing fence', () => {
+    const block = splitFrontmatter('---\r\ntitle: A\r\n---\r\nbody');
+
+    assert.deepStrictEqual(block, { yaml: 'title: A', body: 'body', eol: '\r\n' });
+  });
+
+  test('updateFrontmatter should keep comments, key order and formatting', () => {
+    const updated = updateFrontmatter(MEMO, { title: 'Deploy: phase 3', tags: ['infra', 'ops', 'db'], status: 'open', aliases: undefined });
+
+    assert.strictEqual(updated, `---
+# Memo metadata
+title: "Deploy: phase 3"
+type: meeting
+date: 2026-01-05
+tags:
+  - infra
+  - ops
+  - db
+owner:
+  name: alice
+status: open
+---
+
+# Body
+`);
+  });
+
+  test('updateFrontmatter should return unchanged content when values are already set', () => {
+    assert.strictEqual(updateFrontmatter(MEMO, { type: 'meeting', tags: ['infra', 'ops'] }), MEMO);
+  });
+
+  test('updateFrontmatter should add frontmatter to memos without it', () => {
+    assert.strictEqual(updateFrontmatter('# Note\n', { type: 'daily', tags: ['a', 'b'] }), '---\ntype: daily\ntags: [a, b]\n---\n\n# Note\n');
+  });
+
+  test('stringifyFrontmatter should write plain lists inline and quote when needed', () => {
+    assert.strictEqual(
+      stringifyFrontmatter({ title: 'a: b', tags: ['x', 'y'], priority: 3, owner: { name: 'alice' } }),
+      'title: "a: b"\ntags: [x, y]\npriority: 3\nowner:\n  name: alice'
+    );
+  });
+
+  test('outlineFrontmatter should locate keys, values and syntax errors in the memo', () => {
+    const outline = outlineFrontmatter('---\ntype: meeting\nstatus:   open\n---\n\n# Body\n');
+    assert.ok(outline);
+    assert.strictEqual(outline.endLine, 3);
+    assert.deepStrictEqual(outline.keys.get('status'), {
+      key: { startLine: 2, startCharacter: 0, endLine: 2, endCharacter: 6 },
+      value: { startLine: 2, startCharacter: 10, endLine: 2, endCharacter: 14 }
+    });
+    assert.deepStrictEqual(outline.errors, []);
+
+    const invalid = outlineFrontmatter('---\ntitle: a: b\n---\n');
+    assert.ok(invalid);
+    assert.strictEqual(invalid.errors.length, 1);
+    assert.strictEqual(invalid.errors[0].range.startLine, 1);
+  });
+});
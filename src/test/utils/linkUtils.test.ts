@@ -0,0 +1,215 @@
+import * as assert from 'assert';
+import {
+  parseMemoLinks,
+  findMemoLinkAt,
+  replaceMemoLinks,
+  rebaseMarkdownLinks,
+  unlinkMemoLinks,
+  renameWikiTarget,
+  wikiTargetMatchesPath,
+  extractFrontmatterTitle,
+  slugifyHeading,
+  listAnchors,
+  findAnchor,
+  extractAnchorSection,
+  formatWikiLink,
+  WikiLinkResolver
+} from '../../utils/linkUtils';
+
+suite('linkUtils', () => {
+  suite('parseMemoLinks', () => {
+    test('should parse markdown links to memo files', () => {
+      const links = parseMemoLinks('See [Design](./design.md) and [web](https://example.com/a.md)');
+      assert.strictEqual(links.length, 1);
+      assert.strictEqual(links[0].kind, 'markdown');
+      assert.strictEqual(links[0].text, 'Design');
+      assert.strictEqual(links[0].target, './design.md');
+    });
+
+    test('should parse wiki links with and without alias', () => {
+      const links = parseMemoLinks('[[Memo Title]] and [[folder/memo|alias]]');
+      assert.strictEqual(links.length, 2);
+      assert.strictEqual(links[0].kind, 'wiki');
+      assert.strictEqual(links[0].target, 'Memo Title');
+      assert.strictEqual(links[0].text, 'Memo Title');
+      assert.strictEqual(links[1].target, 'folder/memo');
+      assert.strictEqual(links[1].text, 'alias');
+    });
+
+    test('should parse anchors on markdown and wiki links', () => {
+      const links = parseMemoLinks('[api](./design.md#api) [[design#Rollback Plan|plan]] [[notes#^abc123]]');
+      assert.strictEqual(links.length, 3);
+      assert.strictEqual(links[0].target, './design.md');
+      assert.strictEqual(links[0].anchor, 'api');
+      assert.strictEqual(links[1].target, 'design');
+      assert.strictEqual(links[1].anchor, 'Rollback Plan');
+      assert.strictEqual(links[1].text, 'plan');
+      assert.strictEqual(links[2].anchor, '^abc123');
+    });
+
+    test('should return links in line order with offsets', () => {
+      const line = 'a [[b]] c [d](./d.md)';
+      const links = parseMemoLinks(line);
+      assert.deepStrictEqual(links.map(link => line.substring(link.start, link.end)), ['[[b]]', '[d](./d.md)']);
+    });
+  });
+
+  suite('findMemoLinkAt', () => {
+    test('should find the link under the cursor', () => {
+      const link = findMemoLinkAt('text [[Target]] text', 8);
+      assert.ok(link);
+      assert.strictEqual(link!.target, 'Target');
+    });
+
+    test('should return undefined outside of links', () => {
+      assert.strictEqual(findMemoLinkAt('text [[Target]] text', 1), undefined);
+    });
+  });
+
+  suite('replaceMemoLinks', () => {
+    test('should replace links and count replacements', () => {
+      const result = replaceMemoLinks('[[a]] [[b]]\n[[a]]', link => link.target === 'a' ? '[[z]]' : undefined);
+      assert.strictEqual(result.content, '[[z]] [[b]]\n[[z]]');
+      assert.strictEqual(result.replaced, 2);
+    });
+  });
+
+  suite('unlinkMemoLinks', () => {
+    const isOld = (link: { target: string }) => link.target === './old.md' || link.target === 'old';
+
+    test('should replace matching links with their text', () => {
+      assert.strictEqual(
+        unlinkMemoLinks('See [Old plan](./old.md), [[old|the old one]] and [[new]]', isOld, true),
+        'See Old plan, the old one and [[new]]'
+      );
+    });
+
+    test('should remove matching links without leaving stray spaces', () => {
+      assert.strictEqual(unlinkMemoLinks('See [Old](./old.md) and [[old]].', isOld, false), 'See and.');
+      assert.strictEqual(unlinkMemoLinks('Related: [[new]] [[old]]', isOld, false), 'Related: [[new]]');
+    });
+  });
+
+  suite('rebaseMarkdownLinks', () => {
+    test('should keep markdown links pointing at the same memos from the new location', () => {
+      const content = 'See [Plan](./plan.md#goals), [Log](../log.md) and [[Plan]]';
+      assert.deepStrictEqual(
+        rebaseMarkdownLinks(content, '/ws/memos/projects/a.md', '/ws/memos/b.md'),
+        { content: 'See [Plan](./projects/plan.md#goals), [Log](./log.md) and [[Plan]]', replaced: 2 }
+      );
+    });
+
+    test('should point links to the old file at the new one', () => {
+      assert.strictEqual(
+        rebaseMarkdownLinks('[Top](./a.md#top) [B](b.md)', '/ws/memos/a.md', '/ws/memos/renamed.md').content,
+        '[Top](./renamed.md#top) [B](b.md)'
+      );
+    });
+
+    test('should leave content alone within the same directory', () => {
+      const content = '[Plan](./plan.md)';
+      assert.deepStrictEqual(rebaseMarkdownLinks(content, '/ws/memos/a.md', '/ws/memos/b.md'), { content, replaced: 0 });
+    });
+  });
+
+  suite('wiki targets', () => {
+    test('wikiTargetMatchesPath should match by file name and path suffix', () => {
+      assert.strictEqual(wikiTargetMatchesPath('Note', '/ws/memos/note.md'), true);
+      assert.strictEqual(wikiTargetMatchesPath('memos/note', '/ws/memos/note.md'), true);
+      assert.strictEqual(wikiTargetMatchesPath('other/note', '/ws/memos/note.md'), false);
+      assert.strictEqual(wikiTargetMatchesPath('ote', '/ws/memos/note.md'), false);
+    });
+
+    test('renameWikiTarget should keep the original form', () => {
+      assert.strictEqual(renameWikiTarget('old', '/ws/memos/new.md'), 'new');
+      assert.strictEqual(renameWikiTarget('memos/old', '/ws/archive/new.md'), 'archive/new');
+      assert.strictEqual(renameWikiTarget('old.md', '/ws/memos/new.md'), 'new.md');
+    });
+  });
+
+  suite('anchors', () => {
+    const content = [
+      '---',
+      'title: Design',
+      '---',
+      '# Design',
+      '## API Overview',
+      'Endpoints are listed here ^endpoints',
+      '```',
+      '# not a heading',
+      '```',
+      '### Details',
+      'More text',
+      '## Rollback',
+      'Steps'
+    ].join('\n');
+
+    test('slugifyHeading should create GitHub style slugs', () => {
+      assert.strictEqual(slugifyHeading('API Overview'), 'api-overview');
+      assert.strictEqual(slugifyHeading('What? Why!'), 'what-why');
+      assert.strictEqual(slugifyHeading('設計 メモ'), '設計-メモ');
+    });
+
+    test('listAnchors should skip frontmatter and code blocks', () => {
+      const anchors = listAnchors(content);
+      assert.deepStrictEqual(anchors.map(anchor => anchor.id), ['design', 'api-overview', 'endpoints', 'details', 'rollback']);
+    });
+
+    test('findAnchor should match headings by slug or text and blocks by id', () => {
+      assert.strictEqual(findAnchor(content, 'api-overview')?.line, 4);
+      assert.strictEqual(findAnchor(content, 'API Overview')?.line, 4);
+      assert.strictEqual(findAnchor(content, '^endpoints')?.line, 5);
+      assert.strictEqual(findAnchor(content, 'missing'), undefined);
+    });
+
+    test('extractAnchorSection should stop at the next heading of the same level', () => {
+      const section = extractAnchorSection(content, 'api-overview');
+      assert.ok(section!.startsWith('## API Overview'));
+      assert.ok(section!.includes('### Details'));
+      assert.ok(!section!.includes('Rollback'));
+      assert.strictEqual(extractAnchorSection(content, '^endpoints'), 'Endpoints are listed here');
+    });
+
+    test('formatWikiLink should keep anchors and aliases', () => {
+      assert.strictEqual(formatWikiLink('note', 'Alias', 'Heading'), '[[note#Heading|Alias]]');
+      assert.strictEqual(formatWikiLink('note', undefined, '^id'), '[[note#^id]]');
+    });
+  });
+
+  suite('extractFrontmatterTitle', () => {
+    test('should extract quoted and unquoted titles', () => {
+      assert.strictEqual(extractFrontmatterTitle('---\ntitle: Hello\n---\n'), 'Hello');
+      assert.strictEqual(extractFrontmatterTitle('---\ntitle: "A: B"\n---\n'), 'A: B');
+      assert.strictEqual(extractFrontmatterTitle('# No frontmatter'), undefined);
+    });
+  });
+
+  suite('WikiLinkResolver', () => {
+    test('should resolve by file name before title', () => {
+      const resolver = new WikiLinkResolver();
+      resolver.setEntry('/ws/memos/meeting.md', 'Weekly Sync');
+      resolver.setEntry('/ws/memos/weekly sync.md');
+
+      assert.strictEqual(resolver.resolve('meeting'), '/ws/memos/meeting.md');
+      assert.strictEqual(resolver.resolve('weekly sync'), '/ws/memos/weekly sync.md');
+    });
+
+    test('should resolve by frontmatter title', () => {
+      const resolver = new WikiLinkResolver();
+      resolver.setEntry('/ws/memos/2025-01-01.md', 'New Year Plan');
+      assert.strictEqual(resolver.resolve('new year plan'), '/ws/memos/2025-01-01.md');
+    });
+
+    test('should prefer the memo in the same directory as the source', () => {
+      const resolver = new WikiLinkResolver();
+      resolver.setEntry('/ws/a/note.md');
+      resolver.setEntry('/ws/b/note.md');
+      assert.strictEqual(resolver.resolve('note', '/ws/b/source.md'), '/ws/b/note.md');
+    });
+
+    test('should return undefined for unknown targets', () => {
+      const resolver = new WikiLinkResolver();
+      assert.strictEqual(resolver.resolve('missing'), undefined);
+    });
+  });
+});
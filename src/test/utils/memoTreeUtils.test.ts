@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import { MemoEntry, formatMetadataValue, getGroupValues, listGroups, isInGroup, getShownMetadata, sortMemos } from '../../utils/memoTreeUtils';
+
+function memo(name: string, fields: Record<string, unknown> = {}, lastModified: string = '2026-01-01T00:00:00Z'): MemoEntry {
+  return {
+    filePath: `/workspace/memos/${name}.md`,
+    title: name,
+    lastModified: new Date(lastModified),
+    relativePath: `${name}.md`,
+    fields
+  };
+}
+
+function titles(memos: MemoEntry[]): string[] {
+  return memos.map(entry => entry.title);
+}
+
+suite('memoTreeUtils', () => {
+  suite('formatMetadataValue', () => {
+    test('should join lists and skip empty items', () => {
+      assert.strictEqual(formatMetadataValue(['infra', null, 'ops']), 'infra, ops');
+    });
+
+    test('should show dates as YYYY-MM-DD', () => {
+      assert.strictEqual(formatMetadataValue(new Date('2026-03-04T00:00:00Z')), '2026-03-04');
+    });
+
+    test('should return an empty string for missing values', () => {
+      assert.strictEqual(formatMetadataValue(undefined), '');
+      assert.strictEqual(formatMetadataValue(null), '');
+    });
+  });
+
+  suite('grouping', () => {
+    const memos = [
+      memo('deploy', { status: 'done', tags: ['infra', 'ops'] }),
+      memo('retro', { status: 'todo', tags: ['ops'] }),
+      memo('idea', { tags: [] })
+    ];
+
+    test('should put a memo with a list field in one group per item', () => {
+      assert.deepStrictEqual(getGroupValues(memos[0], 'tags'), ['infra', 'ops']);
+      assert.deepStrictEqual(listGroups(memos, 'tags'), ['infra', 'ops', undefined]);
+      assert.deepStrictEqual(titles(memos.filter(entry => isInGroup(entry, 'tags', 'ops'))), ['deploy', 'retro']);
+    });
+
+    test('should list memos without the field in their own group last', () => {
+      assert.deepStrictEqual(listGroups(memos, 'status'), ['done', 'todo', undefined]);
+      assert.deepStrictEqual(titles(memos.filter(entry => isInGroup(entry, 'status', undefined))), ['idea']);
+      assert.deepStrictEqual(titles(memos.filter(entry => isInGroup(entry, 'tags', undefined))), ['idea']);
+    });
+
+    test('should not add a group for missing values when every memo has the field', () => {
+      assert.deepStrictEqual(listGroups(memos.slice(0, 2), 'status'), ['done', 'todo']);
+    });
+
+    test('should order numeric values by number', () => {
+      assert.deepStrictEqual(listGroups([memo('a', { sprint: 10 }), memo('b', { sprint: 9 })], 'sprint'), ['9', '10']);
+    });
+  });
+
+  suite('getShownMetadata', () => {
+    test('should annotate with the configured fields the memo has', () => {
+      const entry = memo('deploy', { status: 'done', tags: ['infra', 'ops'] });
+      assert.deepStrictEqual(getShownMetadata(entry, { showMetadata: ['tags', 'owner', 'status'] }), [
+        { field: 'tags', value: 'infra, ops' },
+        { field: 'status', value: 'done' }
+      ]);
+    });
+
+    test('should show nothing without showMetadata', () => {
+      assert.deepStrictEqual(getShownMetadata(memo('deploy', { status: 'done' }), {}), []);
+    });
+  });
+
+  suite('sortMemos', () => {
+    const older = memo('Beta', { priority: 2, created: '2026-02-01' }, '2026-01-01T00:00:00Z');
+    const newer = memo('alpha', { priority: 10, created: '2026-01-01' }, '2026-03-01T00:00:00Z');
+    const unset = memo('Gamma', {}, '2026-02-15T00:00:00Z');
+
+    test('should sort by last modified date, newest first, by default', () => {
+      assert.deepStrictEqual(titles(sortMemos([older, unset, newer], {})), ['alpha', 'Gamma', 'Beta']);
+    });
+
+    test('should sort by created date and fall back to the last modified date', () => {
+      assert.deepStrictEqual(titles(sortMemos([older, unset, newer], { sortBy: 'created' })), ['Gamma', 'Beta', 'alpha']);
+      assert.deepStrictEqual(titles(sortMemos([older, unset, newer], { sortBy: 'created', sortOrder: 'asc' })), ['alpha', 'Beta', 'Gamma']);
+    });
+
+    test('should take the created date from the file name', () => {
+      const dated = { ...memo('note', {}, '2026-05-01T00:00:00Z'), filePath: '/workspace/memos/2025-12-31-note.md' };
+      assert.deepStrictEqual(titles(sortMemos([older, dated], { sortBy: 'created', sortOrder: 'asc' })), ['note', 'Beta']);
+    });
+
+    test('should sort by title in either order', () => {
+      assert.deepStrictEqual(titles(sortMemos([unset, older, newer], { sortBy: 'title' })), ['alpha', 'Beta', 'Gamma']);
+      assert.deepStrictEqual(titles(sortMemos([unset, older, newer], { sortBy: 'title', sortOrder: 'desc' })), ['Gamma', 'Beta', 'alpha']);
+    });
+
+    test('should sort by a field and put memos without it last in either order', () => {
+      assert.deepStrictEqual(titles(sortMemos([unset, newer, older], { sortBy: 'priority' })), ['Beta', 'alpha', 'Gamma']);
+      assert.deepStrictEqual(titles(sortMemos([unset, older, newer], { sortBy: 'priority', sortOrder: 'desc' })), ['alpha', 'Beta', 'Gamma']);
+    });
+
+    test('should sort by a list field as its joined values', () => {
+      const memos = [memo('a', { tags: ['ops'] }), memo('b', { tags: ['infra', 'web'] }), memo('c', { tags: [] })];
+      assert.deepStrictEqual(titles(sortMemos(memos, { sortBy: 'tags' })), ['b', 'a', 'c']);
+    });
+
+    test('should keep memos with equal keys newest first', () => {
+      const first = memo('first', { status: 'done' }, '2026-01-01T00:00:00Z');
+      const second = memo('second', { status: 'done' }, '2026-02-01T00:00:00Z');
+      assert.deepStrictEqual(titles(sortMemos([first, second], { sortBy: 'status' })), ['second', 'first']);
+    });
+
+    test('should not change the given list', () => {
+      const memos = [older, newer];
+      sortMemos(memos, { sortBy: 'title' });
+      assert.deepStrictEqual(titles(memos), ['Beta', 'alpha']);
+    });
+  });
+});
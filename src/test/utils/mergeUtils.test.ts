@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { mergeFrontmatter, mergeMemoBodies } from '../../utils/mergeUtils';
+
+suite('mergeUtils', () => {
+  suite('mergeFrontmatter', () => {
+    test('should combine tags, copy new fields and report conflicts', () => {
+      const result = mergeFrontmatter(
+        { title: 'Plan', type: 'Project', tags: ['infra'], status: 'active' },
+        { title: 'Notes', type: 'Note', tags: ['infra', 'q3'], status: 'done', owner: 'ops' }
+      );
+
+      assert.deepStrictEqual(result.updates, { tags: ['infra', 'q3'], owner: 'ops' });
+      assert.deepStrictEqual(result.conflicts, [{ key: 'status', targetValue: 'active', sourceValue: 'done' }]);
+    });
+
+    test('should leave matching values alone', () => {
+      const result = mergeFrontmatter({ tags: ['a', 'b'], status: 'done' }, { tags: ['b'], status: 'done' });
+      assert.deepStrictEqual(result, { updates: {}, conflicts: [] });
+    });
+  });
+
+  suite('mergeMemoBodies', () => {
+    test('should append the source under a heading and move its headings down', () => {
+      const merged = mergeMemoBodies('# Plan\n\nGoals\n', '# Notes\n\nIntro\n\n## Detail\n\nMore\n', 'Notes', 'append');
+      assert.strictEqual(merged, '# Plan\n\nGoals\n\n## Notes\n\nIntro\n\n### Detail\n\nMore\n');
+    });
+
+    test('should add matching sections to the end of the target section', () => {
+      const target = '# Plan\n\n## Tasks\n\n- [ ] Draft\n\n## Links\n\n- a\n';
+      const source = '# Notes\n\nIntro\n\n## Tasks\n\n- [ ] Review\n\n## Ideas\n\n- Cache\n';
+
+      const merged = mergeMemoBodies(target, source, 'Notes', 'interleave');
+
+      assert.strictEqual(
+        merged,
+        '# Plan\n\n## Tasks\n\n- [ ] Draft\n\n- [ ] Review\n\n## Links\n\n- a\n\n## Notes\n\nIntro\n\n### Ideas\n\n- Cache\n'
+      );
+    });
+
+    test('should not treat headings in code blocks as sections', () => {
+      const merged = mergeMemoBodies('', '```\n# not a heading\n```\n', 'Snippet', 'append');
+      assert.strictEqual(merged, '## Snippet\n\n```\n# not a heading\n```\n');
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { formatPeriodLabel, getPeriodStart, parsePeriodFromPath, shiftPeriod } from '../../utils/periodicNoteUtils';
+import { formatDate } from '../../utils/dateUtils';
+
+suite('periodicNoteUtils', () => {
+  const date = new Date(2026, 0, 7, 15, 30); // Wednesday
+
+  test('getPeriodStart should return the first day of the period', () => {
+    assert.strictEqual(formatDate(getPeriodStart('daily', date)), '2026-01-07');
+    assert.strictEqual(formatDate(getPeriodStart('weekly', date)), '2026-01-05');
+    assert.strictEqual(formatDate(getPeriodStart('monthly', date)), '2026-01-01');
+  });
+
+  test('shiftPeriod should move across month and year boundaries', () => {
+    assert.strictEqual(formatDate(shiftPeriod('daily', new Date(2026, 0, 1), -1)), '2025-12-31');
+    assert.strictEqual(formatDate(shiftPeriod('weekly', date, -1)), '2025-12-29');
+    assert.strictEqual(formatDate(shiftPeriod('monthly', new Date(2026, 0, 31), 1)), '2026-02-01');
+  });
+
+  test('formatPeriodLabel should name the period', () => {
+    assert.strictEqual(formatPeriodLabel('daily', date), '2026-01-07');
+    assert.strictEqual(formatPeriodLabel('weekly', date), '2026-W02');
+    assert.strictEqual(formatPeriodLabel('monthly', date), '2026-01');
+  });
+
+  test('parsePeriodFromPath should read dates from file names and folders', () => {
+    assert.strictEqual(formatDate(parsePeriodFromPath('daily', 'archives/2026/01/07.md')!), '2026-01-07');
+    assert.strictEqual(formatDate(parsePeriodFromPath('daily', '2026-01-07 standup.md')!), '2026-01-07');
+    assert.strictEqual(formatDate(parsePeriodFromPath('weekly', '2026/2026-W02.md')!), '2026-01-05');
+    assert.strictEqual(formatDate(parsePeriodFromPath('monthly', '2026/2026-01.md')!), '2026-01-01');
+  });
+
+  test('parsePeriodFromPath should ignore paths without a valid date', () => {
+    assert.strictEqual(parsePeriodFromPath('daily', 'notes/ideas.md'), undefined);
+    assert.strictEqual(parsePeriodFromPath('daily', '2026-02-30.md'), undefined);
+    assert.strictEqual(parsePeriodFromPath('monthly', '2026/01/07.md'), undefined);
+    assert.strictEqual(parsePeriodFromPath('weekly', '2026-W54.md'), undefined);
+  });
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { levenshteinDistance, stringSimilarity, rankBySimilarity, suggestTitleFromText } from '../../utils/stringUtils';
+
+suite('stringUtils', () => {
+  test('levenshteinDistance should count edits', () => {
+    assert.strictEqual(levenshteinDistance('kitten', 'sitting'), 3);
+    assert.strictEqual(levenshteinDistance('', 'abc'), 3);
+    assert.strictEqual(levenshteinDistance('same', 'same'), 0);
+  });
+
+  test('stringSimilarity should ignore case and favour containment', () => {
+    assert.strictEqual(stringSimilarity('Design', 'design'), 1);
+    assert.ok(stringSimilarity('design', 'design-notes') >= 0.7);
+    assert.strictEqual(stringSimilarity('', 'design'), 0);
+  });
+
+  test('rankBySimilarity should order matches and drop weak ones', () => {
+    const items = ['meeting-notes', 'meeting', 'groceries'];
+    assert.deepStrictEqual(rankBySimilarity('meetng', items, item => [item]), ['meeting']);
+    assert.deepStrictEqual(rankBySimilarity('meeting', items, item => [item]), ['meeting', 'meeting-notes']);
+  });
+
+  test('suggestTitleFromText should use the first line without markers', () => {
+    assert.strictEqual(suggestTitleFromText('\n## Rollout **plan**\n\nDetails'), 'Rollout plan');
+    assert.strictEqual(suggestTitleFromText('- [ ] Ask the infra team'), 'Ask the infra team');
+    assert.strictEqual(suggestTitleFromText('> Quoted idea'), 'Quoted idea');
+    assert.strictEqual(suggestTitleFromText('word '.repeat(20), 20), 'word word word word');
+    assert.strictEqual(suggestTitleFromText('   '), '');
+  });
+});
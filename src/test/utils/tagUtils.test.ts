@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import {
+  normalizeTag,
+  isTagInHierarchy,
+  getTagPath,
+  getTagName,
+  getParentTag,
+  replaceTag,
+  parseInlineTags,
+  isTaggableLine
+} from '../../utils/tagUtils';
+
+suite('tagUtils', () => {
+  test('normalizeTag should trim levels and drop empty ones', () => {
+    assert.strictEqual(normalizeTag(' project//alpha/ '), 'project/alpha');
+    assert.strictEqual(normalizeTag('/'), '');
+  });
+
+  test('isTagInHierarchy should match the tag and its descendants only', () => {
+    assert.strictEqual(isTagInHierarchy('project', 'project'), true);
+    assert.strictEqual(isTagInHierarchy('project/alpha/infra', 'project'), true);
+    assert.strictEqual(isTagInHierarchy('projects', 'project'), false);
+    assert.strictEqual(isTagInHierarchy('project', 'project/alpha'), false);
+  });
+
+  test('getTagPath, getTagName and getParentTag should split levels', () => {
+    assert.deepStrictEqual(getTagPath('project/alpha/infra'), ['project', 'project/alpha', 'project/alpha/infra']);
+    assert.strictEqual(getTagName('project/alpha/infra'), 'infra');
+    assert.strictEqual(getParentTag('project/alpha/infra'), 'project/alpha');
+    assert.strictEqual(getParentTag('project'), undefined);
+  });
+
+  test('replaceTag should rename descendants and drop duplicates', () => {
+    assert.deepStrictEqual(replaceTag(['project/alpha', 'infra', 'project'], 'project', 'work'), ['work/alpha', 'infra', 'work']);
+    assert.deepStrictEqual(replaceTag(['k8s', 'kubernetes'], 'k8s', 'kubernetes'), ['kubernetes']);
+    assert.deepStrictEqual(replaceTag(['projects', 'project/alpha'], 'project', undefined), ['projects']);
+  });
+
+  suite('parseInlineTags', () => {
+    const content = [
+      '---',
+      'tags: [meeting]',
+      '---',
+      '# Weekly #sync',
+      'Decided to ship #decision (#project/alpha) and fix #123',
+      '- [ ] Follow up #todo, see https://example.com/page#section and `#not-a-tag`',
+      '[docs](./docs.md#setup) [[note#Heading]] issue#1',
+      '```bash',
+      '# comment #shell',
+      '```',
+      '#todo/later'
+    ].join('\n');
+
+    test('should find hashtags with their lines and columns', () => {
+      assert.deepStrictEqual(parseInlineTags(content), [
+        { tag: 'decision', line: 4, column: 16, length: 9 },
+        { tag: 'project/alpha', line: 4, column: 27, length: 14 },
+        { tag: 'todo', line: 5, column: 16, length: 5 },
+        { tag: 'todo/later', line: 10, column: 0, length: 11 }
+      ]);
+    });
+
+    test('should handle CRLF line endings and Japanese tags', () => {
+      assert.deepStrictEqual(parseInlineTags('メモ #設計\r\n#todo\r\n'), [
+        { tag: '設計', line: 0, column: 3, length: 3 },
+        { tag: 'todo', line: 1, column: 0, length: 5 }
+      ]);
+    });
+
+    test('isTaggableLine should exclude frontmatter, headings and code blocks', () => {
+      assert.strictEqual(isTaggableLine(content, 1), false);
+      assert.strictEqual(isTaggableLine(content, 3), false);
+      assert.strictEqual(isTaggableLine(content, 4), true);
+      assert.strictEqual(isTaggableLine(content, 8), false);
+      assert.strictEqual(isTaggableLine(content, 10), true);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { parseTasks, parseTaskLine, setTaskCompleted, extractUnfinishedTasks } from '../../utils/taskUtils';
+
+suite('taskUtils', () => {
+  test('parseTaskLine should read due dates, priorities and tags', () => {
+    assert.deepStrictEqual(parseTaskLine('  - [ ] Ship the release 📅 2026-10-20 ⏫ #release #ops'), {
+      indent: 2,
+      text: 'Ship the release #release #ops',
+      completed: false,
+      due: '2026-10-20',
+      priority: 'high',
+      tags: ['release', 'ops']
+    });
+    assert.deepStrictEqual(parseTaskLine('1. [x] Write notes due:2026-01-05 priority:Low'), {
+      indent: 0,
+      text: 'Write notes',
+      completed: true,
+      due: '2026-01-05',
+      priority: 'low',
+      tags: []
+    });
+    assert.strictEqual(parseTaskLine('- plain item'), undefined);
+    assert.strictEqual(parseTaskLine('- [] not a checkbox'), undefined);
+  });
+
+  test('parseTasks should skip frontmatter and code blocks', () => {
+    const content = [
+      '---',
+      'title: Daily',
+      '---',
+      '- [ ] First',
+      '```markdown',
+      '- [ ] Example',
+      '```',
+      '* [X] Done'
+    ].join('\n');
+
+    assert.deepStrictEqual(parseTasks(content).map(task => [task.line, task.text, task.completed]), [
+      [3, 'First', false],
+      [7, 'Done', true]
+    ]);
+  });
+
+  test('setTaskCompleted should only toggle task lines', () => {
+    assert.strictEqual(setTaskCompleted('- [ ] Call [Bob](./bob.md)', true), '- [x] Call [Bob](./bob.md)');
+    assert.strictEqual(setTaskCompleted('  - [x] Done', false), '  - [ ] Done');
+    assert.strictEqual(setTaskCompleted('Some [x] text', true), undefined);
+  });
+
+  test('extractUnfinishedTasks should keep subtasks with their parent', () => {
+    const content = [
+      '## Tasks',
+      '- [ ] Parent',
+      '  - [x] Done child',
+      '  - [ ] Open child',
+      '- [x] Finished',
+      '  - [ ] Open child of finished',
+      '- [ ] ',
+      'Notes'
+    ].join('\n');
+
+    assert.deepStrictEqual(extractUnfinishedTasks(content), [
+      { lines: [1, 2, 3], text: '- [ ] Parent\n  - [x] Done child\n  - [ ] Open child' },
+      { lines: [5], text: '- [ ] Open child of finished' }
+    ]);
+  });
+});
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { extractVariableNames } from '../../utils/variableUtils';
+import { extractVariableNames, parseDateInput, validateVariableValue } from '../../utils/variableUtils';
 
 suite('variableUtils', () => {
   suite('extractVariableNames', () => {
@@ -70,4 +70,49 @@ Created on {DATE} by {AUTHOR}`;
       assert.ok(variables.has('AUTHOR'));
     });
   });
-});
\ No newline at end of file
+
+  suite('extractVariableNames with template expressions', () => {
+    test('should extract names from expressions, conditions and loop sources', () => {
+      const content = '{DATE+1d:YYYY} {TITLE|slug} {#if !AGENDA}{/if} {#if TYPE == "RETRO"}{/if} {#each WEEK_START..WEEK_END as DAY}{/each}';
+      const variables = extractVariableNames(content);
+      assert.deepStrictEqual(Array.from(variables).sort(), ['AGENDA', 'DATE', 'TITLE', 'TYPE', 'WEEK_END', 'WEEK_START']);
+    });
+  });
+
+  suite('parseDateInput', () => {
+    const today = new Date(2026, 0, 30);
+
+    test('should accept dates, shortcuts and offsets', () => {
+      assert.strictEqual(parseDateInput('2026-02-28', today), '2026-02-28');
+      assert.strictEqual(parseDateInput('Tomorrow', today), '2026-01-31');
+      assert.strictEqual(parseDateInput('+3d', today), '2026-02-02');
+      assert.strictEqual(parseDateInput('-1w', today), '2026-01-23');
+    });
+
+    test('should reject other input', () => {
+      assert.strictEqual(parseDateInput('2026-02-30', today), undefined);
+      assert.strictEqual(parseDateInput('next friday', today), undefined);
+    });
+  });
+
+  suite('validateVariableValue', () => {
+    test('should require a value only when required', () => {
+      assert.strictEqual(validateVariableValue({ name: 'OWNER' }, ''), undefined);
+      assert.strictEqual(validateVariableValue({ name: 'OWNER', description: 'Owner', required: true }, ' '), 'Owner is required');
+    });
+
+    test('should check the value against the type', () => {
+      assert.ok(validateVariableValue({ name: 'DUE', type: 'date' }, 'soon'));
+      assert.ok(validateVariableValue({ name: 'DONE', type: 'boolean' }, 'yes'));
+      assert.ok(validateVariableValue({ name: 'STATUS', type: 'choice', options: ['open', 'done'] }, 'closed'));
+      assert.strictEqual(validateVariableValue({ name: 'TEAMS', type: 'multiselect', options: ['web', 'api'] }, 'web, api'), undefined);
+      assert.strictEqual(validateVariableValue({ name: 'TEAMS', type: 'multiselect', options: ['web', 'api'] }, 'web, ios'), 'Unknown option: ios');
+    });
+
+    test('should check the pattern', () => {
+      const ticket = { name: 'TICKET', pattern: '^[A-Z]+-\\d+$' };
+      assert.strictEqual(validateVariableValue(ticket, 'MEMO-42'), undefined);
+      assert.strictEqual(validateVariableValue(ticket, 'memo 42'), 'TICKET must match ^[A-Z]+-\\d+$');
+    });
+  });
+});
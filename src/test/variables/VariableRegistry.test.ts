@@ -113,4 +113,44 @@ suite('VariableRegistry', () => {
     assert.strictEqual(resolved['PROJECT'], 'UserProject');
     assert.strictEqual(resolved['TITLE'], 'UserTitle');
   });
-});
\ No newline at end of file
+
+  test('should ask for unanswered user-defined variables in one form', async () => {
+    registry.registerUserDefinedVariables([
+      { name: 'PROJECT', description: 'Project name', default: 'Default' },
+      { name: 'DUE', type: 'date' },
+      { name: 'STATUS', type: 'choice', options: ['open', 'done'], required: true },
+      { name: 'AUTHOR' }
+    ]);
+
+    const forms: string[][] = [];
+    const context: VariableContext = {
+      date: new Date(2026, 0, 30),
+      userInputs: { AUTHOR: 'Preset' },
+      workspaceService: {
+        showInputBox: async () => assert.fail('should not prompt one variable at a time'),
+        showVariableForm: async variables => {
+          forms.push(variables.map(variable => variable.name));
+          return { PROJECT: '', DUE: 'tomorrow', STATUS: 'open' };
+        }
+      }
+    };
+
+    const resolved = await registry.resolveUsedVariables(new Set(['PROJECT', 'DUE', 'STATUS', 'AUTHOR', 'YEAR']), context);
+
+    assert.deepStrictEqual(forms, [['PROJECT', 'DUE', 'STATUS']]);
+    assert.deepStrictEqual(resolved, { PROJECT: 'Default', DUE: '2026-01-31', STATUS: 'open', AUTHOR: 'Preset', YEAR: '2026' });
+  });
+
+  test('should stop when the variable form is cancelled', async () => {
+    registry.registerUserDefinedVariables([{ name: 'PROJECT' }]);
+    const context: VariableContext = {
+      date: new Date(),
+      workspaceService: {
+        showInputBox: async () => undefined,
+        showVariableForm: async () => undefined
+      }
+    };
+
+    await assert.rejects(() => registry.resolveUsedVariables(new Set(['PROJECT']), context), /cancelled/);
+  });
+});
@@ -4,12 +4,26 @@ import {
   MonthVariable,
   DayVariable,
   DateVariable,
+  WeekVariable,
+  WeekYearVariable,
+  WeekStartVariable,
+  WeekEndVariable,
   TimeVariable,
   DateTimeVariable,
   TimestampVariable,
-  TitleVariable
+  TitleVariable,
+  GitUserNameVariable,
+  GitUserEmailVariable,
+  GitBranchVariable,
+  ClipboardVariable,
+  SelectionVariable,
+  ParentTitleVariable,
+  ParentLinkVariable,
+  WorkspaceNameVariable,
+  UuidVariable
 } from '../../variables/systemVariables';
 import { VariableContext } from '../../variables/IVariable';
+import { IVariableEnvironment } from '../../services/interfaces/IVariableEnvironment';
 
 suite('System Variables', () => {
   const testDate = new Date(2025, 5, 27, 15, 30, 45, 123); // June 27, 2025 (month is 0-indexed)
@@ -96,4 +110,48 @@ suite('System Variables', () => {
     assert.strictEqual(await variable.resolve(contextWithWorkspace), 'User Input Title');
     assert.ok(promptShown);
   });
-});
\ No newline at end of file
+
+  test('Week variables should follow the ISO week', () => {
+    // Friday 2 January 2026 is in week 1, which starts on Monday 29 December 2025
+    const weekContext: VariableContext = { date: new Date(2026, 0, 2) };
+    assert.strictEqual(new WeekVariable().resolve(weekContext), '01');
+    assert.strictEqual(new WeekYearVariable().resolve(weekContext), '2026');
+    assert.strictEqual(new WeekStartVariable().resolve(weekContext), '2025-12-29');
+    assert.strictEqual(new WeekEndVariable().resolve(weekContext), '2026-01-04');
+  });
+
+  test('Environment variables should read the captured environment', async () => {
+    const environment: IVariableEnvironment = {
+      workspaceFolderName: 'notes',
+      selection: 'Follow up on the rollout',
+      activeMemo: { filePath: '/workspace/memos/projects/alpha.md', title: 'Project Alpha' },
+      readClipboard: async () => 'https://example.com/ticket/42',
+      readGitConfig: async key => ({ 'user.name': 'Jane Doe', 'user.email': 'jane@example.com' } as Record<string, string>)[key],
+      readGitBranch: async () => 'feature/rollout'
+    };
+    const environmentContext: VariableContext = { date: testDate, environment };
+
+    assert.strictEqual(await new GitUserNameVariable().resolve(environmentContext), 'Jane Doe');
+    assert.strictEqual(await new GitUserEmailVariable().resolve(environmentContext), 'jane@example.com');
+    assert.strictEqual(await new GitBranchVariable().resolve(environmentContext), 'feature/rollout');
+    assert.strictEqual(await new ClipboardVariable().resolve(environmentContext), 'https://example.com/ticket/42');
+    assert.strictEqual(new SelectionVariable().resolve(environmentContext), 'Follow up on the rollout');
+    assert.strictEqual(new ParentTitleVariable().resolve(environmentContext), 'Project Alpha');
+    assert.strictEqual(new ParentLinkVariable().resolve(environmentContext), '[Project Alpha](/workspace/memos/projects/alpha.md)');
+    assert.strictEqual(new WorkspaceNameVariable().resolve(environmentContext), 'notes');
+  });
+
+  test('Environment variables should be empty without an environment', async () => {
+    assert.strictEqual(await new GitBranchVariable().resolve(context), '');
+    assert.strictEqual(await new ClipboardVariable().resolve(context), '');
+    assert.strictEqual(new SelectionVariable().resolve(context), '');
+    assert.strictEqual(new ParentLinkVariable().resolve(context), '');
+  });
+
+  test('UuidVariable should return a new UUID each time', () => {
+    const variable = new UuidVariable();
+    const uuid = variable.resolve();
+    assert.match(uuid, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    assert.notStrictEqual(variable.resolve(), uuid);
+  });
+});
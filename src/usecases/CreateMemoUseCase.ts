@@ -4,11 +4,18 @@ import { IConfigService } from '../services/interfaces/IConfigService';
 import { IFileService } from '../services/interfaces/IFileService';
 import { ITemplateService } from '../services/interfaces/ITemplateService';
 import { IMetadataService } from '../services/interfaces/IMetadataService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
 import { MemoType } from '../models/MemoType';
-import { MemoMetadata } from '../models/MemoMetadata';
+import { MemoMetadata, resolveUserSchema } from '../models/MemoMetadata';
 import { VariableRegistry } from '../variables/VariableRegistry';
+import { Variable } from '../models/Variable';
+import { showVariableForm } from '../views/VariableForm';
+import { IVariableEnvironment } from '../services/interfaces/IVariableEnvironment';
+import { VsCodeVariableEnvironment } from '../services/implementations/VsCodeVariableEnvironment';
+import { calculateRelativePath } from '../utils/pathUtils';
 import { formatDate } from '../utils/dateUtils';
 import { MemoEvents } from '../events/MemoEvents';
+import { parseFrontmatter, stringifyFrontmatter, updateFrontmatter } from '../utils/frontmatterUtils';
 
 export interface IWorkspaceService {
   getWorkspaceRoot(): string | undefined;
@@ -16,11 +23,16 @@ export interface IWorkspaceService {
   showQuickPick<T extends vscode.QuickPickItem>(items: readonly T[], options: vscode.QuickPickOptions & { canPickMany: true }): Promise<T[] | undefined>;
   showQuickPick<T extends vscode.QuickPickItem>(items: readonly T[], options?: vscode.QuickPickOptions): Promise<T | T[] | undefined>;
   showInputBox(options?: vscode.InputBoxOptions): Promise<string | undefined>;
+  showVariableForm(variables: Variable[]): Promise<Record<string, string> | undefined>;
+  /** Editor and workspace state for environment variables, as it is now */
+  getVariableEnvironment(): IVariableEnvironment | undefined;
   showErrorMessage(message: string): void;
   showInformationMessage(message: string): void;
 }
 
 export class VsCodeWorkspaceService implements IWorkspaceService {
+  constructor(private backlinkService?: IBacklinkService) {}
+
   getWorkspaceRoot(): string | undefined {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     return workspaceFolders?.[0]?.uri.fsPath;
@@ -36,6 +48,14 @@ export class VsCodeWorkspaceService implements IWorkspaceService {
     return await vscode.window.showInputBox(options);
   }
 
+  async showVariableForm(variables: Variable[]): Promise<Record<string, string> | undefined> {
+    return await showVariableForm(variables, undefined, this.backlinkService);
+  }
+
+  getVariableEnvironment(): IVariableEnvironment | undefined {
+    return VsCodeVariableEnvironment.capture();
+  }
+
   showErrorMessage(message: string): void {
     vscode.window.showErrorMessage(message);
   }
@@ -45,6 +65,16 @@ export class VsCodeWorkspaceService implements IWorkspaceService {
   }
 }
 
+/**
+ * Content a new memo starts with besides its template
+ */
+export interface CreateMemoOptions {
+  /** Text for the template's {SELECTION} slot, appended to the memo when the template has none */
+  body?: string;
+  /** Tags added to the template's tags */
+  tags?: string[];
+}
+
 export class CreateMemoUseCase {
   constructor(
     private configService: IConfigService,
@@ -54,7 +84,13 @@ export class CreateMemoUseCase {
     private metadataService?: IMetadataService
   ) {}
 
-  async execute(memoTypeName?: string, title?: string): Promise<void> {
+  /**
+   * Create a memo from a memo type's template, or open it if the resulting file already exists
+   * @param date Date for date variables and the default file name (defaults to now)
+   */
+  async execute(memoTypeName?: string, title?: string, date?: Date, options: CreateMemoOptions = {}): Promise<string | undefined> {
+    // Before any prompt takes focus from the editor
+    const environment = this.workspaceService.getVariableEnvironment();
     const config = await this.configService.loadConfig();
 
     let memoType: MemoType;
@@ -71,7 +107,7 @@ export class CreateMemoUseCase {
     const workspaceRoot = this.workspaceService.getWorkspaceRoot();
     if (!workspaceRoot) {
       this.workspaceService.showErrorMessage('No workspace folder is open');
-      return;
+      return undefined;
     }
 
     const configBasePath = path.join(workspaceRoot, '.vsmemo');
@@ -87,8 +123,11 @@ export class CreateMemoUseCase {
     if (title) {
       presetInputs['TITLE'] = title;
     }
+    if (options.body) {
+      presetInputs['SELECTION'] = options.body;
+    }
 
-    const processedTemplate = await this.templateService.processTemplateFromFile(memoType.templatePath, configBasePath, registry, presetInputs);
+    const processedTemplate = await this.templateService.processTemplateFromFile(memoType.templatePath, configBasePath, registry, presetInputs, date, environment);
 
     let fullPath: string;
     const memoTypeBaseDir = memoType.baseDir || '.';
@@ -98,11 +137,15 @@ export class CreateMemoUseCase {
       // Template path is relative to config.baseDir + memoType.baseDir + template.baseDir
       fullPath = path.join(workspaceRoot, config.baseDir, memoTypeBaseDir, templateBaseDir, processedTemplate.path);
     } else {
-      const fileName = title ? `${title}${config.defaultExtension}` : `${formatDate(new Date())}${config.defaultExtension}`;
+      const fileName = title ? `${title}${config.defaultExtension}` : `${formatDate(date || new Date())}${config.defaultExtension}`;
       fullPath = path.join(workspaceRoot, config.baseDir, memoTypeBaseDir, templateBaseDir, fileName);
     }
 
     const fileExists = await this.fileService.exists(fullPath);
+    // Opening the existing memo instead would drop the text meant for it
+    if (fileExists && options.body) {
+      throw new Error(`A memo already exists at ${path.relative(workspaceRoot, fullPath)}`);
+    }
 
     if (!fileExists) {
       const dirPath = path.dirname(fullPath);
@@ -111,26 +154,36 @@ export class CreateMemoUseCase {
       }
 
       let content = processedTemplate.content;
+      if (options.body && !processedTemplate.variables?.includes('SELECTION')) {
+        const body = `${options.body.trimEnd()}\n`;
+        content = content.trim() ? `${content.trimEnd()}\n\n${body}` : body;
+      }
 
-      // Process metadata with MetadataService if available
-      if (this.metadataService) {
-        // Convert frontmatter to metadata structure
-        const rawFrontmatter = processedTemplate.frontmatter || {};
-        rawFrontmatter.type = memoType.id;
-
-        const metadata = this.metadataService.classifyFrontmatter(rawFrontmatter);
-        const frontmatterString = this.metadataService.serializeMetadata(metadata);
-        content = `---\n${frontmatterString}\n---\n\n${content}`;
-      } else {
-        // Fallback to old behavior
-        const frontmatter = processedTemplate.frontmatter || {};
-        frontmatter.type = memoType.id;
-
-        const frontmatterString = Object.entries(frontmatter)
-          .map(([key, value]) => `${key}: ${value}`)
-          .join('\n');
-        content = `---\n${frontmatterString}\n---\n\n${content}`;
+      // Keep the template's frontmatter as written (key order, comments, quoting) and add the memo type
+      // Templates that only provide parsed values get them written out
+      const frontmatterValues = stringifyFrontmatter(processedTemplate.frontmatter || {});
+      const templateFrontmatter = processedTemplate.frontmatterYaml ?? (frontmatterValues ? `${frontmatterValues}\n` : '');
+      content = `---\n${templateFrontmatter}---\n\n${content}`;
+      // {PARENT_LINK} points at the active memo by absolute path until the new memo's location is known
+      const parentPath = environment?.activeMemo?.filePath;
+      if (parentPath) {
+        content = content.split(`](${parentPath.replace(/\\/g, '/')})`).join(`](${calculateRelativePath(fullPath, parentPath)})`);
+      }
+      // Schema defaults fill in fields the template does not set
+      const updates: Record<string, unknown> = { type: memoType.id };
+      const templateValues = parseFrontmatter(content) || {};
+      if (options.tags && options.tags.length > 0) {
+        const templateTags = Array.isArray(templateValues.tags) ? templateValues.tags.map(String) : [];
+        updates.tags = Array.from(new Set([...templateTags, ...options.tags]));
+      }
+      for (const [field, fieldSchema] of Object.entries(resolveUserSchema(config.metadata, memoType.metadata))) {
+        if (fieldSchema.defaultValue !== undefined && !(field in templateValues)) {
+          updates[field] = fieldSchema.defaultValue;
+        }
       }
+      content = this.metadataService
+        ? this.metadataService.updateFrontmatter(content, updates)
+        : updateFrontmatter(content, updates);
 
       await this.fileService.writeFile(fullPath, content);
 
@@ -140,6 +193,7 @@ export class CreateMemoUseCase {
     }
 
     await this.fileService.openFile(fullPath);
+    return fullPath;
   }
 
   private async selectMemoType(memoTypes: MemoType[]): Promise<MemoType> {
@@ -3,6 +3,7 @@ import { IFileService } from '../services/interfaces/IFileService';
 import { MemoType } from '../models/MemoType';
 import { IWorkspaceService } from './CreateMemoUseCase';
 import { isValidMemoFile, extractFileNameWithoutExtension } from '../utils/fileUtils';
+import { parseFrontmatter, splitFrontmatter } from '../utils/frontmatterUtils';
 import * as path from 'path';
 
 export interface MemoItem {
@@ -94,7 +95,7 @@ export class ListMemosUseCase {
       } else if (isValidMemoFile(entry, fileExtensions)) {
         try {
           const content = await this.fileService.readFile(fullPath);
-          const frontmatter = this.extractFrontmatter(content);
+          const frontmatter = parseFrontmatter(content);
 
           // Filter by memo type
           if (frontmatter?.type === targetMemoType.id) {
@@ -129,52 +130,15 @@ export class ListMemosUseCase {
     return { lastModified: stats.lastModified };
   }
 
-  private extractFrontmatter(content: string): Record<string, string> | null {
-    const lines = content.split('\n');
-
-    if (lines[0] !== '---') {
-      return null;
-    }
-
-    const endIndex = lines.slice(1).findIndex(line => line === '---');
-    if (endIndex === -1) {
-      return null;
-    }
-
-    const frontmatterLines = lines.slice(1, endIndex + 1);
-    const frontmatter: Record<string, string> = {};
-
-    for (const line of frontmatterLines) {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex !== -1) {
-        const key = line.substring(0, colonIndex).trim();
-        const value = line.substring(colonIndex + 1).trim();
-        frontmatter[key] = value;
-      }
-    }
-
-    return frontmatter;
-  }
-
   private extractTitleFromContent(content: string, fileName: string, fileExtensions: string[]): string {
-    const frontmatter = this.extractFrontmatter(content);
+    const frontmatter = parseFrontmatter(content);
 
-    if (frontmatter?.title) {
+    if (typeof frontmatter?.title === 'string' && frontmatter.title) {
       return frontmatter.title;
     }
 
-    const lines = content.split('\n');
-    let frontmatterEnd = -1;
-
-    if (lines[0] === '---') {
-      const endIndex = lines.slice(1).findIndex(line => line === '---');
-      if (endIndex !== -1) {
-        frontmatterEnd = endIndex + 1;
-      }
-    }
-
-    const contentStart = frontmatterEnd + 1;
-    for (let i = contentStart; i < lines.length; i++) {
+    const lines = (splitFrontmatter(content)?.body ?? content).split('\n');
+    for (let i = 0; i < lines.length; i++) {
       const line = lines[i].trim();
       if (line.startsWith('# ')) {
         return line.substring(2).trim();
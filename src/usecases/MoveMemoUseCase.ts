@@ -0,0 +1,74 @@
+import * as path from 'path';
+import { IFileService } from '../services/interfaces/IFileService';
+import { ILinkUpdateService } from '../services/interfaces/ILinkUpdateService';
+import { updateFrontmatter } from '../utils/frontmatterUtils';
+
+/**
+ * Where memos are moved to
+ */
+export interface MoveDestination {
+  directory: string;
+  /** Memo type id written to the frontmatter, if the memos change type */
+  memoTypeId?: string;
+}
+
+export interface MoveResult {
+  moved: Array<{ from: string; to: string }>;
+  filesUpdated: number;
+  linksUpdated: number;
+  errors: string[];
+}
+
+export class MoveMemoUseCase {
+  constructor(
+    private fileService: IFileService,
+    private linkUpdateService: ILinkUpdateService
+  ) {}
+
+  /**
+   * Move memos to a directory, keeping their file names. Links in the moved memos and
+   * links to them are rewritten so they still resolve. A memo is skipped when a file
+   * with its name already exists at the destination.
+   */
+  async execute(filePaths: string[], destination: MoveDestination): Promise<MoveResult> {
+    const result: MoveResult = { moved: [], filesUpdated: 0, linksUpdated: 0, errors: [] };
+
+    // One at a time, so links between the moved memos follow both ends
+    for (const filePath of filePaths) {
+      const newPath = path.join(destination.directory, path.basename(filePath));
+      try {
+        if (newPath !== filePath && await this.fileService.exists(newPath)) {
+          result.errors.push(`"${path.basename(filePath)}" already exists in ${destination.directory}`);
+          continue;
+        }
+
+        const content = await this.fileService.readFile(filePath);
+        const updated = destination.memoTypeId ? updateFrontmatter(content, { type: destination.memoTypeId }) : content;
+
+        if (newPath === filePath) {
+          // Only the memo type changes
+          if (updated !== content) {
+            await this.fileService.writeFile(filePath, updated);
+            result.moved.push({ from: filePath, to: newPath });
+          }
+          continue;
+        }
+
+        await this.fileService.createDirectory(destination.directory);
+        await this.fileService.writeFile(newPath, updated);
+        await this.fileService.deleteFile(filePath);
+        result.moved.push({ from: filePath, to: newPath });
+
+        // Rewrites links to the memo and its own relative links
+        const linkResult = await this.linkUpdateService.updateLinksAfterRename(filePath, newPath);
+        result.filesUpdated += linkResult.filesUpdated;
+        result.linksUpdated += linkResult.linksUpdated;
+        result.errors.push(...linkResult.errors);
+      } catch (error) {
+        result.errors.push(`Failed to move ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return result;
+  }
+}
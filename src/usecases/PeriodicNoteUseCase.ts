@@ -0,0 +1,63 @@
+import { IFileService } from '../services/interfaces/IFileService';
+import { IConfigService } from '../services/interfaces/IConfigService';
+import { IPeriodicNoteService } from '../services/interfaces/IPeriodicNoteService';
+import { NotePeriod } from '../models/PeriodicNote';
+import { CreateMemoUseCase } from './CreateMemoUseCase';
+import { formatPeriodLabel, getPeriodStart, shiftPeriod } from '../utils/periodicNoteUtils';
+
+export class PeriodicNoteUseCase {
+  constructor(
+    private configService: IConfigService,
+    private fileService: IFileService,
+    private periodicNoteService: IPeriodicNoteService,
+    private createMemoUseCase: CreateMemoUseCase
+  ) {}
+
+  /**
+   * Open the note for the day, week or month containing the date, creating it from its template if there is none
+   * @returns Path of the note
+   */
+  async open(period: NotePeriod, date: Date = new Date()): Promise<string | undefined> {
+    const memoType = await this.periodicNoteService.getPeriodicMemoType(period);
+    if (!memoType) {
+      throw new Error(`No memo type is set up for ${period} notes. Add "periodic": { "period": "${period}" } to a memo type in .vsmemo/config.json`);
+    }
+
+    const existing = await this.periodicNoteService.findNote(period, date);
+    if (existing) {
+      await this.fileService.openFile(existing.filePath);
+      return existing.filePath;
+    }
+
+    // Date variables resolve to the start of the period, except {TIME} and friends in the current one
+    const start = getPeriodStart(period, date);
+    const now = new Date();
+    const templateDate = getPeriodStart(period, now).getTime() === start.getTime() ? now : start;
+    return this.createMemoUseCase.execute(memoType.name, formatPeriodLabel(period, start), templateDate);
+  }
+
+  /**
+   * Open the note before (negative offset) or after the periodic note at the file path
+   * @throws Error if the file is not a periodic note
+   */
+  async openAdjacent(filePath: string, offset: number): Promise<string | undefined> {
+    const note = await this.periodicNoteService.getNoteForFile(filePath);
+    if (!note) {
+      throw new Error('The active memo is not a daily, weekly or monthly note');
+    }
+
+    return this.open(note.period, shiftPeriod(note.period, note.date, offset));
+  }
+
+  /**
+   * Open the current note of every periodic memo type set to be created on startup
+   */
+  async openStartupNotes(): Promise<void> {
+    const config = await this.configService.loadConfig();
+    for (const memoType of config.memoTypes) {
+      if (memoType.periodic?.createOnStartup) {
+        await this.open(memoType.periodic.period);
+      }
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { IFileService } from '../services/interfaces/IFileService';
+import { ITagIndexService } from '../services/interfaces/ITagIndexService';
+import { FrontmatterRange, parseFrontmatter, splitFrontmatter, updateFrontmatter } from '../utils/frontmatterUtils';
+import { isTagInHierarchy, normalizeTag, parseInlineTags, replaceTag } from '../utils/tagUtils';
+
+/**
+ * A text replacement in a memo, in zero-based line/character positions
+ */
+export interface TagTextEdit {
+  range: FrontmatterRange;
+  newText: string;
+}
+
+/**
+ * The edits a tag refactoring makes to one memo
+ */
+export interface TagFileChange {
+  filePath: string;
+  edits: TagTextEdit[];
+  /** Whether the frontmatter tags change */
+  frontmatterChanged: boolean;
+  /** Number of inline #hashtags changed */
+  inlineTagsChanged: number;
+}
+
+export interface TagRefactorPlan {
+  changes: TagFileChange[];
+  errors: string[];
+}
+
+/**
+ * Plans renaming, merging and deleting tags in every memo that uses them, in the frontmatter
+ * and in inline #hashtags. Child tags follow their parent, e.g. renaming project to work turns
+ * project/alpha into work/alpha. The edits are applied by the caller, so they can be previewed.
+ */
+export class RefactorTagUseCase {
+  constructor(
+    private fileService: IFileService,
+    private tagIndexService: ITagIndexService
+  ) {}
+
+  /**
+   * Rename a tag and its descendants. Renaming to a tag that is already in use merges the two.
+   * @throws Error if the new tag is empty
+   */
+  async planRename(oldTag: string, newTag: string): Promise<TagRefactorPlan> {
+    const tag = normalizeTag(newTag);
+    if (!tag) {
+      throw new Error('Tag cannot be empty');
+    }
+    return this.plan(oldTag, tag);
+  }
+
+  /**
+   * Remove a tag and its descendants; the tags key is removed from memos left without tags
+   */
+  async planDelete(tag: string): Promise<TagRefactorPlan> {
+    return this.plan(tag, undefined);
+  }
+
+  private async plan(oldTag: string, newTag: string | undefined): Promise<TagRefactorPlan> {
+    const plan: TagRefactorPlan = { changes: [], errors: [] };
+    if (oldTag === newTag) {
+      return plan;
+    }
+
+    const memos = await this.tagIndexService.getMemosByTag(oldTag);
+    for (const memo of memos) {
+      try {
+        const content = await this.fileService.readFile(memo.filePath);
+        const frontmatterEdit = this.planFrontmatterEdit(content, oldTag, newTag);
+        const inlineEdits = this.planInlineEdits(content, oldTag, newTag);
+        if (frontmatterEdit || inlineEdits.length > 0) {
+          plan.changes.push({
+            filePath: memo.filePath,
+            edits: frontmatterEdit ? [frontmatterEdit, ...inlineEdits] : inlineEdits,
+            frontmatterChanged: !!frontmatterEdit,
+            inlineTagsChanged: inlineEdits.length
+          });
+        }
+      } catch (error) {
+        plan.errors.push(`Failed to read ${memo.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Replace the frontmatter block when its tags change
+   */
+  private planFrontmatterEdit(content: string, oldTag: string, newTag: string | undefined): TagTextEdit | undefined {
+    const block = splitFrontmatter(content);
+    const tags = parseFrontmatter(content)?.tags;
+    if (!block || !Array.isArray(tags)) {
+      return undefined;
+    }
+
+    const current = tags.map(tag => String(tag));
+    const updatedTags = replaceTag(current, oldTag, newTag);
+    if (JSON.stringify(updatedTags) === JSON.stringify(current)) {
+      return undefined;
+    }
+
+    // The body is kept as is, so only the part before it changes
+    const updated = updateFrontmatter(content, { tags: updatedTags.length > 0 ? updatedTags : undefined });
+    const oldFrontmatter = content.slice(0, content.length - block.body.length);
+    const lines = oldFrontmatter.split('\n');
+    return {
+      range: { startLine: 0, startCharacter: 0, endLine: lines.length - 1, endCharacter: lines[lines.length - 1].length },
+      newText: updated.slice(0, updated.length - block.body.length)
+    };
+  }
+
+  private planInlineEdits(content: string, oldTag: string, newTag: string | undefined): TagTextEdit[] {
+    const lines = content.split('\n');
+    const edits: TagTextEdit[] = [];
+
+    for (const inlineTag of parseInlineTags(content)) {
+      if (!isTagInHierarchy(inlineTag.tag, oldTag)) {
+        continue;
+      }
+
+      const { line, column, length } = inlineTag;
+      if (newTag !== undefined) {
+        edits.push({
+          range: { startLine: line, startCharacter: column, endLine: line, endCharacter: column + length },
+          newText: `#${newTag}${inlineTag.tag.substring(oldTag.length)}`
+        });
+        continue;
+      }
+
+      // Take one space with the removed tag so no double or trailing space is left
+      const text = lines[line].replace(/\r$/, '');
+      const start = column > 0 && text[column - 1] === ' ' ? column - 1 : column;
+      const end = start === column && text[column + length] === ' ' ? column + length + 1 : column + length;
+      edits.push({
+        range: { startLine: line, startCharacter: start, endLine: line, endCharacter: end },
+        newText: ''
+      });
+    }
+
+    return edits;
+  }
+}
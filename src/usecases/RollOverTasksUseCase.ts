@@ -0,0 +1,104 @@
+import { IFileService } from '../services/interfaces/IFileService';
+import { IPeriodicNoteService, PeriodicNote } from '../services/interfaces/IPeriodicNoteService';
+import { extractUnfinishedTasks } from '../utils/taskUtils';
+
+export interface RollOverResult {
+  /** The earlier daily note the tasks came from, if there is one */
+  sourcePath?: string;
+  moved: number;
+  /** Tasks left out because the daily note already has them */
+  skipped: number;
+}
+
+// Rolled over tasks go at the end of this section when the note has one
+const TASKS_HEADING_PATTERN = /^#{1,6}\s+(tasks|todo|to-do)\s*$/i;
+
+export class RollOverTasksUseCase {
+  constructor(
+    private fileService: IFileService,
+    private periodicNoteService: IPeriodicNoteService
+  ) {}
+
+  /**
+   * Move unfinished tasks, with their subtasks, from the latest earlier daily note into a daily note.
+   * Tasks the note already has are removed from the earlier note without being added again.
+   * @throws Error if the file is not a daily note
+   */
+  async execute(dailyNotePath: string): Promise<RollOverResult> {
+    const previous = await this.findPreviousNote(dailyNotePath);
+    if (!previous) {
+      return { moved: 0, skipped: 0 };
+    }
+
+    const sourceContent = await this.fileService.readFile(previous.filePath);
+    const blocks = extractUnfinishedTasks(sourceContent);
+    if (blocks.length === 0) {
+      return { sourcePath: previous.filePath, moved: 0, skipped: 0 };
+    }
+
+    const targetContent = await this.fileService.readFile(dailyNotePath);
+    const existing = new Set(targetContent.split('\n').map(line => line.trim()));
+    const toAdd = blocks.filter(block => !existing.has(block.text.split('\n')[0].trim()));
+
+    if (toAdd.length > 0) {
+      await this.fileService.writeFile(dailyNotePath, insertTasks(targetContent, toAdd.map(block => block.text)));
+    }
+
+    // Only remove from the earlier note once the tasks are safely in the new one
+    const movedLines = new Set(blocks.flatMap(block => block.lines));
+    const eol = sourceContent.includes('\r\n') ? '\r\n' : '\n';
+    const remaining = sourceContent.split(/\r?\n/).filter((_, line) => !movedLines.has(line));
+    await this.fileService.writeFile(previous.filePath, remaining.join(eol));
+
+    return { sourcePath: previous.filePath, moved: toAdd.length, skipped: blocks.length - toAdd.length };
+  }
+
+  /**
+   * The latest daily note before the given one, which tasks are rolled over from
+   * @throws Error if the file is not a daily note
+   */
+  async findPreviousNote(dailyNotePath: string): Promise<PeriodicNote | undefined> {
+    const note = await this.periodicNoteService.getNoteForFile(dailyNotePath);
+    if (!note || note.period !== 'daily') {
+      throw new Error('Tasks can only be rolled over into a daily note');
+    }
+
+    return [...(await this.periodicNoteService.getNotes('daily')).values()]
+      .filter(other => other.date.getTime() < note.date.getTime())
+      .sort((a, b) => b.date.getTime() - a.date.getTime())[0];
+  }
+}
+
+/**
+ * Add task lines at the end of the note's tasks section, or at the end of the note
+ */
+function insertTasks(content: string, tasks: string[]): string {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const taskLines = tasks.flatMap(task => task.split('\n'));
+
+  const headingLine = lines.findIndex(line => TASKS_HEADING_PATTERN.test(line));
+  if (headingLine === -1) {
+    // Keep one trailing newline after the appended tasks
+    const hasTrailingNewline = lines[lines.length - 1] === '';
+    const body = hasTrailingNewline ? lines.slice(0, -1) : lines;
+    while (body.length > 0 && body[body.length - 1].trim() === '') {
+      body.pop();
+    }
+    const separator = body.length > 0 ? [''] : [];
+    return [...body, ...separator, ...taskLines, ''].join(eol);
+  }
+
+  // End of the section: the next heading, less any blank lines before it
+  let end = lines.findIndex((line, index) => index > headingLine && /^#{1,6}\s/.test(line));
+  if (end === -1) {
+    end = lines.length;
+  }
+  while (end > headingLine + 1 && lines[end - 1].trim() === '') {
+    end--;
+  }
+  // Drop an empty placeholder task left by the template
+  const placeholder = end > headingLine + 1 && /^\s*[-*+]\s+\[ \]\s*$/.test(lines[end - 1]) ? 1 : 0;
+  lines.splice(end - placeholder, placeholder, ...taskLines);
+  return lines.join(eol);
+}
@@ -3,6 +3,7 @@ import { IConfigService } from '../services/interfaces/IConfigService';
 import { IFileService } from '../services/interfaces/IFileService';
 import { ITagIndexService, TagInfo, MemoWithTags } from '../services/interfaces/ITagIndexService';
 import { IWorkspaceService } from './CreateMemoUseCase';
+import { isTagInHierarchy } from '../utils/tagUtils';
 
 export class SearchMemosUseCase {
   constructor(
@@ -46,7 +47,7 @@ export class SearchMemosUseCase {
 
     const selected = await this.selectMemo(memos, workspaceRoot, `Memos with tag "${tag}"`);
     if (selected) {
-      await this.fileService.openFile(selected.filePath);
+      await this.openMemo(selected, [tag]);
     }
   }
 
@@ -98,11 +99,19 @@ export class SearchMemosUseCase {
       const modeText = searchMode === 'AND' ? 'all' : 'any';
       const selected = await this.selectMemo(memos, workspaceRoot, `Memos with ${modeText} of: ${tagList}`);
       if (selected) {
-        await this.fileService.openFile(selected.filePath);
+        await this.openMemo(selected, tags);
       }
     }
   }
 
+  /**
+   * Open a memo at the first inline #hashtag with one of the tags, or at the top if they are only in the frontmatter
+   */
+  private async openMemo(memo: MemoWithTags, tags: string[]): Promise<void> {
+    const location = memo.inlineTags.find(inlineTag => tags.some(tag => isTagInHierarchy(inlineTag.tag, tag)));
+    await this.fileService.openFile(memo.filePath, location?.line);
+  }
+
   private async selectSearchMode(): Promise<'AND' | 'OR' | undefined> {
     const items = [
       {
@@ -12,4 +12,76 @@ export function getDay(date: Date): string {
 
 export function formatDate(date: Date): string {
   return `${getYear(date)}-${getMonth(date)}-${getDay(date)}`;
-}
\ No newline at end of file
+}
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * ISO 8601 week: weeks start on Monday, and week 1 is the week containing the year's first Thursday
+ */
+export function getISOWeek(date: Date): { year: number; week: number } {
+  // The Thursday of this week decides which year the week belongs to
+  const thursday = addDays(date, 3 - (date.getDay() + 6) % 7);
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  const firstWeekThursday = addDays(firstThursday, 3 - (firstThursday.getDay() + 6) % 7);
+  const week = 1 + Math.round((thursday.getTime() - firstWeekThursday.getTime()) / (7 * 24 * 60 * 60 * 1000));
+  return { year: thursday.getFullYear(), week };
+}
+
+/**
+ * Monday of the ISO week containing the date
+ */
+export function getISOWeekStart(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+/**
+ * Monday of an ISO week
+ */
+export function getDateOfISOWeek(year: number, week: number): Date {
+  const januaryFourth = new Date(year, 0, 4);
+  return addDays(getISOWeekStart(januaryFourth), (week - 1) * 7);
+}
+
+export function formatISOWeek(date: Date): string {
+  const { year, week } = getISOWeek(date);
+  return `${year}-W${week.toString().padStart(2, '0')}`;
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Longest tokens first; text in [brackets] is kept as is
+const FORMAT_TOKEN_PATTERN = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|DD|D|HH|H|mm|ss|GGGG|WW|W/g;
+
+/**
+ * Format a date with tokens such as YYYY/MM/DD, dddd, MMM D, HH:mm or GGGG-[W]WW (ISO week)
+ */
+export function formatDateWithPattern(date: Date, pattern: string): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return pattern.replace(FORMAT_TOKEN_PATTERN, (token: string, literal: string | undefined) => {
+    if (literal !== undefined) {
+      return literal;
+    }
+    switch (token) {
+      case 'YYYY': return getYear(date);
+      case 'YY': return getYear(date).slice(-2);
+      case 'MMMM': return MONTH_NAMES[date.getMonth()];
+      case 'MMM': return MONTH_NAMES[date.getMonth()].slice(0, 3);
+      case 'MM': return getMonth(date);
+      case 'M': return (date.getMonth() + 1).toString();
+      case 'dddd': return WEEKDAY_NAMES[date.getDay()];
+      case 'ddd': return WEEKDAY_NAMES[date.getDay()].slice(0, 3);
+      case 'DD': return getDay(date);
+      case 'D': return date.getDate().toString();
+      case 'HH': return pad(date.getHours());
+      case 'H': return date.getHours().toString();
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      case 'GGGG': return getISOWeek(date).year.toString();
+      case 'WW': return pad(getISOWeek(date).week);
+      default: return getISOWeek(date).week.toString();
+    }
+  });
+}
@@ -1,9 +1,18 @@
 import * as path from 'path';
+import { MemoConfig } from '../models/MemoConfig';
 
 export function isValidMemoFile(fileName: string, extensions: string[]): boolean {
   return extensions.some(ext => fileName.endsWith(ext));
 }
 
+/**
+ * Whether a file is a memo: inside the memo base directory and with a memo extension
+ */
+export function isMemoFilePath(filePath: string, workspaceRoot: string, config: Pick<MemoConfig, 'baseDir' | 'fileExtensions'>): boolean {
+  const baseDir = path.join(workspaceRoot, config.baseDir);
+  return filePath.startsWith(baseDir + path.sep) && isValidMemoFile(path.basename(filePath), config.fileExtensions);
+}
+
 export function extractFileNameWithoutExtension(fileName: string, extensions: string[]): string {
   for (const ext of extensions) {
     if (fileName.endsWith(ext)) {
@@ -0,0 +1,233 @@
+import { Document, isMap, isScalar, isSeq, parseDocument, visit, LineCounter, Node, Scalar, ToStringOptions } from 'yaml';
+
+/**
+ * A frontmatter block split from the rest of a memo
+ */
+export interface FrontmatterBlock {
+  /** YAML between the --- fences, without the fences */
+  yaml: string;
+  /** Everything after the closing fence */
+  body: string;
+  /** Line ending used by the fences */
+  eol: string;
+}
+
+// Opening fence, YAML (possibly empty) and closing fence
+const FRONTMATTER_PATTERN = /^---[ \t]*(\r?\n)(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split leading frontmatter from content
+ * @returns undefined if the content does not start with a frontmatter block
+ */
+export function splitFrontmatter(content: string): FrontmatterBlock | undefined {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    yaml: match[2] ?? '',
+    body: content.slice(match[0].length),
+    eol: match[1]
+  };
+}
+
+/**
+ * Parse frontmatter YAML into a YAML document that keeps comments and formatting
+ * @throws Error if the YAML is invalid or not a mapping
+ */
+export function parseFrontmatterDocument(yaml: string): Document {
+  const document: Document = parseDocument(yaml);
+  if (document.errors.length > 0) {
+    throw new Error(`Invalid YAML frontmatter: ${document.errors[0].message}`);
+  }
+
+  if (document.contents === null) {
+    document.contents = document.createNode({});
+  } else if (!isMap(document.contents)) {
+    throw new Error('Invalid YAML frontmatter: expected key/value pairs');
+  }
+
+  return document;
+}
+
+/**
+ * Parse the frontmatter of a memo
+ * @returns Frontmatter values, or null if there is no frontmatter or it is not valid YAML
+ */
+export function parseFrontmatter(content: string): Record<string, any> | null {
+  const block = splitFrontmatter(content);
+  if (!block) {
+    return null;
+  }
+
+  try {
+    return parseFrontmatterDocument(block.yaml).toJS() as Record<string, any>;
+  } catch (error) {
+    console.warn('Failed to parse frontmatter:', error);
+    return null;
+  }
+}
+
+/**
+ * A zero-based line/character range in the memo content
+ */
+export interface FrontmatterRange {
+  startLine: number;
+  startCharacter: number;
+  endLine: number;
+  endCharacter: number;
+}
+
+/**
+ * Where the parts of a frontmatter block are in the memo content
+ */
+export interface FrontmatterOutline {
+  /** Top-level keys with the ranges of the key and (if any) its value */
+  keys: Map<string, { key: FrontmatterRange; value?: FrontmatterRange }>;
+  /** YAML syntax errors */
+  errors: Array<{ message: string; range: FrontmatterRange }>;
+  /** Line of the closing --- fence */
+  endLine: number;
+}
+
+/**
+ * Locate the top-level keys and syntax errors of a memo's frontmatter, for diagnostics and completion
+ * @returns undefined if the content does not start with a frontmatter block
+ */
+export function outlineFrontmatter(content: string): FrontmatterOutline | undefined {
+  const block = splitFrontmatter(content);
+  if (!block) {
+    return undefined;
+  }
+
+  const lineCounter = new LineCounter();
+  const document = parseDocument(block.yaml, { lineCounter });
+  // The YAML starts on the line after the opening fence
+  const toRange = (start: number, end: number): FrontmatterRange => {
+    const startPos = lineCounter.linePos(start);
+    const endPos = lineCounter.linePos(end);
+    return {
+      startLine: startPos.line,
+      startCharacter: startPos.col - 1,
+      endLine: endPos.line,
+      endCharacter: endPos.col - 1
+    };
+  };
+
+  const keys: FrontmatterOutline['keys'] = new Map();
+  if (isMap(document.contents)) {
+    for (const pair of document.contents.items) {
+      const key = pair.key as Node | null;
+      if (!isScalar(key) || !key.range) {
+        continue;
+      }
+      const value = pair.value as Node | null;
+      keys.set(String(key.value), {
+        key: toRange(key.range[0], key.range[1]),
+        value: value?.range ? toRange(value.range[0], value.range[1]) : undefined
+      });
+    }
+  }
+
+  const errors = document.errors.map(error => ({
+    message: error.message.split('\n')[0],
+    range: toRange(error.pos[0], Math.max(error.pos[1], error.pos[0]))
+  }));
+
+  const yamlLines = block.yaml ? block.yaml.split('\n').length : 0;
+  return { keys, errors, endLine: yamlLines + 1 };
+}
+
+/**
+ * Serialize values as frontmatter YAML (without fences or trailing newline).
+ * Lists of plain values are written inline, e.g. tags: [a, b]
+ */
+export function stringifyFrontmatter(data: Record<string, unknown>): string {
+  if (Object.keys(data).length === 0) {
+    return '';
+  }
+
+  const document = new Document(data);
+  visit(document, {
+    Seq(_, node) {
+      node.flow = node.items.every(item => isScalar(item));
+    }
+  });
+  return stringifyDocument(document, '').trimEnd();
+}
+
+/**
+ * Set (or, with undefined, remove) frontmatter values, keeping key order, comments
+ * and the formatting of untouched values. New keys are appended; a frontmatter block
+ * is added when the content has none.
+ * @returns The content unchanged if every value is already set
+ * @throws Error if the existing frontmatter is not valid YAML
+ */
+export function updateFrontmatter(content: string, updates: Record<string, unknown>): string {
+  const block = splitFrontmatter(content);
+  if (!block) {
+    const values = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    if (Object.keys(values).length === 0) {
+      return content;
+    }
+    return `---\n${stringifyFrontmatter(values)}\n---\n\n${content}`;
+  }
+
+  const document = parseFrontmatterDocument(block.yaml);
+  let changed = false;
+
+  for (const [key, value] of Object.entries(updates)) {
+    const current = document.get(key, true);
+    if (value === undefined) {
+      changed = document.delete(key) || changed;
+      continue;
+    }
+
+    if (current !== undefined && JSON.stringify(toPlainValue(document.get(key))) === JSON.stringify(value)) {
+      continue;
+    }
+
+    if (isScalar(current) && (value === null || typeof value !== 'object')) {
+      // Keep the node so its quoting style and comments survive
+      (current as Scalar).value = value;
+    } else {
+      const node = document.createNode(value);
+      if (isSeq(node)) {
+        // Keep the existing list style; new lists of plain values are inline
+        node.flow = isSeq(current) ? !!current.flow : node.items.every(item => isScalar(item));
+      }
+      document.set(key, node);
+    }
+    changed = true;
+  }
+
+  if (!changed) {
+    return content;
+  }
+
+  // Removing every key would otherwise leave "{}"
+  const yaml = isMap(document.contents) && document.contents.items.length === 0
+    ? ''
+    : stringifyDocument(document, block.yaml).replace(/\n$/, '');
+  const eol = block.eol;
+  const separator = yaml ? eol : '';
+  return `---${eol}${yaml.split('\n').join(eol)}${separator}---${eol}${block.body}`;
+}
+
+function toPlainValue(value: unknown): unknown {
+  return value && typeof value === 'object' && 'toJSON' in value ? (value as { toJSON(): unknown }).toJSON() : value;
+}
+
+/**
+ * Stringify without re-wrapping long lines, following the list indentation of the original YAML
+ */
+function stringifyDocument(document: Document, originalYaml: string): string {
+  const options: ToStringOptions = {
+    lineWidth: 0,
+    flowCollectionPadding: false,
+    // "key:\n- item" rather than "key:\n  - item"
+    indentSeq: !/^[^\s#][^\n]*:[ \t]*\r?\n- /m.test(originalYaml)
+  };
+  return document.toString(options);
+}
@@ -0,0 +1,406 @@
+import * as path from 'path';
+import { parseFrontmatter } from './frontmatterUtils';
+import { calculateRelativePath, resolveRelativePath } from './pathUtils';
+
+export type MemoLinkKind = 'markdown' | 'wiki';
+
+/**
+ * A memo link found in a single line of markdown
+ * start/end are character offsets of the whole link within the line
+ */
+export interface ParsedMemoLink {
+  kind: MemoLinkKind;
+  text: string;
+  target: string;
+  anchor?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A heading or ^block-id that links can point at
+ * line is 0-based
+ */
+export interface MemoAnchor {
+  kind: 'heading' | 'block';
+  id: string;
+  text: string;
+  level: number;
+  line: number;
+}
+
+export interface WikiLinkCandidate {
+  filePath: string;
+  title?: string;
+}
+
+// Markdown links to .md/.markdown files with an optional #anchor (exclude http/https URLs)
+const MARKDOWN_LINK_PATTERN = /\[([^\]]*)\]\((?!https?:\/\/)([^)#]+\.(?:md|markdown))(?:#([^)]*))?\)/g;
+
+// [[Target]], [[Target#Heading]], [[Target#^block]] or [[Target|Alias]]
+const WIKI_LINK_PATTERN = /\[\[([^[\]|#]+?)(?:#([^[\]|]*))?(?:\|([^[\]]+?))?\]\]/g;
+
+// A block id at the end of a line: "Some paragraph ^block-id"
+const BLOCK_ID_PATTERN = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+
+/**
+ * Parse all memo links (markdown and wiki style) in a line
+ */
+export function parseMemoLinks(line: string): ParsedMemoLink[] {
+  const links: ParsedMemoLink[] = [];
+  const wikiRanges: Array<[number, number]> = [];
+
+  let match: RegExpExecArray | null;
+  const wikiPattern = new RegExp(WIKI_LINK_PATTERN.source, 'g');
+  while ((match = wikiPattern.exec(line)) !== null) {
+    const target = match[1].trim();
+    if (!target) {
+      continue;
+    }
+    const start = match.index;
+    const end = start + match[0].length;
+    wikiRanges.push([start, end]);
+    links.push({
+      kind: 'wiki',
+      text: (match[3] || match[1]).trim(),
+      target,
+      anchor: match[2] ? match[2].trim() : undefined,
+      start,
+      end
+    });
+  }
+
+  const markdownPattern = new RegExp(MARKDOWN_LINK_PATTERN.source, 'g');
+  while ((match = markdownPattern.exec(line)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    // Skip the inner brackets of a wiki link such as [[a](b.md)]]
+    if (wikiRanges.some(([wikiStart, wikiEnd]) => start < wikiEnd && end > wikiStart)) {
+      continue;
+    }
+    links.push({
+      kind: 'markdown',
+      text: match[1],
+      target: match[2],
+      anchor: match[3] || undefined,
+      start,
+      end
+    });
+  }
+
+  return links.sort((a, b) => a.start - b.start);
+}
+
+function decodeAnchor(anchor: string): string {
+  try {
+    return decodeURIComponent(anchor);
+  } catch {
+    return anchor;
+  }
+}
+
+/**
+ * Find the memo link that contains the given character offset
+ */
+export function findMemoLinkAt(line: string, character: number): ParsedMemoLink | undefined {
+  return parseMemoLinks(line).find(link => character >= link.start && character <= link.end);
+}
+
+/**
+ * Rewrite memo links in content line by line
+ * The replacer returns the new link text, or undefined to keep the link as is
+ */
+export function replaceMemoLinks(
+  content: string,
+  replacer: (link: ParsedMemoLink, lineIndex: number) => string | undefined
+): { content: string; replaced: number } {
+  let replaced = 0;
+  const lines = content.split('\n').map((line, lineIndex) => {
+    const links = parseMemoLinks(line);
+    let result = line;
+
+    // Replace from the end so earlier offsets stay valid
+    for (let i = links.length - 1; i >= 0; i--) {
+      const link = links[i];
+      const replacement = replacer(link, lineIndex);
+      if (replacement !== undefined) {
+        result = result.substring(0, link.start) + replacement + result.substring(link.end);
+        replaced++;
+      }
+    }
+
+    return result;
+  });
+
+  return { content: lines.join('\n'), replaced };
+}
+
+/**
+ * Remove the links in a line for which the predicate holds, or with keepText replace
+ * them with their text
+ */
+export function unlinkMemoLinks(line: string, predicate: (link: ParsedMemoLink) => boolean, keepText: boolean): string {
+  const links = parseMemoLinks(line);
+  let result = line;
+
+  // Replace from the end so earlier offsets stay valid
+  for (let i = links.length - 1; i >= 0; i--) {
+    const link = links[i];
+    if (!predicate(link)) {
+      continue;
+    }
+
+    let start = link.start;
+    // Don't leave a double space, or a space before punctuation, where the link was
+    if (!keepText && start > 0 && result[start - 1] === ' ' && (link.end === result.length || /[\s.,;:!?)]/.test(result[link.end]))) {
+      start--;
+    }
+    result = result.substring(0, start) + (keepText ? link.text : '') + result.substring(link.end);
+  }
+
+  return result;
+}
+
+/**
+ * Rewrite the relative markdown links of content moved from one file to another so
+ * they still point at the same memos, and links to the old file at the new one.
+ * Links that still resolve are kept as written; wiki links resolve by name and are kept as is.
+ */
+export function rebaseMarkdownLinks(content: string, fromFile: string, toFile: string): { content: string; replaced: number } {
+  const normalizedFrom = path.normalize(fromFile);
+
+  return replaceMemoLinks(content, link => {
+    if (link.kind === 'wiki') {
+      return undefined;
+    }
+    const resolvedPath = resolveRelativePath(fromFile, link.target);
+    const linkedPath = path.normalize(resolvedPath) === normalizedFrom ? toFile : resolvedPath;
+    if (path.normalize(resolveRelativePath(toFile, link.target)) === path.normalize(linkedPath)) {
+      return undefined;
+    }
+    return formatMarkdownLink(link.text, calculateRelativePath(toFile, linkedPath), link.anchor);
+  });
+}
+
+/**
+ * Format a wiki link, keeping the alias only when it differs from the target
+ */
+export function formatWikiLink(target: string, alias?: string, anchor?: string): string {
+  const fullTarget = anchor ? `${target}#${anchor}` : target;
+  return alias && alias !== target ? `[[${fullTarget}|${alias}]]` : `[[${fullTarget}]]`;
+}
+
+/**
+ * Format a markdown memo link, appending the anchor if present
+ */
+export function formatMarkdownLink(text: string, relativePath: string, anchor?: string): string {
+  return anchor ? `[${text}](${relativePath}#${anchor})` : `[${text}](${relativePath})`;
+}
+
+/**
+ * Convert heading text to a GitHub style anchor slug
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * List the headings and ^block-ids of a memo, skipping frontmatter and code blocks
+ */
+export function listAnchors(content: string): MemoAnchor[] {
+  const anchors: MemoAnchor[] = [];
+  const lines = content.split('\n');
+  let inCodeBlock = false;
+  let startLine = 0;
+
+  if (lines[0]?.trim() === '---') {
+    const endIndex = lines.slice(1).findIndex(line => line.trim() === '---');
+    if (endIndex !== -1) {
+      startLine = endIndex + 2;
+    }
+  }
+
+  for (let i = startLine; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      continue;
+    }
+
+    const headingMatch = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (headingMatch) {
+      const text = headingMatch[2].trim();
+      anchors.push({ kind: 'heading', id: slugifyHeading(text), text, level: headingMatch[1].length, line: i });
+    }
+
+    const blockMatch = line.match(BLOCK_ID_PATTERN);
+    if (blockMatch) {
+      anchors.push({ kind: 'block', id: blockMatch[1], text: line.replace(BLOCK_ID_PATTERN, '').trim(), level: 0, line: i });
+    }
+  }
+
+  return anchors;
+}
+
+/**
+ * Find the anchor a link points at. Headings match by slug or by their text,
+ * block references are written as ^block-id
+ */
+export function findAnchor(content: string, anchor: string): MemoAnchor | undefined {
+  const anchors = listAnchors(content);
+  const trimmed = decodeAnchor(anchor.trim());
+
+  if (trimmed.startsWith('^')) {
+    const blockId = trimmed.substring(1);
+    return anchors.find(candidate => candidate.kind === 'block' && candidate.id === blockId);
+  }
+
+  const lowerAnchor = trimmed.toLowerCase();
+  const slug = slugifyHeading(trimmed);
+  return anchors.find(candidate => candidate.kind === 'heading' &&
+    (candidate.id === lowerAnchor || candidate.id === slug || candidate.text.toLowerCase() === lowerAnchor));
+}
+
+/**
+ * Extract the section an anchor points at: a heading with its body up to the next
+ * heading of the same or higher level, or the single line of a block reference
+ */
+export function extractAnchorSection(content: string, anchor: string): string | undefined {
+  const target = findAnchor(content, anchor);
+  if (!target) {
+    return undefined;
+  }
+
+  const lines = content.split('\n');
+  if (target.kind === 'block') {
+    return lines[target.line].replace(BLOCK_ID_PATTERN, '').trim();
+  }
+
+  const nextHeading = listAnchors(content).find(candidate =>
+    candidate.kind === 'heading' && candidate.line > target.line && candidate.level <= target.level);
+  const endLine = nextHeading ? nextHeading.line : lines.length;
+  return lines.slice(target.line, endLine).join('\n').trim();
+}
+
+/**
+ * Extract the title from the frontmatter of a memo, if any
+ */
+export function extractFrontmatterTitle(content: string): string | undefined {
+  const title = parseFrontmatter(content)?.title;
+  return typeof title === 'string' && title.trim() ? title.trim() : undefined;
+}
+
+/**
+ * Strip the memo file extension from a path and normalize separators
+ */
+function toLinkKey(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/\.(md|markdown)$/i, '').toLowerCase();
+}
+
+/**
+ * Check whether a wiki link target refers to the given file by name or path suffix
+ * Title-based matches are not considered here
+ */
+export function wikiTargetMatchesPath(target: string, filePath: string): boolean {
+  const key = toLinkKey(target.trim());
+  const fileKey = toLinkKey(filePath);
+  if (!key) {
+    return false;
+  }
+  return fileKey === key || fileKey.endsWith('/' + key);
+}
+
+/**
+ * Compute the wiki link target to use after a file has been renamed or moved
+ * Keeps the same form as the original target (bare name or folder/name)
+ */
+export function renameWikiTarget(target: string, newFilePath: string): string {
+  const segments = target.trim().replace(/\\/g, '/').split('/').filter(part => part !== '');
+  const newSegments = newFilePath.replace(/\\/g, '/').split('/').filter(part => part !== '');
+  const keepExtension = /\.(md|markdown)$/i.test(target.trim());
+
+  const suffix = newSegments.slice(-Math.max(1, segments.length));
+  let result = suffix.join('/');
+  if (!keepExtension) {
+    result = result.replace(/\.(md|markdown)$/i, '');
+  }
+  return result;
+}
+
+/**
+ * Resolves wiki link targets to memo files by file name, path suffix or frontmatter title
+ */
+export class WikiLinkResolver {
+  private entries = new Map<string, WikiLinkCandidate>();
+
+  setEntry(filePath: string, title?: string): void {
+    this.entries.set(filePath, { filePath, title });
+  }
+
+  hasEntry(filePath: string): boolean {
+    return this.entries.has(filePath);
+  }
+
+  getEntry(filePath: string): WikiLinkCandidate | undefined {
+    return this.entries.get(filePath);
+  }
+
+  removeEntry(filePath: string): void {
+    this.entries.delete(filePath);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getEntries(): WikiLinkCandidate[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Resolve a wiki link target. When several memos match, the one closest to
+   * the source file wins, then the one with the shortest path.
+   */
+  resolve(target: string, sourceFile?: string): string | undefined {
+    const trimmed = target.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+
+    const lowerTitle = trimmed.toLowerCase();
+    const pathMatches: string[] = [];
+    const titleMatches: string[] = [];
+
+    for (const entry of this.entries.values()) {
+      if (wikiTargetMatchesPath(trimmed, entry.filePath)) {
+        pathMatches.push(entry.filePath);
+      } else if (entry.title && entry.title.toLowerCase() === lowerTitle) {
+        titleMatches.push(entry.filePath);
+      }
+    }
+
+    const candidates = pathMatches.length > 0 ? pathMatches : titleMatches;
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const sourceDir = sourceFile ? path.dirname(sourceFile) : undefined;
+    return candidates.sort((a, b) => {
+      if (sourceDir) {
+        const aSameDir = path.dirname(a) === sourceDir ? 0 : 1;
+        const bSameDir = path.dirname(b) === sourceDir ? 0 : 1;
+        if (aSameDir !== bSameDir) {
+          return aSameDir - bSameDir;
+        }
+      }
+      return a.length - b.length || a.localeCompare(b);
+    })[0];
+  }
+}
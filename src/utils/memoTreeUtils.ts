@@ -0,0 +1,138 @@
+import * as path from 'path';
+import { TreeViewDisplay } from '../models/MemoMetadata';
+import { parseDate } from '../search/searchQuery';
+
+/**
+ * A memo listed in the memo explorer, with the frontmatter it is grouped and sorted by
+ */
+export interface MemoEntry {
+  filePath: string;
+  title: string;
+  lastModified: Date;
+  relativePath: string;
+  fields: Record<string, unknown>;
+}
+
+// frontmatter keys holding the created date
+const CREATED_FIELDS = ['created', 'date'];
+
+/**
+ * Display text for a frontmatter value; lists are joined and missing values are empty
+ */
+export function formatMetadataValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => formatMetadataValue(item)).filter(item => item !== '').join(', ');
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * The groups a memo belongs to; a list field such as tags puts it in one group per item
+ */
+export function getGroupValues(memo: MemoEntry, field: string): string[] {
+  const value = memo.fields[field];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(item => formatMetadataValue(item)).filter(item => item !== '');
+}
+
+/**
+ * The sorted values to group by, followed by undefined when some memos lack the field
+ */
+export function listGroups(memos: MemoEntry[], field: string): Array<string | undefined> {
+  const values = new Set<string>();
+  let hasUngrouped = false;
+  for (const memo of memos) {
+    const memoValues = getGroupValues(memo, field);
+    memoValues.forEach(value => values.add(value));
+    hasUngrouped = hasUngrouped || memoValues.length === 0;
+  }
+
+  const groups: Array<string | undefined> = Array.from(values).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  // Memos without the field come last
+  if (hasUngrouped) {
+    groups.push(undefined);
+  }
+  return groups;
+}
+
+/**
+ * Whether a memo is in the group for a value, or in the group of memos without the field
+ */
+export function isInGroup(memo: MemoEntry, field: string, value: string | undefined): boolean {
+  const values = getGroupValues(memo, field);
+  return value === undefined ? values.length === 0 : values.includes(value);
+}
+
+/**
+ * The fields to annotate a memo with, skipping those it does not have
+ */
+export function getShownMetadata(memo: MemoEntry, display: TreeViewDisplay): Array<{ field: string; value: string }> {
+  return (display.showMetadata || [])
+    .map(field => ({ field, value: formatMetadataValue(memo.fields[field]) }))
+    .filter(({ value }) => value !== '');
+}
+
+/**
+ * Sort by title, created date, last modified date or a metadata field.
+ * Dates default to newest first, anything else to ascending; memos without the field come last.
+ */
+export function sortMemos(memos: MemoEntry[], display: TreeViewDisplay): MemoEntry[] {
+  const sortBy = display.sortBy || 'modified';
+  const isDate = sortBy === 'created' || sortBy === 'modified';
+  const direction = (display.sortOrder || (isDate ? 'desc' : 'asc')) === 'asc' ? 1 : -1;
+
+  const keyOf = (memo: MemoEntry): string | number | undefined => {
+    switch (sortBy) {
+      case 'title':
+        return memo.title;
+      case 'modified':
+        return memo.lastModified.getTime();
+      case 'created':
+        return getCreatedDate(memo).getTime();
+      default: {
+        const value = memo.fields[sortBy];
+        if (typeof value === 'number') {
+          return value;
+        }
+        const formatted = formatMetadataValue(value);
+        return formatted === '' ? undefined : formatted;
+      }
+    }
+  };
+
+  return [...memos].sort((a, b) => {
+    const keyA = keyOf(a);
+    const keyB = keyOf(b);
+    if (keyA === undefined || keyB === undefined) {
+      return keyA === keyB ? 0 : keyA === undefined ? 1 : -1;
+    }
+    const order = typeof keyA === 'number' && typeof keyB === 'number'
+      ? keyA - keyB
+      : String(keyA).localeCompare(String(keyB), undefined, { numeric: true });
+    // Newest first among memos that compare equal
+    return order * direction || b.lastModified.getTime() - a.lastModified.getTime();
+  });
+}
+
+/**
+ * The created or date field, else a date at the start of the file name, else the last modified date
+ */
+function getCreatedDate(memo: MemoEntry): Date {
+  for (const field of CREATED_FIELDS) {
+    const value = memo.fields[field];
+    const dateMatch = typeof value === 'string' ? value.match(/^\d{4}-\d{1,2}-\d{1,2}/) : null;
+    const date = dateMatch ? parseDate(dateMatch[0]) : undefined;
+    if (date) {
+      return date;
+    }
+  }
+
+  const fileNameMatch = path.basename(memo.filePath).match(/^\d{4}-\d{2}-\d{2}/);
+  return (fileNameMatch ? parseDate(fileNameMatch[0]) : undefined) || memo.lastModified;
+}
@@ -0,0 +1,193 @@
+import { listAnchors } from './linkUtils';
+
+export type MergeMode = 'append' | 'interleave';
+
+/**
+ * A frontmatter field the two memos set to different values
+ */
+export interface FrontmatterConflict {
+  key: string;
+  targetValue: unknown;
+  sourceValue: unknown;
+}
+
+// Fields that describe the memo itself; the target keeps its own
+const IDENTITY_KEYS = ['title', 'type'];
+
+interface Section {
+  /** Heading text, or undefined for the content before the first heading */
+  text?: string;
+  lines: string[];
+}
+
+/**
+ * Work out the frontmatter changes for merging a source memo into a target.
+ * Tags are combined, fields only the source has are copied, and fields both set to
+ * different values are returned as conflicts for the caller to settle.
+ * @returns Values to set on the target, and the conflicting fields
+ */
+export function mergeFrontmatter(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>
+): { updates: Record<string, unknown>; conflicts: FrontmatterConflict[] } {
+  const updates: Record<string, unknown> = {};
+  const conflicts: FrontmatterConflict[] = [];
+
+  for (const [key, sourceValue] of Object.entries(source)) {
+    if (IDENTITY_KEYS.includes(key) || sourceValue === null || sourceValue === undefined) {
+      continue;
+    }
+
+    const targetValue = target[key];
+    if (key === 'tags') {
+      const targetTags = toList(targetValue);
+      const tags = Array.from(new Set([...targetTags, ...toList(sourceValue)]));
+      if (tags.length !== targetTags.length) {
+        updates.tags = tags;
+      }
+    } else if (targetValue === null || targetValue === undefined) {
+      updates[key] = sourceValue;
+    } else if (JSON.stringify(targetValue) !== JSON.stringify(sourceValue)) {
+      conflicts.push({ key, targetValue, sourceValue });
+    }
+  }
+
+  return { updates, conflicts };
+}
+
+/**
+ * Merge the body of a source memo into the body of a target memo. The source's
+ * "# title" heading is dropped.
+ * - append: the source goes at the end under a "## heading" section
+ * - interleave: source sections whose heading matches one in the target are added to
+ *   the end of that section, and the rest are appended as above
+ */
+export function mergeMemoBodies(targetBody: string, sourceBody: string, heading: string, mode: MergeMode): string {
+  const { sections, topLevel } = splitSections(dropTitleHeading(sourceBody));
+  const targetLines = targetBody.split('\n');
+  const targetHeadings = listAnchors(targetBody).filter(anchor => anchor.kind === 'heading');
+
+  // Source lines to add at the end of each matching target section, by heading line
+  const additions = new Map<number, string[]>();
+  const remaining: string[] = [];
+
+  for (const section of sections) {
+    const match = mode === 'interleave' && section.text !== undefined
+      ? targetHeadings.find(candidate => candidate.text.toLowerCase() === section.text!.toLowerCase())
+      : undefined;
+    if (!match) {
+      remaining.push(...section.lines);
+      continue;
+    }
+
+    const content = shiftHeadings(trimBlankLines(section.lines.slice(1)), match.level - topLevel);
+    if (content.length > 0) {
+      const existing = additions.get(match.line);
+      additions.set(match.line, existing ? [...existing, '', ...content] : content);
+    }
+  }
+
+  // Insert from the bottom so earlier line numbers stay valid
+  for (const headingLine of Array.from(additions.keys()).sort((a, b) => b - a)) {
+    const level = targetHeadings.find(candidate => candidate.line === headingLine)!.level;
+    const next = targetHeadings.find(candidate => candidate.line > headingLine && candidate.level <= level);
+    const end = next ? next.line : targetLines.length;
+
+    let insertAt = end;
+    while (insertAt > headingLine + 1 && targetLines[insertAt - 1].trim() === '') {
+      insertAt--;
+    }
+
+    const block = ['', ...additions.get(headingLine)!];
+    if (insertAt === end && next) {
+      block.push('');
+    }
+    targetLines.splice(insertAt, 0, ...block);
+  }
+
+  const merged = targetLines.join('\n').trimEnd();
+  const rest = trimBlankLines(remaining);
+  if (rest.length === 0) {
+    return merged + '\n';
+  }
+
+  const appended = [`## ${heading}`, '', ...shiftHeadings(rest, 3 - topLevel)].join('\n');
+  return (merged ? `${merged}\n\n${appended}` : appended) + '\n';
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item));
+  }
+  return value === null || value === undefined || value === '' ? [] : [String(value)];
+}
+
+/**
+ * Drop a leading "# title" heading, which the merged section heading replaces
+ */
+function dropTitleHeading(body: string): string {
+  const lines = body.split('\n');
+  const first = lines.findIndex(line => line.trim() !== '');
+  if (first !== -1 && /^#\s+/.test(lines[first])) {
+    lines.splice(first, 1);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Split content into the part before the first heading and one section per
+ * top-level heading
+ */
+function splitSections(content: string): { sections: Section[]; topLevel: number } {
+  const lines = content.split('\n');
+  const headings = listAnchors(content).filter(anchor => anchor.kind === 'heading');
+  if (headings.length === 0) {
+    return { sections: [{ lines }], topLevel: 3 };
+  }
+
+  const topLevel = Math.min(...headings.map(anchor => anchor.level));
+  const topHeadings = headings.filter(anchor => anchor.level === topLevel);
+
+  const sections: Section[] = [{ lines: lines.slice(0, topHeadings[0].line) }];
+  topHeadings.forEach((anchor, index) => {
+    const end = index + 1 < topHeadings.length ? topHeadings[index + 1].line : lines.length;
+    sections.push({ text: anchor.text, lines: lines.slice(anchor.line, end) });
+  });
+
+  return { sections, topLevel };
+}
+
+/**
+ * Move headings up or down by a number of levels, outside code blocks
+ */
+function shiftHeadings(lines: string[], shift: number): string[] {
+  if (shift === 0) {
+    return lines;
+  }
+
+  let inCodeBlock = false;
+  return lines.map(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      return line;
+    }
+    const match = !inCodeBlock ? line.match(/^(#{1,6})(\s.*)$/) : null;
+    if (!match) {
+      return line;
+    }
+    const level = Math.min(6, Math.max(1, match[1].length + shift));
+    return '#'.repeat(level) + match[2];
+  });
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') {
+    start++;
+  }
+  while (end > start && lines[end - 1].trim() === '') {
+    end--;
+  }
+  return lines.slice(start, end);
+}
@@ -0,0 +1,78 @@
+import { NotePeriod } from '../models/PeriodicNote';
+import { addDays, formatDate, formatISOWeek, getDateOfISOWeek, getISOWeekStart, getMonth, getYear } from './dateUtils';
+
+/**
+ * First day of the day, ISO week or month containing the date
+ */
+export function getPeriodStart(period: NotePeriod, date: Date): Date {
+  switch (period) {
+    case 'daily':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    case 'weekly':
+      return getISOWeekStart(new Date(date.getFullYear(), date.getMonth(), date.getDate()));
+    case 'monthly':
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+}
+
+/**
+ * Start of the period `amount` periods before (negative) or after the one containing the date
+ */
+export function shiftPeriod(period: NotePeriod, date: Date, amount: number): Date {
+  const start = getPeriodStart(period, date);
+  switch (period) {
+    case 'daily':
+      return addDays(start, amount);
+    case 'weekly':
+      return addDays(start, amount * 7);
+    case 'monthly':
+      return new Date(start.getFullYear(), start.getMonth() + amount, 1);
+  }
+}
+
+/**
+ * Title of a periodic note: 2026-01-05, 2026-W02 or 2026-01
+ */
+export function formatPeriodLabel(period: NotePeriod, date: Date): string {
+  switch (period) {
+    case 'daily':
+      return formatDate(date);
+    case 'weekly':
+      return formatISOWeek(date);
+    case 'monthly':
+      return `${getYear(date)}-${getMonth(date)}`;
+  }
+}
+
+// Dates as they appear in note paths: 2026-01-05 or 2026/01/05, 2026-W02, 2026-01 or 2026/01
+const DAILY_PATH_PATTERN = /(?:^|\D)(\d{4})[-/](\d{2})[-/](\d{2})(?!\d)/g;
+const WEEKLY_PATH_PATTERN = /(?:^|\D)(\d{4})[-/]?W(\d{1,2})(?!\d)/gi;
+const MONTHLY_PATH_PATTERN = /(?:^|\D)(\d{4})[-/](\d{2})(?![-/]?\d)/g;
+
+/**
+ * Read the period a note is for from its path relative to the memo type directory,
+ * e.g. archives/2026/01/05.md or 2026-W02.md. The last date in the path wins.
+ * @returns Start of the period, or undefined if the path holds no valid date
+ */
+export function parsePeriodFromPath(period: NotePeriod, relativePath: string): Date | undefined {
+  const normalized = relativePath.replace(/\\/g, '/');
+  const pattern = period === 'daily' ? DAILY_PATH_PATTERN : period === 'weekly' ? WEEKLY_PATH_PATTERN : MONTHLY_PATH_PATTERN;
+  const matches = Array.from(normalized.matchAll(pattern));
+  const match = matches[matches.length - 1];
+  if (!match) {
+    return undefined;
+  }
+
+  const year = parseInt(match[1], 10);
+  const value = parseInt(match[2], 10);
+  if (period === 'weekly') {
+    return value >= 1 && value <= 53 ? getDateOfISOWeek(year, value) : undefined;
+  }
+  if (value < 1 || value > 12) {
+    return undefined;
+  }
+
+  const day = period === 'daily' ? parseInt(match[3], 10) : 1;
+  const date = new Date(year, value - 1, day);
+  return date.getMonth() === value - 1 ? date : undefined;
+}
@@ -0,0 +1,88 @@
+/**
+ * Compute the Levenshtein edit distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a.length === 0) {
+    return b.length;
+  }
+  if (b.length === 0) {
+    return a.length;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Case-insensitive similarity between two strings, from 0 (unrelated) to 1 (equal)
+ * Containment of one string in the other scores at least 0.7
+ */
+export function stringSimilarity(a: string, b: string): number {
+  const left = a.trim().toLowerCase();
+  const right = b.trim().toLowerCase();
+  if (!left || !right) {
+    return 0;
+  }
+  if (left === right) {
+    return 1;
+  }
+
+  const maxLength = Math.max(left.length, right.length);
+  const score = 1 - levenshteinDistance(left, right) / maxLength;
+  if (left.includes(right) || right.includes(left)) {
+    return Math.max(score, 0.7);
+  }
+  return score;
+}
+
+/**
+ * Rank items by their best similarity to the query, dropping those below minScore
+ */
+export function rankBySimilarity<T>(
+  query: string,
+  items: T[],
+  getKeys: (item: T) => string[],
+  limit: number = 5,
+  minScore: number = 0.5
+): T[] {
+  return items
+    .map(item => ({
+      item,
+      score: Math.max(0, ...getKeys(item).map(key => stringSimilarity(query, key)))
+    }))
+    .filter(entry => entry.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(entry => entry.item);
+}
+
+/**
+ * Suggest a memo title from extracted text: its first non-empty line without
+ * heading, list or quote markers, cut at a word boundary after 60 characters
+ */
+export function suggestTitleFromText(text: string, maxLength = 60): string {
+  const firstLine = text.split(/\r?\n/).map(line => line.trim()).find(line => line !== '') || '';
+  const title = firstLine
+    .replace(/^(?:#{1,6}\s+|>\s*|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+)/, '')
+    .replace(/[*_`]/g, '')
+    .trim();
+  if (title.length <= maxLength) {
+    return title;
+  }
+
+  const cut = title.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trim();
+}
@@ -0,0 +1,141 @@
+import { splitFrontmatter } from './frontmatterUtils';
+
+// Separates the levels of hierarchical tags, e.g. project/alpha/infra
+export const TAG_SEPARATOR = '/';
+
+/**
+ * Trim a tag and drop empty levels, e.g. " project//alpha/ " becomes "project/alpha"
+ */
+export function normalizeTag(tag: string): string {
+  return tag.split(TAG_SEPARATOR).map(part => part.trim()).filter(part => part).join(TAG_SEPARATOR);
+}
+
+/**
+ * Check whether a tag is the given tag or one of its descendants
+ * @example isTagInHierarchy('project/alpha', 'project') // true
+ * @example isTagInHierarchy('projects', 'project') // false
+ */
+export function isTagInHierarchy(tag: string, ancestor: string): boolean {
+  return tag === ancestor || tag.startsWith(ancestor + TAG_SEPARATOR);
+}
+
+/**
+ * The tag and every tag above it, from the top level down
+ * @example getTagPath('project/alpha/infra') // ['project', 'project/alpha', 'project/alpha/infra']
+ */
+export function getTagPath(tag: string): string[] {
+  const parts = tag.split(TAG_SEPARATOR);
+  return parts.map((_, index) => parts.slice(0, index + 1).join(TAG_SEPARATOR));
+}
+
+/**
+ * Last level of a tag, shown in the tag hierarchy
+ */
+export function getTagName(tag: string): string {
+  return tag.substring(tag.lastIndexOf(TAG_SEPARATOR) + 1);
+}
+
+/**
+ * Parent of a tag, or undefined for a top-level tag
+ */
+export function getParentTag(tag: string): string | undefined {
+  const index = tag.lastIndexOf(TAG_SEPARATOR);
+  return index === -1 ? undefined : tag.substring(0, index);
+}
+
+/**
+ * Rename a tag and its descendants in a list of tags, dropping duplicates the rename creates.
+ * With no new tag, the tag and its descendants are removed.
+ * @example replaceTag(['project/alpha', 'infra'], 'project', 'work') // ['work/alpha', 'infra']
+ */
+export function replaceTag(tags: string[], oldTag: string, newTag: string | undefined): string[] {
+  const result: string[] = [];
+  for (const tag of tags) {
+    if (!isTagInHierarchy(tag, oldTag)) {
+      result.push(tag);
+    } else if (newTag !== undefined) {
+      result.push(newTag + tag.substring(oldTag.length));
+    }
+  }
+  return [...new Set(result)];
+}
+
+/**
+ * An inline #hashtag in the body of a memo
+ */
+export interface InlineTag {
+  tag: string;
+  /** Zero-based line in the memo content */
+  line: number;
+  /** Zero-based column of the # */
+  column: number;
+  /** Length of the # and the tag as written */
+  length: number;
+}
+
+// A # at the start of a line or after a space or opening bracket, e.g. #todo or #project/alpha
+const HASHTAG_PATTERN = /(^|[\s([{,;])#([\p{L}\p{N}_][\p{L}\p{N}_\-/]*)/gu;
+// Text that may contain a # without being a tag: inline code, URLs and link destinations
+const NON_TAG_SPANS = /`+[^`]*`+|\b[a-z][a-z0-9+.-]*:\/\/\S+|\]\([^)]*\)/gi;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^\s{0,3}#{1,6}(\s|$)/;
+
+/**
+ * Find inline #hashtags in memo content, skipping frontmatter, code blocks, inline code,
+ * URLs and headings. Tags need at least one letter, so issue numbers like #123 are not tags.
+ */
+export function parseInlineTags(content: string): InlineTag[] {
+  const tags: InlineTag[] = [];
+
+  for (const { text, line } of taggableLines(content)) {
+    // Blank out spans that can't hold tags, keeping columns
+    const searchable = text.replace(NON_TAG_SPANS, span => ' '.repeat(span.length));
+    for (const match of searchable.matchAll(HASHTAG_PATTERN)) {
+      const tag = normalizeTag(match[2]);
+      if (/\p{L}/u.test(tag)) {
+        tags.push({ tag, line, column: match.index! + match[1].length, length: match[2].length + 1 });
+      }
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Check whether a line may hold inline #hashtags, i.e. it is not frontmatter, code or a heading
+ */
+export function isTaggableLine(content: string, line: number): boolean {
+  for (const taggable of taggableLines(content)) {
+    if (taggable.line >= line) {
+      return taggable.line === line;
+    }
+  }
+  return false;
+}
+
+/**
+ * Body lines outside code blocks that are not headings
+ */
+function* taggableLines(content: string): Generator<{ text: string; line: number }> {
+  const block = splitFrontmatter(content);
+  const lines = content.split('\n');
+  // The body starts after the frontmatter lines
+  const firstLine = block ? content.slice(0, content.length - block.body.length).split('\n').length - 1 : 0;
+  let fence: string | undefined;
+
+  for (let line = firstLine; line < lines.length; line++) {
+    const text = lines[line];
+    const fenceMatch = text.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = undefined;
+      }
+      continue;
+    }
+    if (!fence && !HEADING_PATTERN.test(text)) {
+      yield { text, line };
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { TaskPriority } from '../models/MemoTask';
+import { splitFrontmatter } from './frontmatterUtils';
+import { parseInlineTags } from './tagUtils';
+
+/**
+ * A checkbox item such as "- [ ] Ship it 📅 2026-10-20 ⏫ #release"
+ */
+export interface ParsedTask {
+  /** Zero-based line in the memo content */
+  line: number;
+  /** Leading whitespace of the list item */
+  indent: number;
+  /** The task without its checkbox, due date and priority markers */
+  text: string;
+  completed: boolean;
+  /** YYYY-MM-DD from "📅 2026-10-20" or "due:2026-10-20" */
+  due?: string;
+  priority?: TaskPriority;
+  tags: string[];
+}
+
+// List marker and checkbox, e.g. "- [ ] ", "* [x] " or "1. [ ] "
+const TASK_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/;
+const DUE_PATTERN = /(?:📅|\bdue:)\s*(\d{4}-\d{2}-\d{2})/u;
+// Obsidian Tasks style priority emojis and priority:high
+const PRIORITY_EMOJIS: Record<string, TaskPriority> = { '🔺': 'high', '⏫': 'high', '🔼': 'medium', '🔽': 'low', '⏬': 'low' };
+const PRIORITY_PATTERN = /🔺|⏫|🔼|🔽|⏬|\bpriority:(high|medium|low)\b/iu;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * Find checkbox tasks in memo content, skipping frontmatter and code blocks
+ */
+export function parseTasks(content: string): ParsedTask[] {
+  const block = splitFrontmatter(content);
+  const lines = content.split('\n');
+  // The body starts after the frontmatter lines
+  const firstLine = block ? content.slice(0, content.length - block.body.length).split('\n').length - 1 : 0;
+
+  const tasks: ParsedTask[] = [];
+  let inCodeBlock = false;
+
+  for (let line = firstLine; line < lines.length; line++) {
+    const text = lines[line].replace(/\r$/, '');
+    if (FENCE_PATTERN.test(text)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      continue;
+    }
+
+    const task = parseTaskLine(text);
+    if (task) {
+      tasks.push({ ...task, line });
+    }
+  }
+
+  return tasks;
+}
+
+/**
+ * Parse a single line as a checkbox task
+ */
+export function parseTaskLine(lineText: string): Omit<ParsedTask, 'line'> | undefined {
+  const match = lineText.match(TASK_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const body = match[3];
+  const due = body.match(DUE_PATTERN)?.[1];
+  const priorityMatch = body.match(PRIORITY_PATTERN);
+  const priority = priorityMatch
+    ? (priorityMatch[1]?.toLowerCase() as TaskPriority | undefined) ?? PRIORITY_EMOJIS[priorityMatch[0]]
+    : undefined;
+  const text = body
+    .replace(DUE_PATTERN, '')
+    .replace(PRIORITY_PATTERN, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+  return {
+    indent: match[1].length,
+    text,
+    completed: match[2] !== ' ',
+    due,
+    priority,
+    tags: [...new Set(parseInlineTags(body).map(inlineTag => inlineTag.tag))]
+  };
+}
+
+/**
+ * Check or uncheck the checkbox of a task line
+ * @returns undefined if the line is not a task
+ */
+export function setTaskCompleted(lineText: string, completed: boolean): string | undefined {
+  if (!TASK_PATTERN.test(lineText)) {
+    return undefined;
+  }
+  return lineText.replace(/\[[ xX]\]/, completed ? '[x]' : '[ ]');
+}
+
+/**
+ * Lines of unfinished tasks with their more indented lines (subtasks and notes),
+ * dedented. Unfinished subtasks move with their parent rather than on their own.
+ * @returns The blocks in order, each with the zero-based lines it was taken from
+ */
+export function extractUnfinishedTasks(content: string): Array<{ lines: number[]; text: string }> {
+  const lines = content.split('\n').map(text => text.replace(/\r$/, ''));
+  const blocks: Array<{ lines: number[]; text: string }> = [];
+  let coveredUntil = -1;
+
+  for (const task of parseTasks(content)) {
+    // Empty checkboxes are template placeholders
+    if (task.completed || !task.text || task.line <= coveredUntil) {
+      continue;
+    }
+
+    const blockLines = [task.line];
+    for (let line = task.line + 1; line < lines.length; line++) {
+      const text = lines[line];
+      if (!text.trim() || text.length - text.trimStart().length <= task.indent) {
+        break;
+      }
+      blockLines.push(line);
+    }
+
+    coveredUntil = blockLines[blockLines.length - 1];
+    blocks.push({
+      lines: blockLines,
+      text: blockLines.map(line => lines[line].substring(task.indent)).join('\n')
+    });
+  }
+
+  return blocks;
+}
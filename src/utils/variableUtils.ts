@@ -1,11 +1,98 @@
+import { BLOCK_TAG_PATTERN, EXPRESSION_PATTERN, NAME } from '../templates/templateRenderer';
+import { Variable } from '../models/Variable';
+import { addDays, formatDate } from './dateUtils';
+
+/**
+ * Names of the variables a template uses, in expressions ({DATE+1d:YYYY/MM/DD}),
+ * conditions ({#if AGENDA}) and loop sources ({#each WEEK_START..WEEK_END as DAY})
+ */
 export function extractVariableNames(content: string): Set<string> {
   const variableNames = new Set<string>();
-  const variablePattern = /\{([A-Z_][A-Z0-9_]*)\}/g;
+  const namePattern = new RegExp(NAME, 'g');
 
-  let match;
-  while ((match = variablePattern.exec(content)) !== null) {
+  for (const match of content.matchAll(EXPRESSION_PATTERN)) {
     variableNames.add(match[1]);
   }
 
+  for (const match of content.matchAll(BLOCK_TAG_PATTERN)) {
+    if (!match[1]) {
+      continue;
+    }
+    // Leave out quoted values and the name a loop binds
+    const argument = match[1] === 'each'
+      ? match[2].replace(/\s+as\s+\S+$/, '')
+      : match[2].replace(/"[^"]*"/g, '');
+    for (const name of argument.match(namePattern) || []) {
+      variableNames.add(name);
+    }
+  }
+
   return variableNames;
-}
\ No newline at end of file
+}
+
+/**
+ * Read a date answer: YYYY-MM-DD, today, tomorrow, yesterday or an offset such as +3d or -1w
+ * @returns The date as YYYY-MM-DD, or undefined if the answer is not a date
+ */
+export function parseDateInput(value: string, today: Date): string | undefined {
+  const input = value.trim().toLowerCase();
+  const shortcuts: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 };
+  if (input in shortcuts) {
+    return formatDate(addDays(today, shortcuts[input]));
+  }
+
+  const offsetMatch = input.match(/^([+-]\d+)([dw])$/);
+  if (offsetMatch) {
+    const days = parseInt(offsetMatch[1], 10) * (offsetMatch[2] === 'w' ? 7 : 1);
+    return formatDate(addDays(today, days));
+  }
+
+  const dateMatch = input.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!dateMatch) {
+    return undefined;
+  }
+  const [year, month, day] = dateMatch.slice(1).map(part => parseInt(part, 10));
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? input : undefined;
+}
+
+/**
+ * Check an answer against a variable's type, options, pattern and required flag
+ * @returns A message describing the problem, or undefined if the value is acceptable
+ */
+export function validateVariableValue(variable: Variable, value: string, today: Date = new Date()): string | undefined {
+  if (value.trim() === '') {
+    return variable.required ? `${variable.description || variable.name} is required` : undefined;
+  }
+
+  switch (variable.type) {
+    case 'date':
+      if (!parseDateInput(value, today)) {
+        return 'Enter a date as YYYY-MM-DD, today, tomorrow or an offset such as +3d';
+      }
+      break;
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') {
+        return 'Enter true or false';
+      }
+      break;
+    case 'choice':
+      if (variable.options && !variable.options.includes(value)) {
+        return `Choose one of: ${variable.options.join(', ')}`;
+      }
+      break;
+    case 'multiselect': {
+      const unknown = value.split(',').map(item => item.trim()).filter(item => item !== '' && variable.options && !variable.options.includes(item));
+      if (unknown.length > 0) {
+        return `Unknown option: ${unknown.join(', ')}`;
+      }
+      break;
+    }
+  }
+
+  if (variable.pattern && !new RegExp(variable.pattern).test(value)) {
+    return `${variable.description || variable.name} must match ${variable.pattern}`;
+  }
+
+  return undefined;
+}
@@ -1,13 +1,20 @@
+import { Variable } from '../models/Variable';
+import { IVariableEnvironment } from '../services/interfaces/IVariableEnvironment';
+
 export interface VariableContext {
   date: Date;
   userInputs?: Record<string, string>;
   workspaceService?: {
     showInputBox(options?: any): Promise<string | undefined>;
+    /** Ask for several variables in one form; undefined when cancelled */
+    showVariableForm?(variables: Variable[]): Promise<Record<string, string> | undefined>;
   };
+  /** Editor, clipboard and git state for environment variables */
+  environment?: IVariableEnvironment;
 }
 
 export interface IVariable {
   readonly name: string;
   readonly description?: string;
   resolve(context: VariableContext): string | Promise<string>;
-}
\ No newline at end of file
+}
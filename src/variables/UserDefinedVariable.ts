@@ -1,28 +1,49 @@
 import { IVariable, VariableContext } from './IVariable';
+import { Variable } from '../models/Variable';
+import { parseDateInput, validateVariableValue } from '../utils/variableUtils';
 
 export class UserDefinedVariable implements IVariable {
   constructor(
     public readonly name: string,
     public readonly description?: string,
-    public readonly defaultValue?: string
+    public readonly defaultValue?: string,
+    public readonly input: Pick<Variable, 'type' | 'options' | 'pattern' | 'required'> = {}
   ) {}
 
+  /**
+   * The definition this variable was registered from, as shown in the variable form
+   */
+  get definition(): Variable {
+    return { name: this.name, description: this.description, default: this.defaultValue, ...this.input };
+  }
+
   async resolve(context: VariableContext): Promise<string> {
     if (context.userInputs?.[this.name]) {
-      return context.userInputs[this.name];
+      return this.fromAnswer(context.userInputs[this.name], context.date);
     }
 
     if (context.workspaceService) {
       const input = await context.workspaceService.showInputBox({
         prompt: this.description ? `Enter ${this.description}` : `Enter value for ${this.name}`,
-        placeHolder: this.defaultValue || ''
+        placeHolder: this.defaultValue || '',
+        validateInput: (value: string) => validateVariableValue(this.definition, value, context.date)
       });
 
-      if (input !== undefined && input !== '') {
-        return input;
+      if (input !== undefined) {
+        return this.fromAnswer(input, context.date);
       }
     }
 
     return this.defaultValue || '';
   }
-}
\ No newline at end of file
+
+  /**
+   * The value for an answer: dates such as "tomorrow" become YYYY-MM-DD, and an empty answer the default
+   */
+  fromAnswer(answer: string, date: Date): string {
+    if (answer === '') {
+      return this.defaultValue || '';
+    }
+    return this.input.type === 'date' ? parseDateInput(answer, date) ?? answer : answer;
+  }
+}
@@ -5,10 +5,23 @@ import {
   MonthVariable,
   DayVariable,
   DateVariable,
+  WeekVariable,
+  WeekYearVariable,
+  WeekStartVariable,
+  WeekEndVariable,
   TimeVariable,
   DateTimeVariable,
   TimestampVariable,
-  TitleVariable
+  TitleVariable,
+  GitUserNameVariable,
+  GitUserEmailVariable,
+  GitBranchVariable,
+  ClipboardVariable,
+  SelectionVariable,
+  ParentTitleVariable,
+  ParentLinkVariable,
+  WorkspaceNameVariable,
+  UuidVariable
 } from './systemVariables';
 import { Variable } from '../models/Variable';
 
@@ -25,10 +38,23 @@ export class VariableRegistry {
       new MonthVariable(),
       new DayVariable(),
       new DateVariable(),
+      new WeekVariable(),
+      new WeekYearVariable(),
+      new WeekStartVariable(),
+      new WeekEndVariable(),
       new TimeVariable(),
       new DateTimeVariable(),
       new TimestampVariable(),
-      new TitleVariable()
+      new TitleVariable(),
+      new GitUserNameVariable(),
+      new GitUserEmailVariable(),
+      new GitBranchVariable(),
+      new ClipboardVariable(),
+      new SelectionVariable(),
+      new ParentTitleVariable(),
+      new ParentLinkVariable(),
+      new WorkspaceNameVariable(),
+      new UuidVariable()
     ];
 
     systemVars.forEach(v => this.register(v));
@@ -43,7 +69,8 @@ export class VariableRegistry {
       this.register(new UserDefinedVariable(
         varDef.name,
         varDef.description,
-        varDef.default
+        varDef.default,
+        { type: varDef.type, options: varDef.options, pattern: varDef.pattern, required: varDef.required }
       ));
     });
   }
@@ -71,7 +98,24 @@ export class VariableRegistry {
   async resolveUsedVariables(usedVariableNames: Set<string>, context: VariableContext): Promise<Record<string, string>> {
     const resolvedVariables: Record<string, string> = {};
 
+    // Ask for every user-defined variable in one form, so earlier answers can be revisited
+    const prompted = Array.from(usedVariableNames)
+      .map(name => this.get(name))
+      .filter((variable): variable is UserDefinedVariable => variable instanceof UserDefinedVariable && !context.userInputs?.[variable.name]);
+    if (prompted.length > 0 && context.workspaceService?.showVariableForm) {
+      const answers = await context.workspaceService.showVariableForm(prompted.map(variable => variable.definition));
+      if (!answers) {
+        throw new Error('Variable input cancelled');
+      }
+      for (const variable of prompted) {
+        resolvedVariables[variable.name] = variable.fromAnswer(answers[variable.name] ?? '', context.date);
+      }
+    }
+
     for (const variableName of usedVariableNames) {
+      if (variableName in resolvedVariables) {
+        continue;
+      }
       const variable = this.get(variableName);
       if (variable) {
         const value = await variable.resolve(context);
@@ -1,6 +1,8 @@
 import { SystemVariable } from './SystemVariable';
 import { VariableContext } from './IVariable';
-import { getYear, getMonth, getDay, formatDate } from '../utils/dateUtils';
+import { randomUUID } from 'crypto';
+import { getYear, getMonth, getDay, formatDate, getISOWeek, getISOWeekStart, addDays } from '../utils/dateUtils';
+import { formatMarkdownLink } from '../utils/linkUtils';
 
 export class YearVariable extends SystemVariable {
   constructor() {
@@ -42,6 +44,46 @@ export class DateVariable extends SystemVariable {
   }
 }
 
+export class WeekVariable extends SystemVariable {
+  constructor() {
+    super('WEEK', 'ISO week number in WW format');
+  }
+
+  resolve(context: VariableContext): string {
+    return getISOWeek(context.date).week.toString().padStart(2, '0');
+  }
+}
+
+export class WeekYearVariable extends SystemVariable {
+  constructor() {
+    super('WEEK_YEAR', 'Year the ISO week belongs to in YYYY format');
+  }
+
+  resolve(context: VariableContext): string {
+    return getISOWeek(context.date).year.toString();
+  }
+}
+
+export class WeekStartVariable extends SystemVariable {
+  constructor() {
+    super('WEEK_START', 'Monday of the ISO week in YYYY-MM-DD format');
+  }
+
+  resolve(context: VariableContext): string {
+    return formatDate(getISOWeekStart(context.date));
+  }
+}
+
+export class WeekEndVariable extends SystemVariable {
+  constructor() {
+    super('WEEK_END', 'Sunday of the ISO week in YYYY-MM-DD format');
+  }
+
+  resolve(context: VariableContext): string {
+    return formatDate(addDays(getISOWeekStart(context.date), 6));
+  }
+}
+
 export class TimeVariable extends SystemVariable {
   constructor() {
     super('TIME', 'Current time in HH:mm:ss format');
@@ -104,4 +146,97 @@ export class TitleVariable extends SystemVariable {
     // Fallback to date
     return formatDate(context.date);
   }
-}
\ No newline at end of file
+}
+
+export class GitUserNameVariable extends SystemVariable {
+  constructor() {
+    super('GIT_USER_NAME', 'Git author name (user.name)');
+  }
+
+  async resolve(context: VariableContext): Promise<string> {
+    return (await context.environment?.readGitConfig('user.name')) || '';
+  }
+}
+
+export class GitUserEmailVariable extends SystemVariable {
+  constructor() {
+    super('GIT_USER_EMAIL', 'Git author email (user.email)');
+  }
+
+  async resolve(context: VariableContext): Promise<string> {
+    return (await context.environment?.readGitConfig('user.email')) || '';
+  }
+}
+
+export class GitBranchVariable extends SystemVariable {
+  constructor() {
+    super('GIT_BRANCH', 'Current git branch');
+  }
+
+  async resolve(context: VariableContext): Promise<string> {
+    return (await context.environment?.readGitBranch()) || '';
+  }
+}
+
+export class ClipboardVariable extends SystemVariable {
+  constructor() {
+    super('CLIPBOARD', 'Clipboard text');
+  }
+
+  async resolve(context: VariableContext): Promise<string> {
+    return (await context.environment?.readClipboard()) || '';
+  }
+}
+
+export class SelectionVariable extends SystemVariable {
+  constructor() {
+    super('SELECTION', 'Text selected in the editor when the memo was created');
+  }
+
+  resolve(context: VariableContext): string {
+    // Extracting text to a new memo passes it in explicitly
+    return context.userInputs?.['SELECTION'] || context.environment?.selection || '';
+  }
+}
+
+export class ParentTitleVariable extends SystemVariable {
+  constructor() {
+    super('PARENT_TITLE', 'Title of the memo open when the memo was created');
+  }
+
+  resolve(context: VariableContext): string {
+    return context.environment?.activeMemo?.title || '';
+  }
+}
+
+export class ParentLinkVariable extends SystemVariable {
+  constructor() {
+    super('PARENT_LINK', 'Link to the memo open when the memo was created');
+  }
+
+  resolve(context: VariableContext): string {
+    const activeMemo = context.environment?.activeMemo;
+    // The absolute path is made relative once the new memo's location is known
+    return activeMemo ? formatMarkdownLink(activeMemo.title, activeMemo.filePath.replace(/\\/g, '/')) : '';
+  }
+}
+
+export class WorkspaceNameVariable extends SystemVariable {
+  constructor() {
+    super('WORKSPACE_NAME', 'Name of the workspace folder');
+  }
+
+  resolve(context: VariableContext): string {
+    return context.environment?.workspaceFolderName || '';
+  }
+}
+
+export class UuidVariable extends SystemVariable {
+  constructor() {
+    super('UUID', 'Random UUID');
+  }
+
+  resolve(): string {
+    return randomUUID();
+  }
+}
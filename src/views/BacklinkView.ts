@@ -4,6 +4,7 @@ import { IBacklinkService, Backlink, OutboundLink } from '../services/interfaces
 import { IMetadataService } from '../services/interfaces/IMetadataService';
 import { IFileService } from '../services/interfaces/IFileService';
 import { MemoMetadata } from '../models/MemoMetadata';
+import { MemoEvents } from '../events/MemoEvents';
 
 export class MemoInsightsTreeItem extends vscode.TreeItem {
   constructor(
@@ -82,15 +83,16 @@ export class MemoInsightsView implements vscode.TreeDataProvider<MemoInsightsTre
       }
     });
 
-    // Update when files are saved (to catch new links)
-    vscode.workspace.onDidSaveTextDocument(async (document) => {
-      if (document.uri.scheme === 'file') {
-        await this.backlinkService.updateFileBacklinks(document.uri.fsPath);
-        if (this.currentFile) {
-          await this.updateForFile(this.currentFile);
-        }
+    // Update when memos change on disk (the file watcher has already re-indexed them)
+    const memoEvents = MemoEvents.getInstance();
+    const refreshCurrentFile = async () => {
+      if (this.currentFile) {
+        await this.updateForFile(this.currentFile);
       }
-    });
+    };
+    memoEvents.onMemoCreated(refreshCurrentFile);
+    memoEvents.onMemoDeleted(refreshCurrentFile);
+    memoEvents.onMemoModified(refreshCurrentFile);
 
     // Initialize with current active editor
     if (vscode.window.activeTextEditor?.document.uri.scheme === 'file') {
@@ -0,0 +1,317 @@
+import * as vscode from 'vscode';
+import { IPeriodicNoteService } from '../services/interfaces/IPeriodicNoteService';
+import { PeriodicNoteUseCase } from '../usecases/PeriodicNoteUseCase';
+import { NotePeriod, NOTE_PERIODS } from '../models/PeriodicNote';
+import { MemoEvents } from '../events/MemoEvents';
+import { addDays, formatDate, formatDateWithPattern, getISOWeek, getISOWeekStart } from '../utils/dateUtils';
+import { formatPeriodLabel } from '../utils/periodicNoteUtils';
+
+/**
+ * A month calendar that marks days, weeks and months with periodic notes, and opens or creates them on click
+ */
+export class CalendarView implements vscode.Disposable {
+  private panel: vscode.WebviewPanel | undefined;
+  private month: Date;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private periodicNoteService: IPeriodicNoteService,
+    private periodicNoteUseCase: PeriodicNoteUseCase
+  ) {
+    const today = new Date();
+    this.month = new Date(today.getFullYear(), today.getMonth(), 1);
+
+    // Notes created or deleted elsewhere change the marks
+    const memoEvents = MemoEvents.getInstance();
+    const refresh = () => this.refresh();
+    this.disposables.push(
+      memoEvents.onMemoCreated(refresh),
+      memoEvents.onMemoDeleted(refresh)
+    );
+  }
+
+  async show(): Promise<void> {
+    if (this.panel) {
+      this.panel.reveal();
+      await this.refresh();
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      'memoCalendar',
+      'Memo Calendar',
+      vscode.ViewColumn.Beside,
+      { enableScripts: true }
+    );
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+
+    // Handle messages from webview
+    this.panel.webview.onDidReceiveMessage(async (message) => {
+      switch (message.command) {
+        case 'openNote':
+          await this.openNote(message.period, message.date);
+          break;
+        case 'changeMonth':
+          this.month = new Date(this.month.getFullYear(), this.month.getMonth() + message.offset, 1);
+          await this.refresh();
+          break;
+        case 'today': {
+          const today = new Date();
+          this.month = new Date(today.getFullYear(), today.getMonth(), 1);
+          await this.refresh();
+          break;
+        }
+      }
+    });
+
+    await this.refresh();
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.panel) {
+      return;
+    }
+
+    try {
+      const notes: Record<NotePeriod, Set<string>> = { daily: new Set(), weekly: new Set(), monthly: new Set() };
+      const configured: Record<NotePeriod, boolean> = { daily: false, weekly: false, monthly: false };
+      for (const period of NOTE_PERIODS) {
+        configured[period] = !!(await this.periodicNoteService.getPeriodicMemoType(period));
+        if (configured[period]) {
+          notes[period] = new Set((await this.periodicNoteService.getNotes(period)).keys());
+        }
+      }
+
+      this.panel.webview.html = this.getWebviewContent(notes, configured);
+    } catch (error) {
+      console.error('Error loading calendar:', error);
+    }
+  }
+
+  dispose(): void {
+    this.panel?.dispose();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private async openNote(period: NotePeriod, date: string): Promise<void> {
+    try {
+      const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+      await this.periodicNoteUseCase.open(period, new Date(year, month - 1, day));
+    } catch (error) {
+      console.error(`Error opening ${period} note:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      vscode.window.showErrorMessage(`Failed to open ${period} note: ${message}`);
+    }
+  }
+
+  private getWebviewContent(notes: Record<NotePeriod, Set<string>>, configured: Record<NotePeriod, boolean>): string {
+    const nonce = this.getNonce();
+    const today = formatDate(new Date());
+    const monthKey = formatDate(this.month);
+    const monthLabel = formatDateWithPattern(this.month, 'MMMM YYYY');
+
+    // Whole ISO weeks covering the month, Monday first
+    const rows: string[] = [];
+    for (let weekStart = getISOWeekStart(this.month); weekStart.getMonth() === this.month.getMonth() || weekStart < this.month; weekStart = addDays(weekStart, 7)) {
+      const weekKey = formatDate(weekStart);
+      const weekCell = configured.weekly
+        ? `<td class="week${notes.weekly.has(weekKey) ? ' has-note' : ''}" data-period="weekly" data-date="${weekKey}" title="${formatPeriodLabel('weekly', weekStart)}">W${getISOWeek(weekStart).week}</td>`
+        : `<td class="week disabled">W${getISOWeek(weekStart).week}</td>`;
+
+      const dayCells: string[] = [];
+      for (let offset = 0; offset < 7; offset++) {
+        const day = addDays(weekStart, offset);
+        const dayKey = formatDate(day);
+        const classes = ['day'];
+        if (day.getMonth() !== this.month.getMonth()) {
+          classes.push('other-month');
+        }
+        if (dayKey === today) {
+          classes.push('today');
+        }
+        if (notes.daily.has(dayKey)) {
+          classes.push('has-note');
+        }
+        if (!configured.daily) {
+          classes.push('disabled');
+        }
+        const data = configured.daily ? ` data-period="daily" data-date="${dayKey}"` : '';
+        dayCells.push(`<td class="${classes.join(' ')}"${data} title="${dayKey}">${day.getDate()}</td>`);
+      }
+
+      rows.push(`<tr>${weekCell}${dayCells.join('')}</tr>`);
+    }
+
+    const monthTitle = configured.monthly
+      ? `<span class="month${notes.monthly.has(monthKey) ? ' has-note' : ''}" data-period="monthly" data-date="${monthKey}" title="${formatPeriodLabel('monthly', this.month)}">${monthLabel}</span>`
+      : `<span>${monthLabel}</span>`;
+
+    const hint = configured.daily || configured.weekly || configured.monthly
+      ? 'Click a day, week or the month to open its note. Dots mark existing notes.'
+      : 'Add "periodic": { "period": "daily" } to a memo type in .vsmemo/config.json to use the calendar.';
+
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Memo Calendar</title>
+        <style>
+          body {
+            background-color: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+            font-family: var(--vscode-font-family);
+            padding: 12px;
+          }
+
+          .header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin-bottom: 12px;
+          }
+
+          .header .title {
+            flex: 1;
+            text-align: center;
+            font-size: 16px;
+            font-weight: bold;
+          }
+
+          button {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 4px 10px;
+            border-radius: 2px;
+            cursor: pointer;
+          }
+
+          button:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+          }
+
+          table {
+            border-collapse: collapse;
+            margin: 0 auto;
+          }
+
+          th {
+            color: var(--vscode-descriptionForeground);
+            font-weight: normal;
+            font-size: 12px;
+            padding: 4px;
+          }
+
+          td {
+            position: relative;
+            width: 36px;
+            height: 36px;
+            text-align: center;
+            border-radius: 4px;
+          }
+
+          [data-period] {
+            cursor: pointer;
+          }
+
+          [data-period]:hover {
+            background-color: var(--vscode-list-hoverBackground);
+          }
+
+          .week {
+            color: var(--vscode-descriptionForeground);
+            font-size: 11px;
+          }
+
+          .other-month {
+            opacity: 0.4;
+          }
+
+          .disabled {
+            cursor: default;
+          }
+
+          .today {
+            outline: 1px solid var(--vscode-focusBorder);
+          }
+
+          .has-note::after {
+            content: '';
+            position: absolute;
+            left: 50%;
+            bottom: 4px;
+            width: 5px;
+            height: 5px;
+            margin-left: -2.5px;
+            border-radius: 50%;
+            background-color: var(--vscode-textLink-foreground);
+          }
+
+          .month {
+            position: relative;
+            padding: 4px 8px 10px;
+            border-radius: 4px;
+          }
+
+          .hint {
+            margin-top: 12px;
+            text-align: center;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <button data-offset="-1" title="Previous month">&lsaquo;</button>
+          <div class="title">${monthTitle}</div>
+          <button id="today">Today</button>
+          <button data-offset="1" title="Next month">&rsaquo;</button>
+        </div>
+        <table>
+          <thead>
+            <tr><th></th><th>Mon</th><th>Tue</th><th>Wed</th><th>Thu</th><th>Fri</th><th>Sat</th><th>Sun</th></tr>
+          </thead>
+          <tbody>
+            ${rows.join('\n')}
+          </tbody>
+        </table>
+        <div class="hint">${hint}</div>
+
+        <script nonce="${nonce}">
+          const vscode = acquireVsCodeApi();
+
+          document.addEventListener('click', event => {
+            const target = event.target.closest('[data-period], [data-offset], #today');
+            if (!target) {
+              return;
+            }
+            if (target.dataset.period) {
+              vscode.postMessage({ command: 'openNote', period: target.dataset.period, date: target.dataset.date });
+            } else if (target.dataset.offset) {
+              vscode.postMessage({ command: 'changeMonth', offset: parseInt(target.dataset.offset, 10) });
+            } else {
+              vscode.postMessage({ command: 'today' });
+            }
+          });
+        </script>
+      </body>
+      </html>
+    `;
+  }
+
+  private getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+      text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+  }
+}
@@ -1,39 +1,26 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { IBacklinkService } from '../services/interfaces/IBacklinkService';
 import { IFileService } from '../services/interfaces/IFileService';
 import { IConfigService } from '../services/interfaces/IConfigService';
-import { isValidMemoFile } from '../utils/fileUtils';
-
-interface GraphNode {
-  id: string;
-  label: string;
-  size: number;
-  color: string;
-  title: string;
-  isActive?: boolean;
-}
-
-interface GraphEdge {
-  id: string;
-  source: string;
-  target: string;
-  label?: string;
-}
+import {
+  GraphDataService,
+  GraphData,
+  GraphDisplayMode,
+  GraphFilter,
+  GraphFilterOptions
+} from '../services/implementations/GraphDataService';
+import { MemoEvents } from '../events/MemoEvents';
 
-interface GraphData {
-  nodes: GraphNode[];
-  edges: GraphEdge[];
-}
+const GRAPH_FILTER_KEY = 'vsmemo.graphFilter';
 
 export class GraphView {
   private panel: vscode.WebviewPanel | undefined;
   private context: vscode.ExtensionContext;
   private currentActiveFile: string | undefined;
-  private displayMode: 'focus' | 'context' | 'full' = 'full';
+  private displayMode: GraphDisplayMode = GraphDisplayMode.FULL;
 
   constructor(
-    private backlinkService: IBacklinkService,
+    private graphDataService: GraphDataService,
     private fileService: IFileService,
     private configService: IConfigService,
     context: vscode.ExtensionContext
@@ -61,13 +48,16 @@ export class GraphView {
       }
     });
 
-    // Update when files are saved (to catch new links)
-    vscode.workspace.onDidSaveTextDocument(async (document) => {
-      if (document.uri.scheme === 'file' && this.panel) {
-        await this.backlinkService.updateFileBacklinks(document.uri.fsPath);
+    // Update when memos change on disk (the file watcher has already re-indexed them)
+    const memoEvents = MemoEvents.getInstance();
+    const refreshPanel = async () => {
+      if (this.panel) {
         await this.updateContent();
       }
-    });
+    };
+    memoEvents.onMemoCreated(refreshPanel);
+    memoEvents.onMemoDeleted(refreshPanel);
+    memoEvents.onMemoModified(refreshPanel);
 
     // Initialize with current active editor
     if (vscode.window.activeTextEditor?.document.uri.scheme === 'file') {
@@ -153,6 +143,10 @@ export class GraphView {
           this.displayMode = message.mode;
           await this.updateContent();
           break;
+        case 'changeFilter':
+          await this.context.workspaceState.update(GRAPH_FILTER_KEY, message.filter);
+          await this.updateContent();
+          break;
       }
     });
 
@@ -174,7 +168,12 @@ export class GraphView {
       console.log('Nodes:', graphData.nodes.length, 'Edges:', graphData.edges.length);
       console.log('Current active file:', this.currentActiveFile);
 
-      this.panel.webview.html = this.getWebviewContent(graphData);
+      const workspaceFolders = vscode.workspace.workspaceFolders;
+      const filterOptions: GraphFilterOptions = workspaceFolders && workspaceFolders.length > 0
+        ? await this.graphDataService.getFilterOptions(workspaceFolders[0].uri.fsPath)
+        : { tags: [], types: [], folders: [] };
+
+      this.panel.webview.html = this.getWebviewContent(graphData, filterOptions);
 
       // Notify webview about active file change after content is updated
       if (this.currentActiveFile) {
@@ -210,60 +209,30 @@ export class GraphView {
     const workspaceRoot = workspaceFolders[0].uri.fsPath;
     const config = await this.configService.loadConfig();
     const baseDir = path.join(workspaceRoot, config.baseDir);
-
-    // Collect all memo files
-    const allFiles = new Set<string>();
-    console.log('Searching for files in:', baseDir);
-    console.log('File extensions:', config.fileExtensions);
     console.log('Display mode:', this.displayMode);
     console.log('Active file:', this.currentActiveFile);
-    await this.collectAllFiles(baseDir, allFiles, config.fileExtensions);
-    console.log('Found files:', Array.from(allFiles));
-
-    // Filter files based on display mode
-    const filteredFiles = this.filterFilesByDisplayMode(Array.from(allFiles), workspaceRoot, config.baseDir);
-
-    const nodes: GraphNode[] = [];
-    const edges: GraphEdge[] = [];
-    const nodeMap = new Map<string, number>(); // Track node connections for sizing
-
-    // Create nodes for filtered files
-    for (const filePath of filteredFiles) {
-      const nodeId = this.getNodeId(filePath, workspaceRoot, config.baseDir);
-      const fileName = path.basename(filePath, path.extname(filePath));
-
-      nodeMap.set(nodeId, 0);
 
-      nodes.push({
-        id: nodeId,
-        label: fileName,
-        size: 20, // Will be updated based on connections
-        color: '#4A90E2',
-        title: path.relative(baseDir, filePath)
-      });
-    }
-
-    // Create edges from backlink data (only for filtered files)
-    for (const filePath of filteredFiles) {
-      const backlinks = await this.backlinkService.getBacklinks(filePath);
-      const targetNodeId = this.getNodeId(filePath, workspaceRoot, config.baseDir);
-
-      for (const backlink of backlinks) {
-        const sourceNodeId = this.getNodeId(backlink.sourceFile, workspaceRoot, config.baseDir);
-
-        if (nodeMap.has(sourceNodeId) && nodeMap.has(targetNodeId)) {
-          edges.push({
-            id: `${sourceNodeId}-${targetNodeId}`,
-            source: sourceNodeId,
-            target: targetNodeId,
-            label: backlink.linkText
-          });
+    // Filtering happens in the data service, so only the filtered subgraph reaches the webview
+    const mode = this.currentActiveFile ? this.displayMode : GraphDisplayMode.FULL;
+    const data = await this.graphDataService.generateGraphData(workspaceRoot, mode, this.currentActiveFile, this.getFilter());
+
+    // The webview identifies memos by their path relative to the base directory
+    const nodes = data.nodes.map(node => ({
+      ...node,
+      id: this.getNodeId(node.id, workspaceRoot, config.baseDir),
+      title: path.relative(baseDir, node.id)
+    }));
+    const edges = data.edges.map(edge => {
+      const source = this.getNodeId(edge.source, workspaceRoot, config.baseDir);
+      const target = this.getNodeId(edge.target, workspaceRoot, config.baseDir);
+      return { id: `${source}-${target}`, source, target };
+    });
 
-          // Increase connection count for both nodes
-          nodeMap.set(sourceNodeId, (nodeMap.get(sourceNodeId) || 0) + 1);
-          nodeMap.set(targetNodeId, (nodeMap.get(targetNodeId) || 0) + 1);
-        }
-      }
+    // Track node connections for sizing
+    const nodeMap = new Map<string, number>();
+    for (const edge of edges) {
+      nodeMap.set(edge.source, (nodeMap.get(edge.source) || 0) + 1);
+      nodeMap.set(edge.target, (nodeMap.get(edge.target) || 0) + 1);
     }
 
     // Update node sizes based on connections and identify special nodes
@@ -275,6 +244,7 @@ export class GraphView {
       // Check if this is the active file
       const fullPath = this.getFullPathFromNodeId(node.id, workspaceRoot, config.baseDir);
       const isActiveFile = this.currentActiveFile && fullPath === this.currentActiveFile;
+      node.isActive = false;
 
       if (isActiveFile) {
         console.log('Active node found:', node.id, 'Full path:', fullPath);
@@ -293,30 +263,11 @@ export class GraphView {
 
     console.log('Active node found:', activeNodeFound, 'Current active file:', this.currentActiveFile);
 
-    return { nodes, edges };
+    return { nodes, edges, hiddenNodes: data.hiddenNodes };
   }
 
-  private async collectAllFiles(dir: string, files: Set<string>, fileExtensions: string[]): Promise<void> {
-    try {
-      if (!(await this.fileService.exists(dir))) {
-        return;
-      }
-
-      const entries = await this.fileService.readDirectory(dir);
-
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry);
-        const stats = await this.fileService.getStats(fullPath);
-
-        if (stats.isDirectory) {
-          await this.collectAllFiles(fullPath, files, fileExtensions);
-        } else if (isValidMemoFile(entry, fileExtensions)) {
-          files.add(fullPath);
-        }
-      }
-    } catch (error) {
-      console.warn(`Failed to collect files from ${dir}:`, error);
-    }
+  private getFilter(): GraphFilter {
+    return this.context.workspaceState.get<GraphFilter>(GRAPH_FILTER_KEY) || {};
   }
 
   private getNodeId(filePath: string, workspaceRoot: string, baseDir: string): string {
@@ -329,58 +280,6 @@ export class GraphView {
     return path.join(workspaceRoot, baseDir, nodeId.replace(/\//g, path.sep));
   }
 
-  private filterFilesByDisplayMode(allFiles: string[], workspaceRoot: string, baseDir: string): string[] {
-    if (this.displayMode === 'full' || !this.currentActiveFile) {
-      return allFiles;
-    }
-
-    const activeNodeId = this.getNodeId(this.currentActiveFile, workspaceRoot, baseDir);
-    const relatedFiles = new Set<string>();
-    relatedFiles.add(this.currentActiveFile);
-
-    if (this.displayMode === 'focus') {
-      // Focus mode: active file + directly connected files
-      this.addDirectlyConnectedFiles(this.currentActiveFile, allFiles, relatedFiles);
-    } else if (this.displayMode === 'context') {
-      // Context mode: active file + 2 degrees of separation
-      this.addDirectlyConnectedFiles(this.currentActiveFile, allFiles, relatedFiles);
-      const firstDegreeFiles = Array.from(relatedFiles);
-      firstDegreeFiles.forEach(file => {
-        if (file !== this.currentActiveFile) {
-          this.addDirectlyConnectedFiles(file, allFiles, relatedFiles);
-        }
-      });
-    }
-
-    return Array.from(relatedFiles);
-  }
-
-  private async addDirectlyConnectedFiles(filePath: string, allFiles: string[], relatedFiles: Set<string>): Promise<void> {
-    try {
-      // Get backlinks to this file
-      const backlinks = await this.backlinkService.getBacklinks(filePath);
-      backlinks.forEach(backlink => {
-        if (allFiles.includes(backlink.sourceFile)) {
-          relatedFiles.add(backlink.sourceFile);
-        }
-      });
-
-      // Get links from this file (would require parsing the file content)
-      // For now, we'll use the backlink service's reverse lookup
-      for (const otherFile of allFiles) {
-        if (otherFile !== filePath) {
-          const otherBacklinks = await this.backlinkService.getBacklinks(otherFile);
-          const hasLinkFromCurrent = otherBacklinks.some(bl => bl.sourceFile === filePath);
-          if (hasLinkFromCurrent) {
-            relatedFiles.add(otherFile);
-          }
-        }
-      }
-    } catch (error) {
-      console.warn('Error finding connected files:', error);
-    }
-  }
-
   private async openFile(filePath: string): Promise<void> {
     try {
       const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -410,8 +309,10 @@ export class GraphView {
     }
   }
 
-  private getWebviewContent(graphData: GraphData): string {
+  private getWebviewContent(graphData: GraphData, filterOptions: GraphFilterOptions): string {
     const nonce = this.getNonce();
+    const filter = this.getFilter();
+    const hiddenInfo = graphData.hiddenNodes ? ` | Hidden by filters: ${graphData.hiddenNodes}` : '';
 
     // Get URIs for local resources
     const cytoscapeUri = this.panel!.webview.asWebviewUri(
@@ -476,7 +377,8 @@ export class GraphView {
             position: relative;
           }
           
-          .toolbar .mode-btn.active {
+          .toolbar .mode-btn.active,
+          .toolbar .filter-btn.active {
             background-color: var(--vscode-button-secondaryBackground);
             color: var(--vscode-button-secondaryForeground);
           }
@@ -487,6 +389,51 @@ export class GraphView {
             color: var(--vscode-descriptionForeground);
           }
           
+          .filter-panel {
+            display: none;
+            grid-template-columns: auto 1fr 1fr;
+            gap: 6px 8px;
+            align-items: center;
+            padding: 8px;
+            font-size: 12px;
+            background-color: var(--vscode-sideBar-background);
+            border-bottom: 1px solid var(--vscode-sideBar-border);
+            flex-shrink: 0;
+          }
+          
+          .filter-panel.open {
+            display: grid;
+          }
+          
+          .filter-panel input {
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            padding: 3px 6px;
+            font-size: 12px;
+            min-width: 0;
+          }
+          
+          .filter-panel .actions {
+            grid-column: 1 / -1;
+            display: flex;
+            gap: 8px;
+          }
+          
+          .filter-panel button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 4px 12px;
+            cursor: pointer;
+            font-size: 12px;
+          }
+          
+          .filter-panel button.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+          }
+          
           #graph {
             flex: 1;
             background-color: var(--vscode-editor-background);
@@ -512,9 +459,35 @@ export class GraphView {
             <button id="focusBtn" onclick="changeDisplayMode('focus')" class="mode-btn">Focus</button>
             <button id="contextBtn" onclick="changeDisplayMode('context')" class="mode-btn">Context</button>
             <button id="fullBtn" onclick="changeDisplayMode('full')" class="mode-btn">Full</button>
+            <button id="filterBtn" class="filter-btn">Filter</button>
             <div class="info">
-              Nodes: ${graphData.nodes.length} | Edges: ${graphData.edges.length} | Mode: ${this.displayMode}
+              Nodes: ${graphData.nodes.length} | Edges: ${graphData.edges.length} | Mode: ${this.displayMode}${hiddenInfo}
+            </div>
+          </div>
+          <div id="filterPanel" class="filter-panel">
+            <span></span><span>Include (comma-separated)</span><span>Exclude</span>
+            <label for="includeTags">Tags</label>
+            <input id="includeTags" list="tagOptions" placeholder="project, idea">
+            <input id="excludeTags" list="tagOptions" placeholder="archived">
+            <label for="includeTypes">Memo types</label>
+            <input id="includeTypes" list="typeOptions">
+            <input id="excludeTypes" list="typeOptions">
+            <label for="includeFolders">Folders</label>
+            <input id="includeFolders" list="folderOptions">
+            <input id="excludeFolders" list="folderOptions">
+            <label for="modifiedAfter">Modified</label>
+            <input id="modifiedAfter" type="date" title="From">
+            <input id="modifiedBefore" type="date" title="To">
+            <label for="minDegree">Min. links</label>
+            <input id="minDegree" type="number" min="0" step="1" placeholder="0">
+            <span></span>
+            <div class="actions">
+              <button id="applyFilterBtn">Apply</button>
+              <button id="clearFilterBtn" class="secondary">Clear</button>
             </div>
+            <datalist id="tagOptions"></datalist>
+            <datalist id="typeOptions"></datalist>
+            <datalist id="folderOptions"></datalist>
           </div>
           <div id="graph"></div>
         </div>
@@ -523,9 +496,84 @@ export class GraphView {
           const vscode = acquireVsCodeApi();
           let cy;
           
-          const graphData = ${JSON.stringify(graphData)};
+          const graphData = ${toScriptJson(graphData)};
+          const graphFilter = ${toScriptJson(filter)};
+          const filterOptions = ${toScriptJson(filterOptions)};
           console.log('Graph data in webview:', graphData);
           
+          const LIST_FILTERS = ['includeTags', 'excludeTags', 'includeTypes', 'excludeTypes', 'includeFolders', 'excludeFolders'];
+          const DATE_FILTERS = ['modifiedAfter', 'modifiedBefore'];
+          
+          function initFilterPanel() {
+            const panel = document.getElementById('filterPanel');
+            const filterBtn = document.getElementById('filterBtn');
+            
+            // Keep the panel open across graph updates, and open it while a filter is set
+            const isFiltered = Object.keys(graphFilter).length > 0;
+            const state = vscode.getState() || {};
+            if (state.filterPanelOpen || isFiltered) {
+              panel.classList.add('open');
+            }
+            filterBtn.classList.toggle('active', isFiltered);
+            
+            fillDatalist('tagOptions', filterOptions.tags);
+            fillDatalist('typeOptions', filterOptions.types);
+            fillDatalist('folderOptions', filterOptions.folders);
+            
+            LIST_FILTERS.forEach(key => {
+              document.getElementById(key).value = (graphFilter[key] || []).join(', ');
+            });
+            DATE_FILTERS.forEach(key => {
+              document.getElementById(key).value = graphFilter[key] || '';
+            });
+            document.getElementById('minDegree').value = graphFilter.minDegree || '';
+            
+            filterBtn.addEventListener('click', () => {
+              panel.classList.toggle('open');
+              vscode.setState({ ...vscode.getState(), filterPanelOpen: panel.classList.contains('open') });
+            });
+            document.getElementById('applyFilterBtn').addEventListener('click', applyFilter);
+            document.getElementById('clearFilterBtn').addEventListener('click', () => {
+              vscode.postMessage({ command: 'changeFilter', filter: {} });
+            });
+            panel.addEventListener('keydown', event => {
+              if (event.key === 'Enter') {
+                applyFilter();
+              }
+            });
+          }
+          
+          function fillDatalist(id, values) {
+            const datalist = document.getElementById(id);
+            values.forEach(value => {
+              const option = document.createElement('option');
+              option.value = value;
+              datalist.appendChild(option);
+            });
+          }
+          
+          function applyFilter() {
+            // Only send the filters that are set
+            const filter = {};
+            LIST_FILTERS.forEach(key => {
+              const values = document.getElementById(key).value.split(',').map(value => value.trim()).filter(value => value);
+              if (values.length > 0) {
+                filter[key] = values;
+              }
+            });
+            DATE_FILTERS.forEach(key => {
+              const value = document.getElementById(key).value;
+              if (value) {
+                filter[key] = value;
+              }
+            });
+            const minDegree = parseInt(document.getElementById('minDegree').value, 10);
+            if (minDegree > 0) {
+              filter.minDegree = minDegree;
+            }
+            vscode.postMessage({ command: 'changeFilter', filter });
+          }
+          
           function initGraph() {
             console.log('Initializing graph...');
             console.log('Nodes:', graphData.nodes.length);
@@ -536,6 +584,11 @@ export class GraphView {
               return;
             }
             
+            if (graphData.nodes.length === 0 && graphData.hiddenNodes) {
+              document.getElementById('graph').innerHTML = '<div style="padding: 20px; text-align: center; color: var(--vscode-descriptionForeground);">No memos match the filters.</div>';
+              return;
+            }
+            
             if (graphData.nodes.length === 0) {
               document.getElementById('graph').innerHTML = '<div style="padding: 20px; text-align: center; color: var(--vscode-descriptionForeground);">No memo files found. Create some memos and links to see the graph.</div>';
               return;
@@ -752,6 +805,8 @@ export class GraphView {
             }
           }
           
+          initFilterPanel();
+          
           // Initialize graph when page loads
           window.addEventListener('load', () => {
             initGraph();
@@ -821,4 +876,11 @@ export class GraphView {
     }
     return text;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * JSON for embedding in an inline script, safe from a closing </script> in memo names
+ */
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
@@ -4,9 +4,14 @@ import { IConfigService } from '../services/interfaces/IConfigService';
 import { IFileService } from '../services/interfaces/IFileService';
 import { IMetadataService } from '../services/interfaces/IMetadataService';
 import { MemoType } from '../models/MemoType';
-import { MemoMetadata } from '../models/MemoMetadata';
+import { MemoMetadata, TreeViewDisplay, resolveTreeViewDisplay } from '../models/MemoMetadata';
 import { isValidMemoFile, extractFileNameWithoutExtension } from '../utils/fileUtils';
 import { MemoEvents } from '../events/MemoEvents';
+import { parseFrontmatter } from '../utils/frontmatterUtils';
+import { MemoEntry, listGroups, isInGroup, getShownMetadata, sortMemos } from '../utils/memoTreeUtils';
+
+// Key for the group/sort chosen from the view toolbar, which overrides config.json
+const DISPLAY_OVERRIDE_KEY = 'vsmemo.memoExplorerDisplay';
 
 export class MemoTreeItem extends vscode.TreeItem {
   constructor(
@@ -16,7 +21,9 @@ export class MemoTreeItem extends vscode.TreeItem {
     public readonly filePath?: string,
     public readonly lastModified?: Date,
     public readonly isDirectory?: boolean,
-    public readonly directoryPath?: string
+    public readonly directoryPath?: string,
+    public readonly group?: { field: string; value?: string },
+    shownMetadata: Array<{ field: string; value: string }> = []
   ) {
     super(label, collapsibleState);
 
@@ -29,9 +36,18 @@ export class MemoTreeItem extends vscode.TreeItem {
         arguments: [this.resourceUri]
       };
       this.contextValue = 'memoFile';
-      this.tooltip = `${label}\nLast modified: ${lastModified?.toLocaleString() || 'Unknown'}`;
-      this.description = lastModified?.toLocaleDateString();
+      const metadataLines = shownMetadata.map(({ field, value }) => `${field}: ${value}\n`).join('');
+      this.tooltip = `${label}\n${metadataLines}Last modified: ${lastModified?.toLocaleString() || 'Unknown'}`;
+      this.description = shownMetadata.length > 0
+        ? shownMetadata.map(({ value }) => value).join(' · ')
+        : lastModified?.toLocaleDateString();
       this.iconPath = new vscode.ThemeIcon('file');
+    } else if (group) {
+      // This is a group of memos sharing a metadata value
+      this.id = `memoGroup:${memoType?.id}:${group.field}:${group.value ?? ''}`;
+      this.contextValue = 'memoGroup';
+      this.tooltip = group.value !== undefined ? `${group.field}: ${group.value}` : `No ${group.field}`;
+      this.iconPath = new vscode.ThemeIcon(group.field === 'tags' ? 'tag' : 'symbol-field');
     } else if (isDirectory) {
       // This is a directory node
       this.contextValue = 'memoDirectory';
@@ -53,7 +69,8 @@ export class MemoTreeDataProvider implements vscode.TreeDataProvider<MemoTreeIte
   constructor(
     private configService: IConfigService,
     private fileService: IFileService,
-    private metadataService?: IMetadataService
+    private metadataService?: IMetadataService,
+    private viewState?: vscode.Memento
   ) {
     // Subscribe to memo events for auto-refresh
     const memoEvents = MemoEvents.getInstance();
@@ -66,6 +83,31 @@ export class MemoTreeDataProvider implements vscode.TreeDataProvider<MemoTreeIte
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Grouping and sorting chosen from the view toolbar; unset settings fall back to config.json
+   */
+  getDisplayOverride(): TreeViewDisplay {
+    return this.viewState?.get<TreeViewDisplay>(DISPLAY_OVERRIDE_KEY) || {};
+  }
+
+  async setDisplayOverride(display: TreeViewDisplay): Promise<void> {
+    await this.viewState?.update(DISPLAY_OVERRIDE_KEY, display);
+    this.refresh();
+  }
+
+  /**
+   * Fields worth grouping or sorting by: tags, schema fields and fields shown in the tree
+   */
+  async getKnownFields(): Promise<string[]> {
+    const config = await this.configService.loadConfig();
+    const fields = new Set<string>(['tags']);
+    for (const metadata of [config.metadata, ...config.memoTypes.map(memoType => memoType.metadata)]) {
+      Object.keys(metadata?.userSchema || {}).forEach(field => fields.add(field));
+      (metadata?.treeViewDisplay?.showMetadata || []).forEach(field => fields.add(field));
+    }
+    return Array.from(fields);
+  }
+
   getTreeItem(element: MemoTreeItem): vscode.TreeItem {
     return element;
   }
@@ -75,6 +117,9 @@ export class MemoTreeDataProvider implements vscode.TreeDataProvider<MemoTreeIte
       if (!element) {
         // Root level - show memo types
         return this.getMemoTypes();
+      } else if (element.group && element.memoType) {
+        // Show the memos in this group
+        return this.getGroupContents(element.memoType, element.group);
       } else if (element.memoType && !element.isDirectory) {
         // Show directory structure for this memo type
         return this.getDirectoryStructure(element.memoType);
@@ -107,23 +152,15 @@ export class MemoTreeDataProvider implements vscode.TreeDataProvider<MemoTreeIte
 
   private async getDirectoryStructure(memoType: MemoType): Promise<MemoTreeItem[]> {
     try {
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      if (!workspaceFolders || workspaceFolders.length === 0) {
-        return [];
-      }
-
-      const config = await this.configService.loadConfig();
-      const workspaceRoot = workspaceFolders[0].uri.fsPath;
-      const baseSearchPath = path.join(workspaceRoot, config.baseDir);
-      const memoTypeBaseDir = memoType.baseDir || '.';
-      const memoTypeBasePath = path.join(workspaceRoot, config.baseDir, memoTypeBaseDir);
+      const { memos, display } = await this.collectMemos(memoType);
 
-      // Collect all memos for this type to build directory structure
-      const memos: Array<{ filePath: string; title: string; lastModified: Date; relativePath: string }> = [];
-      await this.collectMemosWithPaths(baseSearchPath, memos, memoType, config.fileExtensions, baseSearchPath, memoTypeBasePath);
+      // Group by a metadata field instead of by directory when configured
+      if (display.groupBy) {
+        return this.buildGroups(memos, display.groupBy, memoType);
+      }
 
       // Build directory structure from collected memo paths
-      return this.buildDirectoryTree(memos, '', memoType);
+      return this.buildDirectoryTree(memos, '', memoType, display);
     } catch (error) {
       console.error(`Error loading directory structure for type ${memoType.name}:`, error);
       return [];
@@ -132,32 +169,51 @@ export class MemoTreeDataProvider implements vscode.TreeDataProvider<MemoTreeIte
 
   private async getDirectoryContents(memoType: MemoType, directoryPath: string): Promise<MemoTreeItem[]> {
     try {
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      if (!workspaceFolders || workspaceFolders.length === 0) {
-        return [];
-      }
-
-      const config = await this.configService.loadConfig();
-      const workspaceRoot = workspaceFolders[0].uri.fsPath;
-      const baseSearchPath = path.join(workspaceRoot, config.baseDir);
-      const memoTypeBaseDir = memoType.baseDir || '.';
-      const memoTypeBasePath = path.join(workspaceRoot, config.baseDir, memoTypeBaseDir);
-
-      // Collect all memos for this type
-      const memos: Array<{ filePath: string; title: string; lastModified: Date; relativePath: string }> = [];
-      await this.collectMemosWithPaths(baseSearchPath, memos, memoType, config.fileExtensions, baseSearchPath, memoTypeBasePath);
+      const { memos, display } = await this.collectMemos(memoType);
 
       // Build directory tree for the specific directory
-      return this.buildDirectoryTree(memos, directoryPath, memoType);
+      return this.buildDirectoryTree(memos, directoryPath, memoType, display);
     } catch (error) {
       console.error(`Error loading directory contents for ${directoryPath}:`, error);
       return [];
     }
   }
 
+  private async getGroupContents(memoType: MemoType, group: { field: string; value?: string }): Promise<MemoTreeItem[]> {
+    try {
+      const { memos, display } = await this.collectMemos(memoType);
+      const members = memos.filter(memo => isInGroup(memo, group.field, group.value));
+      return sortMemos(members, display).map(memo => this.createMemoItem(memo, display));
+    } catch (error) {
+      console.error(`Error loading memos for group ${group.field}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Collect every memo of a memo type, with the display settings that apply to it
+   */
+  private async collectMemos(memoType: MemoType): Promise<{ memos: MemoEntry[]; display: TreeViewDisplay }> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const config = await this.configService.loadConfig();
+    const display = { ...resolveTreeViewDisplay(config.metadata, memoType.metadata), ...this.getDisplayOverride() };
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+      return { memos: [], display };
+    }
+
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+    const baseSearchPath = path.join(workspaceRoot, config.baseDir);
+    const memoTypeBaseDir = memoType.baseDir || '.';
+    const memoTypeBasePath = path.join(workspaceRoot, config.baseDir, memoTypeBaseDir);
+
+    const memos: MemoEntry[] = [];
+    await this.collectMemosWithPaths(baseSearchPath, memos, memoType, config.fileExtensions, baseSearchPath, memoTypeBasePath);
+    return { memos, display };
+  }
+
   private async collectMemosWithPaths(
     dir: string,
-    memos: Array<{ filePath: string; title: string; lastModified: Date; relativePath: string }>,
+    memos: MemoEntry[],
     targetMemoType: MemoType,
     fileExtensions: string[],
     basePath: string,
@@ -191,7 +247,8 @@ export class MemoTreeDataProvider implements vscode.TreeDataProvider<MemoTreeIte
                 filePath: fullPath,
                 title,
                 lastModified: stats.lastModified,
-                relativePath
+                relativePath,
+                fields: { ...metadata.user, ...metadata.special, ...metadata.system }
               });
             }
           } catch (error) {
@@ -205,13 +262,14 @@ export class MemoTreeDataProvider implements vscode.TreeDataProvider<MemoTreeIte
   }
 
   private buildDirectoryTree(
-    memos: Array<{ filePath: string; title: string; lastModified: Date; relativePath: string }>,
+    memos: MemoEntry[],
     currentPath: string,
-    memoType: MemoType
+    memoType: MemoType,
+    display: TreeViewDisplay
   ): MemoTreeItem[] {
     const items: MemoTreeItem[] = [];
     const directories = new Set<string>();
-    const files: Array<{ filePath: string; title: string; lastModified: Date; relativePath: string }> = [];
+    const files: MemoEntry[] = [];
 
     // Filter memos for current directory level
     for (const memo of memos) {
@@ -260,65 +318,66 @@ export class MemoTreeDataProvider implements vscode.TreeDataProvider<MemoTreeIte
       ));
     }
 
-    // Add file items (sorted by last modified date, newest first)
-    files.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
-    for (const file of files) {
-      items.push(new MemoTreeItem(
-        file.title,
-        vscode.TreeItemCollapsibleState.None,
-        undefined,
-        file.filePath,
-        file.lastModified,
-        false
-      ));
+    // Add file items (by default sorted by last modified date, newest first)
+    for (const file of sortMemos(files, display)) {
+      items.push(this.createMemoItem(file, display));
     }
 
     return items;
   }
 
+  /**
+   * One group per value of the field; a memo with several values (e.g. tags) is in each of their groups
+   */
+  private buildGroups(memos: MemoEntry[], field: string, memoType: MemoType): MemoTreeItem[] {
+    return listGroups(memos, field).map(value => new MemoTreeItem(
+      value ?? `No ${field}`,
+      vscode.TreeItemCollapsibleState.Collapsed,
+      memoType,
+      undefined,
+      undefined,
+      false,
+      undefined,
+      { field, value }
+    ));
+  }
+
+  private createMemoItem(memo: MemoEntry, display: TreeViewDisplay): MemoTreeItem {
+    return new MemoTreeItem(
+      memo.title,
+      vscode.TreeItemCollapsibleState.None,
+      undefined,
+      memo.filePath,
+      memo.lastModified,
+      false,
+      undefined,
+      undefined,
+      getShownMetadata(memo, display)
+    );
+  }
+
   private extractMetadata(content: string): MemoMetadata | null {
     if (this.metadataService) {
       return this.metadataService.extractMetadata(content);
     }
 
     // Fallback to old behavior
-    const frontmatter = this.extractFrontmatter(content);
+    const frontmatter = parseFrontmatter(content) || {};
     if (!frontmatter.type) {
       return null;
     }
 
     // Convert to metadata structure
     return {
-      system: { type: frontmatter.type },
+      system: { type: String(frontmatter.type) },
       special: {
-        title: frontmatter.title,
-        tags: frontmatter.tags
+        title: typeof frontmatter.title === 'string' ? frontmatter.title : undefined,
+        tags: Array.isArray(frontmatter.tags) ? frontmatter.tags.map(String) : undefined
       },
       user: {}
     };
   }
 
-  private extractFrontmatter(content: string): Record<string, any> {
-    const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/);
-    if (!frontmatterMatch) {
-      return {};
-    }
-
-    const frontmatterText = frontmatterMatch[1];
-    const frontmatter: Record<string, any> = {};
-
-    for (const line of frontmatterText.split('\n')) {
-      const match = line.match(/^([^:]+):\s*(.*)$/);
-      if (match) {
-        const key = match[1].trim();
-        const value = match[2].trim();
-        frontmatter[key] = value;
-      }
-    }
-
-    return frontmatter;
-  }
-
   private extractTitle(
     content: string,
     metadata: MemoMetadata | Record<string, any>,
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MemoTreeItem } from './MemoTreeDataProvider';
+import { IConfigService } from '../services/interfaces/IConfigService';
+import { IFileService } from '../services/interfaces/IFileService';
+import { MoveDestination } from '../usecases/MoveMemoUseCase';
+import { parseFrontmatter } from '../utils/frontmatterUtils';
+
+// Tree drag and drop MIME types are the lower-cased view id
+const MEMO_MIME_TYPE = 'application/vnd.code.tree.vsmemoexplorer';
+
+/**
+ * Moves memos dragged onto a memo type, a folder or another memo in the memo explorer
+ */
+export class MemoTreeDragAndDropController implements vscode.TreeDragAndDropController<MemoTreeItem> {
+  readonly dragMimeTypes = [MEMO_MIME_TYPE];
+  readonly dropMimeTypes = [MEMO_MIME_TYPE];
+
+  constructor(
+    private configService: IConfigService,
+    private fileService: IFileService,
+    private workspaceRoot: string,
+    private moveMemos: (filePaths: string[], destination: MoveDestination) => Promise<void>
+  ) {}
+
+  handleDrag(source: readonly MemoTreeItem[], dataTransfer: vscode.DataTransfer): void {
+    const filePaths = source.filter(item => item.filePath && !item.isDirectory).map(item => item.filePath!);
+    if (filePaths.length > 0) {
+      dataTransfer.set(MEMO_MIME_TYPE, new vscode.DataTransferItem(filePaths));
+    }
+  }
+
+  async handleDrop(target: MemoTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    const transferItem = dataTransfer.get(MEMO_MIME_TYPE);
+    if (!target || !transferItem) {
+      return;
+    }
+
+    const destination = await this.getDestination(target);
+    const filePaths: string[] = transferItem.value;
+    if (!destination || filePaths.length === 0) {
+      return;
+    }
+
+    await this.moveMemos(filePaths.filter(filePath => filePath !== target.filePath), destination);
+  }
+
+  /**
+   * The folder and memo type a drop target stands for; groups have neither
+   */
+  private async getDestination(target: MemoTreeItem): Promise<MoveDestination | undefined> {
+    if (target.group) {
+      return undefined;
+    }
+
+    if (target.filePath && !target.isDirectory) {
+      // Next to the memo, with its type
+      const type = parseFrontmatter(await this.fileService.readFile(target.filePath))?.type;
+      return {
+        directory: path.dirname(target.filePath),
+        memoTypeId: typeof type === 'string' ? type : undefined
+      };
+    }
+
+    if (!target.memoType) {
+      return undefined;
+    }
+
+    const config = await this.configService.loadConfig();
+    const typeDir = path.join(this.workspaceRoot, config.baseDir, target.memoType.baseDir || '.');
+    return {
+      directory: target.isDirectory && target.directoryPath ? path.join(typeDir, target.directoryPath) : typeDir,
+      memoTypeId: target.memoType.id
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ISavedSearchService } from '../services/interfaces/ISavedSearchService';
+import { IMemoSearchService, MemoSearchResult } from '../services/interfaces/IMemoSearchService';
+import { SavedSearch } from '../models/SavedSearch';
+import { MemoEvents } from '../events/MemoEvents';
+
+// Results listed under each saved search
+const MAX_RESULTS = 100;
+
+// Coalesces bursts of memo events (e.g. a git pull) into one refresh
+const REFRESH_DELAY_MS = 500;
+
+export class SavedSearchTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly savedSearch?: SavedSearch,
+    public readonly result?: MemoSearchResult,
+    workspaceRoot?: string
+  ) {
+    super(label, collapsibleState);
+
+    if (savedSearch) {
+      // This is a saved search, expanded to its results
+      this.id = `savedSearch:${savedSearch.name}`;
+      this.contextValue = savedSearch.pinned ? 'pinnedSavedSearch' : 'savedSearch';
+      this.description = savedSearch.query;
+      this.tooltip = `${savedSearch.name}\n${savedSearch.query}`;
+      this.iconPath = new vscode.ThemeIcon(savedSearch.pinned ? 'pinned' : 'search');
+    } else if (result) {
+      // This is a matching memo
+      this.resourceUri = vscode.Uri.file(result.filePath);
+      this.command = {
+        command: 'vscode.open',
+        title: 'Open Memo',
+        arguments: [this.resourceUri]
+      };
+      this.contextValue = 'savedSearchResult';
+      this.description = workspaceRoot ? path.relative(workspaceRoot, path.dirname(result.filePath)) : undefined;
+      this.tooltip = `${label}\nLast modified: ${result.lastModified.toLocaleString()}`;
+      this.iconPath = new vscode.ThemeIcon('file');
+    }
+  }
+}
+
+export class SavedSearchesView implements vscode.TreeDataProvider<SavedSearchTreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData: vscode.EventEmitter<SavedSearchTreeItem | undefined | null | void> = new vscode.EventEmitter<SavedSearchTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<SavedSearchTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private disposables: vscode.Disposable[] = [];
+  private refreshTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private savedSearchService: ISavedSearchService,
+    private memoSearchService: IMemoSearchService,
+    private workspaceRoot: string
+  ) {
+    // Results are live, so any memo change may add or remove them
+    const memoEvents = MemoEvents.getInstance();
+    const scheduleRefresh = () => this.scheduleRefresh();
+    this.disposables.push(
+      memoEvents.onMemoCreated(scheduleRefresh),
+      memoEvents.onMemoDeleted(scheduleRefresh),
+      memoEvents.onMemoModified(scheduleRefresh)
+    );
+
+    // Saved searches may also be edited by hand or arrive with a git pull
+    const configWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(path.join(workspaceRoot, '.vsmemo'), 'config.json')
+    );
+    this.disposables.push(
+      configWatcher,
+      configWatcher.onDidCreate(scheduleRefresh),
+      configWatcher.onDidChange(scheduleRefresh),
+      configWatcher.onDidDelete(scheduleRefresh)
+    );
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
+
+  getTreeItem(element: SavedSearchTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: SavedSearchTreeItem): Promise<SavedSearchTreeItem[]> {
+    try {
+      if (!element) {
+        return this.getSavedSearchItems();
+      } else if (element.savedSearch) {
+        return this.getResultItems(element.savedSearch);
+      }
+      return [];
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+      return [new SavedSearchTreeItem('Failed to load saved searches', vscode.TreeItemCollapsibleState.None)];
+    }
+  }
+
+  private async getSavedSearchItems(): Promise<SavedSearchTreeItem[]> {
+    const savedSearches = await this.savedSearchService.getSavedSearches();
+    if (savedSearches.length === 0) {
+      return [new SavedSearchTreeItem('No saved searches. Use "Save Search" to add one.', vscode.TreeItemCollapsibleState.None)];
+    }
+
+    return savedSearches.map(savedSearch => new SavedSearchTreeItem(
+      savedSearch.name,
+      savedSearch.pinned ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+      savedSearch
+    ));
+  }
+
+  private async getResultItems(savedSearch: SavedSearch): Promise<SavedSearchTreeItem[]> {
+    const results = await this.memoSearchService.searchMemos(savedSearch.query, { limit: MAX_RESULTS });
+    if (results.length === 0) {
+      return [new SavedSearchTreeItem('No matching memos', vscode.TreeItemCollapsibleState.None)];
+    }
+
+    return results.map(result => new SavedSearchTreeItem(
+      result.title,
+      vscode.TreeItemCollapsibleState.None,
+      undefined,
+      result,
+      this.workspaceRoot
+    ));
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.refresh();
+    }, REFRESH_DELAY_MS);
+  }
+}
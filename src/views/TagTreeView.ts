@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ITagIndexService, MemoWithTags } from '../services/interfaces/ITagIndexService';
+import { MemoEvents } from '../events/MemoEvents';
+import { getTagName, getTagPath, getParentTag } from '../utils/tagUtils';
+
+// Coalesces bursts of memo events (e.g. a git pull) into one refresh
+const REFRESH_DELAY_MS = 500;
+
+export class TagTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly tag?: string,
+    public readonly memo?: MemoWithTags,
+    workspaceRoot?: string
+  ) {
+    super(label, collapsibleState);
+
+    if (memo) {
+      // This is a memo with the parent tag
+      this.resourceUri = vscode.Uri.file(memo.filePath);
+      this.command = {
+        command: 'vscode.open',
+        title: 'Open Memo',
+        arguments: [this.resourceUri]
+      };
+      this.contextValue = 'taggedMemo';
+      this.description = workspaceRoot ? path.relative(workspaceRoot, path.dirname(memo.filePath)) : undefined;
+      this.tooltip = `${label}\nTags: ${memo.tags.join(', ')}`;
+      this.iconPath = new vscode.ThemeIcon('file');
+    } else if (tag) {
+      // This is a tag, expanded to its child tags and memos
+      this.id = `tag:${tag}`;
+      this.contextValue = 'tag';
+      this.tooltip = tag;
+      this.iconPath = new vscode.ThemeIcon('tag');
+    }
+  }
+}
+
+export class TagTreeView implements vscode.TreeDataProvider<TagTreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData: vscode.EventEmitter<TagTreeItem | undefined | null | void> = new vscode.EventEmitter<TagTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<TagTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private disposables: vscode.Disposable[] = [];
+  private refreshTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private tagIndexService: ITagIndexService,
+    private workspaceRoot: string
+  ) {
+    // The tag index is updated by the file watcher, so refresh a little after memo changes
+    const memoEvents = MemoEvents.getInstance();
+    const scheduleRefresh = () => this.scheduleRefresh();
+    this.disposables.push(
+      memoEvents.onMemoCreated(scheduleRefresh),
+      memoEvents.onMemoDeleted(scheduleRefresh),
+      memoEvents.onMemoModified(scheduleRefresh)
+    );
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
+
+  getTreeItem(element: TagTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: TagTreeItem): Promise<TagTreeItem[]> {
+    try {
+      if (!element) {
+        const items = await this.getTagItems(undefined);
+        return items.length > 0
+          ? items
+          : [new TagTreeItem('No tags found in your memos.', vscode.TreeItemCollapsibleState.None)];
+      } else if (element.tag) {
+        return [...await this.getTagItems(element.tag), ...await this.getMemoItems(element.tag)];
+      }
+      return [];
+    } catch (error) {
+      console.error('Error loading tags:', error);
+      return [new TagTreeItem('Failed to load tags', vscode.TreeItemCollapsibleState.None)];
+    }
+  }
+
+  /**
+   * Tags directly below a tag (or the top-level tags), including levels only used as a prefix
+   */
+  private async getTagItems(parent: string | undefined): Promise<TagTreeItem[]> {
+    const children = new Set<string>();
+    for (const { tag } of await this.tagIndexService.getAllTags()) {
+      const child = getTagPath(tag).find(level => getParentTag(level) === parent);
+      if (child) {
+        children.add(child);
+      }
+    }
+
+    const items: TagTreeItem[] = [];
+    for (const tag of [...children].sort((a, b) => a.localeCompare(b))) {
+      const item = new TagTreeItem(getTagName(tag), vscode.TreeItemCollapsibleState.Collapsed, tag);
+      // Memos with the tag or any tag below it
+      item.description = String((await this.tagIndexService.getMemosByTag(tag)).length);
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Memos tagged with exactly this tag; memos with a child tag are listed under the child
+   */
+  private async getMemoItems(tag: string): Promise<TagTreeItem[]> {
+    const memos = await this.tagIndexService.getMemosByTag(tag);
+    return memos
+      .filter(memo => memo.tags.includes(tag))
+      .map(memo => new TagTreeItem(
+        memo.title,
+        vscode.TreeItemCollapsibleState.None,
+        undefined,
+        memo,
+        this.workspaceRoot
+      ));
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.refresh();
+    }, REFRESH_DELAY_MS);
+  }
+}
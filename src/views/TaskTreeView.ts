@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ITaskIndexService } from '../services/interfaces/ITaskIndexService';
+import { MemoTask, TaskPriority } from '../models/MemoTask';
+import { MemoEvents } from '../events/MemoEvents';
+import { formatDate } from '../utils/dateUtils';
+
+export type TaskGroupBy = 'memo' | 'due' | 'tag';
+
+const GROUP_BY_KEY = 'vsmemo.taskViewGroupBy';
+
+// Coalesces bursts of memo events (e.g. a git pull) into one refresh
+const REFRESH_DELAY_MS = 500;
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+const PRIORITY_ICONS: Record<TaskPriority, string> = { high: '⏫', medium: '🔼', low: '🔽' };
+
+export class TaskTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly tasks: MemoTask[] = [],
+    public readonly task?: MemoTask
+  ) {
+    super(label, collapsibleState);
+
+    if (task) {
+      // This is a task, checked off in place
+      this.checkboxState = task.completed
+        ? vscode.TreeItemCheckboxState.Checked
+        : vscode.TreeItemCheckboxState.Unchecked;
+      this.command = {
+        command: 'vscode.open',
+        title: 'Open Task',
+        arguments: [vscode.Uri.file(task.filePath), { selection: new vscode.Range(task.line, 0, task.line, 0) }]
+      };
+      this.contextValue = 'task';
+      this.description = [task.priority && PRIORITY_ICONS[task.priority], task.due && `📅 ${task.due}`]
+        .filter(part => part)
+        .join(' ');
+      this.tooltip = `${task.text}\n${task.memoTitle}, line ${task.line + 1}`;
+    } else if (tasks.length > 0) {
+      // This is a group of tasks
+      this.contextValue = 'taskGroup';
+      this.description = String(tasks.length);
+    }
+  }
+}
+
+export class TaskTreeView implements vscode.TreeDataProvider<TaskTreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData: vscode.EventEmitter<TaskTreeItem | undefined | null | void> = new vscode.EventEmitter<TaskTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<TaskTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private disposables: vscode.Disposable[] = [];
+  private refreshTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private taskIndexService: ITaskIndexService,
+    private workspaceRoot: string,
+    private viewState?: vscode.Memento
+  ) {
+    // The task index is updated by the file watcher before memo events fire
+    const memoEvents = MemoEvents.getInstance();
+    const scheduleRefresh = () => this.scheduleRefresh();
+    this.disposables.push(
+      memoEvents.onMemoCreated(scheduleRefresh),
+      memoEvents.onMemoDeleted(scheduleRefresh),
+      memoEvents.onMemoModified(scheduleRefresh)
+    );
+  }
+
+  getGroupBy(): TaskGroupBy {
+    return this.viewState?.get<TaskGroupBy>(GROUP_BY_KEY) || 'memo';
+  }
+
+  async setGroupBy(groupBy: TaskGroupBy): Promise<void> {
+    await this.viewState?.update(GROUP_BY_KEY, groupBy);
+    this.refresh();
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
+
+  getTreeItem(element: TaskTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: TaskTreeItem): Promise<TaskTreeItem[]> {
+    try {
+      if (element) {
+        return element.tasks.map(task => new TaskTreeItem(task.text, vscode.TreeItemCollapsibleState.None, [], task));
+      }
+
+      const tasks = await this.taskIndexService.getTasks();
+      if (tasks.length === 0) {
+        return [new TaskTreeItem('No open tasks', vscode.TreeItemCollapsibleState.None)];
+      }
+      return this.groupTasks(tasks);
+    } catch (error) {
+      console.error('Error loading tasks:', error);
+      return [new TaskTreeItem('Failed to load tasks', vscode.TreeItemCollapsibleState.None)];
+    }
+  }
+
+  private groupTasks(tasks: MemoTask[]): TaskTreeItem[] {
+    switch (this.getGroupBy()) {
+      case 'due':
+        return this.groupByDueDate(tasks);
+      case 'tag':
+        return this.groupByTag(tasks);
+      default:
+        return this.groupByMemo(tasks);
+    }
+  }
+
+  private groupByMemo(tasks: MemoTask[]): TaskTreeItem[] {
+    const groups = new Map<string, MemoTask[]>();
+    for (const task of tasks) {
+      groups.set(task.filePath, [...groups.get(task.filePath) || [], task]);
+    }
+
+    return [...groups.entries()].map(([filePath, memoTasks]) => {
+      const item = new TaskTreeItem(memoTasks[0].memoTitle, vscode.TreeItemCollapsibleState.Expanded, memoTasks);
+      item.id = `taskMemo:${filePath}`;
+      item.resourceUri = vscode.Uri.file(filePath);
+      item.description = `${memoTasks.length} · ${path.relative(this.workspaceRoot, path.dirname(filePath)) || '.'}`;
+      return item;
+    });
+  }
+
+  private groupByDueDate(tasks: MemoTask[]): TaskTreeItem[] {
+    const today = formatDate(new Date());
+    const groups: Array<{ label: string; tasks: MemoTask[] }> = [
+      { label: 'Overdue', tasks: [] },
+      { label: 'Today', tasks: [] },
+      { label: 'Upcoming', tasks: [] },
+      { label: 'No Due Date', tasks: [] }
+    ];
+
+    for (const task of tasks) {
+      if (!task.due) {
+        groups[3].tasks.push(task);
+      } else {
+        groups[task.due < today ? 0 : task.due === today ? 1 : 2].tasks.push(task);
+      }
+    }
+
+    return groups
+      .filter(group => group.tasks.length > 0)
+      .map(group => {
+        const sorted = [...group.tasks].sort((a, b) => (a.due || '').localeCompare(b.due || '') || comparePriority(a, b));
+        const item = new TaskTreeItem(group.label, vscode.TreeItemCollapsibleState.Expanded, sorted);
+        item.id = `taskDue:${group.label}`;
+        item.iconPath = new vscode.ThemeIcon(group.label === 'Overdue' ? 'warning' : 'calendar');
+        return item;
+      });
+  }
+
+  private groupByTag(tasks: MemoTask[]): TaskTreeItem[] {
+    const groups = new Map<string, MemoTask[]>();
+    const untagged: MemoTask[] = [];
+    for (const task of tasks) {
+      if (task.tags.length === 0) {
+        untagged.push(task);
+      }
+      // A task with several tags is listed under each
+      for (const tag of task.tags) {
+        groups.set(tag, [...groups.get(tag) || [], task]);
+      }
+    }
+
+    const items = [...groups.keys()].sort((a, b) => a.localeCompare(b)).map(tag => {
+      const item = new TaskTreeItem(`#${tag}`, vscode.TreeItemCollapsibleState.Collapsed, [...groups.get(tag)!].sort(comparePriority));
+      item.id = `taskTag:${tag}`;
+      item.iconPath = new vscode.ThemeIcon('tag');
+      return item;
+    });
+    if (untagged.length > 0) {
+      items.push(new TaskTreeItem('Untagged', vscode.TreeItemCollapsibleState.Collapsed, untagged));
+    }
+    return items;
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.refresh();
+    }, REFRESH_DELAY_MS);
+  }
+}
+
+/**
+ * Higher priority first; tasks without a priority last
+ */
+function comparePriority(a: MemoTask, b: MemoTask): number {
+  return (a.priority ? PRIORITY_ORDER[a.priority] : 3) - (b.priority ? PRIORITY_ORDER[b.priority] : 3);
+}
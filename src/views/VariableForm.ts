@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Variable } from '../models/Variable';
+import { VsCodeConfigService } from '../services/implementations/VsCodeConfigService';
+import { VsCodeFileService } from '../services/implementations/VsCodeFileService';
+import { IBacklinkService } from '../services/interfaces/IBacklinkService';
+import { validateVariableValue } from '../utils/variableUtils';
+import { formatWikiLink } from '../utils/linkUtils';
+
+// Returned by a step when its Back button is pressed
+const BACK = Symbol('back');
+type StepResult = string | typeof BACK | undefined;
+
+interface StepOptions {
+  title: string;
+  step: number;
+  totalSteps: number;
+  /** The earlier answer, or the default */
+  value: string;
+}
+
+interface ValueItem extends vscode.QuickPickItem {
+  value: string;
+}
+
+/**
+ * Ask for variables one step at a time in a single QuickInput. Each step starts from the
+ * earlier answer or the default, and Back returns to the previous step.
+ * @param backlinkService Memos and titles for memoLink variables, taken from its index
+ * @returns Answers by variable name, or undefined if cancelled
+ */
+export async function showVariableForm(
+  variables: Variable[],
+  title = 'Create Memo',
+  backlinkService?: IBacklinkService
+): Promise<Record<string, string> | undefined> {
+  const answers: Record<string, string> = {};
+  let memoLinks: ValueItem[] | undefined;
+
+  let step = 0;
+  while (step < variables.length) {
+    const variable = variables[step];
+    const options: StepOptions = {
+      title,
+      step: step + 1,
+      totalSteps: variables.length,
+      value: answers[variable.name] ?? variable.default ?? ''
+    };
+
+    let result: StepResult;
+    switch (variable.type) {
+      case 'choice':
+        result = await pickStep(variable, options, toItems(variable.options || [], variable), false);
+        break;
+      case 'multiselect':
+        result = await pickStep(variable, options, toItems(variable.options || []), true);
+        break;
+      case 'boolean':
+        result = await pickStep(variable, options, [{ label: 'Yes', value: 'true' }, { label: 'No', value: 'false' }], false);
+        break;
+      case 'memoLink':
+        memoLinks = memoLinks || await listMemoLinks(backlinkService);
+        result = await pickStep(variable, options, variable.required ? memoLinks : [noneItem(), ...memoLinks], false);
+        break;
+      default:
+        result = await inputStep(variable, options);
+    }
+
+    if (result === undefined) {
+      return undefined;
+    }
+    if (result === BACK) {
+      step--;
+      continue;
+    }
+    answers[variable.name] = result;
+    step++;
+  }
+
+  return answers;
+}
+
+function toItems(values: string[], optional?: Variable): ValueItem[] {
+  const items = values.map(value => ({ label: value, value }));
+  // A choice that is not required can be left empty
+  return optional && !optional.required ? [noneItem(), ...items] : items;
+}
+
+function noneItem(): ValueItem {
+  return { label: '(none)', value: '' };
+}
+
+function inputStep(variable: Variable, options: StepOptions): Promise<StepResult> {
+  const inputBox = vscode.window.createInputBox();
+  inputBox.title = options.title;
+  inputBox.step = options.step;
+  inputBox.totalSteps = options.totalSteps;
+  inputBox.value = options.value;
+  inputBox.prompt = variable.description ? `Enter ${variable.description}` : `Enter value for ${variable.name}`;
+  inputBox.placeholder = variable.type === 'date' ? 'YYYY-MM-DD, today, tomorrow, +3d' : variable.default || '';
+  inputBox.buttons = options.step > 1 ? [vscode.QuickInputButtons.Back] : [];
+
+  return new Promise(resolve => {
+    let result: StepResult;
+    inputBox.onDidChangeValue(value => {
+      inputBox.validationMessage = validateVariableValue(variable, value);
+    });
+    inputBox.onDidTriggerButton(() => {
+      result = BACK;
+      inputBox.hide();
+    });
+    inputBox.onDidAccept(() => {
+      const message = validateVariableValue(variable, inputBox.value);
+      if (message) {
+        inputBox.validationMessage = message;
+        return;
+      }
+      result = inputBox.value;
+      inputBox.hide();
+    });
+    inputBox.onDidHide(() => {
+      inputBox.dispose();
+      resolve(result);
+    });
+    inputBox.show();
+  });
+}
+
+function pickStep(variable: Variable, options: StepOptions, items: ValueItem[], canPickMany: boolean): Promise<StepResult> {
+  const quickPick = vscode.window.createQuickPick<ValueItem>();
+  quickPick.title = options.title;
+  quickPick.step = options.step;
+  quickPick.totalSteps = options.totalSteps;
+  quickPick.placeholder = `Select ${variable.description || variable.name}`;
+  quickPick.items = items;
+  quickPick.canSelectMany = canPickMany;
+  quickPick.matchOnDescription = true;
+  quickPick.buttons = options.step > 1 ? [vscode.QuickInputButtons.Back] : [];
+
+  if (canPickMany) {
+    const selected = options.value.split(',').map(value => value.trim());
+    quickPick.selectedItems = items.filter(item => selected.includes(item.value));
+  } else {
+    quickPick.activeItems = items.filter(item => item.value === options.value);
+  }
+
+  return new Promise(resolve => {
+    let result: StepResult;
+    quickPick.onDidTriggerButton(() => {
+      result = BACK;
+      quickPick.hide();
+    });
+    quickPick.onDidAccept(() => {
+      const picked = canPickMany ? quickPick.selectedItems : quickPick.activeItems.slice(0, 1);
+      const value = picked.map(item => item.value).join(', ');
+      const message = validateVariableValue(variable, value);
+      if (message) {
+        quickPick.placeholder = message;
+        return;
+      }
+      result = value;
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      quickPick.dispose();
+      resolve(result);
+    });
+    quickPick.show();
+  });
+}
+
+/**
+ * Memos as wiki links, with the path below the memo base directory as the target.
+ * Memos and titles come from the backlink index, which the file watcher keeps current.
+ */
+async function listMemoLinks(backlinkService?: IBacklinkService): Promise<ValueItem[]> {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspaceRoot || !backlinkService) {
+    return [];
+  }
+
+  const config = await new VsCodeConfigService(new VsCodeFileService()).loadConfig();
+  const baseDir = path.join(workspaceRoot, config.baseDir);
+
+  return backlinkService.getMemoFiles()
+    .map(({ filePath, title }) => {
+      const relativePath = path.relative(baseDir, filePath).replace(/\\/g, '/');
+      const target = relativePath.replace(/\.[^./]+$/, '');
+      const label = title?.trim() || path.basename(target);
+      return { label, description: relativePath, value: formatWikiLink(target, label) };
+    })
+    .sort((a, b) => a.description.localeCompare(b.description));
+}